@@ -0,0 +1,78 @@
+// Template field inventory and drift check for the bundled PDF templates
+//
+// Usage:
+//   node checkTemplateFields.mjs                      Check every bundled template against its mapping schema
+//   node checkTemplateFields.mjs <formType> [pdf]     Check one form type, optionally against a revised PDF
+//   node checkTemplateFields.mjs --list <formType> [pdf]   Print the template's field inventory
+//   node checkTemplateFields.mjs --json ...           Print results as JSON
+//
+// Exits with code 1 when a template has drifted in a way that breaks filling.
+import fs from 'fs';
+import path from 'path';
+import { runnerImport } from 'vite';
+
+const args = process.argv.slice(2);
+const listOnly = args.includes('--list');
+const asJson = args.includes('--json');
+const [formTypeArg, pdfPathArg] = args.filter(arg => !arg.startsWith('--'));
+
+// Load the TypeScript module through Vite so the CLI and the app share one implementation
+const { module: inventory } = await runnerImport('./src/utils/PDF/templateFieldInventory.ts', {
+  configFile: false,
+  logLevel: 'error'
+});
+const { TEMPLATE_SCHEMAS, getTemplateFieldInventory, diffTemplateFields, hasBreakingTemplateDrift } = inventory;
+
+const formTypes = formTypeArg ? [formTypeArg] : Object.keys(TEMPLATE_SCHEMAS);
+const unknownFormType = formTypes.find(formType => !TEMPLATE_SCHEMAS[formType]);
+if (unknownFormType) {
+  console.error(`Unknown form type "${unknownFormType}". Expected one of: ${Object.keys(TEMPLATE_SCHEMAS).join(', ')}`);
+  process.exit(2);
+}
+
+const formatRect = rect => rect
+  ? `${rect.x.toFixed(1)},${rect.y.toFixed(1)} ${rect.width.toFixed(1)}x${rect.height.toFixed(1)}`
+  : '-';
+
+let hasBreakingDrift = false;
+const results = {};
+
+for (const formType of formTypes) {
+  const schema = TEMPLATE_SCHEMAS[formType];
+  const pdfPath = pdfPathArg || path.join('public', schema.template);
+  const fields = await getTemplateFieldInventory(fs.readFileSync(pdfPath));
+
+  if (listOnly) {
+    results[formType] = { pdfPath, fields };
+    if (!asJson) {
+      console.log(`\n${formType}: ${pdfPath} (${fields.length} fields)`);
+      fields.forEach(field => {
+        const maxLength = field.maxLength !== undefined ? ` max ${field.maxLength}` : '';
+        console.log(`  p${field.page ?? '?'}  ${field.type.padEnd(14)} ${formatRect(field.rect).padEnd(26)} ${field.name}${maxLength}`);
+      });
+    }
+    continue;
+  }
+
+  const drift = diffTemplateFields(schema, fields);
+  const isBreaking = hasBreakingTemplateDrift(drift);
+  hasBreakingDrift = hasBreakingDrift || isBreaking;
+  results[formType] = { pdfPath, ...drift };
+
+  if (!asJson) {
+    console.log(`\n${isBreaking ? '❌' : '✅'} ${formType}: ${pdfPath} against the ${schema.name} mapping (${schema.template})`);
+    drift.missingFields.forEach(name => console.log(`  missing from PDF:     ${name}`));
+    drift.typeMismatches.forEach(({ name, expected, actual }) => console.log(`  type changed:         ${name} (expected ${expected}, got ${actual})`));
+    drift.maxLengthConflicts.forEach(({ name, schemaMaxLength, pdfMaxLength }) =>
+      console.log(`  max length conflict:  ${name} (mapping allows ${schemaMaxLength ?? 'any length'}, PDF allows ${pdfMaxLength})`));
+    if (drift.unmappedFields.length > 0) {
+      console.log(`  ${drift.unmappedFields.length} PDF fields are not mapped: ${drift.unmappedFields.join(', ')}`);
+    }
+  }
+}
+
+if (asJson) {
+  console.log(JSON.stringify(results, null, 2));
+}
+
+process.exit(hasBreakingDrift ? 1 : 0);
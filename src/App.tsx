@@ -1,6 +1,8 @@
 import './App.css';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { FederalTimeTable } from './components/FederalTimeTable';
+import { ODFTimeTable } from './components/ODFTimeTable';
+import { EESTTimeTable } from './components/EESTTimeTable';
 import PDFSigning from './pages/PDFSigning';
 
 function App() {
@@ -9,6 +11,8 @@ function App() {
       <div className="app">
         <Routes>
           <Route path="/" element={<FederalTimeTable />} />
+          <Route path="/eest" element={<EESTTimeTable />} />
+          <Route path="/odf" element={<ODFTimeTable />} />
           <Route path="/pdf-signing" element={<PDFSigning />} />
         </Routes>
       </div>
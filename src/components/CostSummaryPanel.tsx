@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { FederalEquipmentEntry } from '../utils/engineTimeDB';
+import { getTicketRateSchedule, setTicketRateSchedule } from '../utils/engineTimeDB';
+import type { RoundingPolicy } from '../utils/billingRounding';
+import type { RateSchedule, RateUnit, IncidentCostEstimate } from '../utils/rateSchedule';
+import { EMPTY_RATE_SCHEDULE, estimateIncidentCost, formatCurrency } from '../utils/rateSchedule';
+
+// CostSummaryPanel object properties
+interface CostSummaryPanelProps {
+  ticketId: number | null;
+  equipmentEntries: FederalEquipmentEntry[];  // Entries being edited (priced with the stored history)
+  roundingPolicy: RoundingPolicy;
+  currentSelectedDate: string;
+}
+
+// Standard rates and their labels
+const STANDARD_RATE_FIELDS: { field: 'hourlyRate' | 'dailyRate' | 'mileageRate'; label: string }[] = [
+  { field: 'hourlyRate', label: 'Hourly ($/hr)' },
+  { field: 'dailyRate', label: 'Daily ($/day)' },
+  { field: 'mileageRate', label: 'Mileage ($/mi)' }
+];
+
+const RATE_UNITS: RateUnit[] = ['HOURS', 'DAYS', 'MILES'];
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ced4da',
+  borderRadius: '6px',
+  fontSize: '14px',
+  width: '100%',
+  boxSizing: 'border-box'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#ffffff',
+  color: '#007bff',
+  border: '1px solid #007bff',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: '8px',
+  padding: '4px 0',
+  fontSize: '13px',
+  color: '#495057'
+};
+
+// Export function CostSummaryPanel and properties
+export const CostSummaryPanel: React.FC<CostSummaryPanelProps> = ({ ticketId, equipmentEntries, roundingPolicy, currentSelectedDate }) => {
+  // Panel state
+  const [isOpen, setIsOpen] = useState(false);
+  const [isEditingRates, setIsEditingRates] = useState(false);
+  // Rates of the ticket and the rates being edited
+  const [rateSchedule, setRateSchedule] = useState<RateSchedule>(EMPTY_RATE_SCHEDULE);
+  const [draft, setDraft] = useState<RateSchedule>(EMPTY_RATE_SCHEDULE);
+  // Cost estimate of the ticket and its incident
+  const [estimate, setEstimate] = useState<IncidentCostEstimate | null>(null);
+
+  const refreshEstimate = useCallback(async () => {
+    if (ticketId === null) return;
+    try {
+      setEstimate(await estimateIncidentCost(ticketId, equipmentEntries, roundingPolicy));
+    } catch (error) {
+      console.error('Error estimating cost:', error);
+    }
+  }, [ticketId, equipmentEntries, roundingPolicy]);
+
+  // Load the ticket's rates
+  useEffect(() => {
+    if (ticketId === null) return;
+    getTicketRateSchedule(ticketId)
+      .then(schedule => setRateSchedule(schedule ?? EMPTY_RATE_SCHEDULE))
+      .catch(error => console.error('Error loading rate schedule:', error));
+  }, [ticketId]);
+
+  // Keep a running estimate while the panel is open
+  useEffect(() => {
+    if (isOpen) {
+      refreshEstimate();
+    }
+  }, [isOpen, refreshEstimate]);
+
+  // Save the rates being edited
+  const handleSaveRates = async () => {
+    if (ticketId === null) return;
+    const schedule = {
+      ...draft,
+      specialRates: draft.specialRates.filter(special => special.code.trim() !== '')
+    };
+    try {
+      await setTicketRateSchedule(ticketId, schedule);
+      setRateSchedule(schedule);
+      setIsEditingRates(false);
+      await refreshEstimate();
+    } catch (error) {
+      console.error('Error saving rate schedule:', error);
+      alert('Failed to save the rates. Please try again.');
+    }
+  };
+
+  const updateSpecialRate = (index: number, changes: Partial<RateSchedule['specialRates'][number]>) => {
+    setDraft({
+      ...draft,
+      specialRates: draft.specialRates.map((special, idx) => (idx === index ? { ...special, ...changes } : special))
+    });
+  };
+
+  const dateEntries = estimate?.ticket.entries.filter(cost => cost.date === currentSelectedDate) || [];
+
+  return (
+    <div style={{
+      marginBottom: '20px',
+      padding: '12px',
+      border: '1px solid #e9ecef',
+      borderRadius: '8px',
+      backgroundColor: '#f8f9fa'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <span style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+          💲 Cost Estimate{estimate && isOpen ? `: ${formatCurrency(estimate.ticket.total)}` : ''}
+        </span>
+        <button onClick={() => setIsOpen(!isOpen)} style={smallButtonStyle}>
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {/* Rates */}
+          {isEditingRates ? (
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '8px',
+              padding: '12px',
+              backgroundColor: '#ffffff',
+              border: '1px solid #007bff',
+              borderRadius: '6px'
+            }}>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '8px' }}>
+                {STANDARD_RATE_FIELDS.map(({ field, label }) => (
+                  <label key={field} style={{ fontSize: '12px', fontWeight: '600', color: '#495057' }}>
+                    {label}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={draft[field]}
+                      onChange={(e) => setDraft({ ...draft, [field]: Number(e.target.value) || 0 })}
+                      style={inputStyle}
+                    />
+                  </label>
+                ))}
+              </div>
+              <div style={{ fontSize: '12px', fontWeight: '600', color: '#495057' }}>
+                Special rates (used when an entry's Type matches the code)
+              </div>
+              {draft.specialRates.map((special, index) => (
+                <div key={index} style={{ display: 'grid', gridTemplateColumns: '1fr 2fr 1fr 1fr auto', gap: '6px' }}>
+                  <input
+                    type="text"
+                    placeholder="Code"
+                    value={special.code}
+                    onChange={(e) => updateSpecialRate(index, { code: e.target.value })}
+                    style={inputStyle}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Label (e.g. Standby)"
+                    value={special.label}
+                    onChange={(e) => updateSpecialRate(index, { label: e.target.value })}
+                    style={inputStyle}
+                  />
+                  <select
+                    value={special.unit}
+                    onChange={(e) => updateSpecialRate(index, { unit: e.target.value as RateUnit })}
+                    style={inputStyle}
+                  >
+                    {RATE_UNITS.map(unit => (
+                      <option key={unit} value={unit}>{unit.toLowerCase()}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={special.rate}
+                    onChange={(e) => updateSpecialRate(index, { rate: Number(e.target.value) || 0 })}
+                    style={inputStyle}
+                  />
+                  <button
+                    onClick={() => setDraft({ ...draft, specialRates: draft.specialRates.filter((_, idx) => idx !== index) })}
+                    style={{ ...smallButtonStyle, color: '#dc3545', borderColor: '#dc3545' }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                <button
+                  onClick={() => setDraft({ ...draft, specialRates: [...draft.specialRates, { code: '', label: '', unit: 'HOURS', rate: 0 }] })}
+                  style={smallButtonStyle}
+                >
+                  ＋ Special Rate
+                </button>
+                <button onClick={handleSaveRates} style={{ ...smallButtonStyle, backgroundColor: '#007bff', color: '#ffffff' }}>
+                  Save Rates
+                </button>
+                <button onClick={() => setIsEditingRates(false)} style={smallButtonStyle}>Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', flexWrap: 'wrap' }}>
+              <span style={{ fontSize: '13px', color: '#6c757d' }}>
+                {[
+                  `${formatCurrency(rateSchedule.hourlyRate)}/hr`,
+                  `${formatCurrency(rateSchedule.dailyRate)}/day`,
+                  `${formatCurrency(rateSchedule.mileageRate)}/mi`,
+                  ...rateSchedule.specialRates.map(special => `${special.label || special.code} ${formatCurrency(special.rate)}`)
+                ].join(' · ')}
+              </span>
+              <button
+                onClick={() => {
+                  setDraft(rateSchedule);
+                  setIsEditingRates(true);
+                }}
+                style={smallButtonStyle}
+              >
+                Edit Rates
+              </button>
+            </div>
+          )}
+
+          {estimate && (
+            <>
+              {/* Entries of the selected date */}
+              <div style={{ padding: '8px 12px', backgroundColor: '#ffffff', border: '1px solid #e9ecef', borderRadius: '6px' }}>
+                <div style={{ fontSize: '13px', fontWeight: '600', color: '#2c3e50' }}>Entries on {currentSelectedDate}</div>
+                {dateEntries.length === 0 && <div style={rowStyle}>No equipment time entered</div>}
+                {dateEntries.map((cost, index) => (
+                  <div key={index} style={rowStyle}>
+                    <span>
+                      {cost.rateLabel}: {cost.quantity.toFixed(2)} {cost.unit.toLowerCase()} × {formatCurrency(cost.rate)}
+                      {cost.issue && <span style={{ color: '#856404' }}> ⚠️ {cost.issue}</span>}
+                    </span>
+                    <span>{formatCurrency(cost.amount)}</span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Days */}
+              <div style={{ padding: '8px 12px', backgroundColor: '#ffffff', border: '1px solid #e9ecef', borderRadius: '6px' }}>
+                <div style={{ fontSize: '13px', fontWeight: '600', color: '#2c3e50' }}>By day</div>
+                {estimate.ticket.days.map(day => (
+                  <div key={day.date} style={{ ...rowStyle, fontWeight: day.date === currentSelectedDate ? '600' : 'normal' }}>
+                    <span>{day.date}</span>
+                    <span>{formatCurrency(day.amount)}</span>
+                  </div>
+                ))}
+                <div style={{ ...rowStyle, borderTop: '1px solid #e9ecef', fontWeight: '600', color: '#2c3e50' }}>
+                  <span>Ticket total</span>
+                  <span>{formatCurrency(estimate.ticket.total)}</span>
+                </div>
+                <div style={{ ...rowStyle, fontWeight: '600', color: '#2c3e50' }}>
+                  <span>Incident total ({estimate.incidentTicketCount} {estimate.incidentTicketCount === 1 ? 'ticket' : 'tickets'})</span>
+                  <span>{formatCurrency(estimate.incidentTotal)}</span>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CrewMember, FederalPersonnelEntry } from '../utils/engineTimeDB';
+import { loadFederalPersonnelHistory } from '../utils/engineTimeDB';
+import { getCrewHoursHistory } from '../utils/crewRoster';
+
+// CrewRosterPanel object properties
+interface CrewRosterPanelProps {
+  crewMembers: CrewMember[];
+  onSaveMember: (member: Omit<CrewMember, 'createdAt' | 'updatedAt'> & Partial<Pick<CrewMember, 'createdAt'>>) => Promise<void>;
+  onRemoveMember: (id: number) => Promise<void>;
+}
+
+// Crew member being edited - no ID while adding a new member
+type CrewDraft = Pick<CrewMember, 'name' | 'qualification' | 'defaultRole'> & { id?: number; createdAt?: number };
+
+// Editable crew member fields and their labels
+const CREW_FIELDS: { field: keyof Pick<CrewMember, 'name' | 'qualification' | 'defaultRole'>; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'qualification', label: 'Qualification' },
+  { field: 'defaultRole', label: 'Default Role' }
+];
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ced4da',
+  borderRadius: '6px',
+  fontSize: '14px',
+  width: '100%',
+  boxSizing: 'border-box'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#ffffff',
+  color: '#007bff',
+  border: '1px solid #007bff',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+// Export function CrewRosterPanel and properties
+export const CrewRosterPanel: React.FC<CrewRosterPanelProps> = ({ crewMembers, onSaveMember, onRemoveMember }) => {
+  // Panel state
+  const [isOpen, setIsOpen] = useState(false);
+  // Crew member being added or edited
+  const [draft, setDraft] = useState<CrewDraft | null>(null);
+  // Crew member whose hours are expanded
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // Personnel entries of every ticket, for the hours history
+  const [personnelHistory, setPersonnelHistory] = useState<FederalPersonnelEntry[]>([]);
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setPersonnelHistory(await loadFederalPersonnelHistory());
+    } catch (error) {
+      console.error('Error loading personnel history:', error);
+    }
+  }, []);
+
+  // Reload the hours every time the panel is opened, so they include today's edits
+  useEffect(() => {
+    if (isOpen) {
+      refreshHistory();
+    }
+  }, [isOpen, refreshHistory]);
+
+  // Save the crew member being edited
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      alert('Please enter a name.');
+      return;
+    }
+
+    try {
+      await onSaveMember(draft);
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving crew member:', error);
+      alert('Failed to save the crew member. Please try again.');
+    }
+  };
+
+  // Remove a crew member (their logged hours are kept)
+  const handleRemove = async (member: CrewMember) => {
+    if (!confirm(`Remove ${member.name} from the roster? Their logged hours are kept.`)) return;
+    try {
+      await onRemoveMember(member.id!);
+    } catch (error) {
+      console.error('Error removing crew member:', error);
+    }
+  };
+
+  return (
+    <div style={{
+      marginBottom: '20px',
+      padding: '12px',
+      border: '1px solid #e9ecef',
+      borderRadius: '8px',
+      backgroundColor: '#f8f9fa'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <span style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+          👥 Crew Roster ({crewMembers.length})
+        </span>
+        <button onClick={() => setIsOpen(!isOpen)} style={smallButtonStyle}>
+          {isOpen ? 'Done' : 'Manage'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <div>
+            <button onClick={() => setDraft({ name: '', qualification: '', defaultRole: '' })} style={smallButtonStyle}>
+              ＋ Add Crew Member
+            </button>
+          </div>
+
+          {crewMembers.map(member => {
+            const history = getCrewHoursHistory(personnelHistory, member.name);
+            const isExpanded = expandedId === member.id;
+            return (
+              <div key={member.id} style={{
+                padding: '8px 12px',
+                backgroundColor: '#ffffff',
+                border: '1px solid #e9ecef',
+                borderRadius: '6px'
+              }}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+                  <div style={{ fontSize: '14px', color: '#2c3e50' }}>
+                    <strong>{member.name}</strong>
+                    <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                      {[member.qualification, member.defaultRole && `Role: ${member.defaultRole}`, `${history.totalHours.toFixed(2)} hrs`]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </div>
+                  </div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : member.id!)}
+                      style={smallButtonStyle}
+                      disabled={history.days.length === 0}
+                    >
+                      Hours
+                    </button>
+                    <button onClick={() => setDraft({ ...member })} style={smallButtonStyle}>Edit</button>
+                    <button onClick={() => handleRemove(member)} style={{ ...smallButtonStyle, color: '#dc3545', borderColor: '#dc3545' }}>
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                {isExpanded && (
+                  <div style={{ marginTop: '8px', fontSize: '13px', color: '#495057' }}>
+                    {history.days.map(day => (
+                      <div key={day.date} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
+                        <span>{day.date}</span>
+                        <span>{day.hours.toFixed(2)} hrs</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {draft && (
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))',
+              gap: '8px',
+              padding: '12px',
+              backgroundColor: '#ffffff',
+              border: '1px solid #007bff',
+              borderRadius: '6px'
+            }}>
+              {CREW_FIELDS.map(({ field, label }) => (
+                <label key={field} style={{ fontSize: '12px', fontWeight: '600', color: '#495057' }}>
+                  {label}
+                  <input
+                    type="text"
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    style={inputStyle}
+                  />
+                </label>
+              ))}
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
+                <button onClick={handleSaveDraft} style={{ ...smallButtonStyle, backgroundColor: '#007bff', color: '#ffffff' }}>
+                  Save
+                </button>
+                <button onClick={() => setDraft(null)} style={smallButtonStyle}>Cancel</button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
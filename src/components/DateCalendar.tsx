@@ -1,15 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import '../styles/DateCalendar.css';
+import type { ContinuityIssue } from '../utils/ticketContinuity';
+import { getContinuityIssuesFor } from '../utils/ticketContinuity';
 
 // DateCalendar object properties
 interface DateCalendarProps {
   savedDates: string[];
   onDateSelect: (dateRange: string) => void;
   onClose: () => void;
+  // Cross-day problems, shown as a status on each date
+  continuityIssues?: ContinuityIssue[];
 }
 
 // Export function DateCalendar and properties
-export const DateCalendar: React.FC<DateCalendarProps> = ({ savedDates, onDateSelect, onClose }) => {
+export const DateCalendar: React.FC<DateCalendarProps> = ({ savedDates, onDateSelect, onClose, continuityIssues = [] }) => {
   // Current date state
   const [currentDate, setCurrentDate] = useState(new Date());
   // Selected date state
@@ -118,6 +122,22 @@ export const DateCalendar: React.FC<DateCalendarProps> = ({ savedDates, onDateSe
     return date.getMonth() === currentDate.getMonth();
   };
 
+  // get the status class of the date from its continuity issues
+  const getDateStatus = (date: Date) => {
+    const issues = getContinuityIssuesFor(continuityIssues, formatToMMDDYY(date));
+    if (issues.some(issue => issue.severity === 'error')) return 'has-error';
+    if (issues.length > 0) return 'has-warning';
+    return '';
+  };
+
+  // issues on the dates of the month being shown
+  const monthIssues = continuityIssues
+    .filter(issue => {
+      const [month, , year] = issue.date.split('/');
+      return parseInt(month, 10) - 1 === currentDate.getMonth() && 2000 + parseInt(year, 10) === currentDate.getFullYear();
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
   // Handles the rendering of the date calendar
   return (
     <div className="date-calendar-modal">
@@ -139,9 +159,10 @@ export const DateCalendar: React.FC<DateCalendarProps> = ({ savedDates, onDateSe
                 key={index}
                 className={`date-calendar-day ${
                   !isCurrentMonth(date) ? 'other-month' : ''
-                } ${isDateSaved(date) ? 'has-entry' : ''} ${
+                } ${isDateSaved(date) ? 'has-entry' : ''} ${getDateStatus(date)} ${
                   selectedDate?.toDateString() === date.toDateString() ? 'selected' : ''
                 }`}
+                title={getContinuityIssuesFor(continuityIssues, formatToMMDDYY(date)).map(issue => issue.message).join('\n') || undefined}
                 onClick={() => handleDateClick(date)}
               >
                 {date.getDate()}
@@ -149,6 +170,15 @@ export const DateCalendar: React.FC<DateCalendarProps> = ({ savedDates, onDateSe
             ))}
           </div>
         </div>
+        {monthIssues.length > 0 && (
+          <ul className="date-calendar-issues">
+            {monthIssues.map((issue, index) => (
+              <li key={index} className={`date-calendar-issue ${issue.severity}`}>
+                <strong>{issue.date}</strong> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
         <button className="date-calendar-close" onClick={onClose}>Close</button>
       </div>
     </div>
@@ -0,0 +1,138 @@
+import React from 'react';
+import { FormField } from '../FederalForm/FormField';
+import { FormSection, FormRow } from '../FederalForm/FormSection';
+import type { EESTFormData } from '../../utils/engineTimeDB';
+import { isIssuedField } from '../../utils/payloadSigning';
+
+// Form fields edited as plain strings
+export type EESTTextField = Exclude<
+  keyof EESTFormData,
+  'id' | 'formType' | 'remarksOptions' | 'customRemarks' | 'specialSelections' | 'contractorSignature' | 'governmentSignature' |
+  'issuedBy' | 'issuedFields'
+>;
+
+interface EESTFormFieldsProps {
+  formData: EESTFormData;
+  onChange: (field: EESTTextField, value: string) => void;
+}
+
+export const EESTFormFields: React.FC<EESTFormFieldsProps> = ({
+  formData,
+  onChange
+}) => {
+  // Fields filled by a signed link are read-only
+  const isLocked = (field: EESTTextField) => isIssuedField(formData, field);
+
+  return (
+    <>
+      {/* Basic Information Section */}
+      <FormSection title="Basic Information">
+        <FormRow columns={2}>
+          <FormField
+            label="1. Agreement Number"
+            value={formData.agreementNumber}
+            onChange={(val) => onChange('agreementNumber', val)}
+            readOnly={isLocked('agreementNumber')}
+            placeholder="Enter agreement number"
+          />
+          <FormField
+            label="2. Contractor Name"
+            value={formData.contractorAgencyName}
+            onChange={(val) => onChange('contractorAgencyName', val)}
+            readOnly={isLocked('contractorAgencyName')}
+            placeholder="Enter contractor name"
+          />
+        </FormRow>
+
+        <FormRow columns={2}>
+          <FormField
+            label="3. Incident or Project Name"
+            value={formData.incidentName}
+            onChange={(val) => onChange('incidentName', val)}
+            readOnly={isLocked('incidentName')}
+            placeholder="Enter incident name"
+          />
+          <FormField
+            label="4. Incident Number"
+            value={formData.incidentNumber}
+            onChange={(val) => onChange('incidentNumber', val)}
+            readOnly={isLocked('incidentNumber')}
+            placeholder="Enter incident number"
+          />
+        </FormRow>
+
+        <FormRow columns={2}>
+          <FormField
+            label="5. Operator Name"
+            value={formData.operatorName}
+            onChange={(val) => onChange('operatorName', val)}
+            readOnly={isLocked('operatorName')}
+            placeholder="Enter operator name"
+          />
+          <FormField
+            label="Resource Order #"
+            value={formData.resourceOrderNumber}
+            onChange={(val) => onChange('resourceOrderNumber', val)}
+            readOnly={isLocked('resourceOrderNumber')}
+            placeholder="Enter resource order number"
+          />
+        </FormRow>
+      </FormSection>
+
+      {/* Equipment Information Section */}
+      <FormSection title="Equipment Information">
+        <FormRow columns={2}>
+          <FormField
+            label="6. Equipment Make"
+            value={formData.equipmentMake}
+            onChange={(val) => onChange('equipmentMake', val)}
+            readOnly={isLocked('equipmentMake')}
+            placeholder="Enter equipment make"
+          />
+          <FormField
+            label="7. Equipment Model"
+            value={formData.equipmentModel}
+            onChange={(val) => onChange('equipmentModel', val)}
+            readOnly={isLocked('equipmentModel')}
+            placeholder="Enter equipment model"
+          />
+        </FormRow>
+
+        <FormRow columns={2}>
+          <FormField
+            label="9. Serial Number"
+            value={formData.serialNumber}
+            onChange={(val) => onChange('serialNumber', val)}
+            readOnly={isLocked('serialNumber')}
+            placeholder="Enter serial number"
+          />
+          <FormField
+            label="10. License Number"
+            value={formData.licenseNumber}
+            onChange={(val) => onChange('licenseNumber', val)}
+            readOnly={isLocked('licenseNumber')}
+            placeholder="Enter license number"
+          />
+        </FormRow>
+      </FormSection>
+
+      {/* Invoice Section */}
+      <FormSection title="Invoice">
+        <FormRow columns={2}>
+          <FormField
+            label="16. Invoice Posted By (Recorder's Initials)"
+            value={formData.invoicePostedBy}
+            onChange={(val) => onChange('invoicePostedBy', val)}
+            placeholder="Enter initials"
+          />
+          <FormField
+            label="19. Date Signed"
+            value={formData.dateSigned}
+            onChange={(val) => onChange('dateSigned', val)}
+            placeholder="MM/DD/YY"
+          />
+        </FormRow>
+      </FormSection>
+    </>
+  );
+};
@@ -0,0 +1,242 @@
+import React from 'react';
+import { CalendarPicker } from '../CalendarPicker';
+import { TimeZoneNotice } from '../TimeZoneNotice';
+import type { EESTTimeEntry } from '../../utils/engineTimeDB';
+
+export type EESTTimeEntryField = Exclude<keyof EESTTimeEntry, 'id'>;
+
+interface EESTTimeEntryRowProps {
+  entry: EESTTimeEntry;
+  index: number;
+  specialOptions: string[];
+  specialSelections: string[];
+  onChange: (index: number, field: EESTTimeEntryField, value: string) => void;
+  onSpecialToggle: (index: number, option: string) => void;
+  onClear: (index: number) => void;
+  isCalendarOpen: boolean;
+  onCalendarOpen: (index: number) => void;
+  onCalendarClose: () => void;
+  onDateSelect: (date: string) => void;
+  validationErrors: Record<string, string>;
+  incidentTimeZone?: string;
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontWeight: '600',
+  color: '#2c3e50',
+  marginBottom: '4px',
+  display: 'block'
+};
+
+const inputStyle = (hasError: boolean): React.CSSProperties => ({
+  width: '100%',
+  padding: '8px',
+  border: `1px solid ${hasError ? '#dc3545' : '#ddd'}`,
+  borderRadius: '6px',
+  fontSize: '16px',
+  backgroundColor: '#fff',
+  color: '#333',
+  boxSizing: 'border-box'
+});
+
+export const EESTTimeEntryRow: React.FC<EESTTimeEntryRowProps> = ({
+  entry,
+  index,
+  specialOptions,
+  specialSelections,
+  onChange,
+  onSpecialToggle,
+  onClear,
+  isCalendarOpen,
+  onCalendarOpen,
+  onCalendarClose,
+  onDateSelect,
+  validationErrors,
+  incidentTimeZone
+}) => {
+  const renderInput = (field: EESTTimeEntryField, label: string, placeholder: string) => {
+    const errorKey = `eest-${index}-${field}`;
+    return (
+      <div>
+        <label style={labelStyle}>{label}</label>
+        <input
+          type="text"
+          value={entry[field]}
+          onChange={e => onChange(index, field, e.target.value)}
+          style={inputStyle(!!validationErrors[errorKey])}
+          placeholder={placeholder}
+        />
+        {validationErrors[errorKey] && (
+          <div style={{ fontSize: '12px', color: '#dc3545', marginTop: '4px' }}>
+            {validationErrors[errorKey]}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{
+      border: '1px solid #e9ecef',
+      borderRadius: '8px',
+      padding: '12px',
+      backgroundColor: '#ffffff',
+      boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+      position: 'relative'
+    }}>
+      {/* Date Badge Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        marginBottom: '12px',
+        padding: '8px 12px',
+        backgroundColor: '#fff3e0',
+        borderRadius: '6px',
+        border: '2px solid #e9ecef'
+      }}>
+        <div style={{
+          backgroundColor: '#2c3e50',
+          color: '#ffffff',
+          borderRadius: '50%',
+          width: '24px',
+          height: '24px',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '12px',
+          fontWeight: '600'
+        }}>
+          {index + 1}
+        </div>
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          flex: 1
+        }}>
+          <label style={labelStyle}>
+            12. Date
+          </label>
+          <div style={{ position: 'relative' }}>
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '8px 12px',
+              border: '1px solid #ddd',
+              borderRadius: '6px',
+              backgroundColor: '#fff',
+              cursor: 'pointer'
+            }} onClick={() => onCalendarOpen(index)}>
+              <span style={{ fontSize: '14px', color: '#333' }}>
+                {entry.date || 'MM/DD/YY'}
+              </span>
+              <span style={{
+                fontSize: '16px',
+                color: '#6c757d',
+                marginLeft: 'auto'
+              }}>
+                📅
+              </span>
+            </div>
+            {isCalendarOpen && (
+              <CalendarPicker
+                isOpen={true}
+                onClose={onCalendarClose}
+                onSelectDate={onDateSelect}
+                currentDate={entry.date}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Clear Button */}
+        <button
+          onClick={() => onClear(index)}
+          style={{
+            backgroundColor: '#dc3545',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            padding: '6px 12px',
+            fontSize: '12px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            transition: 'background-color 0.2s ease',
+            minWidth: '60px'
+          }}
+          onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#c82333'}
+          onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#dc3545'}
+          title="Clear this time entry"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Entered Time Zone */}
+      <TimeZoneNotice
+        enteredTimeZone={entry.enteredTimeZone}
+        incidentTimeZone={incidentTimeZone}
+        date={entry.date}
+      />
+
+      {/* Time Fields */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr 1fr',
+        gap: '8px',
+        marginBottom: '12px'
+      }}>
+        {renderInput('start', 'Start', '0700')}
+        {renderInput('stop', 'Stop', '1900')}
+        <div>
+          <label style={labelStyle}>Work</label>
+          <div style={{
+            padding: '8px',
+            border: '1px solid #e9ecef',
+            borderRadius: '6px',
+            fontSize: '16px',
+            backgroundColor: '#f8f9fa',
+            color: '#333',
+            minHeight: '20px'
+          }}>
+            {entry.work || '-'}
+          </div>
+        </div>
+      </div>
+
+      {/* Special */}
+      <div>
+        <label style={labelStyle}>Special</label>
+        <div style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '8px'
+        }}>
+          {specialOptions.map(option => (
+            <label key={option} style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              fontSize: '12px',
+              color: '#2c3e50',
+              padding: '4px 8px',
+              borderRadius: '4px',
+              border: '1px solid #e9ecef',
+              backgroundColor: specialSelections.includes(option) ? '#e3f2fd' : 'transparent',
+              cursor: 'pointer'
+            }}>
+              <input
+                type="checkbox"
+                checked={specialSelections.includes(option)}
+                onChange={() => onSpecialToggle(index, option)}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
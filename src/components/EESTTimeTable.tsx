@@ -0,0 +1,805 @@
+// EEST Time Table
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import type { EESTFormData, EESTTimeEntry, EquipmentProfile } from '../utils/engineTimeDB';
+import {
+  FormType,
+  getActiveTicketId,
+  setActiveTicket,
+  saveEESTFormData,
+  loadEESTFormData,
+  saveEESTTimeEntry,
+  loadAllEESTTimeEntries,
+  deleteEESTTimeEntry,
+  getTicketRoundingPolicy,
+  getIncidentTimeZone
+} from '../utils/engineTimeDB';
+import { getPDF, storePDFWithId, listPDFs, isPDFForTicket } from '../utils/pdfStorage';
+import type { PDFData } from '../utils/pdfStorage';
+import { calculateEESTTimeTotal, calculateDailyTotals, getFirstValidDate, getCurrentDateFormatted } from '../utils/timeCalculations';
+import type { TimeCalculationResult } from '../utils/timeCalculations';
+import { validate24HourTime } from '../utils/timevalidation';
+import { getTemplatePdfId } from '../utils/pdfIdResolver';
+import { FormSection } from './FederalForm/FormSection';
+import { FormField } from './FederalForm/FormField';
+import { PDFPreviewModal } from './FederalForm/PDFPreviewModal';
+import { EESTFormFields } from './EESTForm/EESTFormFields';
+import type { EESTTextField } from './EESTForm/EESTFormFields';
+import { EESTTimeEntryRow } from './EESTForm/EESTTimeEntryRow';
+import type { EESTTimeEntryField } from './EESTForm/EESTTimeEntryRow';
+import { useEESTPDFGeneration } from '../hooks/useEESTPDFGeneration';
+import { TicketSwitcher } from './TicketSwitcher';
+import { RoundingPolicySelector } from './RoundingPolicySelector';
+import { useTicketRoundingPolicy } from '../hooks/useTicketRoundingPolicy';
+import { TimeZoneSelector } from './TimeZoneSelector';
+import { useIncidentTimeZone } from '../hooks/useIncidentTimeZone';
+import { getDeviceTimeZone } from '../utils/timeZones';
+import { OvernightSplitToggle } from './OvernightSplitToggle';
+import { useTicketSplitOvernight } from '../hooks/useTicketSplitOvernight';
+import type { RoundingPolicy } from '../utils/billingRounding';
+import { EquipmentProfilePicker } from './EquipmentProfilePicker';
+import { applyProfileToEESTForm, getProfileDetailsFromEESTForm } from '../utils/equipmentProfiles';
+import type { EESTPayload } from '../utils/payloadSystem';
+import { parsePayloadFromURL, clearURLParameters, getPayloadRedirect } from '../utils/payloadSystem';
+import type { EESTPayloadMergeUndo, EESTPayloadPreview, PayloadMergeChoices } from '../utils/payloadMerge';
+import { applyEESTPayloadMerge, buildEESTPayloadPreview, undoEESTPayloadMerge } from '../utils/payloadMerge';
+import { describeSignatureProblem, isIssuedField, keepIssuedFields } from '../utils/payloadSigning';
+import { EEST_TIME_ENTRY_ROWS } from '../utils/fieldmapper/eestFieldMapper';
+import { PayloadMergeModal } from './FederalForm/PayloadMergeModal';
+import { PayloadUndoBar } from './FederalForm/PayloadUndoBar';
+import { PayloadIssuerPanel } from './PayloadIssuerPanel';
+
+const DEFAULT_EEST_FORM_DATA: EESTFormData = {
+  formType: FormType.EEST,
+  agreementNumber: '',
+  resourceOrderNumber: '',
+  contractorAgencyName: '',
+  incidentName: '',
+  incidentNumber: '',
+  operatorName: '',
+  equipmentMake: '',
+  equipmentModel: '',
+  serialNumber: '',
+  licenseNumber: '',
+  equipmentStatus: 'Inspected and under agreement',
+  invoicePostedBy: '',
+  dateSigned: '',
+  remarks: '',
+  remarksOptions: [],
+  customRemarks: [],
+  specialSelections: {}
+};
+
+const createEmptyEESTTimeEntry = (): EESTTimeEntry => ({
+  date: '',
+  start: '',
+  stop: '',
+  work: '',
+  special: ''
+});
+
+// Remarks options recognised by the EEST field mapper (also offered per row as SPECIAL)
+const EEST_REMARKS_OPTIONS = [
+  'HOTLINE',
+  'Self Sufficient - No Meals Provided',
+  'Self Sufficient - No Lodging Provided',
+  'Travel',
+  'No Lunch Taken due to Uncontrolled Fire'
+];
+
+export const EESTTimeTable: React.FC = () => {
+  const navigate = useNavigate();
+  const [formData, setFormData] = useState<EESTFormData>(DEFAULT_EEST_FORM_DATA);
+  const [timeEntries, setTimeEntries] = useState<EESTTimeEntry[]>(
+    Array.from({ length: EEST_TIME_ENTRY_ROWS }, createEmptyEESTTimeEntry)
+  );
+  const [timeValidationErrors, setTimeValidationErrors] = useState<Record<string, string>>({});
+  const [calendarOpenIndex, setCalendarOpenIndex] = useState<number | null>(null);
+  const [crewMemberInput, setCrewMemberInput] = useState('');
+  const [storedPDFs, setStoredPDFs] = useState<PDFData[]>([]);
+  const [showPDFPreview, setShowPDFPreview] = useState(false);
+  const [previewPDF, setPreviewPDF] = useState<PDFData | null>(null);
+  const [activeTicketId, setActiveTicketId] = useState<number | null>(null);
+  // Link payload waiting for its changes to be picked, and the undo of the last one applied
+  const [payloadPreview, setPayloadPreview] = useState<EESTPayloadPreview | null>(null);
+  const [payloadUndo, setPayloadUndo] = useState<EESTPayloadMergeUndo | null>(null);
+  // Billing rounding of the active ticket
+  const { roundingPolicy, updateRoundingPolicy } = useTicketRoundingPolicy(activeTicketId);
+  // Time zone the incident's times are in
+  const { timeZone, updateTimeZone } = useIncidentTimeZone(activeTicketId);
+  // Whether overnight time goes on the next date's row
+  const { splitOvernight, updateSplitOvernight } = useTicketSplitOvernight(activeTicketId);
+
+  // The ticket date is the first row with a valid date
+  const ticketDate = getFirstValidDate(timeEntries) || getCurrentDateFormatted();
+
+  // Load stored signed EEST PDFs of the active ticket from IndexedDB
+  const loadStoredPDFs = useCallback(async () => {
+    try {
+      const ticketId = await getActiveTicketId(FormType.EEST);
+      const pdfs = await listPDFs();
+      const eestPDFs = pdfs.filter(pdf => pdf.id.startsWith('eest-signed-') && isPDFForTicket(pdf, ticketId));
+      setStoredPDFs(eestPDFs);
+      console.log('Loaded stored EEST PDFs:', eestPDFs.length);
+    } catch (error) {
+      console.error('Error loading stored EEST PDFs:', error);
+    }
+  }, []);
+
+  // Load the active ticket's EEST data from IndexedDB; returns what was loaded
+  const loadTicketData = useCallback(async () => {
+    const ticketId = await getActiveTicketId(FormType.EEST);
+    setActiveTicketId(ticketId);
+
+    // A ticket without saved header data starts from the defaults
+    const saved = await loadEESTFormData(ticketId);
+    const loadedFormData = { ...DEFAULT_EEST_FORM_DATA, ...saved };
+    setFormData(loadedFormData);
+
+    const savedEntries = await loadAllEESTTimeEntries(ticketId);
+    const loadedEntries = Array.from({ length: EEST_TIME_ENTRY_ROWS }, (_, idx) => savedEntries[idx] || createEmptyEESTTimeEntry());
+    setTimeEntries(loadedEntries);
+    return { ticketId, formData: loadedFormData, timeEntries: loadedEntries };
+  }, []);
+
+  // Preview what an EEST payload from a link would change on the loaded ticket; nothing is applied until the
+  // changes are picked
+  const previewPayload = useCallback(async (payload: EESTPayload, loadedFormData: EESTFormData) => {
+    if (payload.signature && payload.signature.status !== 'VALID' &&
+      !window.confirm(`${describeSignatureProblem(payload.signature)}\n\nApply it anyway? Its fields will not be locked.`)) {
+      console.warn('Payload with an untrusted signature was not applied');
+      return;
+    }
+
+    const preview = await buildEESTPayloadPreview(payload, loadedFormData);
+    if (preview.changes.length === 0) {
+      alert('The link data matches this ticket - there is nothing to apply.');
+      return;
+    }
+    setPayloadPreview(preview);
+  }, []);
+
+  // Load EEST data from IndexedDB on mount, then apply a payload given in the URL
+  useEffect(() => {
+    const initializeData = async () => {
+      const loaded = await loadTicketData();
+
+      const payload = await parsePayloadFromURL();
+      if (Object.keys(payload).length > 0) {
+        // A payload for another ticket form is applied on that form's page
+        const redirect = getPayloadRedirect(payload, FormType.EEST);
+        if (redirect) {
+          console.log('Payload is for another ticket form, opening', redirect);
+          navigate(redirect, { replace: true });
+          return;
+        }
+
+        // Legacy links do not name their form; only their equipment profile applies to the EEST
+        await previewPayload(
+          payload.form === FormType.EEST ? payload : { form: FormType.EEST, equipmentProfile: payload.equipmentProfile },
+          loaded.formData
+        );
+        clearURLParameters();
+      }
+    };
+
+    initializeData();
+    loadStoredPDFs();
+  }, [loadTicketData, loadStoredPDFs, previewPayload, navigate]);
+
+  // Switch to another ticket (changes are autosaved, so there is nothing to save first)
+  const handleTicketChange = async (ticketId: number) => {
+    try {
+      await setActiveTicket(FormType.EEST, ticketId);
+      // Link data applied to the previous ticket can no longer be undone from here
+      setPayloadUndo(null);
+      setTimeValidationErrors({});
+      await loadTicketData();
+      await loadStoredPDFs();
+    } catch (error) {
+      console.error('Error switching EEST ticket:', error);
+    }
+  };
+
+  // Initialize EEST PDF in storage
+  useEffect(() => {
+    const initializeEESTPDF = async () => {
+      try {
+        const templatePdfId = getTemplatePdfId('eest');
+        const existingPDF = await getPDF(templatePdfId);
+        if (!existingPDF) {
+          // Load the EEST PDF from public folder
+          const response = await fetch('/eest-fill.pdf');
+          if (response.ok) {
+            const pdfBlob = await response.blob();
+            await storePDFWithId(templatePdfId, pdfBlob, null, {
+              filename: 'eest-fill.pdf',
+              date: new Date().toISOString(),
+              crewNumber: 'N/A',
+              fireName: 'N/A',
+              fireNumber: 'N/A'
+            });
+            console.log('EEST PDF initialized in storage');
+          }
+        }
+      } catch (error) {
+        console.error('Error initializing EEST PDF:', error);
+      }
+    };
+
+    initializeEESTPDF();
+  }, []);
+
+  // Update form data and autosave
+  const updateFormData = (update: (prev: EESTFormData) => EESTFormData) => {
+    setFormData(prev => {
+      const updated = update(prev);
+      saveEESTFormData(updated);
+      return updated;
+    });
+  };
+
+  // Fill the equipment section from a stored equipment profile
+  const handleApplyEquipmentProfile = (profile: EquipmentProfile) => {
+    updateFormData(prev => keepIssuedFields(prev, applyProfileToEESTForm(prev, profile)));
+  };
+
+  const handleFormChange = (field: EESTTextField, value: string) => {
+    // Fields filled by a signed link stay as issued
+    if (isIssuedField(formData, field)) {
+      return;
+    }
+    updateFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleRemarksOptionToggle = (option: string) => {
+    updateFormData(prev => {
+      const selected = prev.remarksOptions || [];
+      const remarksOptions = selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option];
+      return { ...prev, remarksOptions };
+    });
+  };
+
+  const handleSpecialToggle = (index: number, option: string) => {
+    updateFormData(prev => {
+      const specialSelections = { ...(prev.specialSelections || {}) };
+      const selected = specialSelections[index] || [];
+      specialSelections[index] = selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option];
+      return { ...prev, specialSelections };
+    });
+  };
+
+  // Crew members are stored as custom remarks (written in the remarks with the remarks options)
+  const handleAddCrewMember = () => {
+    const name = crewMemberInput.trim();
+    if (!name) return;
+    updateFormData(prev => ({
+      ...prev,
+      customRemarks: [...(prev.customRemarks || []).filter(member => member !== name), name]
+    }));
+    setCrewMemberInput('');
+  };
+
+  const handleRemoveCrewMember = (name: string) => {
+    updateFormData(prev => ({
+      ...prev,
+      customRemarks: (prev.customRemarks || []).filter(member => member !== name)
+    }));
+  };
+
+  // Persist a single time entry, keeping the generated ID in state
+  const persistTimeEntry = async (index: number, entry: EESTTimeEntry) => {
+    const id = await saveEESTTimeEntry(entry);
+    if (!entry.id) {
+      setTimeEntries(prev => prev.map((item, idx) => (idx === index ? { ...item, id } : item)));
+    }
+  };
+
+  // Handle time entry changes and autosave
+  const handleTimeEntryChange = (index: number, field: EESTTimeEntryField, value: string) => {
+    if (field === 'start' || field === 'stop') {
+      const fieldKey = `eest-${index}-${field}`;
+      const validation = validate24HourTime(value);
+      setTimeValidationErrors(prev => {
+        const newErrors = { ...prev };
+        if (validation.isValid) {
+          delete newErrors[fieldKey];
+        } else {
+          newErrors[fieldKey] = validation.error || 'Invalid time';
+        }
+        return newErrors;
+      });
+    }
+
+    const updatedEntry = { ...timeEntries[index], [field]: value };
+    // Record the zone of the device the times were entered on
+    if ((field === 'start' || field === 'stop') && value) {
+      updatedEntry.enteredTimeZone = getDeviceTimeZone();
+    }
+    const updatedEntries = timeEntries.map((item, idx) => (idx === index ? updatedEntry : item));
+    const calculations = calculateDailyTotals(updatedEntries, entry => calculateEESTTimeTotal(entry, roundingPolicy, timeZone), roundingPolicy);
+    updatedEntry.work = calculations[index].isValid ? calculations[index].formattedTotal : '';
+    updatedEntry.rawMinutes = calculations[index].rawMinutes;
+
+    setTimeEntries(prev => prev.map((item, idx) => (idx === index ? { ...updatedEntry, id: item.id } : item)));
+    persistTimeEntry(index, updatedEntry);
+    // The other rows of the day take up or give back the daily minimum
+    applyTimeTotals(updatedEntries, calculations, index);
+  };
+
+  // Write recalculated totals to the rows whose total changed (other than the row being edited)
+  const applyTimeTotals = (entries: EESTTimeEntry[], calculations: TimeCalculationResult[], editedIndex = -1) => {
+    entries.forEach((entry, index) => {
+      const calculation = calculations[index];
+      if (index === editedIndex || !calculation.isValid) return;
+      if (entry.work === calculation.formattedTotal && entry.rawMinutes === calculation.rawMinutes) return;
+      const updatedEntry = { ...entry, work: calculation.formattedTotal, rawMinutes: calculation.rawMinutes };
+      setTimeEntries(prev => prev.map((item, idx) => (idx === index ? { ...updatedEntry, id: item.id } : item)));
+      persistTimeEntry(index, updatedEntry);
+    });
+  };
+
+  // Re-total the rows on screen under a rounding policy and time zone (the daily minimum is billed once per day)
+  const retotalTimeEntries = (policy: RoundingPolicy, zone: string) => {
+    applyTimeTotals(timeEntries, calculateDailyTotals(timeEntries, entry => calculateEESTTimeTotal(entry, policy, zone), policy));
+  };
+
+  // Change the ticket's billing rounding and re-total the rows on screen
+  const handleRoundingPolicyChange = (policy: RoundingPolicy) => {
+    updateRoundingPolicy(policy);
+    retotalTimeEntries(policy, timeZone);
+  };
+
+  // Change the incident's time zone and re-total the rows on screen
+  const handleTimeZoneChange = (zone: string) => {
+    updateTimeZone(zone);
+    retotalTimeEntries(roundingPolicy, zone);
+  };
+
+  // Reload the ticket after link data was applied or undone and re-total its rows (the other rows of a day the link
+  // changed take up or give back the daily minimum)
+  const reloadAfterPayloadMerge = async () => {
+    const loaded = await loadTicketData();
+    const [policy, zone] = await Promise.all([getTicketRoundingPolicy(loaded.ticketId), getIncidentTimeZone(loaded.ticketId)]);
+    applyTimeTotals(loaded.timeEntries, calculateDailyTotals(loaded.timeEntries, entry => calculateEESTTimeTotal(entry, policy, zone), policy));
+  };
+
+  // Apply the picked changes of the previewed link payload
+  const handleApplyPayloadPreview = async (choices: PayloadMergeChoices) => {
+    if (!payloadPreview) return;
+    const result = await applyEESTPayloadMerge(payloadPreview, choices);
+    setPayloadPreview(null);
+    setPayloadUndo(result.undo);
+    await reloadAfterPayloadMerge();
+  };
+
+  // Put the ticket back as it was before the link data was applied
+  const handleUndoPayloadMerge = async () => {
+    if (!payloadUndo) return;
+    try {
+      await undoEESTPayloadMerge(payloadUndo);
+      setPayloadUndo(null);
+      await reloadAfterPayloadMerge();
+    } catch (error) {
+      console.error('Error undoing payload merge:', error);
+      alert('Failed to undo the link data. Please try again.');
+    }
+  };
+
+  // Clear a time entry row
+  const handleClearTimeEntry = async (index: number) => {
+    const entry = timeEntries[index];
+    if (entry.id) {
+      await deleteEESTTimeEntry(entry.id);
+    }
+    setTimeEntries(prev => prev.map((item, idx) => (idx === index ? createEmptyEESTTimeEntry() : item)));
+    updateFormData(prev => {
+      const specialSelections = { ...(prev.specialSelections || {}) };
+      delete specialSelections[index];
+      return { ...prev, specialSelections };
+    });
+    setTimeValidationErrors(prev => {
+      const newErrors = { ...prev };
+      Object.keys(newErrors)
+        .filter(key => key.startsWith(`eest-${index}-`))
+        .forEach(key => delete newErrors[key]);
+      return newErrors;
+    });
+  };
+
+  const handleDateSelect = (date: string) => {
+    if (calendarOpenIndex !== null) {
+      handleTimeEntryChange(calendarOpenIndex, 'date', date);
+    }
+    setCalendarOpenIndex(null);
+  };
+
+  // PDF generation hook
+  const { generatePDF, isGenerating } = useEESTPDFGeneration({
+    formData,
+    timeEntries,
+    currentSelectedDate: ticketDate
+  });
+
+  // Handle PDF preview
+  const handlePreviewPDF = async (pdfId: string) => {
+    try {
+      const pdfData = await getPDF(pdfId);
+      if (pdfData) {
+        setPreviewPDF(pdfData);
+        setShowPDFPreview(true);
+      } else {
+        alert('PDF not found in storage.');
+      }
+    } catch (error) {
+      console.error('Error loading PDF for preview:', error);
+      alert('Error loading PDF for preview.');
+    }
+  };
+
+  const handleClosePDFPreview = () => {
+    setShowPDFPreview(false);
+    setPreviewPDF(null);
+  };
+
+  return (
+    <div style={{
+      width: '100vw',
+      maxWidth: '100vw',
+      minHeight: '100vh',
+      backgroundColor: '#f5f5f5',
+      padding: '16px',
+      boxSizing: 'border-box',
+      overflowX: 'hidden',
+      position: 'relative',
+      left: '50%',
+      transform: 'translateX(-50%)'
+    }}>
+      {/* Main Container */}
+      <div style={{
+        maxWidth: '800px',
+        margin: '0 auto',
+        backgroundColor: '#ffffff',
+        borderRadius: '12px',
+        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
+        overflow: 'hidden',
+        width: '100%',
+        boxSizing: 'border-box'
+      }}>
+
+        {/* Header */}
+        <div style={{
+          backgroundColor: '#e65100',
+          color: '#ffffff',
+          padding: '20px',
+          textAlign: 'center'
+        }}>
+          <h1 style={{
+            margin: 0,
+            fontSize: '20px',
+            fontWeight: '600',
+            lineHeight: '1.2'
+          }}>
+            EEST - Emergency Equipment Shift Ticket
+          </h1>
+          <p style={{
+            margin: '8px 0 0 0',
+            fontSize: '14px',
+            opacity: 0.9,
+            lineHeight: '1.4'
+          }}>
+            Emergency Equipment Shift Ticket
+          </p>
+          <Link to="/" style={{ color: '#ffffff', fontSize: '12px', opacity: 0.9 }}>
+            Switch to Federal OF-297
+          </Link>
+        </div>
+
+        {/* Ticket Switcher */}
+        <div style={{
+          backgroundColor: '#f8f9fa',
+          padding: '16px 20px',
+          borderBottom: '1px solid #e9ecef'
+        }}>
+          <TicketSwitcher
+            formType={FormType.EEST}
+            activeTicketId={activeTicketId}
+            onTicketChange={handleTicketChange}
+          />
+          <div style={{ marginTop: '12px' }}>
+            <RoundingPolicySelector
+              policy={roundingPolicy}
+              onChange={handleRoundingPolicyChange}
+            />
+          </div>
+          <div style={{ marginTop: '12px' }}>
+            <TimeZoneSelector
+              timeZone={timeZone}
+              onChange={handleTimeZoneChange}
+            />
+          </div>
+          <div style={{ marginTop: '12px' }}>
+            <OvernightSplitToggle
+              splitOvernight={splitOvernight}
+              onChange={updateSplitOvernight}
+            />
+          </div>
+        </div>
+
+        {/* Form Content Container */}
+        <div style={{
+          padding: '20px',
+          width: '100%',
+          boxSizing: 'border-box'
+        }}>
+
+          <EquipmentProfilePicker
+            currentDetails={getProfileDetailsFromEESTForm(formData)}
+            onApply={handleApplyEquipmentProfile}
+          />
+
+          {payloadUndo && (
+            <PayloadUndoBar onUndo={handleUndoPayloadMerge} onDismiss={() => setPayloadUndo(null)} />
+          )}
+
+          <PayloadIssuerPanel
+            issuedBy={formData.issuedBy}
+            issuedFieldCount={formData.issuedFields?.length ?? 0}
+          />
+
+          <EESTFormFields
+            formData={formData}
+            onChange={handleFormChange}
+          />
+
+          {/* Time Entries Section */}
+          <FormSection title={`Time Entries (${EEST_TIME_ENTRY_ROWS} rows)`}>
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '12px'
+            }}>
+              {timeEntries.map((entry, idx) => (
+                <EESTTimeEntryRow
+                  key={idx}
+                  entry={entry}
+                  index={idx}
+                  specialOptions={EEST_REMARKS_OPTIONS}
+                  specialSelections={formData.specialSelections?.[idx] || []}
+                  onChange={handleTimeEntryChange}
+                  onSpecialToggle={handleSpecialToggle}
+                  onClear={handleClearTimeEntry}
+                  isCalendarOpen={calendarOpenIndex === idx}
+                  onCalendarOpen={setCalendarOpenIndex}
+                  onCalendarClose={() => setCalendarOpenIndex(null)}
+                  onDateSelect={handleDateSelect}
+                  validationErrors={timeValidationErrors}
+                  incidentTimeZone={timeZone}
+                />
+              ))}
+            </div>
+          </FormSection>
+
+          {/* Remarks Section */}
+          <FormSection title="14. Remarks">
+            <div style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: '12px'
+            }}>
+              {EEST_REMARKS_OPTIONS.map(option => (
+                <label key={option} style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  fontSize: '14px',
+                  color: '#2c3e50',
+                  cursor: 'pointer'
+                }}>
+                  <input
+                    type="checkbox"
+                    checked={(formData.remarksOptions || []).includes(option)}
+                    onChange={() => handleRemarksOptionToggle(option)}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+
+            {/* Crew members */}
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
+              <div style={{ flex: 1 }}>
+                <FormField
+                  label="Crew Members"
+                  value={crewMemberInput}
+                  onChange={setCrewMemberInput}
+                  placeholder="Enter crew member name"
+                />
+              </div>
+              <button
+                onClick={handleAddCrewMember}
+                style={{
+                  padding: '12px 16px',
+                  backgroundColor: '#007bff',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  cursor: 'pointer'
+                }}
+              >
+                Add
+              </button>
+            </div>
+            {(formData.customRemarks || []).length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+                {formData.customRemarks.map(member => (
+                  <span key={member} style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '4px 10px',
+                    backgroundColor: '#e3f2fd',
+                    borderRadius: '16px',
+                    fontSize: '13px',
+                    color: '#1976d2'
+                  }}>
+                    {member}
+                    <button
+                      onClick={() => handleRemoveCrewMember(member)}
+                      style={{
+                        border: 'none',
+                        background: 'transparent',
+                        color: '#1976d2',
+                        cursor: 'pointer',
+                        padding: 0
+                      }}
+                      title="Remove crew member"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <FormField
+              label="Additional Remarks"
+              value={formData.remarks}
+              onChange={(val) => handleFormChange('remarks', val)}
+              placeholder="Released, down time and cause, problems, etc."
+            />
+          </FormSection>
+
+          <div style={{
+            display: 'flex',
+            gap: '12px',
+            justifyContent: 'center',
+            flexWrap: 'wrap'
+          }}>
+            <button
+              onClick={generatePDF}
+              disabled={isGenerating}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: isGenerating ? '#6c757d' : '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: isGenerating ? 'not-allowed' : 'pointer',
+                transition: 'background-color 0.2s ease',
+                opacity: isGenerating ? 0.6 : 1
+              }}
+            >
+              {isGenerating ? '⏳ Generating...' : '✏️ Sign Ticket'}
+            </button>
+          </div>
+
+          {/* Stored PDFs Section */}
+          <div style={{
+            marginTop: '24px',
+            padding: '16px',
+            backgroundColor: '#f8f9fa',
+            borderRadius: '8px',
+            border: '1px solid #e9ecef'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: '16px'
+            }}>
+              <h3 style={{
+                margin: 0,
+                fontSize: '16px',
+                fontWeight: '600',
+                color: '#2c3e50'
+              }}>
+                📄 Signed EEST Tickets ({storedPDFs.length})
+              </h3>
+              <button
+                onClick={loadStoredPDFs}
+                style={{
+                  padding: '6px 12px',
+                  backgroundColor: '#007bff',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  cursor: 'pointer'
+                }}
+              >
+                🔄 Refresh
+              </button>
+            </div>
+
+            {storedPDFs.length > 0 ? (
+              <div style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
+                gap: '12px'
+              }}>
+                {storedPDFs.map((pdf) => (
+                  <div
+                    key={pdf.id}
+                    onClick={() => handlePreviewPDF(pdf.id)}
+                    style={{
+                      padding: '12px',
+                      backgroundColor: 'white',
+                      borderRadius: '6px',
+                      border: '1px solid #dee2e6',
+                      boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    <div style={{
+                      fontSize: '14px',
+                      fontWeight: '600',
+                      color: '#2c3e50',
+                      marginBottom: '4px'
+                    }}>
+                      {pdf.metadata.filename}
+                    </div>
+                    <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                      Date: {pdf.metadata.date} | Incident: {pdf.metadata.fireName}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div style={{
+                textAlign: 'center',
+                padding: '32px 16px',
+                color: '#6c757d',
+                fontSize: '14px'
+              }}>
+                No signed EEST tickets yet
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* PDF Preview Modal */}
+      <PDFPreviewModal
+        isOpen={showPDFPreview}
+        previewPDF={previewPDF}
+        onClose={handleClosePDFPreview}
+      />
+
+      <PayloadMergeModal
+        preview={payloadPreview}
+        onApply={handleApplyPayloadPreview}
+        onCancel={() => setPayloadPreview(null)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { EquipmentProfile } from '../utils/engineTimeDB';
+import {
+  saveEquipmentProfile,
+  listEquipmentProfiles,
+  archiveEquipmentProfile,
+  restoreEquipmentProfile
+} from '../utils/engineTimeDB';
+import type { EquipmentProfileDetails } from '../utils/equipmentProfiles';
+import { createEmptyEquipmentProfileDetails } from '../utils/equipmentProfiles';
+
+// EquipmentProfilePicker object properties
+interface EquipmentProfilePickerProps {
+  currentDetails: EquipmentProfileDetails;  // Equipment currently on the form, for "Save current as profile"
+  onApply: (profile: EquipmentProfile) => void;
+}
+
+// Profile being edited - no ID while creating a new profile
+type ProfileDraft = EquipmentProfileDetails & { id?: number; createdAt?: number };
+
+// Editable profile fields and their labels
+const PROFILE_FIELDS: { field: keyof EquipmentProfileDetails; label: string }[] = [
+  { field: 'name', label: 'Profile Name' },
+  { field: 'equipmentMake', label: 'Make' },
+  { field: 'equipmentModel', label: 'Model' },
+  { field: 'equipmentType', label: 'Type' },
+  { field: 'serialNumber', label: 'Serial/VIN Number' },
+  { field: 'licenseNumber', label: 'License/ID Number' },
+  { field: 'agreementNumber', label: 'Agreement Number' }
+];
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ced4da',
+  borderRadius: '6px',
+  fontSize: '14px',
+  width: '100%',
+  boxSizing: 'border-box'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#ffffff',
+  color: '#007bff',
+  border: '1px solid #007bff',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+// Export function EquipmentProfilePicker and properties
+export const EquipmentProfilePicker: React.FC<EquipmentProfilePickerProps> = ({ currentDetails, onApply }) => {
+  // Profiles shown in the picker and the manager
+  const [profiles, setProfiles] = useState<EquipmentProfile[]>([]);
+  // Manager panel state
+  const [showManager, setShowManager] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  // Profile being created or edited
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+
+  // Load the profile library
+  const refreshProfiles = useCallback(async () => {
+    try {
+      setProfiles(await listEquipmentProfiles(true));
+    } catch (error) {
+      console.error('Error loading equipment profiles:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  const activeProfiles = profiles.filter(profile => !profile.archivedAt);
+
+  // Apply the picked profile to the form
+  const handleSelect = (value: string) => {
+    const profile = activeProfiles.find(candidate => candidate.id === Number(value));
+    if (profile) {
+      onApply(profile);
+    }
+  };
+
+  // Save the profile being edited
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      alert('Please enter a profile name.');
+      return;
+    }
+
+    try {
+      await saveEquipmentProfile({ ...draft, name: draft.name.trim() });
+      setDraft(null);
+      await refreshProfiles();
+    } catch (error) {
+      console.error('Error saving equipment profile:', error);
+      alert('Failed to save the equipment profile. Please try again.');
+    }
+  };
+
+  // Archive or restore a profile
+  const handleToggleArchived = async (profile: EquipmentProfile) => {
+    try {
+      if (profile.archivedAt) {
+        await restoreEquipmentProfile(profile.id!);
+      } else {
+        await archiveEquipmentProfile(profile.id!);
+      }
+      await refreshProfiles();
+    } catch (error) {
+      console.error('Error archiving equipment profile:', error);
+    }
+  };
+
+  return (
+    <div style={{
+      marginBottom: '20px',
+      padding: '12px',
+      border: '1px solid #e9ecef',
+      borderRadius: '8px',
+      backgroundColor: '#f8f9fa'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+        <label style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+          Equipment Profile:
+        </label>
+        <select
+          value=""
+          onChange={(e) => handleSelect(e.target.value)}
+          style={{ ...inputStyle, width: 'auto', flex: '1 1 160px', backgroundColor: '#ffffff' }}
+        >
+          <option value="">
+            {activeProfiles.length > 0 ? 'Fill equipment from a profile…' : 'No saved profiles'}
+          </option>
+          {activeProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <button onClick={() => setShowManager(!showManager)} style={smallButtonStyle}>
+          {showManager ? 'Done' : 'Manage'}
+        </button>
+      </div>
+
+      {showManager && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+            <button onClick={() => setDraft(createEmptyEquipmentProfileDetails())} style={smallButtonStyle}>
+              ＋ New Profile
+            </button>
+            <button onClick={() => setDraft({ ...currentDetails })} style={smallButtonStyle}>
+              Save Current Equipment as Profile
+            </button>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#495057' }}>
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              Show archived
+            </label>
+          </div>
+
+          {profiles
+            .filter(profile => showArchived || !profile.archivedAt)
+            .map(profile => (
+              <div key={profile.id} style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '8px',
+                padding: '8px 12px',
+                backgroundColor: '#ffffff',
+                border: '1px solid #e9ecef',
+                borderRadius: '6px',
+                opacity: profile.archivedAt ? 0.6 : 1
+              }}>
+                <div style={{ fontSize: '14px', color: '#2c3e50' }}>
+                  <strong>{profile.name}</strong>
+                  {profile.archivedAt && ' (archived)'}
+                  <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                    {[profile.equipmentMake, profile.equipmentModel, profile.equipmentType, profile.serialNumber]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  <button onClick={() => setDraft({ ...profile })} style={smallButtonStyle}>Edit</button>
+                  <button onClick={() => handleToggleArchived(profile)} style={smallButtonStyle}>
+                    {profile.archivedAt ? 'Restore' : 'Archive'}
+                  </button>
+                </div>
+              </div>
+            ))}
+
+          {draft && (
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+              gap: '8px',
+              padding: '12px',
+              backgroundColor: '#ffffff',
+              border: '1px solid #007bff',
+              borderRadius: '6px'
+            }}>
+              {PROFILE_FIELDS.map(({ field, label }) => (
+                <label key={field} style={{ fontSize: '12px', fontWeight: '600', color: '#495057' }}>
+                  {label}
+                  <input
+                    type="text"
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    style={inputStyle}
+                  />
+                </label>
+              ))}
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
+                <button onClick={handleSaveDraft} style={{ ...smallButtonStyle, backgroundColor: '#007bff', color: '#ffffff' }}>
+                  Save Profile
+                </button>
+                <button onClick={() => setDraft(null)} style={smallButtonStyle}>Cancel</button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
 import React from 'react';
 import { CalendarPicker } from '../CalendarPicker';
+import { TimeZoneNotice } from '../TimeZoneNotice';
+import { PeriodListEditor } from './PeriodListEditor';
+import { METER_TYPE_OPTIONS } from '../../utils/equipmentMeter';
 import type { FederalEquipmentEntry } from '../../utils/engineTimeDB';
+import type { EntryPeriod } from '../../utils/timePeriods';
+import { getEntryPeriodList } from '../../utils/timePeriods';
 
 interface EquipmentEntryRowProps {
   entry: FederalEquipmentEntry;
@@ -13,6 +18,8 @@ interface EquipmentEntryRowProps {
   onCalendarClose: () => void;
   onDateSelect: (date: string) => void;
   validationErrors: Record<string, string>;
+  incidentTimeZone?: string;
+  onPeriodsChange?: (index: number, periods: EntryPeriod[]) => void;
 }
 
 export const EquipmentEntryRow: React.FC<EquipmentEntryRowProps> = ({
@@ -25,9 +32,57 @@ export const EquipmentEntryRow: React.FC<EquipmentEntryRowProps> = ({
   calendarOpen,
   onCalendarClose,
   onDateSelect,
-  validationErrors
+  validationErrors,
+  incidentTimeZone,
+  onPeriodsChange
 }) => {
-  const rowColors = ['#e3f2fd'];
+  const rowColors = ['#e3f2fd', '#f3e5f5', '#e8f5e8', '#fff3e0'];
+  const meterOption = METER_TYPE_OPTIONS.find(option => option.value === entry.meterType);
+
+  // Switch to a typed period list, starting from the periods already entered
+  const handleAddPeriod = () => {
+    const enteredPeriods = getEntryPeriodList(entry);
+    onPeriodsChange?.(index, [...enteredPeriods, { type: 'WORK', start: enteredPeriods[enteredPeriods.length - 1]?.stop || '', stop: '' }]);
+  };
+
+  const renderMeterInput = (field: 'meterBegin' | 'meterEnd', label: string) => (
+    <div>
+      <label style={{
+        fontSize: '12px',
+        fontWeight: '600',
+        color: '#2c3e50',
+        marginBottom: '4px',
+        display: 'block'
+      }}>
+        {label}
+      </label>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={entry[field] || ''}
+        onChange={e => onChange(index, field, e.target.value.replace(/[^\d.,]/g, ''))}
+        style={{
+          width: '100%',
+          padding: '8px',
+          border: `1px solid ${validationErrors[`equipment-${index}-${field}`] ? '#dc3545' : '#ddd'}`,
+          borderRadius: '6px',
+          fontSize: '16px',
+          backgroundColor: '#fff',
+          color: '#333'
+        }}
+        placeholder="Reading"
+      />
+      {validationErrors[`equipment-${index}-${field}`] && (
+        <div style={{
+          fontSize: '12px',
+          color: '#dc3545',
+          marginTop: '4px'
+        }}>
+          {validationErrors[`equipment-${index}-${field}`]}
+        </div>
+      )}
+    </div>
+  );
 
   return (
     <div style={{
@@ -45,7 +100,7 @@ export const EquipmentEntryRow: React.FC<EquipmentEntryRowProps> = ({
         gap: '8px',
         marginBottom: '12px',
         padding: '8px 12px',
-        backgroundColor: rowColors[index],
+        backgroundColor: rowColors[index % rowColors.length],
         borderRadius: '6px',
         border: '2px solid #e9ecef'
       }}>
@@ -134,120 +189,198 @@ export const EquipmentEntryRow: React.FC<EquipmentEntryRowProps> = ({
         </button>
       </div>
       
+      {/* Entered Time Zone */}
+      <TimeZoneNotice
+        enteredTimeZone={entry.enteredTimeZone}
+        incidentTimeZone={incidentTimeZone}
+        date={entry.date}
+      />
+
       {/* Time Fields */}
-      <div style={{
-        display: 'grid',
-        gridTemplateColumns: '1fr 1fr 1fr 1fr',
-        gap: '8px',
-        marginBottom: '12px'
-      }}>
-        <div>
-          <label style={{
-            fontSize: '12px',
-            fontWeight: '600',
-            color: '#2c3e50',
-            marginBottom: '4px',
-            display: 'block'
-          }}>
-            Start Time 1
-          </label>
-          <input
-            type="text"
-            value={entry.start1}
-            onChange={e => onTimeInput(index, 'start1', e.target.value, 'equipment')}
-            style={{
-              width: '100%',
-              padding: '8px',
-              border: `1px solid ${validationErrors[`equipment-${index}-start1`] ? '#dc3545' : '#ddd'}`,
-              borderRadius: '6px',
-              fontSize: '16px',
-              backgroundColor: '#fff',
-              color: '#333'
-            }}
-            placeholder="0700"
-          />
-          {validationErrors[`equipment-${index}-start1`] && (
-            <div style={{
+      {entry.periods ? (
+        <PeriodListEditor
+          periods={entry.periods}
+          date={entry.date}
+          onChange={periods => onPeriodsChange?.(index, periods)}
+          timeZone={incidentTimeZone}
+        />
+      ) : (
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr 1fr 1fr',
+          gap: '8px',
+          marginBottom: '12px'
+        }}>
+          <div>
+            <label style={{
               fontSize: '12px',
-              color: '#dc3545',
-              marginTop: '4px'
+              fontWeight: '600',
+              color: '#2c3e50',
+              marginBottom: '4px',
+              display: 'block'
             }}>
-              {validationErrors[`equipment-${index}-start1`]}
-            </div>
-          )}
-        </div>
+              Start Time 1
+            </label>
+            <input
+              type="text"
+              value={entry.start1}
+              onChange={e => onTimeInput(index, 'start1', e.target.value, 'equipment')}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: `1px solid ${validationErrors[`equipment-${index}-start1`] ? '#dc3545' : '#ddd'}`,
+                borderRadius: '6px',
+                fontSize: '16px',
+                backgroundColor: '#fff',
+                color: '#333'
+              }}
+              placeholder="0700"
+            />
+            {validationErrors[`equipment-${index}-start1`] && (
+              <div style={{
+                fontSize: '12px',
+                color: '#dc3545',
+                marginTop: '4px'
+              }}>
+                {validationErrors[`equipment-${index}-start1`]}
+              </div>
+            )}
+          </div>
         
-        <div>
-          <label style={{
-            fontSize: '12px',
-            fontWeight: '600',
-            color: '#2c3e50',
-            marginBottom: '4px',
-            display: 'block'
-          }}>
-            Stop Time 1
-          </label>
-          <input
-            type="text"
-            value={entry.stop1}
-            onChange={e => onTimeInput(index, 'stop1', e.target.value, 'equipment')}
-            style={{
-              width: '100%',
-              padding: '8px',
-              border: `1px solid ${validationErrors[`equipment-${index}-stop1`] ? '#dc3545' : '#ddd'}`,
-              borderRadius: '6px',
-              fontSize: '16px',
-              backgroundColor: '#fff',
-              color: '#333'
-            }}
-            placeholder="1200"
-          />
-          {validationErrors[`equipment-${index}-stop1`] && (
-            <div style={{
+          <div>
+            <label style={{
               fontSize: '12px',
-              color: '#dc3545',
-              marginTop: '4px'
+              fontWeight: '600',
+              color: '#2c3e50',
+              marginBottom: '4px',
+              display: 'block'
             }}>
-              {validationErrors[`equipment-${index}-stop1`]}
-            </div>
-          )}
-        </div>
-        <div>
-          <label style={{
-            fontSize: '12px',
-            fontWeight: '600',
-            color: '#2c3e50',
-            marginBottom: '4px',
-            display: 'block'
-          }}>
-            Start Time 2
-          </label>
-          <input
-            type="text"
-            value={entry.start2}
-            onChange={e => onTimeInput(index, 'start2', e.target.value, 'equipment')}
-            style={{
-              width: '100%',
-              padding: '8px',
-              border: `1px solid ${validationErrors[`equipment-${index}-start2`] ? '#dc3545' : '#ddd'}`,
-              borderRadius: '6px',
-              fontSize: '16px',
-              backgroundColor: '#fff',
-              color: '#333'
-            }}
-            placeholder="1230"
-          />
-          {validationErrors[`equipment-${index}-start2`] && (
-            <div style={{
+              Stop Time 1
+            </label>
+            <input
+              type="text"
+              value={entry.stop1}
+              onChange={e => onTimeInput(index, 'stop1', e.target.value, 'equipment')}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: `1px solid ${validationErrors[`equipment-${index}-stop1`] ? '#dc3545' : '#ddd'}`,
+                borderRadius: '6px',
+                fontSize: '16px',
+                backgroundColor: '#fff',
+                color: '#333'
+              }}
+              placeholder="1200"
+            />
+            {validationErrors[`equipment-${index}-stop1`] && (
+              <div style={{
+                fontSize: '12px',
+                color: '#dc3545',
+                marginTop: '4px'
+              }}>
+                {validationErrors[`equipment-${index}-stop1`]}
+              </div>
+            )}
+          </div>
+          <div>
+            <label style={{
               fontSize: '12px',
-              color: '#dc3545',
-              marginTop: '4px'
+              fontWeight: '600',
+              color: '#2c3e50',
+              marginBottom: '4px',
+              display: 'block'
             }}>
-              {validationErrors[`equipment-${index}-start2`]}
-            </div>
-          )}
-        </div>
+              Start Time 2
+            </label>
+            <input
+              type="text"
+              value={entry.start2}
+              onChange={e => onTimeInput(index, 'start2', e.target.value, 'equipment')}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: `1px solid ${validationErrors[`equipment-${index}-start2`] ? '#dc3545' : '#ddd'}`,
+                borderRadius: '6px',
+                fontSize: '16px',
+                backgroundColor: '#fff',
+                color: '#333'
+              }}
+              placeholder="1230"
+            />
+            {validationErrors[`equipment-${index}-start2`] && (
+              <div style={{
+                fontSize: '12px',
+                color: '#dc3545',
+                marginTop: '4px'
+              }}>
+                {validationErrors[`equipment-${index}-start2`]}
+              </div>
+            )}
+          </div>
         
+          <div>
+            <label style={{
+              fontSize: '12px',
+              fontWeight: '600',
+              color: '#2c3e50',
+              marginBottom: '4px',
+              display: 'block'
+            }}>
+              Stop Time 2
+            </label>
+            <input
+              type="text"
+              value={entry.stop2}
+              onChange={e => onTimeInput(index, 'stop2', e.target.value, 'equipment')}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: `1px solid ${validationErrors[`equipment-${index}-stop2`] ? '#dc3545' : '#ddd'}`,
+                borderRadius: '6px',
+                fontSize: '16px',
+                backgroundColor: '#fff',
+                color: '#333'
+              }}
+              placeholder="1900"
+            />
+            {validationErrors[`equipment-${index}-stop2`] && (
+              <div style={{
+                fontSize: '12px',
+                color: '#dc3545',
+                marginTop: '4px'
+              }}>
+                {validationErrors[`equipment-${index}-stop2`]}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+      {!entry.periods && onPeriodsChange && (
+        <button
+          onClick={handleAddPeriod}
+          style={{
+            padding: '6px 12px',
+            backgroundColor: '#ffffff',
+            color: '#007bff',
+            border: '1px dashed #007bff',
+            borderRadius: '6px',
+            fontSize: '13px',
+            cursor: 'pointer',
+            marginBottom: '12px'
+          }}
+          title="Record travel, standby or meal periods, or more than two work periods"
+        >
+          + Add Period
+        </button>
+      )}
+      
+      {/* Meter Readings */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr 1fr',
+        gap: '8px',
+        marginBottom: '12px'
+      }}>
         <div>
           <label style={{
             fontSize: '12px',
@@ -256,34 +389,39 @@ export const EquipmentEntryRow: React.FC<EquipmentEntryRowProps> = ({
             marginBottom: '4px',
             display: 'block'
           }}>
-            Stop Time 2
+            Billed On
           </label>
-          <input
-            type="text"
-            value={entry.stop2}
-            onChange={e => onTimeInput(index, 'stop2', e.target.value, 'equipment')}
+          <select
+            value={entry.meterType || ''}
+            onChange={e => onChange(index, 'meterType', e.target.value)}
             style={{
               width: '100%',
               padding: '8px',
-              border: `1px solid ${validationErrors[`equipment-${index}-stop2`] ? '#dc3545' : '#ddd'}`,
+              border: '1px solid #ddd',
               borderRadius: '6px',
               fontSize: '16px',
               backgroundColor: '#fff',
               color: '#333'
             }}
-            placeholder="1900"
-          />
-          {validationErrors[`equipment-${index}-stop2`] && (
-            <div style={{
-              fontSize: '12px',
-              color: '#dc3545',
-              marginTop: '4px'
-            }}>
-              {validationErrors[`equipment-${index}-stop2`]}
-            </div>
-          )}
+          >
+            <option value="">Clock time</option>
+            {METER_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label} ({option.unit})</option>
+            ))}
+          </select>
         </div>
+        {meterOption && renderMeterInput('meterBegin', `Begin ${meterOption.label}`)}
+        {meterOption && renderMeterInput('meterEnd', `End ${meterOption.label}`)}
       </div>
+      {meterOption && entry.quantity && (
+        <div style={{
+          fontSize: '13px',
+          color: '#495057',
+          marginBottom: '12px'
+        }}>
+          Quantity: {entry.quantity} {meterOption.unit}
+        </div>
+      )}
       
       {/* Total, Quantity, Type */}
       <div style={{
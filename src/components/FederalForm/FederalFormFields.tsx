@@ -18,6 +18,7 @@ import {
   IncidentSupervisorField
 } from './FormFieldDefinitions';
 import type { FederalFormData } from '../../utils/engineTimeDB';
+import { isIssuedField } from '../../utils/payloadSigning';
 
 interface FederalFormFieldsProps {
   formData: FederalFormData;
@@ -28,6 +29,9 @@ export const FederalFormFields: React.FC<FederalFormFieldsProps> = ({
   formData,
   onChange
 }) => {
+  // Fields filled by a signed link are read-only
+  const isLocked = (field: keyof FederalFormData) => isIssuedField(formData, field);
+
   return (
     <>
       {/* Basic Information Section */}
@@ -35,10 +39,12 @@ export const FederalFormFields: React.FC<FederalFormFieldsProps> = ({
         <FormRow columns={2}>
           <AgreementNumberField
             value={formData.agreementNumber}
+            readOnly={isLocked('agreementNumber')}
             onChange={onChange}
           />
           <ContractorAgencyField
             value={formData.contractorAgencyName}
+            readOnly={isLocked('contractorAgencyName')}
             onChange={onChange}
           />
         </FormRow>
@@ -46,21 +52,25 @@ export const FederalFormFields: React.FC<FederalFormFieldsProps> = ({
         <FormRow columns={2}>
           <ResourceOrderNumberField
             value={formData.resourceOrderNumber}
+            readOnly={isLocked('resourceOrderNumber')}
             onChange={onChange}
           />
           <IncidentNameField
             value={formData.incidentName}
+            readOnly={isLocked('incidentName')}
             onChange={onChange}
           />
         </FormRow>
 
         <IncidentNumberField
           value={formData.incidentNumber}
+          readOnly={isLocked('incidentNumber')}
           onChange={onChange}
         />
 
         <FinancialCodeField
           value={formData.financialCode}
+          readOnly={isLocked('financialCode')}
           onChange={onChange}
         />
       </FormSection>
@@ -70,10 +80,12 @@ export const FederalFormFields: React.FC<FederalFormFieldsProps> = ({
         <FormRow columns={2}>
           <EquipmentMakeModelField
             value={formData.equipmentMakeModel}
+            readOnly={isLocked('equipmentMakeModel')}
             onChange={onChange}
           />
           <EquipmentTypeField
             value={formData.equipmentType}
+            readOnly={isLocked('equipmentType')}
             onChange={onChange}
           />
         </FormRow>
@@ -81,36 +93,43 @@ export const FederalFormFields: React.FC<FederalFormFieldsProps> = ({
         <FormRow columns={2}>
           <SerialVinNumberField
             value={formData.serialVinNumber}
+            readOnly={isLocked('serialVinNumber')}
             onChange={onChange}
           />
           <LicenseIdNumberField
             value={formData.licenseIdNumber}
+            readOnly={isLocked('licenseIdNumber')}
             onChange={onChange}
           />
         </FormRow>
 
         <TransportRetainedField
           value={formData.transportRetained}
+          readOnly={isLocked('transportRetained')}
           onChange={onChange}
         />
 
         <IsFirstLastTicketField
           value={formData.isFirstLastTicket}
+          readOnly={isLocked('isFirstLastTicket')}
           onChange={onChange}
         />
 
         <RateTypeField
           value={formData.rateType}
+          readOnly={isLocked('rateType')}
           onChange={onChange}
         />
 
         <AgencyRepresentativeField
           value={formData.agencyRepresentative}
+          readOnly={isLocked('agencyRepresentative')}
           onChange={onChange}
         />
 
         <IncidentSupervisorField
           value={formData.incidentSupervisor}
+          readOnly={isLocked('incidentSupervisor')}
           onChange={onChange}
         />
       </FormSection>
@@ -9,6 +9,7 @@ interface FormFieldProps {
   options?: Array<{ value: string; label: string }>;
   hidden?: boolean;
   error?: string;
+  readOnly?: boolean;  // Filled by a signed link and locked
 }
 
 export const FormField: React.FC<FormFieldProps> = ({
@@ -19,7 +20,8 @@ export const FormField: React.FC<FormFieldProps> = ({
   type = 'text',
   options = [],
   hidden = false,
-  error
+  error,
+  readOnly = false
 }) => {
   const baseStyle: React.CSSProperties = {
     display: hidden ? 'none' : 'flex',
@@ -38,20 +40,21 @@ export const FormField: React.FC<FormFieldProps> = ({
     border: `1px solid ${error ? '#dc3545' : '#ddd'}`,
     borderRadius: '6px',
     fontSize: '16px',
-    backgroundColor: '#fff',
+    backgroundColor: readOnly ? '#e9ecef' : '#fff',
     color: '#333'
   };
 
   return (
     <div style={baseStyle}>
       <label style={labelStyle}>
-        {label}
+        {label}{readOnly && ' 🔒'}
       </label>
       {type === 'select' ? (
         <select
           value={value}
           onChange={e => onChange(e.target.value)}
           style={inputStyle}
+          disabled={readOnly}
         >
           {options.map(option => (
             <option key={option.value} value={option.value}>
@@ -66,6 +69,7 @@ export const FormField: React.FC<FormFieldProps> = ({
           onChange={e => onChange(e.target.value)}
           style={inputStyle}
           placeholder={placeholder}
+          readOnly={readOnly}
         />
       )}
       {error && (
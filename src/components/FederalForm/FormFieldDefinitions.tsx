@@ -5,59 +5,66 @@ import type { FederalFormData } from '../../utils/engineTimeDB';
 interface FieldProps {
   value: string;
   onChange: (field: keyof FederalFormData, value: string) => void;
+  readOnly?: boolean;
 }
 
 // Basic Information Fields
 
-export const AgreementNumberField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const AgreementNumberField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="1. Agreement Number"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('agreementNumber', val)}
     placeholder="Enter agreement number"
   />
 );
 
-export const ContractorAgencyField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const ContractorAgencyField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="2. Contractor/Agency Name"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('contractorAgencyName', val)}
     placeholder="Enter contractor/agency name"
   />
 );
 
-export const ResourceOrderNumberField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const ResourceOrderNumberField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="3. E-Number"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('resourceOrderNumber', val)}
     placeholder="Enter resource order number"
   />
 );
 
-export const IncidentNameField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const IncidentNameField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="4. Incident Name"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('incidentName', val)}
     placeholder="Enter incident name"
   />
 );
 
-export const IncidentNumberField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const IncidentNumberField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="5. Incident Number"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('incidentNumber', val)}
     placeholder="Enter incident number"
   />
 );
 
-export const FinancialCodeField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const FinancialCodeField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="6. Financial Code"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('financialCode', val)}
     placeholder="Enter financial code"
     hidden={true}
@@ -66,46 +73,51 @@ export const FinancialCodeField: React.FC<FieldProps> = ({ value, onChange }) =>
 
 // Equipment Information Fields
 
-export const EquipmentMakeModelField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const EquipmentMakeModelField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="7. Equipment Model"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('equipmentMakeModel', val)}
     placeholder="Enter make/model"
   />
 );
 
-export const EquipmentTypeField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const EquipmentTypeField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="8. Equipment Type"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('equipmentType', val)}
     placeholder="Enter equipment type"
   />
 );
 
-export const SerialVinNumberField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const SerialVinNumberField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="9. VIN Number"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('serialVinNumber', val)}
     placeholder="Enter serial/VIN"
   />
 );
 
-export const LicenseIdNumberField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const LicenseIdNumberField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="10. License Plate"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('licenseIdNumber', val)}
     placeholder="Enter license/ID"
   />
 );
 
-export const TransportRetainedField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const TransportRetainedField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="12. Transport Retained?"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('transportRetained', val)}
     type="select"
     options={[
@@ -117,10 +129,11 @@ export const TransportRetainedField: React.FC<FieldProps> = ({ value, onChange }
   />
 );
 
-export const IsFirstLastTicketField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const IsFirstLastTicketField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="13. First/Last Ticket?"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('isFirstLastTicket', val)}
     type="select"
     options={[
@@ -132,10 +145,11 @@ export const IsFirstLastTicketField: React.FC<FieldProps> = ({ value, onChange }
   />
 );
 
-export const RateTypeField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const RateTypeField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="14. Rate Type"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('rateType', val)}
     type="select"
     options={[
@@ -145,20 +159,22 @@ export const RateTypeField: React.FC<FieldProps> = ({ value, onChange }) => (
   />
 );
 
-export const AgencyRepresentativeField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const AgencyRepresentativeField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="31. Contractor/Agency Representative"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('agencyRepresentative', val)}
     placeholder="Enter agency representative name"
     hidden={true}
   />
 );
 
-export const IncidentSupervisorField: React.FC<FieldProps> = ({ value, onChange }) => (
+export const IncidentSupervisorField: React.FC<FieldProps> = ({ value, onChange, readOnly }) => (
   <FormField
     label="33. Incident Supervisor"
     value={value}
+    readOnly={readOnly}
     onChange={(val) => onChange('incidentSupervisor', val)}
     placeholder="Enter incident supervisor name"
   />
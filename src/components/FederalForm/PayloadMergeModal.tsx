@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import type { PayloadChangeList, PayloadChangeSection, PayloadMergeChoice, PayloadMergeChoices } from '../../utils/payloadMerge';
+import { getDefaultMergeChoices } from '../../utils/payloadMerge';
+
+// PayloadMergeModal object properties
+interface PayloadMergeModalProps {
+  preview: PayloadChangeList | null;  // Payload waiting to be applied, on any ticket form (the modal is closed when null)
+  onApply: (choices: PayloadMergeChoices) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Sections of the preview, in the order they are shown
+const SECTION_TITLES: { section: PayloadChangeSection; title: string }[] = [
+  { section: 'DATE', title: 'Date' },
+  { section: 'FORM', title: 'Form Fields' },
+  { section: 'CHECKBOX', title: 'Remarks Checkboxes' },
+  { section: 'EQUIPMENT', title: 'Equipment Entries' },
+  { section: 'PERSONNEL', title: 'Personnel Entries' },
+  { section: 'TIME', title: 'Time Entries' }
+];
+
+const buttonStyle: React.CSSProperties = {
+  padding: '10px 20px',
+  backgroundColor: '#007bff',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  fontSize: '14px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#ffffff',
+  color: '#007bff',
+  border: '1px solid #007bff',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+// Export function PayloadMergeModal and properties
+export const PayloadMergeModal: React.FC<PayloadMergeModalProps> = ({ preview, onApply, onCancel }) => {
+  // Choice picked for each change
+  const [choices, setChoices] = useState<PayloadMergeChoices>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Start from the default choices whenever a new payload is previewed
+  useEffect(() => {
+    setChoices(preview ? getDefaultMergeChoices(preview) : {});
+  }, [preview]);
+
+  if (!preview) {
+    return null;
+  }
+
+  const signature = preview.payload.signature;
+  const appliedCount = preview.changes.filter(change => (choices[change.key] ?? change.defaultChoice) !== 'SKIP').length;
+
+  // Pick the same choice for every change that offers it
+  const setAllChoices = (choice: PayloadMergeChoice) => {
+    setChoices(Object.fromEntries(preview.changes.map(change => [
+      change.key,
+      change.options.some(option => option.value === choice) ? choice : change.defaultChoice
+    ])));
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(choices);
+    } catch (error) {
+      console.error('Error applying payload:', error);
+      alert('Failed to apply the link data. Please try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '20px',
+          width: 'min(640px, 92vw)',
+          maxHeight: '90vh',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600', color: '#2c3e50' }}>
+          Review Link Data
+        </h3>
+        <div style={{ fontSize: '13px', color: '#6c757d' }}>
+          {signature?.status === 'VALID'
+            ? `✅ Issued by ${signature.issuerName}. `
+            : ''}
+          Pick what to take from the link. Nothing changes until you apply, and you can undo afterwards.
+          {preview.unchangedCount > 0 && ` ${preview.unchangedCount} matching ${preview.unchangedCount === 1 ? 'value is' : 'values are'} not shown.`}
+        </div>
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+          <button onClick={() => setAllChoices('ACCEPT')} style={smallButtonStyle}>Use Link for All</button>
+          <button onClick={() => setAllChoices('SKIP')} style={smallButtonStyle}>Keep All Current</button>
+          <button onClick={() => setChoices(getDefaultMergeChoices(preview))} style={smallButtonStyle}>Reset</button>
+        </div>
+
+        <div style={{ overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {SECTION_TITLES.map(({ section, title }) => {
+            const changes = preview.changes.filter(change => change.section === section);
+            if (changes.length === 0) return null;
+            return (
+              <div key={section}>
+                <div style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50', marginBottom: '6px' }}>{title}</div>
+                {changes.map(change => (
+                  <div key={change.key} style={{
+                    padding: '8px 12px',
+                    marginBottom: '6px',
+                    border: '1px solid #e9ecef',
+                    borderRadius: '6px',
+                    backgroundColor: (choices[change.key] ?? change.defaultChoice) === 'SKIP' ? '#f8f9fa' : '#ffffff'
+                  }}>
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+                      <span style={{ fontSize: '13px', fontWeight: '600', color: '#495057' }}>
+                        {change.label}{change.locked && ' 🔒'}
+                      </span>
+                      <select
+                        value={choices[change.key] ?? change.defaultChoice}
+                        onChange={e => setChoices({ ...choices, [change.key]: e.target.value as PayloadMergeChoice })}
+                        disabled={change.locked}
+                        style={{ padding: '4px 8px', border: '1px solid #ced4da', borderRadius: '6px', fontSize: '13px' }}
+                      >
+                        {change.options.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {change.differences.map(difference => (
+                      <div key={difference.label} style={{ fontSize: '12px', color: '#6c757d', marginTop: '4px' }}>
+                        {change.differences.length > 1 && `${difference.label}: `}
+                        <span style={{ textDecoration: difference.current ? 'line-through' : 'none' }}>
+                          {difference.current || '(blank)'}
+                        </span>
+                        {' → '}
+                        <span style={{ color: '#2c3e50' }}>{difference.incoming}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+          <button onClick={onCancel} disabled={isApplying} style={{ ...buttonStyle, backgroundColor: '#6c757d' }}>
+            ✕ Ignore Link
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isApplying || appliedCount === 0}
+            style={{ ...buttonStyle, opacity: isApplying || appliedCount === 0 ? 0.5 : 1 }}
+          >
+            {isApplying ? '⏳ Applying...' : `Apply ${appliedCount} ${appliedCount === 1 ? 'Change' : 'Changes'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+
+// PayloadQRModal object properties
+interface PayloadQRModalProps {
+  isOpen: boolean;
+  qrCodes: string[];  // QR code images (data URLs), in sequence order
+  onClose: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '10px 20px',
+  backgroundColor: '#007bff',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  fontSize: '14px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+// Export function PayloadQRModal and properties
+export const PayloadQRModal: React.FC<PayloadQRModalProps> = ({ isOpen, qrCodes, onClose }) => {
+  // Code of the sequence being shown
+  const [index, setIndex] = useState(0);
+
+  // Start from the first code whenever new codes are shown
+  useEffect(() => {
+    setIndex(0);
+  }, [qrCodes]);
+
+  if (!isOpen || qrCodes.length === 0) {
+    return null;
+  }
+
+  const isSequence = qrCodes.length > 1;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '20px',
+          maxWidth: '90vw',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: '12px'
+        }}
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600', color: '#2c3e50' }}>
+          {isSequence ? `Scan QR code ${index + 1} of ${qrCodes.length}` : 'Scan to open this ticket'}
+        </h3>
+        <img
+          src={qrCodes[index]}
+          alt={`Ticket QR code ${index + 1} of ${qrCodes.length}`}
+          style={{ width: 'min(360px, 80vw)', height: 'auto', imageRendering: 'pixelated' }}
+        />
+        <div style={{ fontSize: '13px', color: '#6c757d', textAlign: 'center', maxWidth: '360px' }}>
+          {isSequence
+            ? 'The ticket is too large for one code. Take a photo of every code, then use Import QR with all the photos.'
+            : 'Open with the phone camera, or take a photo and use Import QR.'}
+        </div>
+        <div style={{ display: 'flex', gap: '12px' }}>
+          {isSequence && (
+            <>
+              <button
+                onClick={() => setIndex(index - 1)}
+                disabled={index === 0}
+                style={{ ...buttonStyle, opacity: index === 0 ? 0.5 : 1 }}
+              >
+                ⬅️ Previous
+              </button>
+              <button
+                onClick={() => setIndex(index + 1)}
+                disabled={index === qrCodes.length - 1}
+                style={{ ...buttonStyle, opacity: index === qrCodes.length - 1 ? 0.5 : 1 }}
+              >
+                Next ➡️
+              </button>
+            </>
+          )}
+          <button onClick={onClose} style={{ ...buttonStyle, backgroundColor: '#6c757d' }}>
+            ✕ Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+
+// PayloadUndoBar object properties
+interface PayloadUndoBarProps {
+  onUndo: () => void;  // Puts the ticket back as it was before the link data was applied
+  onDismiss: () => void;  // Keeps the link data and hides the bar
+}
+
+const undoButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#ffffff',
+  color: '#0c5460',
+  border: '1px solid #0c5460',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+const dismissButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: 'transparent',
+  color: '#0c5460',
+  border: 'none',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
+
+// Export function PayloadUndoBar and properties
+export const PayloadUndoBar: React.FC<PayloadUndoBarProps> = ({ onUndo, onDismiss }) => {
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: '8px',
+      flexWrap: 'wrap',
+      marginBottom: '16px',
+      padding: '8px 12px',
+      backgroundColor: '#d1ecf1',
+      border: '1px solid #bee5eb',
+      borderRadius: '6px',
+      fontSize: '14px',
+      color: '#0c5460'
+    }}>
+      <span>🔗 Link data applied</span>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button onClick={onUndo} style={undoButtonStyle}>
+          ↩️ Undo
+        </button>
+        <button onClick={onDismiss} style={dismissButtonStyle}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
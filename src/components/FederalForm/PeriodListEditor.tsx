@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import type { EntryPeriod, PeriodType } from '../../utils/timePeriods';
+import { PERIOD_TYPE_OPTIONS, UNPAID_PERIOD_TYPES } from '../../utils/timePeriods';
+import { calculatePeriodTypeTotals } from '../../utils/timeCalculations';
+import { validateTimeInput } from '../../utils/timevalidation';
+
+// PeriodListEditor object properties
+interface PeriodListEditorProps {
+  periods: EntryPeriod[];
+  date: string;
+  onChange: (periods: EntryPeriod[]) => void;
+  timeZone?: string;  // Incident time zone, so totals are correct across DST changes
+}
+
+// Export function PeriodListEditor and properties
+export const PeriodListEditor: React.FC<PeriodListEditorProps> = ({ periods, date, onChange, timeZone }) => {
+  // Typing errors, keyed by period index and field
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const totals = calculatePeriodTypeTotals(date, periods, timeZone);
+
+  // Update one period of the list
+  const updatePeriod = (index: number, changes: Partial<EntryPeriod>) => {
+    onChange(periods.map((period, i) => i === index ? { ...period, ...changes } : period));
+  };
+
+  // Validate a time as it is typed, the same way as the start/stop inputs
+  const handleTimeChange = (index: number, field: 'start' | 'stop', value: string) => {
+    const errorKey = `${index}-${field}`;
+    const cleanValue = value.replace(/[^\d]/g, '');
+    if (cleanValue.length > 4) return;
+
+    let errorMessage = '';
+    for (let i = 0; i < cleanValue.length; i++) {
+      const validation = validateTimeInput(cleanValue.slice(0, i), cleanValue[i]);
+      if (!validation.isValid) {
+        errorMessage = validation.error || 'Invalid input';
+        break;
+      }
+    }
+
+    setErrors(prev => {
+      const next = { ...prev };
+      if (errorMessage) {
+        next[errorKey] = errorMessage;
+      } else {
+        delete next[errorKey];
+      }
+      return next;
+    });
+
+    const formattedTime = !errorMessage && cleanValue.length === 4 ? `${cleanValue.slice(0, 2)}:${cleanValue.slice(2)}` : cleanValue;
+    updatePeriod(index, { [field]: formattedTime });
+  };
+
+  // Add a period starting when the last one stopped
+  const handleAddPeriod = () => {
+    onChange([...periods, { type: 'WORK', start: periods[periods.length - 1]?.stop || '', stop: '' }]);
+  };
+
+  const handleRemovePeriod = (index: number) => {
+    setErrors({});
+    onChange(periods.filter((_, i) => i !== index));
+  };
+
+  const inputStyle = (hasError: boolean): React.CSSProperties => ({
+    width: '100%',
+    padding: '8px',
+    border: `1px solid ${hasError ? '#dc3545' : '#ddd'}`,
+    borderRadius: '6px',
+    fontSize: '16px',
+    backgroundColor: '#fff',
+    color: '#333'
+  });
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <label style={{
+        fontSize: '12px',
+        fontWeight: '600',
+        color: '#2c3e50',
+        marginBottom: '4px',
+        display: 'block'
+      }}>
+        Time Periods
+      </label>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {periods.map((period, index) => (
+          <div key={index}>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: '1.2fr 1fr 1fr auto',
+              gap: '8px',
+              alignItems: 'center'
+            }}>
+              <select
+                value={period.type}
+                onChange={e => updatePeriod(index, { type: e.target.value as PeriodType })}
+                style={inputStyle(false)}
+              >
+                {PERIOD_TYPE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={period.start}
+                onChange={e => handleTimeChange(index, 'start', e.target.value)}
+                style={inputStyle(!!errors[`${index}-start`])}
+                placeholder="Start"
+              />
+              <input
+                type="text"
+                value={period.stop}
+                onChange={e => handleTimeChange(index, 'stop', e.target.value)}
+                style={inputStyle(!!errors[`${index}-stop`])}
+                placeholder="Stop"
+              />
+              <button
+                onClick={() => handleRemovePeriod(index)}
+                style={{
+                  backgroundColor: 'transparent',
+                  color: '#dc3545',
+                  border: '1px solid #dc3545',
+                  borderRadius: '4px',
+                  padding: '6px 10px',
+                  fontSize: '12px',
+                  cursor: 'pointer'
+                }}
+                title="Remove this period"
+              >
+                ✕
+              </button>
+            </div>
+            {(errors[`${index}-start`] || errors[`${index}-stop`]) && (
+              <div style={{
+                fontSize: '12px',
+                color: '#dc3545',
+                marginTop: '4px'
+              }}>
+                {errors[`${index}-start`] || errors[`${index}-stop`]}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: '8px',
+        marginTop: '8px'
+      }}>
+        <button
+          onClick={handleAddPeriod}
+          style={{
+            padding: '6px 12px',
+            backgroundColor: '#ffffff',
+            color: '#007bff',
+            border: '1px dashed #007bff',
+            borderRadius: '6px',
+            fontSize: '13px',
+            cursor: 'pointer'
+          }}
+        >
+          + Add Period
+        </button>
+        <span style={{ fontSize: '13px', color: '#495057', textAlign: 'right' }}>
+          {PERIOD_TYPE_OPTIONS
+            .filter(option => totals[option.value] > 0)
+            .map(option => `${option.label} ${(totals[option.value] / 60).toFixed(2)}${UNPAID_PERIOD_TYPES.includes(option.value) ? ' (unpaid)' : ''}`)
+            .join(' · ')}
+        </span>
+      </div>
+    </div>
+  );
+};
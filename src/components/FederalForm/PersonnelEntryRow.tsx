@@ -1,6 +1,10 @@
 import React from 'react';
 import { CalendarPicker } from '../CalendarPicker';
+import { TimeZoneNotice } from '../TimeZoneNotice';
+import { PeriodListEditor } from './PeriodListEditor';
 import type { FederalPersonnelEntry } from '../../utils/engineTimeDB';
+import type { EntryPeriod } from '../../utils/timePeriods';
+import type { ComplianceViolation } from '../../utils/workRestCompliance';
 
 interface PersonnelEntryRowProps {
   entry: FederalPersonnelEntry;
@@ -13,6 +17,12 @@ interface PersonnelEntryRowProps {
   onCalendarClose: () => void;
   onDateSelect: (date: string) => void;
   validationErrors: Record<string, string>;
+  rosterListId?: string;  // ID of the <datalist> of roster names offered as autocomplete
+  isOnRoster?: boolean;
+  onQuickAdd?: (index: number) => void;
+  complianceFlags?: ComplianceViolation[];  // Work/rest rules this person's shift breaks
+  incidentTimeZone?: string;  // Rows whose times were entered in another zone are flagged
+  onPeriodsChange?: (index: number, periods: EntryPeriod[]) => void;  // Typed periods, when the entry has a period list
 }
 
 export const PersonnelEntryRow: React.FC<PersonnelEntryRowProps> = ({
@@ -25,7 +35,13 @@ export const PersonnelEntryRow: React.FC<PersonnelEntryRowProps> = ({
   calendarOpen,
   onCalendarClose,
   onDateSelect,
-  validationErrors
+  validationErrors,
+  rosterListId,
+  isOnRoster = true,
+  onQuickAdd,
+  complianceFlags = [],
+  incidentTimeZone,
+  onPeriodsChange
 }) => {
   const rowColors = ['#e3f2fd', '#f3e5f5', '#e8f5e8', '#fff3e0'];
   const isFirstEntry = index === 0;
@@ -46,7 +62,7 @@ export const PersonnelEntryRow: React.FC<PersonnelEntryRowProps> = ({
         gap: '8px',
         marginBottom: '12px',
         padding: '8px 12px',
-        backgroundColor: rowColors[index],
+        backgroundColor: rowColors[index % rowColors.length],
         borderRadius: '6px',
         border: '2px solid #e9ecef'
       }}>
@@ -184,6 +200,7 @@ export const PersonnelEntryRow: React.FC<PersonnelEntryRowProps> = ({
           <input
             type="text"
             value={entry.name}
+            list={rosterListId}
             onChange={e => onChange(index, 'name', e.target.value)}
             style={{
               width: '100%',
@@ -196,6 +213,24 @@ export const PersonnelEntryRow: React.FC<PersonnelEntryRowProps> = ({
             }}
             placeholder="Name"
           />
+          {onQuickAdd && !isOnRoster && entry.name.trim() !== '' && (
+            <button
+              onClick={() => onQuickAdd(index)}
+              style={{
+                marginTop: '6px',
+                padding: '4px 10px',
+                backgroundColor: '#ffffff',
+                color: '#007bff',
+                border: '1px dashed #007bff',
+                borderRadius: '6px',
+                fontSize: '12px',
+                fontWeight: '600',
+                cursor: 'pointer'
+              }}
+            >
+              ＋ Add to roster
+            </button>
+          )}
         </div>
         <div>
           <label style={{
@@ -226,6 +261,42 @@ export const PersonnelEntryRow: React.FC<PersonnelEntryRowProps> = ({
         </div>
       </div>
       
+      {/* Entered Time Zone */}
+      <TimeZoneNotice
+        enteredTimeZone={entry.enteredTimeZone}
+        incidentTimeZone={incidentTimeZone}
+        date={entry.date}
+      />
+
+      {/* Work/Rest Compliance Flags */}
+      {complianceFlags.length > 0 && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '8px 12px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          fontSize: '13px',
+          color: '#721c24'
+        }}>
+          {complianceFlags.map(flag => (
+            <div key={`${flag.rule}-${flag.date}`}>
+              ⚠️ {flag.date}: {flag.message}
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {/* Typed Periods - copied from the equipment entry, adjustable per person */}
+      {entry.periods && (
+        <PeriodListEditor
+          periods={entry.periods}
+          date={entry.date}
+          onChange={periods => onPeriodsChange?.(index, periods)}
+          timeZone={incidentTimeZone}
+        />
+      )}
+
       {/* Time Period 1 */}
       <div style={{
         display: 'none',
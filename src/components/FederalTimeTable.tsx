@@ -1,35 +1,73 @@
 // Federal Time Table
-import React, { useEffect, useCallback } from 'react';
-import type { FederalFormData } from '../utils/engineTimeDB';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import type { FederalFormData, EquipmentProfile } from '../utils/engineTimeDB';
 import {
+  FormType,
+  getActiveTicketId,
+  setActiveTicket,
   saveFederalEquipmentEntry,
   loadAllFederalEquipmentEntries,
   saveFederalPersonnelEntry,
   loadAllFederalPersonnelEntries,
   saveFederalFormData,
   loadFederalFormData,
+  saveMealLodgingDay,
   clearCorruptedData
 } from '../utils/engineTimeDB';
-import { getPDF, storePDFWithId, listPDFs } from '../utils/pdfStorage';
+import { getPDF, storePDFWithId, listPDFs, isPDFForTicket } from '../utils/pdfStorage';
 import { DateCalendar } from './DateCalendar';
 import { CalendarPicker } from './CalendarPicker';
 import { FederalFormFields } from './FederalForm/FederalFormFields';
 import { EquipmentEntryRow } from './FederalForm/EquipmentEntryRow';
 import { PersonnelEntryRow } from './FederalForm/PersonnelEntryRow';
 import { PDFPreviewModal } from './FederalForm/PDFPreviewModal';
+import { PayloadQRModal } from './FederalForm/PayloadQRModal';
+import { PayloadMergeModal } from './FederalForm/PayloadMergeModal';
+import { PayloadUndoBar } from './FederalForm/PayloadUndoBar';
 import '../styles/components/ResponsivePDFViewer.css';
 import { debugOriginalPDF, debugPDFFields } from '../utils/debugPDF';
 import { usePDFGeneration } from '../hooks/usePDFGeneration';
 import { useDateManagement } from '../hooks/useDateManagement';
 import { useEntryHandlers } from '../hooks/useEntryHandlers';
-import { useFederalFormState } from '../hooks/useFederalFormState';
+import { useFederalFormState, createEmptyFederalFormData, createDefaultCheckboxStates } from '../hooks/useFederalFormState';
 import { usePayloadManagement } from '../hooks/usePayloadManagement';
+import { getFederalRowOverflowWarnings, getFederalTicketRows } from '../utils/fieldmapper/federalFieldMapper';
+import { TicketSwitcher } from './TicketSwitcher';
+import { EquipmentProfilePicker } from './EquipmentProfilePicker';
+import { CrewRosterPanel } from './CrewRosterPanel';
+import { useCrewRoster } from '../hooks/useCrewRoster';
+import { RoundingPolicySelector } from './RoundingPolicySelector';
+import { CostSummaryPanel } from './CostSummaryPanel';
+import { MealLodgingPanel } from './MealLodgingPanel';
+import { PayloadIssuerPanel } from './PayloadIssuerPanel';
+import { useTicketRoundingPolicy } from '../hooks/useTicketRoundingPolicy';
+import { OvernightSplitToggle } from './OvernightSplitToggle';
+import { useTicketSplitOvernight } from '../hooks/useTicketSplitOvernight';
+import { TimeZoneSelector } from './TimeZoneSelector';
+import { useIncidentTimeZone } from '../hooks/useIncidentTimeZone';
+import type { DayTimeTotals } from '../utils/timePeriods';
+import { TIME_CLASS_OPTIONS } from '../utils/timePeriods';
+import { calculateTimeClassTotals } from '../utils/timeCalculations';
+import type { TimeClassTotals } from '../utils/timeCalculations';
+import type { ContinuityIssue } from '../utils/ticketContinuity';
+import { applyProfileToFederalForm, getProfileDetailsFromFederalForm } from '../utils/equipmentProfiles';
+import { isIssuedField, keepIssuedFields } from '../utils/payloadSigning';
+import type { ComplianceViolation } from '../utils/workRestCompliance';
+import { evaluateFederalCompliance, getViolationsFor } from '../utils/workRestCompliance';
+import type { MealLodgingFlags } from '../utils/mealLodging';
+import type { PayloadMergeChoices } from '../utils/payloadMerge';
+import { getMealLodgingFlags, NO_MEAL_LODGING_FLAGS } from '../utils/mealLodging';
+import type { MeterReadingIssue } from '../utils/equipmentMeter';
+import { evaluateMeterReadings } from '../utils/equipmentMeter';
 
 export const FederalTimeTable: React.FC = () => {
   // Form state management hook
   const {
     federalFormData,
     setFederalFormData,
+    activeTicketId,
+    setActiveTicketId,
     equipmentEntries,
     setEquipmentEntries,
     personnelEntries,
@@ -127,6 +165,9 @@ export const FederalTimeTable: React.FC = () => {
       // First, clear any corrupted data from previous database issues
       await clearCorruptedData();
       
+      // Resolve the active ticket (creates the first ticket on a fresh install)
+      setActiveTicketId(await getActiveTicketId(FormType.FEDERAL));
+
       // Then, migrate any old date formats
       await migrateDateFormats();
       
@@ -304,6 +345,10 @@ export const FederalTimeTable: React.FC = () => {
 
   // Handle Federal form data changes and autosave
   const handleFederalFormChange = (field: keyof FederalFormData, value: string) => {
+    // Fields filled by a signed link are locked
+    if (isIssuedField(federalFormData, field)) {
+      return;
+    }
     setFederalFormData(prev => {
       let updated = { ...prev, [field]: value };
       
@@ -321,6 +366,17 @@ export const FederalTimeTable: React.FC = () => {
     setHasUnsavedChanges(true);
   };
 
+  // Fill the equipment section from a stored equipment profile
+  const handleApplyEquipmentProfile = (profile: EquipmentProfile) => {
+    setFederalFormData(prev => {
+      // A profile does not replace fields filled by a signed link
+      const updated = keepIssuedFields(prev, applyProfileToFederalForm(prev, profile));
+      saveFederalFormData(updated);
+      return updated;
+    });
+    setHasUnsavedChanges(true);
+  };
+
   // Handle checkbox changes for remarks section
   const handleCheckboxChange = async (option: keyof typeof checkboxStates) => {
     // Calculate new checkbox states
@@ -343,6 +399,17 @@ export const FederalTimeTable: React.FC = () => {
       newStates[option] = !checkboxStates[option];
       }
 
+    await saveCheckboxStates(newStates);
+  };
+
+  // Apply meal/lodging remarks suggested from the shift times
+  const handleMealLodgingFlagsChange = async (flags: MealLodgingFlags) => {
+    await saveCheckboxStates({ ...checkboxStates, ...flags });
+  };
+
+  // Show and save checkbox states; meal/lodging remarks are recorded for the selected date only, so the ticket-wide
+  // defaults that dates without a record fall back to are left alone
+  const saveCheckboxStates = async (newStates: typeof checkboxStates) => {
     // Set the checkbox states in UI
     setCheckboxStates(newStates);
 
@@ -355,10 +422,13 @@ export const FederalTimeTable: React.FC = () => {
     try {
       setIsSaving(true);
       
-      // Update form data with new checkbox states
+      // Update form data with new checkbox states, keeping the ticket-wide meal/lodging defaults when the
+      // remarks are recorded for the date
       const updatedFormData = {
         ...federalFormData,
-        checkboxStates: newStates
+        checkboxStates: activeTicketId !== null
+          ? { ...newStates, ...getMealLodgingFlags(federalFormData.checkboxStates || NO_MEAL_LODGING_FLAGS) }
+          : newStates
       };
       
       await saveFederalFormData(updatedFormData);
@@ -368,6 +438,10 @@ export const FederalTimeTable: React.FC = () => {
       // Get the full date range
       const fullDateRange = currentSelectedDate || formatToMMDDYY(new Date());
 
+      if (activeTicketId !== null) {
+        await saveMealLodgingDay(activeTicketId, fullDateRange, getMealLodgingFlags(newStates));
+      }
+
       // Save the record
       await saveDataForDate();
 
@@ -384,22 +458,57 @@ export const FederalTimeTable: React.FC = () => {
     }
   };
 
+  // Crew roster hook
+  const {
+    crewMembers,
+    saveMember,
+    removeMember,
+    quickAddMember,
+    isOnRoster
+  } = useCrewRoster();
+
+  // Billing rounding of the active ticket
+  const { roundingPolicy, updateRoundingPolicy } = useTicketRoundingPolicy(activeTicketId);
+  // Whether overnight time goes on the next date's row
+  const { splitOvernight, updateSplitOvernight } = useTicketSplitOvernight(activeTicketId);
+  // Time zone the incident's times are in
+  const { timeZone, updateTimeZone } = useIncidentTimeZone(activeTicketId);
+
   // Entry handlers hook
   const {
     handleEquipmentEntryChange,
+    handleEquipmentPeriodsChange,
+    handlePersonnelPeriodsChange,
     handlePersonnelEntryChange,
     handleTimeInput,
     handleClearEquipmentEntry,
-    handleClearPersonnelEntry
+    handleClearPersonnelEntry,
+    handleAddEquipmentEntry,
+    handleAddPersonnelEntry
   } = useEntryHandlers({
     equipmentEntries,
     personnelEntries,
     setEquipmentEntries,
     setPersonnelEntries,
     setTimeValidationErrors,
-    setHasUnsavedChanges
+    setHasUnsavedChanges,
+    crewMembers,
+    roundingPolicy,
+    timeZone
   });
 
+  // Add the name typed into a personnel row to the crew roster
+  const handleQuickAddCrewMember = async (index: number) => {
+    const entry = personnelEntries[index];
+    if (!entry) return;
+    try {
+      await quickAddMember(entry.name, entry.remarks);
+    } catch (error) {
+      console.error('Error adding crew member:', error);
+      alert('Failed to add to the crew roster. Please try again.');
+    }
+  };
+
   // Calendar handlers
   const handleCalendarOpen = (type: 'equipment' | 'personnel', index: number) => {
     // Only allow calendar for equipment entries or first personnel entry
@@ -450,6 +559,59 @@ export const FederalTimeTable: React.FC = () => {
   // PDF handlers
   const handleViewPDF = generatePDF;
 
+  // Warn when there are more entries than the OF-297 has rows (counting the rows overnight splits add)
+  const ticketRows = getFederalTicketRows(equipmentEntries, personnelEntries, splitOvernight, timeZone);
+  const rowOverflowWarnings = getFederalRowOverflowWarnings(ticketRows.equipmentEntries, ticketRows.personnelEntries);
+
+  // Work/rest compliance across the stored history, re-evaluated as entries are edited
+  const [complianceViolations, setComplianceViolations] = useState<ComplianceViolation[]>([]);
+  useEffect(() => {
+    if (activeTicketId === null) return;
+    let cancelled = false;
+    evaluateFederalCompliance(personnelEntries, equipmentEntries, activeTicketId)
+      .then(violations => {
+        if (!cancelled) setComplianceViolations(violations);
+      })
+      .catch(error => console.error('Error evaluating work/rest compliance:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [personnelEntries, equipmentEntries, activeTicketId]);
+
+  // Odometer/hour-meter readings that go backward from the day before, shown on the equipment rows
+  const [meterIssues, setMeterIssues] = useState<MeterReadingIssue[]>([]);
+  useEffect(() => {
+    if (activeTicketId === null) return;
+    let cancelled = false;
+    evaluateMeterReadings(equipmentEntries, activeTicketId)
+      .then(issues => {
+        if (!cancelled) setMeterIssues(issues);
+      })
+      .catch(error => console.error('Error checking meter readings:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [equipmentEntries, activeTicketId]);
+
+  const equipmentValidationErrors = { ...timeValidationErrors };
+  meterIssues.forEach(issue => {
+    const index = equipmentEntries.indexOf(issue.entry);
+    if (index !== -1) {
+      equipmentValidationErrors[`equipment-${index}-${issue.field}`] = issue.message;
+    }
+  });
+
+  const addEntryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    backgroundColor: '#ffffff',
+    color: '#007bff',
+    border: '1px dashed #007bff',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  };
+
 
   // Load stored PDFs from IndexedDB (filtered by current date)
   const loadStoredPDFs = async () => {
@@ -458,8 +620,9 @@ export const FederalTimeTable: React.FC = () => {
       const pdfs = await listPDFs();
       console.log('🔍 All PDFs from IndexedDB:', pdfs);
       
-      // Filter for Federal PDFs only
-      const federalPDFs = pdfs.filter(pdf => pdf.id.startsWith('federal-signed-'));
+      // Filter for Federal PDFs of the active ticket only
+      const ticketId = await getActiveTicketId(FormType.FEDERAL);
+      const federalPDFs = pdfs.filter(pdf => pdf.id.startsWith('federal-signed-') && isPDFForTicket(pdf, ticketId));
       console.log('🔍 Federal PDFs:', federalPDFs);
       
       // Get current selected date
@@ -533,6 +696,8 @@ export const FederalTimeTable: React.FC = () => {
     loadDataForDate,
     saveDataForDate,
     refreshSavedDates,
+    loadDayTotals,
+    loadContinuityIssues,
     formatToMMDDYY
   } = useDateManagement({
     currentSelectedDate,
@@ -547,23 +712,141 @@ export const FederalTimeTable: React.FC = () => {
     setSavedDates
   });
 
+  // Time worked on the selected date, with overnight time credited to the date it was worked on
+  const [dayTotals, setDayTotals] = useState<DayTimeTotals | null>(null);
+  useEffect(() => {
+    if (!currentSelectedDate || activeTicketId === null) return;
+    let cancelled = false;
+    loadDayTotals(currentSelectedDate)
+      .then(totals => {
+        if (!cancelled) setDayTotals(totals);
+      })
+      .catch(error => console.error('Error loading day totals:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSelectedDate, activeTicketId, timeZone, loadDayTotals]);
+
+  // Worked, standby and travel time of the entries being edited - billed differently, so shown apart once periods are typed
+  const hasTypedPeriods = [...equipmentEntries, ...personnelEntries].some(entry => entry.periods);
+  const equipmentClassTotals = calculateTimeClassTotals(equipmentEntries, timeZone);
+  const personnelClassTotals = calculateTimeClassTotals(personnelEntries, timeZone);
+  const formatClassTotals = (totals: TimeClassTotals) => TIME_CLASS_OPTIONS
+    .map(option => `${option.label} ${(totals[option.value] / 60).toFixed(2)}`)
+    .join(' · ');
+
+  // Cross-day problems across the ticket's saved dates, checked when the calendar is opened
+  const [continuityIssues, setContinuityIssues] = useState<ContinuityIssue[]>([]);
+  useEffect(() => {
+    if (!showMainCalendar) return;
+    let cancelled = false;
+    loadContinuityIssues()
+      .then(issues => {
+        if (!cancelled) setContinuityIssues(issues);
+      })
+      .catch(error => console.error('Error checking date continuity:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [showMainCalendar, savedDates, loadContinuityIssues]);
+
   // Payload management hook
   const {
+    payloadPreview,
+    payloadUndo,
+    applyPayloadPreview,
+    dismissPayloadPreview,
+    undoLastPayloadMerge,
+    dismissPayloadUndo,
     parseAndApplyPayload,
-    generateShareableLink
+    generateShareableLink,
+    generatePayloadQRCodes,
+    importPayloadFromQRImages
   } = usePayloadManagement({
     federalFormData,
-    setFederalFormData,
     equipmentEntries,
-    setEquipmentEntries,
     personnelEntries,
-    setPersonnelEntries,
     checkboxStates,
-    setCheckboxStates,
     currentSelectedDate,
-    setCurrentSelectedDate
+    setCurrentSelectedDate,
+    hasUnsavedChanges,
+    saveDataForDate,
+    loadDataForDate
   });
 
+  // Apply the changes picked in the payload preview
+  const handleApplyPayloadPreview = async (choices: PayloadMergeChoices) => {
+    await applyPayloadPreview(choices);
+    await refreshSavedDates();
+  };
+
+  // Put the ticket back as it was before the link data was applied
+  const handleUndoPayloadMerge = async () => {
+    try {
+      await undoLastPayloadMerge();
+      await refreshSavedDates();
+    } catch (error) {
+      console.error('Error undoing payload merge:', error);
+      alert('Failed to undo the link data. Please try again.');
+    }
+  };
+
+  // QR codes of the ticket, shown for another phone to scan
+  const [payloadQRCodes, setPayloadQRCodes] = useState<string[]>([]);
+  const [showPayloadQR, setShowPayloadQR] = useState(false);
+  const qrImageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleShowPayloadQR = async () => {
+    try {
+      setPayloadQRCodes(await generatePayloadQRCodes());
+      setShowPayloadQR(true);
+    } catch (error) {
+      console.error('Error generating QR codes:', error);
+      alert('Failed to generate the QR code. Please try again.');
+    }
+  };
+
+  // Import a ticket from photos of its QR codes
+  const handleQRImagesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      await importPayloadFromQRImages(files);
+    } catch (error) {
+      console.error('Error importing QR code:', error);
+      alert(`Could not import the QR code: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Switch to another ticket, saving the current one first
+  const handleTicketChange = async (ticketId: number) => {
+    if (ticketId === activeTicketId) {
+      return;
+    }
+
+    try {
+      await saveDataForDate();
+      await setActiveTicket(FormType.FEDERAL, ticketId);
+      setActiveTicketId(ticketId);
+      // The undo of link data belongs to the ticket it was applied to
+      dismissPayloadUndo();
+
+      // A ticket without saved header data starts from a blank form
+      setFederalFormData(createEmptyFederalFormData());
+      setCheckboxStates(createDefaultCheckboxStates());
+      setTimeValidationErrors({});
+
+      await loadDataForDate(currentSelectedDate || formatToMMDDYY(new Date()));
+      await refreshSavedDates();
+      await loadStoredPDFs();
+      console.log('Switched to Federal ticket:', ticketId);
+    } catch (error) {
+      console.error('Error switching Federal ticket:', error);
+      alert('Failed to switch tickets. Please try again.');
+    }
+  };
+
   return (
     <>
       <style>{`
@@ -622,6 +905,14 @@ export const FederalTimeTable: React.FC = () => {
           }}>
             OF-297 (Rev. 10/24) - Emergency Equipment Shift Ticket
           </p>
+          <div style={{ display: 'flex', justifyContent: 'center', gap: '12px' }}>
+            <Link to="/eest" style={{ color: '#ffffff', fontSize: '12px', opacity: 0.9 }}>
+              Switch to EEST
+            </Link>
+            <Link to="/odf" style={{ color: '#ffffff', fontSize: '12px', opacity: 0.9 }}>
+              Switch to ODF Shift Ticket
+            </Link>
+          </div>
         </div>
 
         {/* Calendar Header */}
@@ -697,8 +988,55 @@ export const FederalTimeTable: React.FC = () => {
                 Selected: {currentSelectedDate}
               </div>
             )}
+
+            {currentSelectedDate && dayTotals && (dayTotals.equipmentMinutes > 0 || dayTotals.personnelMinutes > 0) && (
+              <div style={{
+                padding: '8px 12px',
+                backgroundColor: '#f8f9fa',
+                color: '#495057',
+                borderRadius: '6px',
+                fontSize: '14px',
+                border: '1px solid #e9ecef'
+              }}>
+                Worked: Equipment {(dayTotals.equipmentMinutes / 60).toFixed(2)} hrs
+                {dayTotals.equipmentCarriedInMinutes > 0 && ` (${(dayTotals.equipmentCarriedInMinutes / 60).toFixed(2)} from the night before)`}
+                {' · '}Personnel {(dayTotals.personnelMinutes / 60).toFixed(2)} hrs
+                {dayTotals.personnelCarriedInMinutes > 0 && ` (${(dayTotals.personnelCarriedInMinutes / 60).toFixed(2)} from the night before)`}
+              </div>
+            )}
+
+            {currentSelectedDate && hasTypedPeriods && (
+              <div style={{
+                padding: '8px 12px',
+                backgroundColor: '#f8f9fa',
+                color: '#495057',
+                borderRadius: '6px',
+                fontSize: '14px',
+                border: '1px solid #e9ecef'
+              }}>
+                Equipment: {formatClassTotals(equipmentClassTotals)} hrs
+                {' | '}Personnel: {formatClassTotals(personnelClassTotals)} hrs
+              </div>
+            )}
           </div>
-          
+
+          <TicketSwitcher
+            formType={FormType.FEDERAL}
+            activeTicketId={activeTicketId}
+            onTicketChange={handleTicketChange}
+          />
+          <RoundingPolicySelector
+            policy={roundingPolicy}
+            onChange={updateRoundingPolicy}
+          />
+          <OvernightSplitToggle
+            splitOvernight={splitOvernight}
+            onChange={updateSplitOvernight}
+          />
+          <TimeZoneSelector
+            timeZone={timeZone}
+            onChange={updateTimeZone}
+          />
         </div>
 
         {/* Form Content Container */}
@@ -708,6 +1046,20 @@ export const FederalTimeTable: React.FC = () => {
           boxSizing: 'border-box'
         }}>
           
+          <EquipmentProfilePicker
+            currentDetails={getProfileDetailsFromFederalForm(federalFormData)}
+            onApply={handleApplyEquipmentProfile}
+          />
+
+          {payloadUndo && (
+            <PayloadUndoBar onUndo={handleUndoPayloadMerge} onDismiss={dismissPayloadUndo} />
+          )}
+
+          <PayloadIssuerPanel
+            issuedBy={federalFormData.issuedBy}
+            issuedFieldCount={federalFormData.issuedFields?.length ?? 0}
+          />
+
           {/* Form Fields - Extracted to FederalFormFields component */}
           <FederalFormFields
             formData={federalFormData}
@@ -738,7 +1090,7 @@ export const FederalTimeTable: React.FC = () => {
               flexDirection: 'column',
               gap: '12px'
             }}>
-              {Array.from({ length: 1 }, (_, idx) => {
+              {Array.from({ length: Math.max(1, equipmentEntries.length) }, (_, idx) => {
                 const entry = equipmentEntries[idx] || { date: '', start: '', stop: '', start1: '', stop1: '', start2: '', stop2: '', total: '', quantity: '', type: '', remarks: '' };
                 return (
                   <EquipmentEntryRow
@@ -752,20 +1104,48 @@ export const FederalTimeTable: React.FC = () => {
                     calendarOpen={calendarOpen}
                     onCalendarClose={handleCalendarClose}
                     onDateSelect={handleDateSelect}
-                    validationErrors={timeValidationErrors}
+                    validationErrors={equipmentValidationErrors}
+                    incidentTimeZone={timeZone}
+                    onPeriodsChange={handleEquipmentPeriodsChange}
                   />
                 );
               })}
+              {equipmentEntries.length >= 1 && (
+                <button
+                  onClick={() => handleAddEquipmentEntry(currentSelectedDate || formatToMMDDYY(new Date()))}
+                  style={addEntryButtonStyle}
+                >
+                  + Add Equipment Entry
+                </button>
+              )}
             </div>
           </div>
 
+          {/* Cost Estimate - not written to the PDF */}
+          <CostSummaryPanel
+            ticketId={activeTicketId}
+            equipmentEntries={equipmentEntries}
+            roundingPolicy={roundingPolicy}
+            currentSelectedDate={currentSelectedDate}
+          />
+
           {/* Personnel Time Entries Section */}
+          <CrewRosterPanel
+            crewMembers={crewMembers}
+            onSaveMember={saveMember}
+            onRemoveMember={removeMember}
+          />
+          <datalist id="crew-roster-names">
+            {crewMembers.map(member => (
+              <option key={member.id} value={member.name}>{member.qualification}</option>
+            ))}
+          </datalist>
           <div style={{
             display: 'flex',
             flexDirection: 'column',
             gap: '12px'
           }}>
-            {Array.from({ length: 3 }, (_, idx) => {
+            {Array.from({ length: Math.max(3, personnelEntries.length) }, (_, idx) => {
               const entry = personnelEntries[idx] || { date: '', name: '', start1: '', stop1: '', start2: '', stop2: '', total: '', remarks: '' };
               return (
                 <PersonnelEntryRow
@@ -780,10 +1160,42 @@ export const FederalTimeTable: React.FC = () => {
                   onCalendarClose={handleCalendarClose}
                   onDateSelect={handleDateSelect}
                   validationErrors={timeValidationErrors}
+                  rosterListId="crew-roster-names"
+                  complianceFlags={getViolationsFor(complianceViolations, entry.name, entry.date)}
+                  isOnRoster={isOnRoster(entry.name)}
+                  onQuickAdd={handleQuickAddCrewMember}
+                  incidentTimeZone={timeZone}
+                  onPeriodsChange={handlePersonnelPeriodsChange}
                 />
               );
             })}
+            {/* Only offer extra rows once the default rows are in use */}
+            {personnelEntries.length >= 3 && (
+              <button
+                onClick={() => handleAddPersonnelEntry(currentSelectedDate || formatToMMDDYY(new Date()))}
+                style={addEntryButtonStyle}
+              >
+                + Add Personnel Entry
+              </button>
+            )}
           </div>
+
+          {/* Row overflow warning - the OF-297 has a fixed number of rows */}
+          {rowOverflowWarnings.length > 0 && (
+            <div style={{
+              marginTop: '16px',
+              padding: '12px 16px',
+              backgroundColor: '#fff3cd',
+              border: '1px solid #ffeeba',
+              borderRadius: '6px',
+              fontSize: '13px',
+              color: '#856404'
+            }}>
+              {rowOverflowWarnings.map(warning => (
+                <div key={warning}>⚠️ {warning}</div>
+              ))}
+            </div>
+          )}
           
           {/* Remarks Section */}
           <div style={{
@@ -972,6 +1384,16 @@ export const FederalTimeTable: React.FC = () => {
               </label>
             </div>
 
+            <MealLodgingPanel
+              ticketId={activeTicketId}
+              equipmentEntries={equipmentEntries}
+              personnelEntries={personnelEntries}
+              currentSelectedDate={currentSelectedDate}
+              flags={checkboxStates}
+              onApplyFlags={handleMealLodgingFlagsChange}
+              timeZone={timeZone}
+            />
+
             {/* General Remarks Textarea */}
             <div style={{
               display: 'flex',
@@ -1125,6 +1547,52 @@ export const FederalTimeTable: React.FC = () => {
             >
               🔗 Share Link
             </button>
+
+            <button
+              onClick={handleShowPayloadQR}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: '#007bff',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer',
+                transition: 'background-color 0.2s ease'
+              }}
+              onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#0056b3'}
+              onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#007bff'}
+            >
+              🔳 Show QR
+            </button>
+
+            <button
+              onClick={() => qrImageInputRef.current?.click()}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: '#6c757d',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer',
+                transition: 'background-color 0.2s ease'
+              }}
+              onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#5a6268'}
+              onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#6c757d'}
+            >
+              📷 Import QR
+            </button>
+            <input
+              ref={qrImageInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleQRImagesSelected}
+              style={{ display: 'none' }}
+            />
             
              {/* Debug PDF Fields Button - temporarily visible for troubleshooting */}
              <button
@@ -1377,6 +1845,7 @@ export const FederalTimeTable: React.FC = () => {
            savedDates={savedDates}
            onDateSelect={handleMainDateSelect}
            onClose={handleMainCalendarClose}
+           continuityIssues={continuityIssues}
          />
        )}
 
@@ -1387,6 +1856,19 @@ export const FederalTimeTable: React.FC = () => {
         previewPDF={previewPDF}
         onClose={handleClosePDFPreview}
       />
+
+      {/* Ticket QR Code Modal */}
+      <PayloadQRModal
+        isOpen={showPayloadQR}
+        qrCodes={payloadQRCodes}
+        onClose={() => setShowPayloadQR(false)}
+      />
+
+      <PayloadMergeModal
+        preview={payloadPreview}
+        onApply={handleApplyPayloadPreview}
+        onCancel={dismissPayloadPreview}
+      />
     </div>
     </>
   );
@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { FederalEquipmentEntry, FederalPersonnelEntry } from '../utils/engineTimeDB';
+import type { MealLodgingFlags, MealLodgingLedger } from '../utils/mealLodging';
+import {
+  formatMealLodgingLedgerCsv,
+  getMealLabel,
+  getMealLodgingFlags,
+  getMealLodgingRemarks,
+  getMealsDue,
+  getShiftSpans,
+  getSuggestedMealLodgingFlags,
+  loadIncidentMealLodgingLedger
+} from '../utils/mealLodging';
+
+// MealLodgingPanel object properties
+interface MealLodgingPanelProps {
+  ticketId: number | null;
+  equipmentEntries: FederalEquipmentEntry[];  // Entries being edited (ledgered with the stored history)
+  personnelEntries: FederalPersonnelEntry[];
+  currentSelectedDate: string;
+  flags: MealLodgingFlags;  // Meal/lodging remarks checked for the selected date
+  onApplyFlags: (flags: MealLodgingFlags) => void;
+  timeZone?: string;  // Incident time zone, so overnight shifts are credited to the right date
+}
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#ffffff',
+  color: '#007bff',
+  border: '1px solid #007bff',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: '8px',
+  padding: '4px 0',
+  fontSize: '13px',
+  color: '#495057'
+};
+
+// Export function MealLodgingPanel and properties
+export const MealLodgingPanel: React.FC<MealLodgingPanelProps> = ({
+  ticketId,
+  equipmentEntries,
+  personnelEntries,
+  currentSelectedDate,
+  flags,
+  onApplyFlags,
+  timeZone
+}) => {
+  // Panel state
+  const [isOpen, setIsOpen] = useState(false);
+  // Ledger of the ticket's incident
+  const [ledger, setLedger] = useState<MealLodgingLedger | null>(null);
+
+  // Meals due on the selected date, from the shift times being edited
+  const span = getShiftSpans(
+    equipmentEntries.filter(entry => entry.date === currentSelectedDate),
+    personnelEntries.filter(entry => entry.date === currentSelectedDate),
+    timeZone
+  ).get(currentSelectedDate);
+  const mealsDue = getMealsDue(span);
+  const currentFlags = getMealLodgingFlags(flags);
+  const suggestedFlags = getSuggestedMealLodgingFlags(mealsDue, currentFlags);
+  const hasSuggestion = getMealLodgingRemarks(suggestedFlags).join() !== getMealLodgingRemarks(currentFlags).join();
+
+  const refreshLedger = useCallback(async () => {
+    if (ticketId === null) return;
+    try {
+      setLedger(await loadIncidentMealLodgingLedger(ticketId, equipmentEntries, personnelEntries));
+    } catch (error) {
+      console.error('Error loading meal/lodging ledger:', error);
+    }
+  }, [ticketId, equipmentEntries, personnelEntries]);
+
+  // Keep the ledger current while the panel is open (remarks are saved per date as they are checked)
+  useEffect(() => {
+    if (isOpen) {
+      refreshLedger();
+    }
+  }, [isOpen, refreshLedger, flags]);
+
+  // Download the ledger as CSV for reimbursement reconciliation
+  const handleExport = () => {
+    if (!ledger) return;
+    const blob = new Blob([formatMealLodgingLedgerCsv(ledger)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Meal_Lodging_Ledger_${ledger.incidentNumber || ledger.incidentName || 'Incident'}.csv`.replace(/[^\w.-]+/g, '_');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const mealsNotProvided = ledger?.rows.reduce((count, row) => count + row.mealsNotProvided.length, 0) ?? 0;
+  const lodgingNightsNotProvided = ledger?.rows.filter(row => row.lodgingNotProvided).length ?? 0;
+
+  return (
+    <div style={{
+      marginBottom: '16px',
+      padding: '12px',
+      border: '1px solid #e9ecef',
+      borderRadius: '8px',
+      backgroundColor: '#f8f9fa'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <span style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+          🍽️ Meals &amp; Lodging
+        </span>
+        <button onClick={() => setIsOpen(!isOpen)} style={smallButtonStyle}>
+          {isOpen ? 'Hide Ledger' : 'Show Ledger'}
+        </button>
+      </div>
+
+      {/* Meals due on the selected date */}
+      <div style={{ ...rowStyle, flexWrap: 'wrap' }}>
+        <span>
+          {span
+            ? `Meals due ${currentSelectedDate}: ${mealsDue.length > 0 ? mealsDue.map(getMealLabel).join(', ') : 'none'}`
+            : `No shift times on ${currentSelectedDate}`}
+        </span>
+      </div>
+
+      {hasSuggestion && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: '8px',
+          flexWrap: 'wrap',
+          padding: '8px 12px',
+          backgroundColor: '#fff3cd',
+          border: '1px solid #ffeaa7',
+          borderRadius: '6px',
+          fontSize: '13px',
+          color: '#856404'
+        }}>
+          <span>
+            ⚠️ The shift times call for: {getMealLodgingRemarks(suggestedFlags).join(', ') || 'no meal remarks'}
+          </span>
+          <button onClick={() => onApplyFlags(suggestedFlags)} style={smallButtonStyle}>
+            Apply
+          </button>
+        </div>
+      )}
+
+      {isOpen && ledger && (
+        <div style={{ marginTop: '12px', padding: '8px 12px', backgroundColor: '#ffffff', border: '1px solid #e9ecef', borderRadius: '6px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+            <span style={{ fontSize: '13px', fontWeight: '600', color: '#2c3e50' }}>
+              Incident ledger{ledger.incidentNumber ? ` (${ledger.incidentNumber})` : ''}
+            </span>
+            <button onClick={handleExport} disabled={ledger.rows.length === 0} style={smallButtonStyle}>
+              Export CSV
+            </button>
+          </div>
+          {ledger.rows.length === 0 && <div style={rowStyle}>No dates entered</div>}
+          {ledger.rows.map(row => (
+            <div
+              key={`${row.ticketId}-${row.date}`}
+              style={{ ...rowStyle, fontWeight: row.ticketId === ticketId && row.date === currentSelectedDate ? '600' : 'normal' }}
+            >
+              <span>{row.date} · {row.equipment}{row.shift ? ` · ${row.shift}` : ''}</span>
+              <span>{row.remarks.length > 0 ? row.remarks.join(', ') : 'Provided'}</span>
+            </div>
+          ))}
+          <div style={{ ...rowStyle, borderTop: '1px solid #e9ecef', fontWeight: '600', color: '#2c3e50' }}>
+            <span>Not provided</span>
+            <span>
+              {mealsNotProvided} {mealsNotProvided === 1 ? 'meal' : 'meals'} · {lodgingNightsNotProvided} lodging {lodgingNightsNotProvided === 1 ? 'night' : 'nights'}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
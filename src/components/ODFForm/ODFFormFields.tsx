@@ -0,0 +1,191 @@
+import React from 'react';
+import { FormField } from '../FederalForm/FormField';
+import { FormSection, FormRow } from '../FederalForm/FormSection';
+import type { ODFFormData } from '../../utils/engineTimeDB';
+import { isIssuedField } from '../../utils/payloadSigning';
+
+// Form fields edited as plain strings (excludes the remarks arrays and the equipment use union)
+export type ODFTextField = Exclude<keyof ODFFormData, 'id' | 'formType' | 'remarksOptions' | 'customRemarks' | 'issuedBy' | 'issuedFields'>;
+
+interface ODFFormFieldsProps {
+  formData: ODFFormData;
+  onChange: (field: ODFTextField, value: string) => void;
+}
+
+export const ODFFormFields: React.FC<ODFFormFieldsProps> = ({
+  formData,
+  onChange
+}) => {
+  // Fields filled by a signed link are read-only
+  const isLocked = (field: ODFTextField) => isIssuedField(formData, field);
+
+  return (
+    <>
+      {/* Resource Information Section */}
+      <FormSection title="Resource Information">
+        <FormRow columns={2}>
+          <FormField
+            label="1. Div/Unit"
+            value={formData.divUnit}
+            onChange={(val) => onChange('divUnit', val)}
+            readOnly={isLocked('divUnit')}
+            placeholder="Enter division/unit"
+          />
+          <FormField
+            label="2. Shift"
+            value={formData.shift}
+            onChange={(val) => onChange('shift', val)}
+            readOnly={isLocked('shift')}
+            placeholder="Enter shift"
+          />
+        </FormRow>
+
+        <FormRow columns={2}>
+          <FormField
+            label="3. Owner/Contractor Name"
+            value={formData.ownerContractor}
+            onChange={(val) => onChange('ownerContractor', val)}
+            readOnly={isLocked('ownerContractor')}
+            placeholder="Enter owner/contractor name"
+          />
+          <FormField
+            label="4. Contract/Agreement Number"
+            value={formData.contractNumber}
+            onChange={(val) => onChange('contractNumber', val)}
+            readOnly={isLocked('contractNumber')}
+            placeholder="Enter contract/agreement number"
+          />
+        </FormRow>
+
+        <FormField
+          label="5. Resource Req No."
+          value={formData.resourceReqNo}
+          onChange={(val) => onChange('resourceReqNo', val)}
+          readOnly={isLocked('resourceReqNo')}
+          placeholder="Enter resource request number"
+        />
+
+        <FormRow columns={2}>
+          <FormField
+            label="6. Resource Type"
+            value={formData.resourceType}
+            onChange={(val) => onChange('resourceType', val)}
+            readOnly={isLocked('resourceType')}
+            type="select"
+            options={[
+              { value: '', label: 'Select...' },
+              { value: 'GOVERNMENT', label: 'Government' },
+              { value: 'CONTRACT', label: 'Contract' },
+              { value: 'PRIVATE', label: 'Private' }
+            ]}
+          />
+          <FormField
+            label="7. Double Shifted"
+            value={formData.doubleShifted}
+            onChange={(val) => onChange('doubleShifted', val)}
+            readOnly={isLocked('doubleShifted')}
+            type="select"
+            options={[
+              { value: '', label: 'Select...' },
+              { value: 'YES', label: 'Yes' },
+              { value: 'NO', label: 'No' }
+            ]}
+          />
+        </FormRow>
+
+        <FormRow columns={2}>
+          <FormField
+            label="8. Incident Name"
+            value={formData.incidentName}
+            onChange={(val) => onChange('incidentName', val)}
+            readOnly={isLocked('incidentName')}
+            placeholder="Enter incident name"
+          />
+          <FormField
+            label="9. Incident Number"
+            value={formData.incidentNumber}
+            onChange={(val) => onChange('incidentNumber', val)}
+            readOnly={isLocked('incidentNumber')}
+            placeholder="Enter incident number"
+          />
+        </FormRow>
+      </FormSection>
+
+      {/* Equipment Information Section */}
+      <FormSection title="Equipment Information">
+        <FormRow columns={2}>
+          <FormField
+            label="10. Equipment Type"
+            value={formData.equipmentType}
+            onChange={(val) => onChange('equipmentType', val)}
+            readOnly={isLocked('equipmentType')}
+            placeholder="Enter equipment type"
+          />
+          <FormField
+            label="11. Make/Model"
+            value={formData.equipmentMakeModel}
+            onChange={(val) => onChange('equipmentMakeModel', val)}
+            readOnly={isLocked('equipmentMakeModel')}
+            placeholder="Enter make/model"
+          />
+        </FormRow>
+
+        <FormRow columns={2}>
+          <FormField
+            label="13. Owner ID Number"
+            value={formData.ownerIdNumber}
+            onChange={(val) => onChange('ownerIdNumber', val)}
+            readOnly={isLocked('ownerIdNumber')}
+            placeholder="Enter owner ID number"
+          />
+          <FormField
+            label="14. License/VIN or Serial"
+            value={formData.licenseVinSerial}
+            onChange={(val) => onChange('licenseVinSerial', val)}
+            readOnly={isLocked('licenseVinSerial')}
+            placeholder="Enter license, VIN or serial"
+          />
+        </FormRow>
+
+        <FormField
+          label="16. Equipment Use"
+          value={formData.equipmentUse}
+          onChange={(val) => onChange('equipmentUse', val)}
+          readOnly={isLocked('equipmentUse')}
+          type="select"
+          options={[
+            { value: 'HOURS', label: 'Hours' },
+            { value: 'MILES', label: 'Miles' },
+            { value: 'DAYS', label: 'Days' }
+          ]}
+        />
+      </FormSection>
+
+      {/* Approval Section */}
+      <FormSection title="Approval">
+        <FormField
+          label="25. Div Sup/ODF Rep Printed Name/Res Order"
+          value={formData.odfRepresentative}
+          onChange={(val) => onChange('odfRepresentative', val)}
+          readOnly={isLocked('odfRepresentative')}
+          placeholder="Enter printed name"
+        />
+
+        <FormRow columns={2}>
+          <FormField
+            label="26. Date Signed"
+            value={formData.dateSigned}
+            onChange={(val) => onChange('dateSigned', val)}
+            placeholder="MM/DD/YY"
+          />
+          <FormField
+            label="27. Posted By"
+            value={formData.postedBy}
+            onChange={(val) => onChange('postedBy', val)}
+            placeholder="Enter initials"
+          />
+        </FormRow>
+      </FormSection>
+    </>
+  );
+};
@@ -0,0 +1,696 @@
+// ODF Time Table
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import type { ODFFormData, ODFTimeEntry, EquipmentProfile } from '../utils/engineTimeDB';
+import {
+  FormType,
+  getActiveTicketId,
+  setActiveTicket,
+  saveODFFormData,
+  loadODFFormData,
+  saveODFTimeEntry,
+  loadAllODFTimeEntries,
+  deleteODFTimeEntry
+} from '../utils/engineTimeDB';
+import { getPDF, storePDFWithId, listPDFs, isPDFForTicket } from '../utils/pdfStorage';
+import type { PDFData } from '../utils/pdfStorage';
+import { calculateODFTimeTotal, calculateDailyTotals, getFirstValidDate, getCurrentDateFormatted } from '../utils/timeCalculations';
+import type { TimeCalculationResult } from '../utils/timeCalculations';
+import { validate24HourTime } from '../utils/timevalidation';
+import { ODF_TIME_ENTRY_ROWS } from '../utils/fieldmapper/odfFieldMapper';
+import { getTemplatePdfId } from '../utils/pdfIdResolver';
+import { FormSection } from './FederalForm/FormSection';
+import { FormField } from './FederalForm/FormField';
+import { PDFPreviewModal } from './FederalForm/PDFPreviewModal';
+import { ODFFormFields } from './ODFForm/ODFFormFields';
+import type { ODFTextField } from './ODFForm/ODFFormFields';
+import { ODFTimeEntryRow } from './ODFForm/ODFTimeEntryRow';
+import type { ODFTimeEntryField } from './ODFForm/ODFTimeEntryRow';
+import { useODFPDFGeneration } from '../hooks/useODFPDFGeneration';
+import { TicketSwitcher } from './TicketSwitcher';
+import { RoundingPolicySelector } from './RoundingPolicySelector';
+import { useTicketRoundingPolicy } from '../hooks/useTicketRoundingPolicy';
+import { TimeZoneSelector } from './TimeZoneSelector';
+import { useIncidentTimeZone } from '../hooks/useIncidentTimeZone';
+import { getDeviceTimeZone } from '../utils/timeZones';
+import type { RoundingPolicy } from '../utils/billingRounding';
+import { EquipmentProfilePicker } from './EquipmentProfilePicker';
+import { applyProfileToODFForm, getProfileDetailsFromODFForm } from '../utils/equipmentProfiles';
+import type { ODFPayload } from '../utils/payloadSystem';
+import { parsePayloadFromURL, clearURLParameters, getPayloadRedirect } from '../utils/payloadSystem';
+import type { ODFPayloadMergeUndo, ODFPayloadPreview, PayloadMergeChoices } from '../utils/payloadMerge';
+import { applyODFPayloadMerge, buildODFPayloadPreview, undoODFPayloadMerge } from '../utils/payloadMerge';
+import { describeSignatureProblem, isIssuedField, keepIssuedFields } from '../utils/payloadSigning';
+import { PayloadMergeModal } from './FederalForm/PayloadMergeModal';
+import { PayloadUndoBar } from './FederalForm/PayloadUndoBar';
+import { PayloadIssuerPanel } from './PayloadIssuerPanel';
+
+const DEFAULT_ODF_FORM_DATA: ODFFormData = {
+  formType: 'ODF',
+  divUnit: '',
+  shift: '',
+  ownerContractor: '',
+  contractNumber: '',
+  resourceReqNo: '',
+  resourceType: '',
+  doubleShifted: '',
+  agreementNumber: '',
+  contractorAgencyName: '',
+  resourceOrderNumber: '',
+  incidentName: '',
+  incidentNumber: '',
+  equipmentType: '',
+  equipmentMakeModel: '',
+  ownerIdNumber: '',
+  licenseVinSerial: '',
+  equipmentUse: 'HOURS',
+  odfRepresentative: '',
+  dateSigned: '',
+  postedBy: '',
+  remarks: '',
+  remarksOptions: [],
+  customRemarks: []
+};
+
+const createEmptyODFTimeEntry = (): ODFTimeEntry => ({
+  date: '',
+  equipBegin: '',
+  equipEnd: '',
+  name: '',
+  job: '',
+  timeBegin: '',
+  timeEnd: '',
+  total: ''
+});
+
+// Remarks checkboxes shared with the Federal ticket
+const ODF_REMARKS_OPTIONS = ['No Meals/Lodging', 'No Meals', 'Travel', 'No Lunch', 'Hotline'];
+
+export const ODFTimeTable: React.FC = () => {
+  const navigate = useNavigate();
+  const [formData, setFormData] = useState<ODFFormData>(DEFAULT_ODF_FORM_DATA);
+  const [timeEntries, setTimeEntries] = useState<ODFTimeEntry[]>(
+    Array.from({ length: ODF_TIME_ENTRY_ROWS }, createEmptyODFTimeEntry)
+  );
+  const [timeValidationErrors, setTimeValidationErrors] = useState<Record<string, string>>({});
+  const [calendarOpenIndex, setCalendarOpenIndex] = useState<number | null>(null);
+  const [storedPDFs, setStoredPDFs] = useState<PDFData[]>([]);
+  const [showPDFPreview, setShowPDFPreview] = useState(false);
+  const [previewPDF, setPreviewPDF] = useState<PDFData | null>(null);
+  const [activeTicketId, setActiveTicketId] = useState<number | null>(null);
+  // Link payload waiting for its changes to be picked, and the undo of the last one applied
+  const [payloadPreview, setPayloadPreview] = useState<ODFPayloadPreview | null>(null);
+  const [payloadUndo, setPayloadUndo] = useState<ODFPayloadMergeUndo | null>(null);
+  // Billing rounding of the active ticket
+  const { roundingPolicy, updateRoundingPolicy } = useTicketRoundingPolicy(activeTicketId);
+  // Time zone the incident's times are in
+  const { timeZone, updateTimeZone } = useIncidentTimeZone(activeTicketId);
+
+  // The ticket date is the first row with a valid date
+  const ticketDate = getFirstValidDate(timeEntries) || getCurrentDateFormatted();
+
+  // Load stored signed ODF PDFs of the active ticket from IndexedDB
+  const loadStoredPDFs = useCallback(async () => {
+    try {
+      const ticketId = await getActiveTicketId(FormType.ODF);
+      const pdfs = await listPDFs();
+      const odfPDFs = pdfs.filter(pdf => pdf.id.startsWith('odf-signed-') && isPDFForTicket(pdf, ticketId));
+      setStoredPDFs(odfPDFs);
+      console.log('Loaded stored ODF PDFs:', odfPDFs.length);
+    } catch (error) {
+      console.error('Error loading stored ODF PDFs:', error);
+    }
+  }, []);
+
+  // Load the active ticket's ODF data from IndexedDB; returns what was loaded
+  const loadTicketData = useCallback(async () => {
+    const ticketId = await getActiveTicketId(FormType.ODF);
+    setActiveTicketId(ticketId);
+
+    // A ticket without saved header data starts from the defaults
+    const saved = await loadODFFormData(ticketId);
+    const loadedFormData = { ...DEFAULT_ODF_FORM_DATA, ...saved };
+    setFormData(loadedFormData);
+
+    const savedEntries = await loadAllODFTimeEntries(ticketId);
+    setTimeEntries(Array.from({ length: ODF_TIME_ENTRY_ROWS }, (_, idx) => savedEntries[idx] || createEmptyODFTimeEntry()));
+    return { ticketId, formData: loadedFormData };
+  }, []);
+
+  // Preview what an ODF payload from a link would change on the loaded ticket; nothing is applied until the
+  // changes are picked
+  const previewPayload = useCallback(async (payload: ODFPayload, loadedFormData: ODFFormData) => {
+    if (payload.signature && payload.signature.status !== 'VALID' &&
+      !window.confirm(`${describeSignatureProblem(payload.signature)}\n\nApply it anyway? Its fields will not be locked.`)) {
+      console.warn('Payload with an untrusted signature was not applied');
+      return;
+    }
+
+    const preview = await buildODFPayloadPreview(payload, loadedFormData);
+    if (preview.changes.length === 0) {
+      alert('The link data matches this ticket - there is nothing to apply.');
+      return;
+    }
+    setPayloadPreview(preview);
+  }, []);
+
+  // Load ODF data from IndexedDB on mount, then apply a payload given in the URL
+  useEffect(() => {
+    const initializeData = async () => {
+      const loaded = await loadTicketData();
+
+      const payload = await parsePayloadFromURL();
+      if (Object.keys(payload).length > 0) {
+        // A payload for another ticket form is applied on that form's page
+        const redirect = getPayloadRedirect(payload, FormType.ODF);
+        if (redirect) {
+          console.log('Payload is for another ticket form, opening', redirect);
+          navigate(redirect, { replace: true });
+          return;
+        }
+
+        // Legacy links do not name their form; only their equipment profile applies to the ODF
+        await previewPayload(
+          payload.form === FormType.ODF ? payload : { form: FormType.ODF, equipmentProfile: payload.equipmentProfile },
+          loaded.formData
+        );
+        clearURLParameters();
+      }
+    };
+
+    initializeData();
+    loadStoredPDFs();
+  }, [loadTicketData, loadStoredPDFs, previewPayload, navigate]);
+
+  // Switch to another ticket (changes are autosaved, so there is nothing to save first)
+  const handleTicketChange = async (ticketId: number) => {
+    try {
+      await setActiveTicket(FormType.ODF, ticketId);
+      // Link data applied to the previous ticket can no longer be undone from here
+      setPayloadUndo(null);
+      setTimeValidationErrors({});
+      await loadTicketData();
+      await loadStoredPDFs();
+    } catch (error) {
+      console.error('Error switching ODF ticket:', error);
+    }
+  };
+
+  // Initialize ODF PDF in storage
+  useEffect(() => {
+    const initializeODFPDF = async () => {
+      try {
+        const templatePdfId = getTemplatePdfId('odf');
+        const existingPDF = await getPDF(templatePdfId);
+        if (!existingPDF) {
+          // Load the ODF PDF from public folder
+          const response = await fetch('/ODF-shift-ticket.pdf');
+          if (response.ok) {
+            const pdfBlob = await response.blob();
+            await storePDFWithId(templatePdfId, pdfBlob, null, {
+              filename: 'ODF-shift-ticket.pdf',
+              date: new Date().toISOString(),
+              crewNumber: 'N/A',
+              fireName: 'N/A',
+              fireNumber: 'N/A'
+            });
+            console.log('ODF PDF initialized in storage');
+          }
+        }
+      } catch (error) {
+        console.error('Error initializing ODF PDF:', error);
+      }
+    };
+
+    initializeODFPDF();
+  }, []);
+
+  // Fill the equipment section from a stored equipment profile
+  const handleApplyEquipmentProfile = (profile: EquipmentProfile) => {
+    setFormData(prev => {
+      const updated = keepIssuedFields(prev, applyProfileToODFForm(prev, profile));
+      saveODFFormData(updated);
+      return updated;
+    });
+  };
+
+  // Handle ODF form data changes and autosave
+  const handleFormChange = (field: ODFTextField, value: string) => {
+    // Fields filled by a signed link stay as issued
+    if (isIssuedField(formData, field)) {
+      return;
+    }
+    setFormData(prev => {
+      const updated = { ...prev, [field]: value };
+      saveODFFormData(updated);
+      return updated;
+    });
+  };
+
+  // Apply the picked changes of the previewed link payload
+  const handleApplyPayloadPreview = async (choices: PayloadMergeChoices) => {
+    if (!payloadPreview) return;
+    const result = await applyODFPayloadMerge(payloadPreview, choices);
+    setPayloadPreview(null);
+    setPayloadUndo(result.undo);
+    await loadTicketData();
+  };
+
+  // Put the ticket back as it was before the link data was applied
+  const handleUndoPayloadMerge = async () => {
+    if (!payloadUndo) return;
+    try {
+      await undoODFPayloadMerge(payloadUndo);
+      setPayloadUndo(null);
+      await loadTicketData();
+    } catch (error) {
+      console.error('Error undoing payload merge:', error);
+      alert('Failed to undo the link data. Please try again.');
+    }
+  };
+
+  // Handle remarks checkbox changes
+  const handleRemarksOptionToggle = (option: string) => {
+    setFormData(prev => {
+      const selected = prev.remarksOptions || [];
+      const remarksOptions = selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option];
+      const updated = { ...prev, remarksOptions };
+      saveODFFormData(updated);
+      return updated;
+    });
+  };
+
+  // Persist a single time entry, keeping the generated ID in state
+  const persistTimeEntry = async (index: number, entry: ODFTimeEntry) => {
+    const id = await saveODFTimeEntry(entry);
+    if (!entry.id) {
+      setTimeEntries(prev => prev.map((item, idx) => (idx === index ? { ...item, id } : item)));
+    }
+  };
+
+  // Handle time entry changes and autosave
+  const handleTimeEntryChange = (index: number, field: ODFTimeEntryField, value: string) => {
+    if (field === 'timeBegin' || field === 'timeEnd') {
+      const fieldKey = `odf-${index}-${field}`;
+      const validation = validate24HourTime(value);
+      setTimeValidationErrors(prev => {
+        const newErrors = { ...prev };
+        if (validation.isValid) {
+          delete newErrors[fieldKey];
+        } else {
+          newErrors[fieldKey] = validation.error || 'Invalid time';
+        }
+        return newErrors;
+      });
+    }
+
+    const updatedEntry = { ...timeEntries[index], [field]: value };
+    // Record the zone of the device the times were entered on
+    if ((field === 'timeBegin' || field === 'timeEnd') && value) {
+      updatedEntry.enteredTimeZone = getDeviceTimeZone();
+    }
+    const updatedEntries = timeEntries.map((item, idx) => (idx === index ? updatedEntry : item));
+    const calculations = calculateDailyTotals(updatedEntries, entry => calculateODFTimeTotal(entry, roundingPolicy, timeZone), roundingPolicy);
+    updatedEntry.total = calculations[index].isValid ? calculations[index].formattedTotal : '';
+    updatedEntry.rawMinutes = calculations[index].rawMinutes;
+
+    setTimeEntries(prev => prev.map((item, idx) => (idx === index ? { ...updatedEntry, id: item.id } : item)));
+    persistTimeEntry(index, updatedEntry);
+    // The other rows of the day take up or give back the daily minimum
+    applyTimeTotals(updatedEntries, calculations, index);
+  };
+
+  // Write recalculated totals to the rows whose total changed (other than the row being edited)
+  const applyTimeTotals = (entries: ODFTimeEntry[], calculations: TimeCalculationResult[], editedIndex = -1) => {
+    entries.forEach((entry, index) => {
+      const calculation = calculations[index];
+      if (index === editedIndex || !calculation.isValid) return;
+      if (entry.total === calculation.formattedTotal && entry.rawMinutes === calculation.rawMinutes) return;
+      const updatedEntry = { ...entry, total: calculation.formattedTotal, rawMinutes: calculation.rawMinutes };
+      setTimeEntries(prev => prev.map((item, idx) => (idx === index ? { ...updatedEntry, id: item.id } : item)));
+      persistTimeEntry(index, updatedEntry);
+    });
+  };
+
+  // Re-total the rows on screen under a rounding policy and time zone (the daily minimum is billed once per day)
+  const retotalTimeEntries = (policy: RoundingPolicy, zone: string) => {
+    applyTimeTotals(timeEntries, calculateDailyTotals(timeEntries, entry => calculateODFTimeTotal(entry, policy, zone), policy));
+  };
+
+  // Change the ticket's billing rounding and re-total the rows on screen
+  const handleRoundingPolicyChange = (policy: RoundingPolicy) => {
+    updateRoundingPolicy(policy);
+    retotalTimeEntries(policy, timeZone);
+  };
+
+  // Change the incident's time zone and re-total the rows on screen
+  const handleTimeZoneChange = (zone: string) => {
+    updateTimeZone(zone);
+    retotalTimeEntries(roundingPolicy, zone);
+  };
+
+  // Clear a time entry row
+  const handleClearTimeEntry = async (index: number) => {
+    const entry = timeEntries[index];
+    if (entry.id) {
+      await deleteODFTimeEntry(entry.id);
+    }
+    setTimeEntries(prev => prev.map((item, idx) => (idx === index ? createEmptyODFTimeEntry() : item)));
+    setTimeValidationErrors(prev => {
+      const newErrors = { ...prev };
+      Object.keys(newErrors)
+        .filter(key => key.startsWith(`odf-${index}-`))
+        .forEach(key => delete newErrors[key]);
+      return newErrors;
+    });
+  };
+
+  const handleDateSelect = (date: string) => {
+    if (calendarOpenIndex !== null) {
+      handleTimeEntryChange(calendarOpenIndex, 'date', date);
+    }
+    setCalendarOpenIndex(null);
+  };
+
+  // PDF generation hook
+  const { generatePDF, isGenerating } = useODFPDFGeneration({
+    formData,
+    timeEntries: timeEntries.filter(entry => entry.date || entry.name || entry.timeBegin || entry.equipBegin),
+    currentSelectedDate: ticketDate
+  });
+
+  // Handle PDF preview
+  const handlePreviewPDF = async (pdfId: string) => {
+    try {
+      const pdfData = await getPDF(pdfId);
+      if (pdfData) {
+        setPreviewPDF(pdfData);
+        setShowPDFPreview(true);
+      } else {
+        alert('PDF not found in storage.');
+      }
+    } catch (error) {
+      console.error('Error loading PDF for preview:', error);
+      alert('Error loading PDF for preview.');
+    }
+  };
+
+  const handleClosePDFPreview = () => {
+    setShowPDFPreview(false);
+    setPreviewPDF(null);
+  };
+
+  const equipmentUseLabel = formData.equipmentUse.charAt(0) + formData.equipmentUse.slice(1).toLowerCase();
+
+  return (
+    <div style={{
+      width: '100vw',
+      maxWidth: '100vw',
+      minHeight: '100vh',
+      backgroundColor: '#f5f5f5',
+      padding: '16px',
+      boxSizing: 'border-box',
+      overflowX: 'hidden',
+      position: 'relative',
+      left: '50%',
+      transform: 'translateX(-50%)'
+    }}>
+      {/* Main Container */}
+      <div style={{
+        maxWidth: '800px',
+        margin: '0 auto',
+        backgroundColor: '#ffffff',
+        borderRadius: '12px',
+        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
+        overflow: 'hidden',
+        width: '100%',
+        boxSizing: 'border-box'
+      }}>
+
+        {/* Header */}
+        <div style={{
+          backgroundColor: '#2e7d32',
+          color: '#ffffff',
+          padding: '20px',
+          textAlign: 'center'
+        }}>
+          <h1 style={{
+            margin: 0,
+            fontSize: '20px',
+            fontWeight: '600',
+            lineHeight: '1.2'
+          }}>
+            ODF - Equipment Shift Ticket
+          </h1>
+          <p style={{
+            margin: '8px 0 0 0',
+            fontSize: '14px',
+            opacity: 0.9,
+            lineHeight: '1.4'
+          }}>
+            Oregon Department of Forestry - Equipment Shift Ticket
+          </p>
+          <Link to="/" style={{ color: '#ffffff', fontSize: '12px', opacity: 0.9 }}>
+            Switch to Federal OF-297
+          </Link>
+        </div>
+
+        {/* Ticket Switcher */}
+        <div style={{
+          backgroundColor: '#f8f9fa',
+          padding: '16px 20px',
+          borderBottom: '1px solid #e9ecef'
+        }}>
+          <TicketSwitcher
+            formType={FormType.ODF}
+            activeTicketId={activeTicketId}
+            onTicketChange={handleTicketChange}
+          />
+          <div style={{ marginTop: '12px' }}>
+            <RoundingPolicySelector
+              policy={roundingPolicy}
+              onChange={handleRoundingPolicyChange}
+            />
+          </div>
+          <div style={{ marginTop: '12px' }}>
+            <TimeZoneSelector
+              timeZone={timeZone}
+              onChange={handleTimeZoneChange}
+            />
+          </div>
+        </div>
+
+        {/* Form Content Container */}
+        <div style={{
+          padding: '20px',
+          width: '100%',
+          boxSizing: 'border-box'
+        }}>
+
+          <EquipmentProfilePicker
+            currentDetails={getProfileDetailsFromODFForm(formData)}
+            onApply={handleApplyEquipmentProfile}
+          />
+
+          {payloadUndo && (
+            <PayloadUndoBar onUndo={handleUndoPayloadMerge} onDismiss={() => setPayloadUndo(null)} />
+          )}
+
+          <PayloadIssuerPanel
+            issuedBy={formData.issuedBy}
+            issuedFieldCount={formData.issuedFields?.length ?? 0}
+          />
+
+          <ODFFormFields
+            formData={formData}
+            onChange={handleFormChange}
+          />
+
+          {/* Time Entries Section */}
+          <FormSection title={`Time Entries (${ODF_TIME_ENTRY_ROWS} rows)`}>
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '12px'
+            }}>
+              {timeEntries.map((entry, idx) => (
+                <ODFTimeEntryRow
+                  key={idx}
+                  entry={entry}
+                  index={idx}
+                  equipmentUseLabel={equipmentUseLabel}
+                  onChange={handleTimeEntryChange}
+                  onClear={handleClearTimeEntry}
+                  isCalendarOpen={calendarOpenIndex === idx}
+                  onCalendarOpen={setCalendarOpenIndex}
+                  onCalendarClose={() => setCalendarOpenIndex(null)}
+                  onDateSelect={handleDateSelect}
+                  validationErrors={timeValidationErrors}
+                  incidentTimeZone={timeZone}
+                />
+              ))}
+            </div>
+          </FormSection>
+
+          {/* Remarks Section */}
+          <FormSection title="12. Remarks">
+            <div style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: '12px'
+            }}>
+              {ODF_REMARKS_OPTIONS.map(option => (
+                <label key={option} style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  fontSize: '14px',
+                  color: '#2c3e50',
+                  cursor: 'pointer'
+                }}>
+                  <input
+                    type="checkbox"
+                    checked={(formData.remarksOptions || []).includes(option)}
+                    onChange={() => handleRemarksOptionToggle(option)}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+            <FormField
+              label="Additional Remarks"
+              value={formData.remarks}
+              onChange={(val) => handleFormChange('remarks', val)}
+              placeholder="Released, down time and cause, problems, etc."
+            />
+          </FormSection>
+
+          <div style={{
+            display: 'flex',
+            gap: '12px',
+            justifyContent: 'center',
+            flexWrap: 'wrap'
+          }}>
+            <button
+              onClick={generatePDF}
+              disabled={isGenerating}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: isGenerating ? '#6c757d' : '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: isGenerating ? 'not-allowed' : 'pointer',
+                transition: 'background-color 0.2s ease',
+                opacity: isGenerating ? 0.6 : 1
+              }}
+            >
+              {isGenerating ? '⏳ Generating...' : '✏️ Sign Ticket'}
+            </button>
+          </div>
+
+          {/* Stored PDFs Section */}
+          <div style={{
+            marginTop: '24px',
+            padding: '16px',
+            backgroundColor: '#f8f9fa',
+            borderRadius: '8px',
+            border: '1px solid #e9ecef'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: '16px'
+            }}>
+              <h3 style={{
+                margin: 0,
+                fontSize: '16px',
+                fontWeight: '600',
+                color: '#2c3e50'
+              }}>
+                📄 Signed ODF Tickets ({storedPDFs.length})
+              </h3>
+              <button
+                onClick={loadStoredPDFs}
+                style={{
+                  padding: '6px 12px',
+                  backgroundColor: '#007bff',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  cursor: 'pointer'
+                }}
+              >
+                🔄 Refresh
+              </button>
+            </div>
+
+            {storedPDFs.length > 0 ? (
+              <div style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
+                gap: '12px'
+              }}>
+                {storedPDFs.map((pdf) => (
+                  <div
+                    key={pdf.id}
+                    onClick={() => handlePreviewPDF(pdf.id)}
+                    style={{
+                      padding: '12px',
+                      backgroundColor: 'white',
+                      borderRadius: '6px',
+                      border: '1px solid #dee2e6',
+                      boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    <div style={{
+                      fontSize: '14px',
+                      fontWeight: '600',
+                      color: '#2c3e50',
+                      marginBottom: '4px'
+                    }}>
+                      {pdf.metadata.filename}
+                    </div>
+                    <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                      Date: {pdf.metadata.date} | Incident: {pdf.metadata.fireName}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div style={{
+                textAlign: 'center',
+                padding: '32px 16px',
+                color: '#6c757d',
+                fontSize: '14px'
+              }}>
+                No signed ODF tickets yet
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* PDF Preview Modal */}
+      <PDFPreviewModal
+        isOpen={showPDFPreview}
+        previewPDF={previewPDF}
+        onClose={handleClosePDFPreview}
+      />
+
+      <PayloadMergeModal
+        preview={payloadPreview}
+        onApply={handleApplyPayloadPreview}
+        onCancel={() => setPayloadPreview(null)}
+      />
+    </div>
+  );
+};
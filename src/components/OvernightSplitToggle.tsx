@@ -0,0 +1,24 @@
+import React from 'react';
+
+// OvernightSplitToggle object properties
+interface OvernightSplitToggleProps {
+  splitOvernight: boolean;
+  onChange: (splitOvernight: boolean) => void;
+}
+
+// Export function OvernightSplitToggle and properties
+export const OvernightSplitToggle: React.FC<OvernightSplitToggleProps> = ({ splitOvernight, onChange }) => {
+  return (
+    <label
+      title="Time after midnight is written on its own row dated the next day, instead of on the shift's start date"
+      style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: '#495057', cursor: 'pointer' }}
+    >
+      <input
+        type="checkbox"
+        checked={splitOvernight}
+        onChange={(e) => onChange(e.target.checked)}
+      />
+      Split overnight shifts at midnight
+    </label>
+  );
+};
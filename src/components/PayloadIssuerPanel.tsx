@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { PayloadIssuer } from '../utils/engineTimeDB';
+import {
+  savePayloadIssuer,
+  listPayloadIssuers,
+  deletePayloadIssuer,
+  getPayloadSigningIssuer,
+  setPayloadSigningIssuer
+} from '../utils/engineTimeDB';
+import type { IssuerAlgorithm } from '../utils/payloadSigning';
+import { ISSUER_ALGORITHM_OPTIONS, canSignWithIssuer, generateIssuerKey, isValidIssuerKeyId } from '../utils/payloadSigning';
+
+// PayloadIssuerPanel object properties
+interface PayloadIssuerPanelProps {
+  issuedBy?: string;  // Issuer of the signed link that filled the form
+  issuedFieldCount: number;  // Header fields locked by that link
+}
+
+// Issuer key being added - keys are replaced by adding them again rather than edited
+interface IssuerDraft {
+  keyId: string;
+  name: string;
+  algorithm: IssuerAlgorithm;
+  key: string;
+  privateKey: string;
+}
+
+const EMPTY_DRAFT: IssuerDraft = { keyId: '', name: '', algorithm: 'ED25519', key: '', privateKey: '' };
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ced4da',
+  borderRadius: '6px',
+  fontSize: '14px',
+  width: '100%',
+  boxSizing: 'border-box'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#ffffff',
+  color: '#007bff',
+  border: '1px solid #007bff',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer'
+};
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', fontWeight: '600', color: '#495057' };
+
+// Export function PayloadIssuerPanel and properties
+export const PayloadIssuerPanel: React.FC<PayloadIssuerPanelProps> = ({ issuedBy, issuedFieldCount }) => {
+  // Issuer keys configured on this device
+  const [issuers, setIssuers] = useState<PayloadIssuer[]>([]);
+  // Issuer key share links are signed with
+  const [signingIssuerId, setSigningIssuerId] = useState<number | null>(null);
+  // Manager panel state
+  const [showManager, setShowManager] = useState(false);
+  // Issuer key being added
+  const [draft, setDraft] = useState<IssuerDraft | null>(null);
+
+  // Load the issuer keys
+  const refreshIssuers = useCallback(async () => {
+    try {
+      const [storedIssuers, signingIssuer] = await Promise.all([listPayloadIssuers(), getPayloadSigningIssuer()]);
+      setIssuers(storedIssuers);
+      setSigningIssuerId(signingIssuer?.id ?? null);
+    } catch (error) {
+      console.error('Error loading payload issuers:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (showManager) {
+      refreshIssuers();
+    }
+  }, [showManager, refreshIssuers]);
+
+  // Generate a new key for the issuer being added (the dispatch device keeps the private key)
+  const handleGenerateKey = async () => {
+    if (!draft) return;
+    try {
+      const generated = await generateIssuerKey(draft.algorithm);
+      setDraft({ ...draft, key: generated.key, privateKey: generated.privateKey || '' });
+    } catch (error) {
+      console.error('Error generating issuer key:', error);
+      alert('This browser cannot generate the key. Please try another algorithm or browser.');
+    }
+  };
+
+  // Save the issuer key being added
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.key.trim()) {
+      alert('Please enter the issuer name and key.');
+      return;
+    }
+    if (!isValidIssuerKeyId(draft.keyId.trim())) {
+      alert('The key ID must be 1-32 letters, numbers, dashes or underscores.');
+      return;
+    }
+    if (issuers.some(issuer => issuer.keyId === draft.keyId.trim())) {
+      alert(`An issuer with key ID ${draft.keyId.trim()} is already set up. Delete it first to replace its key.`);
+      return;
+    }
+
+    try {
+      await savePayloadIssuer({
+        keyId: draft.keyId.trim(),
+        name: draft.name.trim(),
+        algorithm: draft.algorithm,
+        key: draft.key.trim(),
+        privateKey: draft.algorithm === 'ED25519' && draft.privateKey.trim() ? draft.privateKey.trim() : undefined
+      });
+      setDraft(null);
+      await refreshIssuers();
+    } catch (error) {
+      console.error('Error saving payload issuer:', error);
+      alert('Failed to save the issuer key. Please try again.');
+    }
+  };
+
+  // Delete an issuer key; links it signed are no longer trusted on this device
+  const handleDelete = async (issuer: PayloadIssuer) => {
+    if (!window.confirm(`Delete the key of ${issuer.name}? Links it signs will no longer be trusted on this device.`)) {
+      return;
+    }
+    try {
+      await deletePayloadIssuer(issuer.id!);
+      await refreshIssuers();
+    } catch (error) {
+      console.error('Error deleting payload issuer:', error);
+    }
+  };
+
+  // Copy the key other devices need to check this issuer's links
+  const handleCopyKey = (issuer: PayloadIssuer) => {
+    navigator.clipboard.writeText(issuer.key).then(() => {
+      alert(issuer.algorithm === 'HMAC'
+        ? 'Shared secret copied. Share it only with devices that should trust this issuer.'
+        : 'Public key copied.');
+    }).catch(() => {
+      prompt('Issuer key (copy this):', issuer.key);
+    });
+  };
+
+  const handleSigningIssuerChange = async (value: string) => {
+    const id = value ? Number(value) : null;
+    try {
+      await setPayloadSigningIssuer(id);
+      setSigningIssuerId(id);
+    } catch (error) {
+      console.error('Error saving signing issuer:', error);
+    }
+  };
+
+  return (
+    <div style={{
+      marginBottom: '20px',
+      padding: '12px',
+      border: '1px solid #e9ecef',
+      borderRadius: '8px',
+      backgroundColor: '#f8f9fa'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <span style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+          🔏 Link Issuers
+        </span>
+        <button onClick={() => setShowManager(!showManager)} style={smallButtonStyle}>
+          {showManager ? 'Done' : 'Manage'}
+        </button>
+      </div>
+
+      {issuedBy && (
+        <div style={{
+          marginTop: '8px',
+          padding: '8px 12px',
+          backgroundColor: '#d4edda',
+          border: '1px solid #c3e6cb',
+          borderRadius: '6px',
+          fontSize: '13px',
+          color: '#155724'
+        }}>
+          ✅ Issued by <strong>{issuedBy}</strong> · {issuedFieldCount} header {issuedFieldCount === 1 ? 'field is' : 'fields are'} locked
+        </div>
+      )}
+
+      {showManager && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+            Sign my share links with:
+            <select
+              value={signingIssuerId ?? ''}
+              onChange={(e) => handleSigningIssuerChange(e.target.value)}
+              style={{ ...inputStyle, width: 'auto', flex: '1 1 160px', backgroundColor: '#ffffff' }}
+            >
+              <option value="">Don't sign</option>
+              {issuers.filter(canSignWithIssuer).map(issuer => (
+                <option key={issuer.id} value={issuer.id}>{issuer.name} ({issuer.keyId})</option>
+              ))}
+            </select>
+          </label>
+
+          {issuers.map(issuer => (
+            <div key={issuer.id} style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '8px',
+              padding: '8px 12px',
+              backgroundColor: '#ffffff',
+              border: '1px solid #e9ecef',
+              borderRadius: '6px'
+            }}>
+              <div style={{ fontSize: '14px', color: '#2c3e50' }}>
+                <strong>{issuer.name}</strong> ({issuer.keyId})
+                <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                  {ISSUER_ALGORITHM_OPTIONS.find(option => option.value === issuer.algorithm)?.label}
+                  {' · '}
+                  {canSignWithIssuer(issuer) ? 'Can issue links' : 'Checks links only'}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: '6px' }}>
+                <button onClick={() => handleCopyKey(issuer)} style={smallButtonStyle}>Copy Key</button>
+                <button onClick={() => handleDelete(issuer)} style={{ ...smallButtonStyle, color: '#dc3545', borderColor: '#dc3545' }}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {!draft && (
+            <div>
+              <button onClick={() => setDraft({ ...EMPTY_DRAFT })} style={smallButtonStyle}>
+                ＋ Add Issuer
+              </button>
+            </div>
+          )}
+
+          {draft && (
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+              gap: '8px',
+              padding: '12px',
+              backgroundColor: '#ffffff',
+              border: '1px solid #007bff',
+              borderRadius: '6px'
+            }}>
+              <label style={labelStyle}>
+                Issuer Name
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  style={inputStyle}
+                  placeholder="North Ops Dispatch"
+                />
+              </label>
+              <label style={labelStyle}>
+                Key ID
+                <input
+                  type="text"
+                  value={draft.keyId}
+                  onChange={(e) => setDraft({ ...draft, keyId: e.target.value })}
+                  style={inputStyle}
+                  placeholder="nops-2026"
+                />
+              </label>
+              <label style={labelStyle}>
+                Algorithm
+                <select
+                  value={draft.algorithm}
+                  onChange={(e) => setDraft({ ...draft, algorithm: e.target.value as IssuerAlgorithm, key: '', privateKey: '' })}
+                  style={{ ...inputStyle, backgroundColor: '#ffffff' }}
+                >
+                  {ISSUER_ALGORITHM_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label style={labelStyle}>
+                {draft.algorithm === 'HMAC' ? 'Shared Secret' : 'Public Key'}
+                <input
+                  type="text"
+                  value={draft.key}
+                  onChange={(e) => setDraft({ ...draft, key: e.target.value })}
+                  style={inputStyle}
+                />
+              </label>
+              {draft.algorithm === 'ED25519' && (
+                <label style={labelStyle}>
+                  Private Key (issuing device only)
+                  <input
+                    type="password"
+                    value={draft.privateKey}
+                    onChange={(e) => setDraft({ ...draft, privateKey: e.target.value })}
+                    style={inputStyle}
+                  />
+                </label>
+              )}
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end', flexWrap: 'wrap' }}>
+                <button onClick={handleGenerateKey} style={smallButtonStyle}>Generate Key</button>
+                <button onClick={handleSaveDraft} style={{ ...smallButtonStyle, backgroundColor: '#007bff', color: '#ffffff' }}>
+                  Save Issuer
+                </button>
+                <button onClick={() => setDraft(null)} style={smallButtonStyle}>Cancel</button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { RoundingPolicy, RoundingMode, RoundingIncrement } from '../utils/billingRounding';
+import { ROUNDING_MODE_OPTIONS, ROUNDING_INCREMENT_OPTIONS } from '../utils/billingRounding';
+
+// RoundingPolicySelector object properties
+interface RoundingPolicySelectorProps {
+  policy: RoundingPolicy;
+  onChange: (policy: RoundingPolicy) => void;
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ced4da',
+  borderRadius: '6px',
+  fontSize: '14px',
+  backgroundColor: '#ffffff'
+};
+
+// Export function RoundingPolicySelector and properties
+export const RoundingPolicySelector: React.FC<RoundingPolicySelectorProps> = ({ policy, onChange }) => {
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      flexWrap: 'wrap'
+    }}>
+      <label style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+        Billing:
+      </label>
+      <select
+        value={policy.mode}
+        onChange={(e) => onChange({ ...policy, mode: e.target.value as RoundingMode })}
+        style={selectStyle}
+      >
+        {ROUNDING_MODE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {policy.mode !== 'exact' && (
+        <select
+          value={policy.incrementMinutes}
+          onChange={(e) => onChange({ ...policy, incrementMinutes: Number(e.target.value) as RoundingIncrement })}
+          style={selectStyle}
+        >
+          {ROUNDING_INCREMENT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )}
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: '#495057' }}>
+        Daily minimum
+        <input
+          type="number"
+          min={0}
+          max={24}
+          step={0.5}
+          value={policy.dailyMinimumHours}
+          onChange={(e) => onChange({ ...policy, dailyMinimumHours: Math.min(24, Math.max(0, Number(e.target.value) || 0)) })}
+          style={{ ...selectStyle, width: '72px' }}
+        />
+        hrs
+      </label>
+    </div>
+  );
+};
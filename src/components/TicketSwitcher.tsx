@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { FormType, Ticket } from '../utils/engineTimeDB';
+import { createTicket, listTickets } from '../utils/engineTimeDB';
+
+// TicketSwitcher object properties
+interface TicketSwitcherProps {
+  formType: FormType;
+  activeTicketId: number | null;
+  onTicketChange: (ticketId: number) => void;
+}
+
+// Label shown for a ticket in the switcher
+const getTicketLabel = (ticket: Ticket): string => {
+  const parts = [
+    ticket.incidentName || 'Untitled incident',
+    ticket.incidentNumber && `#${ticket.incidentNumber}`,
+    ticket.equipment
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+// Export function TicketSwitcher and properties
+export const TicketSwitcher: React.FC<TicketSwitcherProps> = ({ formType, activeTicketId, onTicketChange }) => {
+  // Tickets of this form type
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+
+  // Load the tickets (labels follow the incident details saved on each ticket)
+  const refreshTickets = useCallback(async () => {
+    try {
+      setTickets(await listTickets(formType));
+    } catch (error) {
+      console.error('Error loading tickets:', error);
+    }
+  }, [formType]);
+
+  // Reload whenever the active ticket changes
+  useEffect(() => {
+    refreshTickets();
+  }, [refreshTickets, activeTicketId]);
+
+  // Start a new ticket and switch to it
+  const handleNewTicket = async () => {
+    try {
+      const ticketId = await createTicket(formType);
+      await refreshTickets();
+      onTicketChange(ticketId);
+    } catch (error) {
+      console.error('Error creating ticket:', error);
+      alert('Failed to create a new ticket. Please try again.');
+    }
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      flexWrap: 'wrap'
+    }}>
+      <label style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+        Ticket:
+      </label>
+      <select
+        value={activeTicketId ?? ''}
+        onFocus={refreshTickets}
+        onChange={(e) => onTicketChange(Number(e.target.value))}
+        style={{
+          padding: '8px 12px',
+          border: '1px solid #ced4da',
+          borderRadius: '6px',
+          fontSize: '14px',
+          backgroundColor: '#ffffff',
+          maxWidth: '280px'
+        }}
+      >
+        {tickets.map(ticket => (
+          <option key={ticket.id} value={ticket.id}>
+            {getTicketLabel(ticket)}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleNewTicket}
+        style={{
+          padding: '8px 16px',
+          backgroundColor: '#ffffff',
+          color: '#007bff',
+          border: '1px dashed #007bff',
+          borderRadius: '6px',
+          fontSize: '14px',
+          fontWeight: '600',
+          cursor: 'pointer'
+        }}
+      >
+        ＋ New Ticket
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { describeEnteredTimeZone } from '../utils/timeZones';
+
+// TimeZoneNotice object properties
+interface TimeZoneNoticeProps {
+  enteredTimeZone?: string;
+  incidentTimeZone?: string;
+  date?: string;
+}
+
+// Export function TimeZoneNotice and properties
+// Shows when a row's times were entered on a device in a zone other than the incident's
+export const TimeZoneNotice: React.FC<TimeZoneNoticeProps> = ({ enteredTimeZone, incidentTimeZone, date }) => {
+  const notice = incidentTimeZone ? describeEnteredTimeZone(enteredTimeZone, incidentTimeZone, date) : null;
+  if (!notice) return null;
+
+  return (
+    <div style={{
+      marginBottom: '12px',
+      padding: '6px 10px',
+      backgroundColor: '#fff3cd',
+      border: '1px solid #ffeeba',
+      borderRadius: '6px',
+      fontSize: '13px',
+      color: '#856404'
+    }}>
+      🕒 {notice}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { TIME_ZONE_OPTIONS, getDeviceTimeZone, getTimeZoneAbbreviation, getTimeZoneLabel } from '../utils/timeZones';
+
+// TimeZoneSelector object properties
+interface TimeZoneSelectorProps {
+  timeZone: string;
+  onChange: (timeZone: string) => void;
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ced4da',
+  borderRadius: '6px',
+  fontSize: '14px',
+  backgroundColor: '#ffffff'
+};
+
+// Export function TimeZoneSelector and properties
+export const TimeZoneSelector: React.FC<TimeZoneSelectorProps> = ({ timeZone, onChange }) => {
+  const deviceTimeZone = getDeviceTimeZone();
+  // The incident's and this device's zones are offered even when they are not in the usual list
+  const options = [
+    ...TIME_ZONE_OPTIONS,
+    ...[timeZone, deviceTimeZone]
+      .filter((zone, index, zones) => zones.indexOf(zone) === index)
+      .filter(zone => !TIME_ZONE_OPTIONS.some(option => option.value === zone))
+      .map(zone => ({ value: zone, label: getTimeZoneLabel(zone) }))
+  ];
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      flexWrap: 'wrap'
+    }}>
+      <label style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50' }}>
+        Incident time zone:
+      </label>
+      <select
+        value={timeZone}
+        onChange={(e) => onChange(e.target.value)}
+        style={selectStyle}
+      >
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {timeZone !== deviceTimeZone && (
+        <span style={{ fontSize: '13px', color: '#6c757d' }}>
+          This device is on {getTimeZoneAbbreviation(deviceTimeZone)}
+        </span>
+      )}
+    </div>
+  );
+};
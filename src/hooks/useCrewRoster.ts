@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CrewMember } from '../utils/engineTimeDB';
+import { saveCrewMember, listCrewMembers, deleteCrewMember } from '../utils/engineTimeDB';
+import { findCrewMemberByName } from '../utils/crewRoster';
+
+export const useCrewRoster = () => {
+  const [crewMembers, setCrewMembers] = useState<CrewMember[]>([]);
+
+  const refreshCrewMembers = useCallback(async () => {
+    try {
+      setCrewMembers(await listCrewMembers());
+    } catch (error) {
+      console.error('Error loading crew roster:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCrewMembers();
+  }, [refreshCrewMembers]);
+
+  // Save a new or edited crew member
+  const saveMember = useCallback(async (member: Omit<CrewMember, 'createdAt' | 'updatedAt'> & Partial<Pick<CrewMember, 'createdAt'>>) => {
+    await saveCrewMember({ ...member, name: member.name.trim().replace(/\s+/g, ' ') });
+    await refreshCrewMembers();
+  }, [refreshCrewMembers]);
+
+  // Remove a crew member from the roster
+  const removeMember = useCallback(async (id: number) => {
+    await deleteCrewMember(id);
+    await refreshCrewMembers();
+  }, [refreshCrewMembers]);
+
+  // Add a name typed into a personnel row, with the job title typed next to it as the default role
+  const quickAddMember = useCallback(async (name: string, role: string) => {
+    if (!name.trim() || findCrewMemberByName(crewMembers, name)) return;
+    console.log('👥 Adding to crew roster:', name);
+    await saveMember({ name, qualification: role, defaultRole: role });
+  }, [crewMembers, saveMember]);
+
+  const isOnRoster = useCallback((name: string) => {
+    return !!findCrewMemberByName(crewMembers, name);
+  }, [crewMembers]);
+
+  return {
+    crewMembers,
+    refreshCrewMembers,
+    saveMember,
+    removeMember,
+    quickAddMember,
+    isOnRoster
+  };
+};
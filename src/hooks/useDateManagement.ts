@@ -8,8 +8,18 @@ import {
   loadAllFederalPersonnelEntries,
   deleteFederalPersonnelEntry,
   saveFederalFormData,
-  loadFederalFormData
+  loadFederalFormData,
+  getActiveTicketId,
+  getIncidentTimeZone,
+  loadMealLodgingDays,
+  FormType
 } from '../utils/engineTimeDB';
+import type { DayTimeTotals } from '../utils/timePeriods';
+import { getDayTimeTotals, getFederalEquipmentPeriods, getFederalPersonnelPeriods, getMinutesByDate } from '../utils/timePeriods';
+import { mergeEntryHistory } from '../utils/workRestCompliance';
+import type { ContinuityIssue } from '../utils/ticketContinuity';
+import { findContinuityIssues } from '../utils/ticketContinuity';
+import { getMealLodgingFlags } from '../utils/mealLodging';
 
 /**
  * Utility function to convert MM/DD/YY to Date object
@@ -65,14 +75,21 @@ export const useDateManagement = ({
   const refreshSavedDates = useCallback(async () => {
     try {
       // Load all equipment and personnel entries to get all dates
-      const allEquipmentEntries = await loadAllFederalEquipmentEntries();
-      const allPersonnelEntries = await loadAllFederalPersonnelEntries();
+      const ticketId = await getActiveTicketId(FormType.FEDERAL);
+      const allEquipmentEntries = await loadAllFederalEquipmentEntries(ticketId);
+      const allPersonnelEntries = await loadAllFederalPersonnelEntries(ticketId);
       
       // Collect all unique dates
       const allDates = new Set<string>();
       allEquipmentEntries.forEach(entry => entry.date && allDates.add(entry.date));
       allPersonnelEntries.forEach(entry => entry.date && allDates.add(entry.date));
       
+      // Include the dates that overnight shifts run into
+      getMinutesByDate([
+        ...allEquipmentEntries.flatMap(getFederalEquipmentPeriods),
+        ...allPersonnelEntries.flatMap(getFederalPersonnelPeriods)
+      ], await getIncidentTimeZone(ticketId)).forEach((minutes, date) => minutes > 0 && allDates.add(date));
+      
       setSavedDates(Array.from(allDates));
       console.log('Refreshed saved dates:', Array.from(allDates));
     } catch (error) {
@@ -89,10 +106,15 @@ export const useDateManagement = ({
       if (formData) {
         setFederalFormData(formData);
         
-        // Load checkbox states from form data
+        // Load checkbox states from form data, with the meal/lodging remarks recorded for this date
         if (formData.checkboxStates) {
-          setCheckboxStates(formData.checkboxStates);
-          console.log('Loaded checkbox states for date:', dateRange, formData.checkboxStates);
+          const ticketId = await getActiveTicketId(FormType.FEDERAL);
+          const mealLodgingDay = (await loadMealLodgingDays(ticketId)).find(day => day.date === dateRange);
+          const checkboxStates = mealLodgingDay
+            ? { ...formData.checkboxStates, ...getMealLodgingFlags(mealLodgingDay) }
+            : formData.checkboxStates;
+          setCheckboxStates(checkboxStates);
+          console.log('Loaded checkbox states for date:', dateRange, checkboxStates);
         }
       }
 
@@ -212,6 +234,39 @@ export const useDateManagement = ({
     }
   }, [currentSelectedDate, equipmentEntries, personnelEntries, federalFormData, refreshSavedDates]);
 
+  // Time worked on a date, with the entries being edited in place of the stored entries of their dates
+  // Overnight time is credited to the date it was worked on (in the incident's time zone), whether or not the ticket splits it across rows
+  const loadDayTotals = useCallback(async (date: string): Promise<DayTimeTotals> => {
+    const ticketId = await getActiveTicketId(FormType.FEDERAL);
+    const [allEquipmentEntries, allPersonnelEntries, timeZone] = await Promise.all([
+      loadAllFederalEquipmentEntries(ticketId),
+      loadAllFederalPersonnelEntries(ticketId),
+      getIncidentTimeZone(ticketId)
+    ]);
+    return getDayTimeTotals(
+      date,
+      mergeEntryHistory(allEquipmentEntries, equipmentEntries, ticketId),
+      mergeEntryHistory(allPersonnelEntries, personnelEntries, ticketId),
+      timeZone
+    );
+  }, [equipmentEntries, personnelEntries]);
+
+  // Continuity issues across every saved date of the ticket (the dates refreshSavedDates lists), with the entries being edited
+  // in place of the stored entries of their dates
+  const loadContinuityIssues = useCallback(async (): Promise<ContinuityIssue[]> => {
+    const ticketId = await getActiveTicketId(FormType.FEDERAL);
+    const [allEquipmentEntries, allPersonnelEntries, timeZone] = await Promise.all([
+      loadAllFederalEquipmentEntries(ticketId),
+      loadAllFederalPersonnelEntries(ticketId),
+      getIncidentTimeZone(ticketId)
+    ]);
+    return findContinuityIssues(
+      mergeEntryHistory(allEquipmentEntries, equipmentEntries, ticketId),
+      mergeEntryHistory(allPersonnelEntries, personnelEntries, ticketId),
+      timeZone
+    );
+  }, [equipmentEntries, personnelEntries]);
+
   const copyDataToNextDay = useCallback(async (nextDateString: string) => {
     try {
       // Copy form data (it's a singleton, so we keep the same form data)
@@ -322,6 +377,8 @@ export const useDateManagement = ({
     loadDataForDate,
     saveDataForDate,
     refreshSavedDates,
+    loadDayTotals,
+    loadContinuityIssues,
     formatToMMDDYY,
     parseMMDDYY
   };
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { EESTFormData, EESTTimeEntry } from '../utils/engineTimeDB';
+import { FormType, getActiveTicketId, getTicketRoundingPolicy, getTicketSplitOvernight, getIncidentTimeZone } from '../utils/engineTimeDB';
+import { getPDF, storePDFWithId } from '../utils/pdfStorage';
+import { validateEESTFormData } from '../utils/fieldmapper/eestFieldMapper';
+import { fillEESTPDFTemplate } from '../utils/PDF/eestSaveHandler';
+import { derivePdfIdFromDate, getTemplatePdfId, normalizeDate } from '../utils/pdfIdResolver';
+
+interface UseEESTPDFGenerationProps {
+  formData: EESTFormData;
+  timeEntries: EESTTimeEntry[];
+  currentSelectedDate: string;
+}
+
+export const useEESTPDFGeneration = ({
+  formData,
+  timeEntries,
+  currentSelectedDate
+}: UseEESTPDFGenerationProps) => {
+  const navigate = useNavigate();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generatePDF = async () => {
+    try {
+      setIsGenerating(true);
+      setError(null);
+
+      console.log('EEST: Starting PDF fill and sign process...');
+
+      // Validate form data
+      const validation = validateEESTFormData(formData, timeEntries);
+      if (!validation.isValid) {
+        console.error('EEST: Form validation failed:', validation.errors);
+        const errorMessage = 'Please fill in required fields before signing: ' + validation.errors.join(', ');
+        setError(errorMessage);
+        alert(errorMessage);
+        return;
+      }
+
+      // Get the stored template PDF
+      const storedPDF = await getPDF(getTemplatePdfId('eest'));
+      if (!storedPDF) {
+        console.error('EEST: No PDF found in storage');
+        const errorMessage = 'PDF not found. Please try again.';
+        setError(errorMessage);
+        alert(errorMessage);
+        return;
+      }
+
+      // Fill the template through the EEST field mapper (EmbedPDF handles the signature)
+      // Equipment use is always billed in hours on the EEST, under the ticket's rounding policy in the incident's time zone
+      const ticketId = await getActiveTicketId(FormType.EEST);
+      const roundingPolicy = await getTicketRoundingPolicy(ticketId);
+      const splitOvernight = await getTicketSplitOvernight(ticketId);
+      const timeZone = await getIncidentTimeZone(ticketId);
+      const filledPdfBlob = await fillEESTPDFTemplate(storedPDF.pdf, { ...formData, equipmentUse: 'HOURS' }, timeEntries, roundingPolicy, splitOvernight, timeZone);
+
+      // Use centralized resolver to create date-specific PDF ID
+      const formDate = normalizeDate(currentSelectedDate || new Date());
+      const dateSpecificPdfId = derivePdfIdFromDate(formDate, 'eest', ticketId);
+
+      await storePDFWithId(dateSpecificPdfId, filledPdfBlob, null, {
+        filename: 'eest-filled.pdf',
+        date: formDate,
+        crewNumber: formData.agreementNumber || 'N/A',
+        fireName: formData.incidentName || 'N/A',
+        fireNumber: formData.incidentNumber || 'N/A',
+        ticketId
+      });
+
+      console.log('✅ EEST: PDF filled and stored with ID:', dateSpecificPdfId, 'navigating to signing page...');
+
+      // Navigate to PDF signing page with parameters
+      const params = new URLSearchParams({
+        pdfId: dateSpecificPdfId,
+        crewNumber: formData.agreementNumber || 'N/A',
+        fireName: formData.incidentName || 'N/A',
+        fireNumber: formData.incidentNumber || 'N/A',
+        date: formDate,
+        formType: 'eest',
+        ticketId: String(ticketId)
+      });
+
+      navigate(`/pdf-signing?${params.toString()}`);
+
+    } catch (err) {
+      console.error('EEST: Error filling PDF:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Error filling PDF. Please check the console for details.';
+      setError(errorMessage);
+      alert(errorMessage);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return { generatePDF, isGenerating, error };
+};
@@ -1,8 +1,22 @@
-import { useCallback } from 'react';
-import type { FederalEquipmentEntry, FederalPersonnelEntry } from '../utils/engineTimeDB';
-import { saveFederalEquipmentEntry, saveFederalPersonnelEntry } from '../utils/engineTimeDB';
-import { handleFederalEquipmentEntryChange, handleFederalPersonnelEntryChange, DEFAULT_PROPAGATION_CONFIG } from '../utils/entryPropagation';
+import { useCallback, useMemo, useRef } from 'react';
+import type { FederalEquipmentEntry, FederalPersonnelEntry, CrewMember } from '../utils/engineTimeDB';
+import {
+  saveFederalEquipmentEntry,
+  saveFederalPersonnelEntry,
+  addFederalEquipmentEntry,
+  addFederalPersonnelEntry
+} from '../utils/engineTimeDB';
+import {
+  handleFederalEquipmentEntryChange,
+  handleFederalPersonnelEntryChange,
+  handleFederalEquipmentPeriodsChange,
+  handleFederalPersonnelPeriodsChange,
+  DEFAULT_PROPAGATION_CONFIG
+} from '../utils/entryPropagation';
 import { validateTimeInput, autoCalculateTotal } from '../utils/timevalidation';
+import { findCrewMemberByName } from '../utils/crewRoster';
+import type { RoundingPolicy } from '../utils/billingRounding';
+import type { EntryPeriod } from '../utils/timePeriods';
 
 interface UseEntryHandlersProps {
   equipmentEntries: FederalEquipmentEntry[];
@@ -11,6 +25,9 @@ interface UseEntryHandlersProps {
   setPersonnelEntries: (entries: FederalPersonnelEntry[] | ((prev: FederalPersonnelEntry[]) => FederalPersonnelEntry[])) => void;
   setTimeValidationErrors: (errors: Record<string, string> | ((prev: Record<string, string>) => Record<string, string>)) => void;
   setHasUnsavedChanges: (value: boolean) => void;
+  crewMembers?: CrewMember[];
+  roundingPolicy?: RoundingPolicy;
+  timeZone?: string;
 }
 
 export const useEntryHandlers = ({
@@ -19,27 +36,76 @@ export const useEntryHandlers = ({
   setEquipmentEntries,
   setPersonnelEntries,
   setTimeValidationErrors,
-  setHasUnsavedChanges
+  setHasUnsavedChanges,
+  crewMembers = [],
+  roundingPolicy,
+  timeZone
 }: UseEntryHandlersProps) => {
+  // Totals are calculated under the ticket's rounding policy, in the incident's time zone
+  const propagationConfig = useMemo(
+    () => ({ ...DEFAULT_PROPAGATION_CONFIG, roundingPolicy, timeZone }),
+    [roundingPolicy, timeZone]
+  );
+
+  // First saves of rows not stored yet (a date's default rows), by row: later saves of the row wait for the ID it gets,
+  // so every save of a row updates one record
+  const equipmentFirstSaves = useRef(new Map<number, Promise<number>>());
+  const personnelFirstSaves = useRef(new Map<number, Promise<number>>());
+
+  // Save an equipment row, keeping the ID its first save gives it
+  const persistEquipmentEntry = useCallback(async (index: number, entry: FederalEquipmentEntry) => {
+    const firstSave = equipmentFirstSaves.current.get(index);
+    if (entry.id || firstSave) {
+      await saveFederalEquipmentEntry({ ...entry, id: entry.id ?? await firstSave });
+      return;
+    }
+    const save = saveFederalEquipmentEntry(entry);
+    equipmentFirstSaves.current.set(index, save);
+    const id = await save;
+    setEquipmentEntries(prev => prev.map((item, idx) => (idx === index && !item.id ? { ...item, id } : item)));
+    equipmentFirstSaves.current.delete(index);
+  }, [setEquipmentEntries]);
+
+  // Save a personnel row, keeping the ID its first save gives it
+  const persistPersonnelEntry = useCallback(async (index: number, entry: FederalPersonnelEntry) => {
+    const firstSave = personnelFirstSaves.current.get(index);
+    if (entry.id || firstSave) {
+      await saveFederalPersonnelEntry({ ...entry, id: entry.id ?? await firstSave });
+      return;
+    }
+    const save = saveFederalPersonnelEntry(entry);
+    personnelFirstSaves.current.set(index, save);
+    const id = await save;
+    setPersonnelEntries(prev => prev.map((item, idx) => (idx === index && !item.id ? { ...item, id } : item)));
+    personnelFirstSaves.current.delete(index);
+  }, [setPersonnelEntries]);
   
   const handleEquipmentEntryChange = useCallback((index: number, field: keyof FederalEquipmentEntry, value: string) => {
     setEquipmentEntries(prev => {
-      const updated = handleFederalEquipmentEntryChange(prev, index, field, value, DEFAULT_PROPAGATION_CONFIG);
-      saveFederalEquipmentEntry(updated[index]);
+      const updated = handleFederalEquipmentEntryChange(prev, index, field, value, propagationConfig);
+      persistEquipmentEntry(index, updated[index]);
       return updated;
     });
     setHasUnsavedChanges(true);
-  }, [setEquipmentEntries, setHasUnsavedChanges]);
+  }, [persistEquipmentEntry, propagationConfig, setEquipmentEntries, setHasUnsavedChanges]);
 
   const handlePersonnelEntryChange = useCallback((index: number, field: keyof FederalPersonnelEntry, value: string) => {
     setPersonnelEntries(prev => {
-      let updated = handleFederalPersonnelEntryChange(prev, index, field, value, DEFAULT_PROPAGATION_CONFIG);
+      let updated = handleFederalPersonnelEntryChange(prev, index, field, value, propagationConfig);
       
       // Auto-fill Job Title for first personnel entry
       if (index === 0 && !updated[index].remarks) {
         updated[index] = { ...updated[index], remarks: 'ENGB' };
       }
       
+      // Auto-fill Job Title from the roster when a crew member is picked
+      if (field === 'name' && !updated[index].remarks) {
+        const crewMember = findCrewMemberByName(crewMembers, value);
+        if (crewMember?.defaultRole) {
+          updated[index] = { ...updated[index], remarks: crewMember.defaultRole };
+        }
+      }
+      
       // Auto-fill from equipment entry when name is entered
       if (field === 'name' && value && value.trim() !== '') {
         const equipmentEntry = equipmentEntries[0]; // Use first equipment entry as source
@@ -58,6 +124,11 @@ export const useEntryHandlers = ({
             updated[index] = { ...updated[index], date: equipmentEntry.date };
           }
           
+          // Auto-fill the typed periods of the equipment entry if personnel entry doesn't have times
+          if (equipmentEntry.periods && !updated[index].periods && !updated[index].start1 && !updated[index].stop1) {
+            updated = handleFederalPersonnelPeriodsChange(updated, index, equipmentEntry.periods, propagationConfig);
+          }
+          
           // Auto-fill start time from equipment entry if personnel entry doesn't have one
           if (!updated[index].start1 && equipmentEntry.start) {
             updated[index] = { ...updated[index], start1: equipmentEntry.start };
@@ -70,7 +141,7 @@ export const useEntryHandlers = ({
           
           // Auto-calculate total if we now have both start and stop times
           if (updated[index].start1 && updated[index].stop1) {
-            const total = autoCalculateTotal(updated[index].start1, updated[index].stop1);
+            const total = autoCalculateTotal(updated[index].start1, updated[index].stop1, updated[index].date, timeZone);
             if (total) {
               updated[index] = { ...updated[index], total: total };
             }
@@ -78,11 +149,30 @@ export const useEntryHandlers = ({
         }
       }
       
-      saveFederalPersonnelEntry(updated[index]);
+      persistPersonnelEntry(index, updated[index]);
+      return updated;
+    });
+    setHasUnsavedChanges(true);
+  }, [persistPersonnelEntry, equipmentEntries, crewMembers, propagationConfig, timeZone, setPersonnelEntries, setHasUnsavedChanges]);
+
+  // Typed period lists, for days with more segments than the two start/stop pairs hold
+  const handleEquipmentPeriodsChange = useCallback((index: number, periods: EntryPeriod[]) => {
+    setEquipmentEntries(prev => {
+      const updated = handleFederalEquipmentPeriodsChange(prev, index, periods, propagationConfig);
+      persistEquipmentEntry(index, updated[index]);
+      return updated;
+    });
+    setHasUnsavedChanges(true);
+  }, [persistEquipmentEntry, propagationConfig, setEquipmentEntries, setHasUnsavedChanges]);
+
+  const handlePersonnelPeriodsChange = useCallback((index: number, periods: EntryPeriod[]) => {
+    setPersonnelEntries(prev => {
+      const updated = handleFederalPersonnelPeriodsChange(prev, index, periods, propagationConfig);
+      persistPersonnelEntry(index, updated[index]);
       return updated;
     });
     setHasUnsavedChanges(true);
-  }, [equipmentEntries, setPersonnelEntries, setHasUnsavedChanges]);
+  }, [persistPersonnelEntry, propagationConfig, setPersonnelEntries, setHasUnsavedChanges]);
 
   const handleTimeInput = useCallback((
     index: number, 
@@ -130,8 +220,8 @@ export const useEntryHandlers = ({
       if (type === 'equipment') {
         // Use the handler function directly
         setEquipmentEntries(prev => {
-          const updated = handleFederalEquipmentEntryChange(prev, index, field as keyof FederalEquipmentEntry, formattedTime, DEFAULT_PROPAGATION_CONFIG);
-          saveFederalEquipmentEntry(updated[index]);
+          const updated = handleFederalEquipmentEntryChange(prev, index, field as keyof FederalEquipmentEntry, formattedTime, propagationConfig);
+          persistEquipmentEntry(index, updated[index]);
           return updated;
         });
         setHasUnsavedChanges(true);
@@ -140,11 +230,11 @@ export const useEntryHandlers = ({
         if (field === 'stop1') {
           const entry = equipmentEntries[index];
           if (entry.start1 && formattedTime) {
-            const total = autoCalculateTotal(entry.start1, formattedTime);
+            const total = autoCalculateTotal(entry.start1, formattedTime, entry.date, timeZone);
             if (total) {
               setEquipmentEntries(prev => {
-                const updated = handleFederalEquipmentEntryChange(prev, index, 'total', total, DEFAULT_PROPAGATION_CONFIG);
-                saveFederalEquipmentEntry(updated[index]);
+                const updated = handleFederalEquipmentEntryChange(prev, index, 'total', total, propagationConfig);
+                persistEquipmentEntry(index, updated[index]);
                 return updated;
               });
               setHasUnsavedChanges(true);
@@ -153,11 +243,11 @@ export const useEntryHandlers = ({
         } else if (field === 'stop2') {
           const entry = equipmentEntries[index];
           if (entry.start2 && formattedTime) {
-            const total = autoCalculateTotal(entry.start2, formattedTime);
+            const total = autoCalculateTotal(entry.start2, formattedTime, entry.date, timeZone);
             if (total) {
               setEquipmentEntries(prev => {
-                const updated = handleFederalEquipmentEntryChange(prev, index, 'total', total, DEFAULT_PROPAGATION_CONFIG);
-                saveFederalEquipmentEntry(updated[index]);
+                const updated = handleFederalEquipmentEntryChange(prev, index, 'total', total, propagationConfig);
+                persistEquipmentEntry(index, updated[index]);
                 return updated;
               });
               setHasUnsavedChanges(true);
@@ -167,8 +257,8 @@ export const useEntryHandlers = ({
       } else {
         // Use the handler function directly
         setPersonnelEntries(prev => {
-          let updated = handleFederalPersonnelEntryChange(prev, index, field as keyof FederalPersonnelEntry, formattedTime, DEFAULT_PROPAGATION_CONFIG);
-          saveFederalPersonnelEntry(updated[index]);
+          let updated = handleFederalPersonnelEntryChange(prev, index, field as keyof FederalPersonnelEntry, formattedTime, propagationConfig);
+          persistPersonnelEntry(index, updated[index]);
           return updated;
         });
         setHasUnsavedChanges(true);
@@ -177,26 +267,26 @@ export const useEntryHandlers = ({
         if (field === 'stop1' || field === 'stop2') {
           const entry = personnelEntries[index];
           if (field === 'stop1' && entry.start1 && formattedTime) {
-            const total1 = autoCalculateTotal(entry.start1, formattedTime);
+            const total1 = autoCalculateTotal(entry.start1, formattedTime, entry.date, timeZone);
             if (total1) {
               setPersonnelEntries(prev => {
-                let updated = handleFederalPersonnelEntryChange(prev, index, 'total', total1, DEFAULT_PROPAGATION_CONFIG);
-                saveFederalPersonnelEntry(updated[index]);
+                let updated = handleFederalPersonnelEntryChange(prev, index, 'total', total1, propagationConfig);
+                persistPersonnelEntry(index, updated[index]);
                 return updated;
               });
               setHasUnsavedChanges(true);
             }
           } else if (field === 'stop2' && entry.start2 && formattedTime) {
-            const total2 = autoCalculateTotal(entry.start2, formattedTime);
+            const total2 = autoCalculateTotal(entry.start2, formattedTime, entry.date, timeZone);
             if (total2) {
               // Calculate combined total if both periods are filled
-              const total1 = entry.start1 && entry.stop1 ? autoCalculateTotal(entry.start1, entry.stop1) : '';
+              const total1 = entry.start1 && entry.stop1 ? autoCalculateTotal(entry.start1, entry.stop1, entry.date, timeZone) : '';
               const combinedTotal = total1 && total2 ? 
                 autoCalculateTotal('00:00', autoCalculateTotal(total1, total2)) : total2;
               if (combinedTotal) {
                 setPersonnelEntries(prev => {
-                  let updated = handleFederalPersonnelEntryChange(prev, index, 'total', combinedTotal, DEFAULT_PROPAGATION_CONFIG);
-                  saveFederalPersonnelEntry(updated[index]);
+                  let updated = handleFederalPersonnelEntryChange(prev, index, 'total', combinedTotal, propagationConfig);
+                  persistPersonnelEntry(index, updated[index]);
                   return updated;
                 });
                 setHasUnsavedChanges(true);
@@ -216,45 +306,63 @@ export const useEntryHandlers = ({
     // Always update the input value (even if invalid) so user can see what they're typing
     if (type === 'equipment') {
       setEquipmentEntries(prev => {
-        const updated = handleFederalEquipmentEntryChange(prev, index, field as keyof FederalEquipmentEntry, cleanValue, DEFAULT_PROPAGATION_CONFIG);
-        saveFederalEquipmentEntry(updated[index]);
+        const updated = handleFederalEquipmentEntryChange(prev, index, field as keyof FederalEquipmentEntry, cleanValue, propagationConfig);
+        persistEquipmentEntry(index, updated[index]);
         return updated;
       });
       setHasUnsavedChanges(true);
     } else {
       setPersonnelEntries(prev => {
-        let updated = handleFederalPersonnelEntryChange(prev, index, field as keyof FederalPersonnelEntry, cleanValue, DEFAULT_PROPAGATION_CONFIG);
-        saveFederalPersonnelEntry(updated[index]);
+        let updated = handleFederalPersonnelEntryChange(prev, index, field as keyof FederalPersonnelEntry, cleanValue, propagationConfig);
+        persistPersonnelEntry(index, updated[index]);
         return updated;
       });
       setHasUnsavedChanges(true);
     }
-  }, [equipmentEntries, personnelEntries, setEquipmentEntries, setPersonnelEntries, setTimeValidationErrors, setHasUnsavedChanges]);
+  }, [persistEquipmentEntry, persistPersonnelEntry, equipmentEntries, personnelEntries, propagationConfig, timeZone, setEquipmentEntries, setPersonnelEntries, setTimeValidationErrors, setHasUnsavedChanges]);
 
   const handleClearEquipmentEntry = useCallback((index: number) => {
     setEquipmentEntries(prev => {
       const updated = [...prev];
-      updated[index] = { date: '', start: '', stop: '', start1: '', stop1: '', start2: '', stop2: '', total: '', quantity: '', type: '', remarks: '' };
-      saveFederalEquipmentEntry(updated[index]);
+      // The cleared row keeps its ID, so its stored record is cleared rather than left behind
+      updated[index] = { id: prev[index].id, date: '', start: '', stop: '', start1: '', stop1: '', start2: '', stop2: '', total: '', quantity: '', type: '', remarks: '' };
+      persistEquipmentEntry(index, updated[index]);
       return updated;
     });
-  }, [setEquipmentEntries]);
+  }, [persistEquipmentEntry, setEquipmentEntries]);
 
   const handleClearPersonnelEntry = useCallback((index: number) => {
     setPersonnelEntries(prev => {
       const updated = [...prev];
-      updated[index] = { date: '', name: '', start1: '', stop1: '', start2: '', stop2: '', total: '', remarks: '' };
-      saveFederalPersonnelEntry(updated[index]);
+      updated[index] = { id: prev[index].id, date: '', name: '', start1: '', stop1: '', start2: '', stop2: '', total: '', remarks: '' };
+      persistPersonnelEntry(index, updated[index]);
       return updated;
     });
-  }, [setPersonnelEntries]);
+  }, [persistPersonnelEntry, setPersonnelEntries]);
+
+  // New rows are stored before they are shown, so their edits update the stored record
+  const handleAddEquipmentEntry = useCallback(async (date: string) => {
+    const newEntry = await addFederalEquipmentEntry(date);
+    setEquipmentEntries(prev => [...prev, newEntry]);
+    setHasUnsavedChanges(true);
+  }, [setEquipmentEntries, setHasUnsavedChanges]);
+
+  const handleAddPersonnelEntry = useCallback(async (date: string) => {
+    const newEntry = await addFederalPersonnelEntry(date);
+    setPersonnelEntries(prev => [...prev, newEntry]);
+    setHasUnsavedChanges(true);
+  }, [setPersonnelEntries, setHasUnsavedChanges]);
 
   return {
     handleEquipmentEntryChange,
     handlePersonnelEntryChange,
+    handleEquipmentPeriodsChange,
+    handlePersonnelPeriodsChange,
     handleTimeInput,
     handleClearEquipmentEntry,
-    handleClearPersonnelEntry
+    handleClearPersonnelEntry,
+    handleAddEquipmentEntry,
+    handleAddPersonnelEntry
   };
 };
 
@@ -1,33 +1,42 @@
 import { useState } from 'react';
 import type { FederalEquipmentEntry, FederalPersonnelEntry, FederalFormData } from '../utils/engineTimeDB';
 
+// Checkbox states of a new ticket
+export const createDefaultCheckboxStates = () => ({
+  noMealsLodging: false,
+  noMeals: false,
+  travel: false,
+  noLunch: false,
+  hotline: true  // Default to true
+});
+
+// Form data of a new ticket
+export const createEmptyFederalFormData = (): FederalFormData => ({
+  agreementNumber: '',
+  contractorAgencyName: '',
+  resourceOrderNumber: '',
+  incidentName: '',
+  incidentNumber: '',
+  financialCode: '',
+  equipmentMakeModel: '',
+  equipmentType: '',
+  serialVinNumber: '',
+  licenseIdNumber: '',
+  transportRetained: '',
+  isFirstLastTicket: '',
+  rateType: '',
+  agencyRepresentative: '',
+  incidentSupervisor: '',
+  remarks: '',
+  checkboxStates: createDefaultCheckboxStates()
+});
+
 export const useFederalFormState = () => {
   // Federal form data state
-  const [federalFormData, setFederalFormData] = useState<FederalFormData>({
-    agreementNumber: '',
-    contractorAgencyName: '',
-    resourceOrderNumber: '',
-    incidentName: '',
-    incidentNumber: '',
-    financialCode: '',
-    equipmentMakeModel: '',
-    equipmentType: '',
-    serialVinNumber: '',
-    licenseIdNumber: '',
-    transportRetained: '',
-    isFirstLastTicket: '',
-    rateType: '',
-    agencyRepresentative: '',
-    incidentSupervisor: '',
-    remarks: '',
-    checkboxStates: {
-      noMealsLodging: false,
-      noMeals: false,
-      travel: false,
-      noLunch: false,
-      hotline: true  // Default to true
-    }
-  });
+  const [federalFormData, setFederalFormData] = useState<FederalFormData>(createEmptyFederalFormData);
+
+  // Active ticket state
+  const [activeTicketId, setActiveTicketId] = useState<number | null>(null);
 
   // Equipment entries state
   const [equipmentEntries, setEquipmentEntries] = useState<FederalEquipmentEntry[]>([]);
@@ -50,13 +59,7 @@ export const useFederalFormState = () => {
   const [timeValidationErrors, setTimeValidationErrors] = useState<Record<string, string>>({});
 
   // Add state for collapsible sections
-  const [checkboxStates, setCheckboxStates] = useState({
-    noMealsLodging: false,
-    noMeals: false,
-    travel: false,
-    noLunch: false,
-    hotline: true  // Default to true
-  });
+  const [checkboxStates, setCheckboxStates] = useState(createDefaultCheckboxStates);
 
   // Add state for unsaved changes and saving status
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -73,6 +76,10 @@ export const useFederalFormState = () => {
     federalFormData,
     setFederalFormData,
     
+    // Active ticket
+    activeTicketId,
+    setActiveTicketId,
+    
     // Entries
     equipmentEntries,
     setEquipmentEntries,
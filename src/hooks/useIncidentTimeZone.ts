@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getIncidentTimeZone, setIncidentTimeZone } from '../utils/engineTimeDB';
+import { getDeviceTimeZone } from '../utils/timeZones';
+
+export const useIncidentTimeZone = (ticketId: number | null) => {
+  const [timeZone, setTimeZone] = useState(getDeviceTimeZone);
+
+  // Load the time zone of the active ticket's incident
+  useEffect(() => {
+    if (ticketId === null) return;
+    let cancelled = false;
+    getIncidentTimeZone(ticketId)
+      .then(zone => {
+        if (!cancelled) setTimeZone(zone);
+      })
+      .catch(error => console.error('Error loading incident time zone:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId]);
+
+  // Change and store the time zone of the active ticket's incident
+  const updateTimeZone = useCallback(async (zone: string) => {
+    setTimeZone(zone);
+    if (ticketId === null) return;
+    try {
+      await setIncidentTimeZone(ticketId, zone);
+      console.log('✅ Incident time zone saved for ticket', ticketId, zone);
+    } catch (error) {
+      console.error('Error saving incident time zone:', error);
+    }
+  }, [ticketId]);
+
+  return {
+    timeZone,
+    updateTimeZone
+  };
+};
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { ODFFormData, ODFTimeEntry } from '../utils/engineTimeDB';
+import { FormType, getActiveTicketId, getTicketRoundingPolicy, getIncidentTimeZone } from '../utils/engineTimeDB';
+import { getPDF, storePDFWithId } from '../utils/pdfStorage';
+import { mapODFToPDFFields, validateODFFormData } from '../utils/fieldmapper/odfFieldMapper';
+import { fillPDFForm } from '../utils/PDF/pdfFormFiller';
+import { derivePdfIdFromDate, getTemplatePdfId, normalizeDate } from '../utils/pdfIdResolver';
+
+interface UseODFPDFGenerationProps {
+  formData: ODFFormData;
+  timeEntries: ODFTimeEntry[];
+  currentSelectedDate: string;
+}
+
+export const useODFPDFGeneration = ({
+  formData,
+  timeEntries,
+  currentSelectedDate
+}: UseODFPDFGenerationProps) => {
+  const navigate = useNavigate();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generatePDF = async () => {
+    try {
+      setIsGenerating(true);
+      setError(null);
+
+      console.log('ODF: Starting PDF fill and sign process...');
+
+      // Validate form data
+      const validation = validateODFFormData(formData, timeEntries);
+      if (!validation.isValid) {
+        console.error('ODF: Form validation failed:', validation.errors);
+        const errorMessage = 'Please fill in required fields before signing: ' + validation.errors.join(', ');
+        setError(errorMessage);
+        alert(errorMessage);
+        return;
+      }
+
+      // Map form data to PDF fields, billing totals under the ticket's rounding policy in the incident's time zone
+      const ticketId = await getActiveTicketId(FormType.ODF);
+      const pdfFields = mapODFToPDFFields(formData, timeEntries, await getTicketRoundingPolicy(ticketId), await getIncidentTimeZone(ticketId));
+
+      // Get the stored template PDF
+      const storedPDF = await getPDF(getTemplatePdfId('odf'));
+      if (!storedPDF) {
+        console.error('ODF: No PDF found in storage');
+        const errorMessage = 'PDF not found. Please try again.';
+        setError(errorMessage);
+        alert(errorMessage);
+        return;
+      }
+
+      const { blob: filledPdfBlob, filledFieldsCount } = await fillPDFForm(storedPDF.pdf, pdfFields, 'ODF');
+      if (filledFieldsCount === 0) {
+        throw new Error('PDF was saved but no fields were filled. Please check the field mapping.');
+      }
+
+      // Use centralized resolver to create date-specific PDF ID
+      const formDate = normalizeDate(currentSelectedDate || new Date());
+      const dateSpecificPdfId = derivePdfIdFromDate(formDate, 'odf', ticketId);
+      const ownerContractor = formData.ownerContractor || formData.contractorAgencyName || 'N/A';
+
+      await storePDFWithId(dateSpecificPdfId, filledPdfBlob, null, {
+        filename: 'ODF-shift-ticket-filled.pdf',
+        date: formDate,
+        crewNumber: ownerContractor,
+        fireName: formData.incidentName || 'N/A',
+        fireNumber: formData.incidentNumber || 'N/A',
+        ticketId
+      });
+
+      console.log('✅ ODF: PDF filled and stored with ID:', dateSpecificPdfId, 'navigating to signing page...');
+
+      // Navigate to PDF signing page with parameters
+      const params = new URLSearchParams({
+        pdfId: dateSpecificPdfId,
+        crewNumber: ownerContractor,
+        fireName: formData.incidentName || 'N/A',
+        fireNumber: formData.incidentNumber || 'N/A',
+        date: formDate,
+        formType: 'odf',
+        ticketId: String(ticketId)
+      });
+
+      navigate(`/pdf-signing?${params.toString()}`);
+
+    } catch (err) {
+      console.error('ODF: Error filling PDF:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Error filling PDF. Please check the console for details.';
+      setError(errorMessage);
+      alert(errorMessage);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return { generatePDF, isGenerating, error };
+};
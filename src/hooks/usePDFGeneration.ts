@@ -2,9 +2,15 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import * as PDFLib from 'pdf-lib';
 import type { FederalEquipmentEntry, FederalPersonnelEntry, FederalFormData } from '../utils/engineTimeDB';
+import { FormType, getActiveTicketId, getTicketRoundingPolicy, getTicketSplitOvernight, getIncidentTimeZone } from '../utils/engineTimeDB';
 import { getPDF, storePDFWithId } from '../utils/pdfStorage';
-import { mapFederalToPDFFields, validateFederalFormData, getFederalPDFFieldName } from '../utils/fieldmapper/federalFieldMapper';
+import { mapFederalToPDFPages, validateFederalFormData, getFederalPDFFieldName, getFederalRowOverflowWarnings, getFederalTicketRows } from '../utils/fieldmapper/federalFieldMapper';
+import { fillPDFFormPages } from '../utils/PDF/pdfFormFiller';
+import { getTemplateFieldInventory } from '../utils/PDF/templateFieldInventory';
+import { fitTextField } from '../utils/PDF/textFit';
 import { derivePdfIdFromDate, normalizeDate } from '../utils/pdfIdResolver';
+import { evaluateFederalCompliance, formatComplianceViolation, getViolationsFor, EQUIPMENT_SUBJECT } from '../utils/workRestCompliance';
+import { evaluateMeterReadings } from '../utils/equipmentMeter';
 
 interface UsePDFGenerationProps {
   formData: FederalFormData;
@@ -41,6 +47,43 @@ export const usePDFGeneration = ({
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  /**
+   * Stores the filled PDF under its date-specific ID and opens the signing page
+   */
+  const storeAndNavigate = async (filledPdfBlob: Blob, filledFieldsCount: number) => {
+    // Use centralized resolver to create date-specific PDF ID
+    const formDate = normalizeDate(currentSelectedDate || formatToMMDDYY(new Date()));
+    const ticketId = await getActiveTicketId(FormType.FEDERAL);
+    const dateSpecificPdfId = derivePdfIdFromDate(formDate, 'federal', ticketId);
+    
+    console.log('🔍 usePDFGeneration: Derived PDF ID:', dateSpecificPdfId, 'from date:', formDate);
+    
+    // Store the filled PDF with date-specific ID
+    await storePDFWithId(dateSpecificPdfId, filledPdfBlob, null, {
+      filename: 'OF297-24-filled.pdf',
+      date: formDate,
+      crewNumber: formData.agreementNumber || 'N/A',
+      fireName: formData.incidentName || 'N/A',
+      fireNumber: formData.incidentNumber || 'N/A',
+      ticketId
+    });
+
+    console.log('✅ Federal: PDF filled and stored successfully with', filledFieldsCount, 'filled fields, navigating to signing page...');
+    console.log('🔍 Federal: Stored PDF with date-specific ID:', dateSpecificPdfId, 'for date:', formDate);
+    
+    // Navigate to PDF signing page with parameters
+    const params = new URLSearchParams({
+      pdfId: dateSpecificPdfId,
+      crewNumber: formData.agreementNumber || 'N/A',
+      fireName: formData.incidentName || 'N/A',
+      fireNumber: formData.incidentNumber || 'N/A',
+      date: formDate,
+      ticketId: String(ticketId)
+    });
+    
+    navigate(`/pdf-signing?${params.toString()}`);
+  };
+
   const generatePDF = async () => {
     try {
       setIsGenerating(true);
@@ -48,8 +91,26 @@ export const usePDFGeneration = ({
       
       console.log('Federal: Starting PDF fill and sign process...');
       
-      // Validate form data
-      const validation = validateFederalFormData(formData, equipmentEntries, personnelEntries);
+      // Get the stored PDF
+      const storedPDF = await getPDF('federal-form');
+      if (!storedPDF) {
+        console.error('Federal: No PDF found in storage');
+        const errorMessage = 'PDF not found. Please try again.';
+        setError(errorMessage);
+        alert(errorMessage);
+        return;
+      }
+
+      // Totals are billed under the ticket's rounding policy in the incident's time zone; overnight time is split
+      // across dates when the ticket says so
+      const ticketId = await getActiveTicketId(FormType.FEDERAL);
+      const roundingPolicy = await getTicketRoundingPolicy(ticketId);
+      const splitOvernight = await getTicketSplitOvernight(ticketId);
+      const timeZone = await getIncidentTimeZone(ticketId);
+
+      // Validate form data, measuring mapped values against the template's fields
+      const templateFields = await getTemplateFieldInventory(await storedPDF.pdf.arrayBuffer());
+      const validation = validateFederalFormData(formData, equipmentEntries, personnelEntries, templateFields, checkboxStates, roundingPolicy, splitOvernight, timeZone);
       if (!validation.isValid) {
         console.error('Federal: Form validation failed:', validation.errors);
         const errorMessage = 'Please fill in required fields before signing: ' + validation.errors.join(', ');
@@ -58,10 +119,54 @@ export const usePDFGeneration = ({
         return;
       }
 
+      // Text that is still too long at the smallest font size would be cut off on the PDF
+      if (validation.textFitIssues.length > 0) {
+        console.warn('Federal: Fields that do not fit:', validation.textFitIssues);
+        const issueList = validation.textFitIssues
+          .map(issue => `- "${issue.value.length > 40 ? issue.value.substring(0, 40) + '...' : issue.value}"`)
+          .join('\n');
+        if (!window.confirm(`These values are too long to fit on the PDF and will be cut off:\n${issueList}\n\nContinue signing anyway?`)) {
+          return;
+        }
+      }
+
+      // Work/rest compliance - flag the people and equipment on this ticket whose shifts break a work/rest rule
+      const allViolations = await evaluateFederalCompliance(personnelEntries, equipmentEntries, ticketId);
+      const violations = Array.from(new Set([
+        ...equipmentEntries.flatMap(entry => getViolationsFor(allViolations, EQUIPMENT_SUBJECT, entry.date)),
+        ...personnelEntries.flatMap(entry => getViolationsFor(allViolations, entry.name || '', entry.date))
+      ]));
+      if (violations.length > 0) {
+        console.warn('Federal: Work/rest compliance violations:', violations);
+        const violationList = violations.map(violation => `- ${formatComplianceViolation(violation)}`).join('\n');
+        if (!window.confirm(`These shifts break work/rest rules:\n${violationList}\n\nContinue signing anyway?`)) {
+          return;
+        }
+      }
+
+      // Odometer/hour-meter readings - a reading below the day before's means a typo or a swapped meter
+      const meterIssues = (await evaluateMeterReadings(equipmentEntries, ticketId))
+        .filter(issue => equipmentEntries.includes(issue.entry));
+      if (meterIssues.length > 0) {
+        console.warn('Federal: Meter readings go backward:', meterIssues);
+        const issueList = meterIssues.map(issue => `- ${issue.entry.date}: ${issue.message}`).join('\n');
+        if (!window.confirm(`These meter readings go backward:\n${issueList}\n\nContinue signing anyway?`)) {
+          return;
+        }
+      }
+
+      // Entries that do not fit on the OF-297 flow onto continuation pages
+      const ticketRows = getFederalTicketRows(equipmentEntries, personnelEntries, splitOvernight, timeZone);
+      const overflowWarnings = getFederalRowOverflowWarnings(ticketRows.equipmentEntries, ticketRows.personnelEntries);
+      if (overflowWarnings.length > 0) {
+        console.log('Federal: Row overflow, adding continuation pages:', overflowWarnings);
+      }
+
       // Map form data to PDF fields
       console.log('🔍 DEBUG: Equipment entries being mapped:', equipmentEntries);
       console.log('🔍 DEBUG: Personnel entries being mapped:', personnelEntries);
-      const pdfFields = mapFederalToPDFFields(formData, equipmentEntries, personnelEntries, checkboxStates);
+      const pdfPages = mapFederalToPDFPages(formData, equipmentEntries, personnelEntries, checkboxStates, roundingPolicy, splitOvernight, timeZone);
+      const pdfFields = pdfPages[0];
       console.log('Federal: Mapped PDF fields:', pdfFields);
       
       // Debug time-related fields specifically
@@ -73,13 +178,11 @@ export const usePDFGeneration = ({
       console.log('Federal: Checkbox states:', checkboxStates);
       console.log('Federal: PDF remarks field value:', pdfFields[getFederalPDFFieldName('remarks')]);
 
-      // Get the stored PDF
-      const storedPDF = await getPDF('federal-form');
-      if (!storedPDF) {
-        console.error('Federal: No PDF found in storage');
-        const errorMessage = 'PDF not found. Please try again.';
-        setError(errorMessage);
-        alert(errorMessage);
+      // Tickets that overflow the template rows get continuation pages
+      if (pdfPages.length > 1) {
+        const { blob, filledFieldsCount } = await fillPDFFormPages(storedPDF.pdf, pdfPages, 'Federal');
+        console.log(`✅ Federal: Built ${pdfPages.length}-page PDF, size:`, blob.size, 'bytes');
+        await storeAndNavigate(blob, filledFieldsCount);
         return;
       }
 
@@ -143,6 +246,10 @@ export const usePDFGeneration = ({
             if (hasSetText) {
               // Text field
               (field as any).setText(value);
+              // Shrink the font (and wrap multiline fields) rather than clipping long values
+              if (field instanceof PDFLib.PDFTextField) {
+                fitTextField(field, value);
+              }
               filledFieldsCount++;
               console.log(`Federal: Filled text field ${fieldName} with value: ${value}`);
             } else if (hasCheck) {
@@ -291,34 +398,7 @@ export const usePDFGeneration = ({
         }
       }
       
-      // Use centralized resolver to create date-specific PDF ID
-      const formDate = normalizeDate(currentSelectedDate || formatToMMDDYY(new Date()));
-      const dateSpecificPdfId = derivePdfIdFromDate(formDate, 'federal');
-      
-      console.log('🔍 usePDFGeneration: Derived PDF ID:', dateSpecificPdfId, 'from date:', formDate);
-      
-      // Store the filled PDF with date-specific ID
-      await storePDFWithId(dateSpecificPdfId, filledPdfBlob, null, {
-        filename: 'OF297-24-filled.pdf',
-        date: formDate,
-        crewNumber: formData.agreementNumber || 'N/A',
-        fireName: formData.incidentName || 'N/A',
-        fireNumber: formData.incidentNumber || 'N/A'
-      });
-
-      console.log('✅ Federal: PDF filled and stored successfully with', verifyFilledCount, 'filled fields, navigating to signing page...');
-      console.log('🔍 Federal: Stored PDF with date-specific ID:', dateSpecificPdfId, 'for date:', formDate);
-      
-      // Navigate to PDF signing page with parameters
-      const params = new URLSearchParams({
-        pdfId: dateSpecificPdfId,
-        crewNumber: formData.agreementNumber || 'N/A',
-        fireName: formData.incidentName || 'N/A',
-        fireNumber: formData.incidentNumber || 'N/A',
-        date: formDate
-      });
-      
-      navigate(`/pdf-signing?${params.toString()}`);
+      await storeAndNavigate(filledPdfBlob, verifyFilledCount);
       
     } catch (err) {
       console.error('Federal: Error filling PDF:', err);
@@ -1,15 +1,25 @@
-import { useCallback } from 'react';
-import { parsePayloadFromURL, createShareableLink, clearURLParameters, type FederalPayload } from '../utils/payloadSystem';
+import { useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  parsePayloadFromURL,
+  parsePayloadFromLink,
+  createShareableLink,
+  clearURLParameters,
+  getPayloadRedirect,
+  isFederalPayload,
+  type FederalPayload
+} from '../utils/payloadSystem';
+import { createPayloadQRCodes, readLinkFromQRImages } from '../utils/payloadQR';
 import type { FederalFormData, FederalEquipmentEntry, FederalPersonnelEntry } from '../utils/engineTimeDB';
-import { saveFederalEquipmentEntry, saveFederalPersonnelEntry } from '../utils/engineTimeDB';
+import { FormType, getPayloadSigningIssuer } from '../utils/engineTimeDB';
+import { canSignWithIssuer, describeSignatureProblem } from '../utils/payloadSigning';
+import type { PayloadMergeChoices, PayloadMergeUndo, PayloadPreview } from '../utils/payloadMerge';
+import { applyPayloadMerge, buildPayloadPreview, undoPayloadMerge } from '../utils/payloadMerge';
 
 interface UsePayloadManagementProps {
   federalFormData: FederalFormData;
-  setFederalFormData: (data: FederalFormData | ((prev: FederalFormData) => FederalFormData)) => void;
   equipmentEntries: FederalEquipmentEntry[];
-  setEquipmentEntries: (entries: FederalEquipmentEntry[] | ((prev: FederalEquipmentEntry[]) => FederalEquipmentEntry[])) => void;
   personnelEntries: FederalPersonnelEntry[];
-  setPersonnelEntries: (entries: FederalPersonnelEntry[] | ((prev: FederalPersonnelEntry[]) => FederalPersonnelEntry[])) => void;
   checkboxStates: {
     noMealsLodging: boolean;
     noMeals: boolean;
@@ -17,229 +27,156 @@ interface UsePayloadManagementProps {
     noLunch: boolean;
     hotline: boolean;
   };
-  setCheckboxStates: (states: {
-    noMealsLodging: boolean;
-    noMeals: boolean;
-    travel: boolean;
-    noLunch: boolean;
-    hotline: boolean;
-  } | ((prev: {
-    noMealsLodging: boolean;
-    noMeals: boolean;
-    travel: boolean;
-    noLunch: boolean;
-    hotline: boolean;
-  }) => {
-    noMealsLodging: boolean;
-    noMeals: boolean;
-    travel: boolean;
-    noLunch: boolean;
-    hotline: boolean;
-  })) => void;
   currentSelectedDate: string;
   setCurrentSelectedDate: (date: string) => void;
+  hasUnsavedChanges: boolean;
+  saveDataForDate: () => Promise<void>;
+  loadDataForDate: (dateRange: string) => Promise<void>;
 }
 
 /**
- * Hook for managing payload operations (parsing, applying, and generating shareable links)
+ * Asks before applying a signed payload whose signature cannot be trusted (its fields are applied without locking)
+ */
+const confirmPayloadSignature = (payload: FederalPayload): boolean => {
+  if (!payload.signature || payload.signature.status === 'VALID') return true;
+  return window.confirm(`${describeSignatureProblem(payload.signature)}\n\nApply it anyway? Its fields will not be locked.`);
+};
+
+/**
+ * Hook for managing payload operations (previewing and merging payloads, and generating shareable links)
  */
 export const usePayloadManagement = ({
   federalFormData,
-  setFederalFormData,
   equipmentEntries,
-  setEquipmentEntries,
   personnelEntries,
-  setPersonnelEntries,
   checkboxStates,
-  setCheckboxStates,
   currentSelectedDate,
-  setCurrentSelectedDate
+  setCurrentSelectedDate,
+  hasUnsavedChanges,
+  saveDataForDate,
+  loadDataForDate
 }: UsePayloadManagementProps) => {
+  const navigate = useNavigate();
+  // Payload waiting for the user to pick what to apply
+  const [payloadPreview, setPayloadPreview] = useState<PayloadPreview | null>(null);
+  // Undo of the last merge
+  const [payloadUndo, setPayloadUndo] = useState<PayloadMergeUndo | null>(null);
+
   /**
-   * Apply payload data to form state
+   * Preview what a payload would change; nothing is applied until the user picks the changes
+   * Returns false when the payload was declined or changes nothing
    */
-  const applyPayloadToForm = useCallback(async (payload: FederalPayload) => {
-    console.log('Applying payload to form:', payload);
-    
-    // Apply form data with individual state updates to ensure they take effect
-    if (payload.agreementNumber) {
-      console.log('Setting agreementNumber:', payload.agreementNumber);
-      setFederalFormData(prev => ({ ...prev, agreementNumber: payload.agreementNumber! }));
-    }
-    if (payload.contractorAgencyName) {
-      console.log('Setting contractorAgencyName:', payload.contractorAgencyName);
-      setFederalFormData(prev => ({ ...prev, contractorAgencyName: payload.contractorAgencyName! }));
+  const previewPayload = useCallback(async (payload: FederalPayload) => {
+    if (!confirmPayloadSignature(payload)) {
+      console.warn('Payload with an untrusted signature was not applied');
+      return false;
     }
-    if (payload.resourceOrderNumber) {
-      console.log('Setting resourceOrderNumber:', payload.resourceOrderNumber);
-      setFederalFormData(prev => ({ ...prev, resourceOrderNumber: payload.resourceOrderNumber! }));
-    }
-    if (payload.incidentName) {
-      console.log('Setting incidentName:', payload.incidentName);
-      setFederalFormData(prev => ({ ...prev, incidentName: payload.incidentName! }));
-    }
-    if (payload.incidentNumber) {
-      console.log('Setting incidentNumber:', payload.incidentNumber);
-      setFederalFormData(prev => ({ ...prev, incidentNumber: payload.incidentNumber! }));
-    }
-    if (payload.financialCode) {
-      console.log('Setting financialCode:', payload.financialCode);
-      setFederalFormData(prev => ({ ...prev, financialCode: payload.financialCode! }));
-    }
-    if (payload.equipmentMakeModel) {
-      console.log('Setting equipmentMakeModel:', payload.equipmentMakeModel);
-      setFederalFormData(prev => ({ ...prev, equipmentMakeModel: payload.equipmentMakeModel! }));
-    }
-    if (payload.equipmentType) {
-      console.log('Setting equipmentType:', payload.equipmentType);
-      setFederalFormData(prev => ({ ...prev, equipmentType: payload.equipmentType! }));
-    }
-    if (payload.serialVinNumber) {
-      console.log('Setting serialVinNumber:', payload.serialVinNumber);
-      setFederalFormData(prev => ({ ...prev, serialVinNumber: payload.serialVinNumber! }));
-    }
-    if (payload.licenseIdNumber) {
-      console.log('Setting licenseIdNumber:', payload.licenseIdNumber);
-      setFederalFormData(prev => ({ ...prev, licenseIdNumber: payload.licenseIdNumber! }));
-    }
-    if (payload.transportRetained) {
-      console.log('Setting transportRetained:', payload.transportRetained);
-      setFederalFormData(prev => ({ ...prev, transportRetained: payload.transportRetained! }));
-    }
-    if (payload.isFirstLastTicket) {
-      console.log('Setting isFirstLastTicket:', payload.isFirstLastTicket);
-      setFederalFormData(prev => ({ ...prev, isFirstLastTicket: payload.isFirstLastTicket! }));
-    }
-    if (payload.rateType) {
-      console.log('Setting rateType:', payload.rateType);
-      setFederalFormData(prev => ({ ...prev, rateType: payload.rateType! }));
-    }
-    if (payload.agencyRepresentative) {
-      console.log('Setting agencyRepresentative:', payload.agencyRepresentative);
-      setFederalFormData(prev => ({ ...prev, agencyRepresentative: payload.agencyRepresentative! }));
-    }
-    if (payload.incidentSupervisor) {
-      console.log('Setting incidentSupervisor:', payload.incidentSupervisor);
-      setFederalFormData(prev => ({ ...prev, incidentSupervisor: payload.incidentSupervisor! }));
-    }
-    if (payload.remarks) {
-      console.log('Setting remarks:', payload.remarks);
-      setFederalFormData(prev => ({ ...prev, remarks: payload.remarks! }));
-    }
-    
-    // Apply checkbox states
-    if (payload.noMealsLodging !== undefined) {
-      console.log('Setting noMealsLodging:', payload.noMealsLodging);
-      setCheckboxStates(prev => ({ ...prev, noMealsLodging: payload.noMealsLodging! }));
-    }
-    if (payload.noMeals !== undefined) {
-      console.log('Setting noMeals:', payload.noMeals);
-      setCheckboxStates(prev => ({ ...prev, noMeals: payload.noMeals! }));
-    }
-    if (payload.travel !== undefined) {
-      console.log('Setting travel:', payload.travel);
-      setCheckboxStates(prev => ({ ...prev, travel: payload.travel! }));
-    }
-    if (payload.noLunch !== undefined) {
-      console.log('Setting noLunch:', payload.noLunch);
-      setCheckboxStates(prev => ({ ...prev, noLunch: payload.noLunch! }));
-    }
-    if (payload.hotline !== undefined) {
-      console.log('Setting hotline:', payload.hotline);
-      setCheckboxStates(prev => ({ ...prev, hotline: payload.hotline! }));
-    }
-    
-    // Apply date
-    if (payload.date) {
-      console.log('Setting date:', payload.date);
-      setCurrentSelectedDate(payload.date);
-    }
-    
-    // Apply equipment entries
-    if (payload.equipmentEntries && payload.equipmentEntries.length > 0) {
-      console.log('Setting equipment entries:', payload.equipmentEntries);
-      const mappedEquipmentEntries = payload.equipmentEntries.map(entry => ({
-        date: entry.date || '',
-        start: entry.start || '',
-        stop: entry.stop || '',
-        start1: entry.start1 || '',
-        stop1: entry.stop1 || '',
-        start2: entry.start2 || '',
-        stop2: entry.stop2 || '',
-        total: entry.total || '',
-        quantity: entry.quantity || '',
-        type: entry.type || '',
-        remarks: entry.remarks || ''
-      }));
-      console.log('Mapped equipment entries:', mappedEquipmentEntries);
-      setEquipmentEntries(mappedEquipmentEntries);
-      
-      // Save equipment entries to IndexedDB
-      for (const entry of mappedEquipmentEntries) {
-        await saveFederalEquipmentEntry(entry);
-      }
-    }
-    
-    // Apply personnel entries
-    if (payload.personnelEntries && payload.personnelEntries.length > 0) {
-      console.log('Setting personnel entries:', payload.personnelEntries);
-      const mappedPersonnelEntries = payload.personnelEntries.map(entry => ({
-        date: entry.date || '',
-        name: entry.name || '',
-        start1: entry.start1 || '',
-        stop1: entry.stop1 || '',
-        start2: entry.start2 || '',
-        stop2: entry.stop2 || '',
-        total: entry.total || '',
-        remarks: entry.remarks || ''
-      }));
-      console.log('Mapped personnel entries:', mappedPersonnelEntries);
-      setPersonnelEntries(mappedPersonnelEntries);
-      
-      // Save personnel entries to IndexedDB
-      for (const entry of mappedPersonnelEntries) {
-        await saveFederalPersonnelEntry(entry);
-      }
+
+    // The preview compares the stored ticket, so keep edits in progress
+    if (hasUnsavedChanges) {
+      await saveDataForDate();
     }
-    
-    console.log('Payload applied successfully');
-  }, [
-    setFederalFormData,
-    setCheckboxStates,
-    setCurrentSelectedDate,
-    setEquipmentEntries,
-    setPersonnelEntries
-  ]);
+
+    const preview = await buildPayloadPreview(payload, {
+      formData: federalFormData,
+      checkboxStates,
+      selectedDate: currentSelectedDate
+    });
+    console.log('Payload preview:', preview);
+    if (preview.changes.length === 0) {
+      console.log('Payload matches the ticket, nothing to apply');
+      alert('The link data matches this ticket - there is nothing to apply.');
+      return false;
+    }
+    setPayloadPreview(preview);
+    return true;
+  }, [hasUnsavedChanges, saveDataForDate, federalFormData, checkboxStates, currentSelectedDate]);
+
+  /**
+   * Apply the picked changes of the previewed payload
+   */
+  const applyPayloadPreview = useCallback(async (choices: PayloadMergeChoices) => {
+    if (!payloadPreview) return;
+    const result = await applyPayloadMerge(payloadPreview, choices, currentSelectedDate);
+    setPayloadPreview(null);
+    setPayloadUndo(result.undo);
+
+    // Show the merged ticket on the date it was merged to
+    setCurrentSelectedDate(result.selectedDate);
+    await loadDataForDate(result.selectedDate);
+  }, [payloadPreview, currentSelectedDate, setCurrentSelectedDate, loadDataForDate]);
+
+  /**
+   * Close the preview without applying anything
+   */
+  const dismissPayloadPreview = useCallback(() => {
+    setPayloadPreview(null);
+  }, []);
+
+  /**
+   * Put the ticket back as it was before the last merge
+   */
+  const undoLastPayloadMerge = useCallback(async () => {
+    if (!payloadUndo) return;
+    await undoPayloadMerge(payloadUndo);
+    setPayloadUndo(null);
+    setCurrentSelectedDate(payloadUndo.selectedDate);
+    await loadDataForDate(payloadUndo.selectedDate);
+  }, [payloadUndo, setCurrentSelectedDate, loadDataForDate]);
+
+  /**
+   * Keep the last merge (the undo is no longer offered)
+   */
+  const dismissPayloadUndo = useCallback(() => {
+    setPayloadUndo(null);
+  }, []);
 
   /**
-   * Parse payload from URL and apply to form
+   * Parse payload from URL and preview it; a payload for another ticket form opens that form's page
    */
   const parseAndApplyPayload = useCallback(async () => {
-    const payload = parsePayloadFromURL();
+    const payload = await parsePayloadFromURL();
     if (Object.keys(payload).length > 0) {
-      console.log('Payload found in URL, applying to form after data load...');
-      await applyPayloadToForm(payload);
+      const redirect = getPayloadRedirect(payload, FormType.FEDERAL);
+      if (redirect) {
+        console.log('Payload is for another ticket form, opening', redirect);
+        navigate(redirect, { replace: true });
+        return;
+      }
+
+      console.log('Payload found in URL, previewing after data load...');
+      if (isFederalPayload(payload)) {
+        await previewPayload(payload);
+      }
       
-      // Clear URL parameters after applying payload
-      setTimeout(() => {
-        clearURLParameters();
-      }, 1000);
+      // Clear URL parameters once the payload is read, so a reload does not offer it again
+      clearURLParameters();
     }
-  }, [applyPayloadToForm]);
+  }, [previewPayload, navigate]);
 
   /**
-   * Generate shareable link from current form data
+   * Build a shareable link from current form data
    */
-  const generateShareableLink = useCallback(() => {
+  const buildShareableLink = useCallback(async () => {
     const baseURL = window.location.origin + window.location.pathname;
-    const shareableLink = createShareableLink(
+    // Sign with the issuer key chosen on this device, if any
+    const issuer = await getPayloadSigningIssuer();
+    return createShareableLink(
       baseURL,
       federalFormData,
       checkboxStates,
       equipmentEntries,
       personnelEntries,
-      currentSelectedDate
+      currentSelectedDate,
+      issuer && canSignWithIssuer(issuer) ? issuer : undefined
     );
+  }, [federalFormData, checkboxStates, equipmentEntries, personnelEntries, currentSelectedDate]);
+
+  /**
+   * Generate shareable link from current form data
+   */
+  const generateShareableLink = useCallback(async () => {
+    const shareableLink = await buildShareableLink();
     
     // Copy to clipboard
     navigator.clipboard.writeText(shareableLink).then(() => {
@@ -248,12 +185,43 @@ export const usePayloadManagement = ({
       // Fallback: show the link in a prompt
       prompt('Shareable link (copy this):', shareableLink);
     });
-  }, [federalFormData, checkboxStates, equipmentEntries, personnelEntries, currentSelectedDate]);
+  }, [buildShareableLink]);
+
+  /**
+   * Generate the QR code images of the shareable link (a sequence when the link is too long for one code)
+   */
+  const generatePayloadQRCodes = useCallback(async (): Promise<string[]> => {
+    return createPayloadQRCodes(await buildShareableLink());
+  }, [buildShareableLink]);
+
+  /**
+   * Read a payload from images of its QR codes and preview it; a payload for another ticket form opens that form's page
+   * Returns false when the payload was declined or changes nothing
+   */
+  const importPayloadFromQRImages = useCallback(async (files: File[]) => {
+    const link = await readLinkFromQRImages(files);
+    const payload = await parsePayloadFromLink(link);
+    const redirect = getPayloadRedirect(payload, FormType.FEDERAL, link);
+    if (redirect) {
+      console.log('Payload read from QR codes is for another ticket form, opening', redirect);
+      navigate(redirect);
+      return false;
+    }
+    console.log('Payload read from QR codes, previewing...');
+    return isFederalPayload(payload) && previewPayload(payload);
+  }, [previewPayload, navigate]);
 
   return {
-    applyPayloadToForm,
+    payloadPreview,
+    payloadUndo,
+    applyPayloadPreview,
+    dismissPayloadPreview,
+    undoLastPayloadMerge,
+    dismissPayloadUndo,
     parseAndApplyPayload,
-    generateShareableLink
+    generateShareableLink,
+    generatePayloadQRCodes,
+    importPayloadFromQRImages
   };
 };
 
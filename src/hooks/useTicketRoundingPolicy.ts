@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RoundingPolicy } from '../utils/billingRounding';
+import { DEFAULT_ROUNDING_POLICY } from '../utils/billingRounding';
+import { getTicketRoundingPolicy, setTicketRoundingPolicy } from '../utils/engineTimeDB';
+
+export const useTicketRoundingPolicy = (ticketId: number | null) => {
+  const [roundingPolicy, setRoundingPolicy] = useState<RoundingPolicy>(DEFAULT_ROUNDING_POLICY);
+
+  // Load the policy of the active ticket
+  useEffect(() => {
+    if (ticketId === null) return;
+    let cancelled = false;
+    getTicketRoundingPolicy(ticketId)
+      .then(policy => {
+        if (!cancelled) setRoundingPolicy(policy);
+      })
+      .catch(error => console.error('Error loading rounding policy:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId]);
+
+  // Change and store the policy of the active ticket
+  const updateRoundingPolicy = useCallback(async (policy: RoundingPolicy) => {
+    setRoundingPolicy(policy);
+    if (ticketId === null) return;
+    try {
+      await setTicketRoundingPolicy(ticketId, policy);
+      console.log('✅ Rounding policy saved for ticket', ticketId, policy);
+    } catch (error) {
+      console.error('Error saving rounding policy:', error);
+    }
+  }, [ticketId]);
+
+  return {
+    roundingPolicy,
+    updateRoundingPolicy
+  };
+};
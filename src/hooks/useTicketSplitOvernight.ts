@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getTicketSplitOvernight, setTicketSplitOvernight } from '../utils/engineTimeDB';
+
+export const useTicketSplitOvernight = (ticketId: number | null) => {
+  const [splitOvernight, setSplitOvernight] = useState(false);
+
+  // Load the option of the active ticket
+  useEffect(() => {
+    if (ticketId === null) return;
+    let cancelled = false;
+    getTicketSplitOvernight(ticketId)
+      .then(value => {
+        if (!cancelled) setSplitOvernight(value);
+      })
+      .catch(error => console.error('Error loading overnight split option:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId]);
+
+  // Change and store the option of the active ticket
+  const updateSplitOvernight = useCallback(async (value: boolean) => {
+    setSplitOvernight(value);
+    if (ticketId === null) return;
+    try {
+      await setTicketSplitOvernight(ticketId, value);
+      console.log('✅ Overnight split option saved for ticket', ticketId, value);
+    } catch (error) {
+      console.error('Error saving overnight split option:', error);
+    }
+  }, [ticketId]);
+
+  return {
+    splitOvernight,
+    updateSplitOvernight
+  };
+};
@@ -4,7 +4,8 @@ import { createPortal } from 'react-dom';
 import { EmbedPDFViewerSecondary } from '../components/PDF/EmbedPDFViewerSecondary';
 import { getPDF, storePDFWithId } from '../utils/pdfStorage';
 import { logTrace, quickCheckPDF, traceSigningSystem, checkAllPDFs } from '../utils/signingSystemDebug';
-import { resolvePdfId, getSignedPdfId, normalizeDate } from '../utils/pdfIdResolver';
+import { resolvePdfId, getSignedPdfId, getTemplatePdfId, normalizeDate, parseFormType, parseTicketId } from '../utils/pdfIdResolver';
+import type { FormType } from '../utils/pdfIdResolver';
 
 const formatToMMDDYY = (date: Date): string => {
   const month = (date.getMonth() + 1).toString().padStart(2, '0');
@@ -13,16 +14,25 @@ const formatToMMDDYY = (date: Date): string => {
   return `${month}/${day}/${year}`;
 };
 
+// Download filename prefix and return route for each form type
+const FORM_SIGNING_INFO: Record<FormType, { filenamePrefix: string; returnPath: string }> = {
+  federal: { filenamePrefix: 'Federal-Form-Signed', returnPath: '/' },
+  eest: { filenamePrefix: 'EEST-Form-Signed', returnPath: '/eest' },
+  odf: { filenamePrefix: 'ODF-Shift-Ticket-Signed', returnPath: '/odf' }
+};
+
 const PDFSigning: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
+  const formType = parseFormType(searchParams.get('formType'));
+  const ticketId = parseTicketId(searchParams.get('ticketId'));
   
   // Initialize state from URL params immediately to avoid loading wrong PDF
   // Use centralized resolver to derive PDF ID from date
   const getInitialPdfId = () => {
     const urlPdfId = searchParams.get('pdfId');
     const urlDate = searchParams.get('date') || formatToMMDDYY(new Date());
-    return resolvePdfId({ pdfId: urlPdfId || undefined, date: urlDate, formType: 'federal' });
+    return resolvePdfId({ pdfId: urlPdfId || undefined, date: urlDate, formType, ticketId });
   };
   
   const [pdfId, setPdfId] = useState<string>(getInitialPdfId());
@@ -46,7 +56,8 @@ const PDFSigning: React.FC = () => {
     const effectivePdfId = resolvePdfId({ 
       pdfId: urlPdfId || undefined, 
       date: urlDate, 
-      formType: 'federal' 
+      formType,
+      ticketId
     });
     console.log('🔍 PDFSigning: Resolved PDF ID:', effectivePdfId, 'from date:', urlDate, 'or pdfId:', urlPdfId);
 
@@ -95,13 +106,14 @@ const PDFSigning: React.FC = () => {
         const storedPDF = await getPDF(effectivePdfId);
         if (!storedPDF) {
           logTrace('PDFSIGNING_PDF_NOT_FOUND', { pdfId: effectivePdfId });
-          // Try fallback to old 'federal-form' ID for backward compatibility
-          const fallbackPdf = await getPDF('federal-form');
+          // Try fallback to the form's template ID (e.g. 'federal-form') for backward compatibility
+          const templatePdfId = getTemplatePdfId(formType);
+          const fallbackPdf = await getPDF(templatePdfId);
           if (fallbackPdf) {
-            console.log('⚠️ PDFSigning: Date-specific PDF not found, using fallback federal-form');
-            setPdfId('federal-form');
+            console.log(`⚠️ PDFSigning: Date-specific PDF not found, using fallback ${templatePdfId}`);
+            setPdfId(templatePdfId);
             logTrace('PDFSIGNING_PDF_FOUND_FALLBACK', {
-              pdfId: 'federal-form',
+              pdfId: templatePdfId,
               pdfSize: fallbackPdf.pdf.size,
               metadata: fallbackPdf.metadata
             });
@@ -127,7 +139,7 @@ const PDFSigning: React.FC = () => {
     };
 
     checkPDF();
-  }, [searchParams]);
+  }, [searchParams, formType, ticketId]);
 
   const handleSave = async (pdfData: Blob, previewImage: Blob) => {
     try {
@@ -136,15 +148,16 @@ const PDFSigning: React.FC = () => {
       const fireName = crewInfo?.fireName && crewInfo.fireName !== 'N/A' ? crewInfo.fireName.replace(/[^a-zA-Z0-9]/g, '-') : 'Fire';
       const fireNumber = crewInfo?.fireNumber && crewInfo.fireNumber !== 'N/A' ? crewInfo.fireNumber : 'Number';
       
-      const signedPdfId = getSignedPdfId(saveDate);
-      const filename = `Federal-Form-Signed-${crewNumber}-${fireName}-${fireNumber}-${saveDate.replace(/\//g, '-')}.pdf`;
+      const signedPdfId = getSignedPdfId(saveDate, formType, ticketId);
+      const filename = `${FORM_SIGNING_INFO[formType].filenamePrefix}-${crewNumber}-${fireName}-${fireNumber}-${saveDate.replace(/\//g, '-')}.pdf`;
       
       await storePDFWithId(signedPdfId, pdfData, previewImage, {
         filename: filename,
         date: saveDate,
         crewNumber: crewInfo?.crewNumber || 'N/A',
         fireName: crewInfo?.fireName || 'N/A',
-        fireNumber: crewInfo?.fireNumber || 'N/A'
+        fireNumber: crewInfo?.fireNumber || 'N/A',
+        ticketId
       });
       
       const url = URL.createObjectURL(pdfData);
@@ -157,7 +170,7 @@ const PDFSigning: React.FC = () => {
       URL.revokeObjectURL(url);
 
       alert('PDF signed and saved to gallery successfully!');
-      navigate('/');
+      navigate(FORM_SIGNING_INFO[formType].returnPath);
     } catch (error) {
       console.error('Error saving PDF:', error);
       alert('Error saving PDF. Please try again.');
@@ -165,7 +178,7 @@ const PDFSigning: React.FC = () => {
   };
 
   const handleClose = () => {
-    navigate('/');
+    navigate(FORM_SIGNING_INFO[formType].returnPath);
   };
 
   if (isLoading) {
@@ -6,6 +6,8 @@ import { generateExportFilename, type ExportInfo } from '../filenameGenerator';
 import { FormType, savePDFMetadata, type EESTFormData, type EESTTimeEntry } from '../engineTimeDB';
 import { mapEESTToPDFFields, validateEESTFormData } from '../fieldmapper/eestFieldMapper';
 import type { PDFGenerationMetadata } from '../types';
+import type { RoundingPolicy } from '../billingRounding';
+import { fillPDFForm } from './pdfFormFiller';
 
 export interface EESTCrewInfo {
   agreementNumber: string;
@@ -539,6 +541,28 @@ export async function populateEESTPDFWithFormData(
   }
 }
 
+/**
+ * Fills the EEST template (eest-fill.pdf) with form data using the field mapper
+ * 
+ * Unlike populateEESTPDFWithFormData this works on the raw PDF bytes through pdf-lib,
+ * so the returned PDF keeps its form fields and can be signed with EmbedPDF.
+ */
+export async function fillEESTPDFTemplate(
+  templatePdf: Blob,
+  formData: EESTFormData & { equipmentUse?: string },
+  timeEntries: EESTTimeEntry[],
+  roundingPolicy?: RoundingPolicy,
+  splitOvernight?: boolean,
+  timeZone?: string
+): Promise<Blob> {
+  const pdfFields = mapEESTToPDFFields(formData, timeEntries, roundingPolicy, splitOvernight, timeZone);
+  const { blob, filledFieldsCount } = await fillPDFForm(templatePdf, pdfFields, 'EESTSaveHandler');
+  if (filledFieldsCount === 0) {
+    throw new Error('PDF was saved but no fields were filled. Please check the field mapping.');
+  }
+  return blob;
+}
+
 /**
  * Test function to populate PDF form fields and return the populated PDF as blob
  * Useful for testing field mapping without saving
@@ -158,8 +158,9 @@ export async function exportPDFWithMetadata(
       // Replace the current pdfDoc with the one that has annotations
       // We need to create a new document and copy pages
       const newPdfDoc = await PDFLib.PDFDocument.create();
-      const [copiedPage] = await newPdfDoc.copyPages(pdfDocWithAnnotations, [0]);
-      newPdfDoc.addPage(copiedPage);
+      // Copy every page so continuation sheets survive the export
+      const copiedPages = await newPdfDoc.copyPages(pdfDocWithAnnotations, pdfDocWithAnnotations.getPageIndices());
+      copiedPages.forEach(page => newPdfDoc.addPage(page));
       
       // Note: Form fields are already copied with the page when copying pages
       
@@ -0,0 +1,168 @@
+// PDF Form Filler - fills AcroForm fields of a template PDF with mapped values
+import * as PDFLib from 'pdf-lib';
+import { fitTextField } from './textFit';
+import type { TextFitIssue } from './textFit';
+
+export interface FillPDFFormResult {
+  blob: Blob;
+  filledFieldsCount: number;
+  missingFields: string[];
+  overflowFields: TextFitIssue[]; // Text that could not fit its field even at the minimum font size
+}
+
+// Checkbox values that mean "checked" ('HOURS' is how the Federal rate type checkbox is mapped)
+const CHECKED_VALUES = ['Yes', 'On', 'YES', 'HOURS'];
+
+/**
+ * Fills the fields of a loaded pdf-lib document and regenerates their appearances
+ */
+async function fillDocumentFields(
+  pdfDoc: PDFLib.PDFDocument,
+  fields: Record<string, string>,
+  logPrefix: string
+): Promise<{ filledFieldsCount: number; missingFields: string[]; overflowFields: TextFitIssue[] }> {
+  const form = pdfDoc.getForm();
+
+  let filledFieldsCount = 0;
+  const missingFields: string[] = [];
+  const overflowFields: TextFitIssue[] = [];
+
+  Object.entries(fields).forEach(([fieldName, value]) => {
+    const field = form.getFieldMaybe(fieldName);
+    if (!field) {
+      missingFields.push(fieldName);
+      return;
+    }
+
+    try {
+      if (field instanceof PDFLib.PDFTextField) {
+        field.setText(value);
+        // Shrink the font (and wrap multiline fields) rather than clipping long values
+        const overflow = fitTextField(field, value);
+        if (overflow) {
+          overflowFields.push(overflow);
+        }
+      } else if (field instanceof PDFLib.PDFCheckBox) {
+        if (CHECKED_VALUES.includes(value)) {
+          field.check();
+        } else {
+          field.uncheck();
+        }
+      } else if (field instanceof PDFLib.PDFDropdown) {
+        field.select(value);
+      } else {
+        console.warn(`${logPrefix}: Field ${fieldName} has unsupported type ${field.constructor.name}`);
+        return;
+      }
+      filledFieldsCount++;
+    } catch (error) {
+      console.error(`${logPrefix}: Error filling field ${fieldName}:`, error);
+    }
+  });
+
+  if (missingFields.length > 0) {
+    console.warn(`${logPrefix}: ${missingFields.length} fields not found in PDF:`, missingFields);
+  }
+  if (overflowFields.length > 0) {
+    console.warn(`${logPrefix}: ${overflowFields.length} fields do not fit even at the minimum font size:`, overflowFields);
+  }
+  console.log(`${logPrefix}: Filled ${filledFieldsCount} of ${Object.keys(fields).length} fields`);
+
+  // Update field appearances so the filled values are rendered (and kept when flattened later)
+  const font = await pdfDoc.embedFont(PDFLib.StandardFonts.Helvetica);
+  form.updateFieldAppearances(font);
+
+  return { filledFieldsCount, missingFields, overflowFields };
+}
+
+/**
+ * Saves a pdf-lib document to a blob and verifies the PDF header
+ */
+async function saveToVerifiedBlob(pdfDoc: PDFLib.PDFDocument): Promise<Blob> {
+  const pdfBytes = await pdfDoc.save();
+  const blob = new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
+
+  const header = new TextDecoder().decode(await blob.slice(0, 4).arrayBuffer());
+  if (header !== '%PDF') {
+    throw new Error(`Invalid PDF format: blob does not contain valid PDF header (got: ${header})`);
+  }
+
+  return blob;
+}
+
+/**
+ * Fills the form fields of a PDF with the given field name -> value map
+ *
+ * Checkboxes are checked for 'Yes'/'On'/'YES'/'HOURS' and unchecked otherwise.
+ * Text is shrunk (and wrapped in multiline fields) to fit each field's widget.
+ * Field appearances are regenerated so the values survive flattening at signing time;
+ * the form itself is NOT flattened so the PDF stays editable until it is signed.
+ */
+export async function fillPDFForm(
+  templatePdf: Blob | ArrayBuffer,
+  fields: Record<string, string>,
+  logPrefix: string = 'PDF'
+): Promise<FillPDFFormResult> {
+  const templateBytes = templatePdf instanceof Blob ? await templatePdf.arrayBuffer() : templatePdf;
+  const pdfDoc = await PDFLib.PDFDocument.load(templateBytes);
+
+  const { filledFieldsCount, missingFields, overflowFields } = await fillDocumentFields(pdfDoc, fields, logPrefix);
+  const blob = await saveToVerifiedBlob(pdfDoc);
+
+  return { blob, filledFieldsCount, missingFields, overflowFields };
+}
+
+/**
+ * Fills one copy of a single-page template per entry in `pagesFields` and merges them into one PDF
+ *
+ * A single page is filled exactly like fillPDFForm. With more than one page every copy is
+ * flattened before merging - the copies share field names, so they cannot coexist as live
+ * form fields in one document - and a "Page N of M" marker is drawn in the bottom margin.
+ */
+export async function fillPDFFormPages(
+  templatePdf: Blob | ArrayBuffer,
+  pagesFields: Record<string, string>[],
+  logPrefix: string = 'PDF'
+): Promise<FillPDFFormResult> {
+  if (pagesFields.length <= 1) {
+    return fillPDFForm(templatePdf, pagesFields[0] || {}, logPrefix);
+  }
+
+  const templateBytes = templatePdf instanceof Blob ? await templatePdf.arrayBuffer() : templatePdf;
+  const mergedDoc = await PDFLib.PDFDocument.create();
+  const markerFont = await mergedDoc.embedFont(PDFLib.StandardFonts.Helvetica);
+
+  let filledFieldsCount = 0;
+  const missingFields = new Set<string>();
+  const overflowFields: TextFitIssue[] = [];
+  const pageCount = pagesFields.length;
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const pageDoc = await PDFLib.PDFDocument.load(templateBytes);
+    const pageResult = await fillDocumentFields(pageDoc, pagesFields[pageIndex], `${logPrefix} (page ${pageIndex + 1})`);
+    filledFieldsCount += pageResult.filledFieldsCount;
+    pageResult.missingFields.forEach(name => missingFields.add(name));
+    overflowFields.push(...pageResult.overflowFields);
+
+    pageDoc.getForm().flatten();
+
+    // Copy the page the same way exportPDFWithMetadata does
+    const [copiedPage] = await mergedDoc.copyPages(pageDoc, [0]);
+    mergedDoc.addPage(copiedPage);
+
+    const marker = `Page ${pageIndex + 1} of ${pageCount}`;
+    const fontSize = 9;
+    copiedPage.drawText(marker, {
+      x: copiedPage.getWidth() - markerFont.widthOfTextAtSize(marker, fontSize) - 24,
+      y: 12,
+      size: fontSize,
+      font: markerFont,
+      color: PDFLib.rgb(0, 0, 0)
+    });
+  }
+
+  console.log(`${logPrefix}: Built ${pageCount}-page PDF with ${filledFieldsCount} filled fields`);
+
+  const blob = await saveToVerifiedBlob(mergedDoc);
+  return { blob, filledFieldsCount, missingFields: Array.from(missingFields), overflowFields };
+}
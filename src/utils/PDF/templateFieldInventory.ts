@@ -0,0 +1,143 @@
+// Template Field Inventory - lists a template's AcroForm fields and detects drift against its mapping schema
+// Works in the browser and in Node (see checkTemplateFields.mjs)
+import * as PDFLib from 'pdf-lib';
+import type { FormType } from '../pdfIdResolver';
+import type { FormMappingSchema } from '../fieldmapper/mappingSchema';
+import { getSchemaPDFFieldNames, getSchemaRowFieldNames } from '../fieldmapper/mappingSchema';
+import { OF297_SCHEMA } from '../fieldmapper/schemas/of297Schema';
+import { EEST_SCHEMA } from '../fieldmapper/schemas/eestSchema';
+import { ODF_SCHEMA } from '../fieldmapper/schemas/odfSchema';
+import { getTextFieldFontSize } from './textFit';
+
+// Mapping schema for each bundled template
+export const TEMPLATE_SCHEMAS: Record<FormType, FormMappingSchema> = {
+  federal: OF297_SCHEMA,
+  eest: EEST_SCHEMA,
+  odf: ODF_SCHEMA
+};
+
+export interface TemplateFieldInfo {
+  name: string;
+  type: string;                // pdf-lib field class, e.g. PDFTextField
+  page: number | null;         // 1-based page of the first widget, null when it is not placed on a page
+  rect: { x: number; y: number; width: number; height: number } | null;
+  maxLength?: number;          // Text fields only
+  multiline?: boolean;         // Text fields only
+  fontSize?: number;           // Text fields only - default appearance size, 0 = auto
+}
+
+export interface TemplateFieldDrift {
+  template: string;
+  missingFields: string[];     // Mapped by the schema but not in the PDF - these break filling
+  unmappedFields: string[];    // In the PDF but never written by the schema
+  typeMismatches: { name: string; expected: string; actual: string }[];
+  maxLengthConflicts: { name: string; schemaMaxLength: number | null; pdfMaxLength: number }[]; // null = not truncated
+}
+
+/**
+ * Gets a field's type name
+ * Uses instanceof rather than constructor.name, which bundlers rename and minifiers mangle
+ */
+function getFieldTypeName(field: PDFLib.PDFField): string {
+  if (field instanceof PDFLib.PDFTextField) return 'PDFTextField';
+  if (field instanceof PDFLib.PDFCheckBox) return 'PDFCheckBox';
+  if (field instanceof PDFLib.PDFDropdown) return 'PDFDropdown';
+  if (field instanceof PDFLib.PDFOptionList) return 'PDFOptionList';
+  if (field instanceof PDFLib.PDFRadioGroup) return 'PDFRadioGroup';
+  if (field instanceof PDFLib.PDFButton) return 'PDFButton';
+  if (field instanceof PDFLib.PDFSignature) return 'PDFSignature';
+  return field.constructor.name;
+}
+
+/**
+ * Lists every AcroForm field of a PDF with its type, page, rectangle and max length
+ */
+export async function getTemplateFieldInventory(pdfBytes: ArrayBuffer | Uint8Array): Promise<TemplateFieldInfo[]> {
+  const pdfDoc = await PDFLib.PDFDocument.load(pdfBytes);
+
+  // Widgets don't always carry a /P entry, so map annotation refs to their page instead
+  const pageByAnnotation = new Map<string, number>();
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    page.node.Annots()?.asArray().forEach(annotation => {
+      pageByAnnotation.set(annotation.toString(), pageIndex + 1);
+    });
+  });
+
+  return pdfDoc.getForm().getFields().map(field => {
+    const widget = field.acroField.getWidgets()[0];
+    const widgetRef = widget ? pdfDoc.context.getObjectRef(widget.dict) : undefined;
+    const rect = widget?.getRectangle();
+
+    const info: TemplateFieldInfo = {
+      name: field.getName(),
+      type: getFieldTypeName(field),
+      page: widgetRef ? pageByAnnotation.get(widgetRef.toString()) ?? null : null,
+      rect: rect ? { x: rect.x, y: rect.y, width: rect.width, height: rect.height } : null
+    };
+
+    if (field instanceof PDFLib.PDFTextField) {
+      info.maxLength = field.getMaxLength();
+      info.multiline = field.isMultiline();
+      info.fontSize = getTextFieldFontSize(field);
+    }
+
+    return info;
+  });
+}
+
+/**
+ * Compares a template's fields with the field names its mapping schema writes to
+ */
+export function diffTemplateFields(schema: FormMappingSchema, inventory: TemplateFieldInfo[]): TemplateFieldDrift {
+  const fieldsByName = new Map(inventory.map(field => [field.name, field]));
+  const expectedNames = getSchemaPDFFieldNames(schema);
+  const expectedSet = new Set(expectedNames);
+
+  const drift: TemplateFieldDrift = {
+    template: schema.template,
+    missingFields: expectedNames.filter(name => !fieldsByName.has(name)),
+    unmappedFields: inventory.map(field => field.name).filter(name => !expectedSet.has(name)),
+    typeMismatches: [],
+    maxLengthConflicts: []
+  };
+
+  // Schema checkboxes must still be checkboxes
+  (schema.checkboxes || []).forEach(checkbox => {
+    const field = fieldsByName.get(checkbox.pdfField);
+    if (field && field.type !== 'PDFCheckBox') {
+      drift.typeMismatches.push({ name: checkbox.pdfField, expected: 'PDFCheckBox', actual: field.type });
+    }
+  });
+
+  // pdf-lib refuses text longer than a field's max length, so the schema must truncate at or below it
+  const checkMaxLength = (pdfField: string, schemaMaxLength: number | undefined) => {
+    const pdfMaxLength = fieldsByName.get(pdfField)?.maxLength;
+    if (pdfMaxLength !== undefined && (schemaMaxLength === undefined || schemaMaxLength > pdfMaxLength)) {
+      drift.maxLengthConflicts.push({ name: pdfField, schemaMaxLength: schemaMaxLength ?? null, pdfMaxLength });
+    }
+  };
+  schema.fields.forEach(field => checkMaxLength(field.pdfField, field.maxLength));
+  (schema.rowGroups || []).forEach(group => {
+    for (let rowIndex = 0; rowIndex < group.rowCount; rowIndex++) {
+      const rowFieldNames = getSchemaRowFieldNames(schema, group.key, rowIndex);
+      group.columns.forEach(column => checkMaxLength(rowFieldNames[column.key], column.maxLength));
+    }
+  });
+
+  return drift;
+}
+
+/**
+ * Whether the drift would break or corrupt filling (unmapped fields are informational only)
+ */
+export function hasBreakingTemplateDrift(drift: TemplateFieldDrift): boolean {
+  return drift.missingFields.length > 0 || drift.typeMismatches.length > 0 || drift.maxLengthConflicts.length > 0;
+}
+
+/**
+ * Loads a template and diffs it against the schema for the given form type
+ */
+export async function checkTemplateDrift(formType: FormType, pdfBytes: ArrayBuffer | Uint8Array): Promise<TemplateFieldDrift> {
+  const inventory = await getTemplateFieldInventory(pdfBytes);
+  return diffTemplateFields(TEMPLATE_SCHEMAS[formType], inventory);
+}
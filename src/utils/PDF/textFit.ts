@@ -0,0 +1,149 @@
+// Text Fit - sizes text to fit a form field's widget instead of truncating it
+import * as PDFLib from 'pdf-lib';
+import type { TemplateFieldInfo } from './templateFieldInventory';
+
+// Smallest font size text is shrunk to before it is reported as not fitting
+export const MIN_FIT_FONT_SIZE = 6;
+
+// Starting size for fields whose default appearance is auto-sized (font size 0)
+export const DEFAULT_FIT_FONT_SIZE = 10;
+
+// Inner padding pdf-lib leaves between the widget border and the text
+const FIELD_PADDING = 2;
+
+// Helvetica is what the filler generates appearances with; the embedder gives its metrics without a document
+// (StandardFonts and the embedder's FontNames are separate enums with the same string values)
+type StandardFontName = Parameters<typeof PDFLib.StandardFontEmbedder.for>[0];
+const helvetica = PDFLib.StandardFontEmbedder.for(PDFLib.StandardFonts.Helvetica as string as StandardFontName);
+
+export interface TextFitLayout {
+  width: number;
+  height: number;
+  multiline: boolean;
+  fontSize?: number; // Font size from the field's default appearance, 0 or undefined = auto
+}
+
+export interface TextFitResult {
+  fontSize: number;
+  fits: boolean;
+}
+
+export interface TextFitIssue {
+  fieldName: string;
+  value: string;
+  fontSize: number; // Size the text was filled at
+}
+
+/**
+ * Gets the font size from a text field's default appearance (e.g. "/Helv 9 Tf 0 g")
+ */
+export function getTextFieldFontSize(field: PDFLib.PDFTextField): number | undefined {
+  const match = field.acroField.getDefaultAppearance()?.match(/(\d+(?:\.\d+)?)\s+Tf/);
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+/**
+ * Wraps text into lines no wider than maxWidth, breaking on spaces and explicit newlines
+ * Returns null when a single word is wider than maxWidth
+ */
+function wrapText(text: string, fontSize: number, maxWidth: number): string[] | null {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r\n|\r|\n/)) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      if (helvetica.widthOfTextAtSize(word, fontSize) > maxWidth) {
+        return null;
+      }
+      const candidate = line ? `${line} ${word}` : word;
+      if (helvetica.widthOfTextAtSize(candidate, fontSize) <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Checks whether text fits the layout at the given font size
+ */
+function textFitsAtSize(text: string, layout: TextFitLayout, fontSize: number): boolean {
+  const width = layout.width - FIELD_PADDING * 2;
+  const height = layout.height - FIELD_PADDING * 2;
+
+  // Single-line text is vertically centred, so only the cap height has to fit (as pdf-lib measures it)
+  if (!layout.multiline) {
+    return helvetica.widthOfTextAtSize(text, fontSize) <= width
+      && helvetica.heightOfFontAtSize(fontSize, { descender: false }) <= height;
+  }
+
+  const lines = wrapText(text, fontSize, width);
+  return lines !== null && lines.length * helvetica.heightOfFontAtSize(fontSize) <= height;
+}
+
+/**
+ * Finds the largest font size, from the field's own size down to MIN_FIT_FONT_SIZE, at which the text fits
+ * When nothing fits, returns MIN_FIT_FONT_SIZE with fits = false
+ */
+export function fitTextToField(text: string, layout: TextFitLayout): TextFitResult {
+  const startSize = layout.fontSize && layout.fontSize > 0 ? layout.fontSize : DEFAULT_FIT_FONT_SIZE;
+
+  for (let fontSize = startSize; fontSize >= MIN_FIT_FONT_SIZE; fontSize -= 0.5) {
+    if (textFitsAtSize(text, layout, fontSize)) {
+      return { fontSize, fits: true };
+    }
+  }
+
+  return { fontSize: Math.min(startSize, MIN_FIT_FONT_SIZE), fits: false };
+}
+
+/**
+ * Fits a filled text field's value to its first widget, setting the font size used for its appearance
+ * Returns an issue when the value cannot fit even at MIN_FIT_FONT_SIZE
+ */
+export function fitTextField(field: PDFLib.PDFTextField, value: string): TextFitIssue | null {
+  const rect = field.acroField.getWidgets()[0]?.getRectangle();
+  if (!rect || !value) {
+    return null;
+  }
+
+  const result = fitTextToField(value, {
+    width: rect.width,
+    height: rect.height,
+    multiline: field.isMultiline(),
+    fontSize: getTextFieldFontSize(field)
+  });
+  field.setFontSize(result.fontSize);
+
+  return result.fits ? null : { fieldName: field.getName(), value, fontSize: result.fontSize };
+}
+
+/**
+ * Checks mapped field values against a template's field inventory without filling it
+ * Returns the text fields whose values cannot fit even at MIN_FIT_FONT_SIZE
+ */
+export function checkTemplateTextFit(fields: Record<string, string>, inventory: TemplateFieldInfo[]): TextFitIssue[] {
+  const issues: TextFitIssue[] = [];
+
+  inventory.forEach(field => {
+    const value = fields[field.name];
+    if (field.type !== 'PDFTextField' || !field.rect || !value) {
+      return;
+    }
+
+    const result = fitTextToField(value, {
+      width: field.rect.width,
+      height: field.rect.height,
+      multiline: !!field.multiline,
+      fontSize: field.fontSize
+    });
+    if (!result.fits) {
+      issues.push({ fieldName: field.name, value, fontSize: result.fontSize });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { RoundingPolicy } from './billingRounding';
+import { applyDailyMinimum, applyRoundingPolicy, describeRoundingPolicy } from './billingRounding';
+
+/**
+ * Builds a policy with no daily minimum unless given
+ */
+function policy(mode: RoundingPolicy['mode'], incrementMinutes: RoundingPolicy['incrementMinutes'], dailyMinimumHours = 0): RoundingPolicy {
+  return { mode, incrementMinutes, dailyMinimumHours };
+}
+
+describe('rounding to the increment', () => {
+  it('keeps exact time as it was worked', () => {
+    expect(applyRoundingPolicy(47, policy('exact', 15))).toBe(47);
+  });
+
+  it('rounds to the nearest, up or down to the increment', () => {
+    expect(applyRoundingPolicy(52, policy('nearest', 15))).toBe(45);
+    expect(applyRoundingPolicy(53, policy('nearest', 15))).toBe(60);
+    expect(applyRoundingPolicy(61, policy('up', 30))).toBe(90);
+    expect(applyRoundingPolicy(119, policy('down', 60))).toBe(60);
+  });
+
+  it('bills nothing for no time', () => {
+    expect(applyRoundingPolicy(0, policy('up', 60))).toBe(0);
+    expect(applyRoundingPolicy(-30, policy('up', 60))).toBe(0);
+  });
+
+  it('leaves the daily minimum to the whole day', () => {
+    expect(applyRoundingPolicy(30, policy('up', 15, 4))).toBe(30);
+  });
+});
+
+describe('daily minimum', () => {
+  it('adds the shortfall of a day once, to its last entry with time', () => {
+    const days = ['07/01/26', '07/01/26', '07/01/26', '07/02/26', '07/03/26'];
+    expect(applyDailyMinimum(days, [60, 90, 0, 300, 0], policy('exact', 15, 4))).toEqual([60, 180, 0, 300, 0]);
+  });
+
+  it('leaves the minutes alone without a minimum', () => {
+    expect(applyDailyMinimum(['07/01/26'], [60], policy('exact', 15))).toEqual([60]);
+  });
+});
+
+describe('policy description', () => {
+  it('names the mode, increment and minimum', () => {
+    expect(describeRoundingPolicy(policy('up', 30, 4))).toBe('Round up to ½ hour, 4 hr minimum');
+    expect(describeRoundingPolicy(policy('exact', 15))).toBe('Exact time');
+  });
+});
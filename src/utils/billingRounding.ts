@@ -0,0 +1,112 @@
+// Billing Rounding - rounds worked time to the billing increment and minimum of an agreement
+// The rounding policy is chosen per ticket; raw minutes are always kept next to the billed total
+
+// How worked time is rounded to the increment
+export type RoundingMode = 'exact' | 'nearest' | 'up' | 'down';
+
+// Billing increment in minutes
+export type RoundingIncrement = 15 | 30 | 60;
+
+// Rounding policy interface
+export interface RoundingPolicy {
+  mode: RoundingMode;
+  incrementMinutes: RoundingIncrement;
+  // Hours billed for any day that has time worked (0 for no minimum)
+  dailyMinimumHours: number;
+}
+
+// Default policy - exact time, no minimum (how totals were always calculated)
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = {
+  mode: 'exact',
+  incrementMinutes: 15,
+  dailyMinimumHours: 0
+};
+
+// Rounding modes and their labels
+export const ROUNDING_MODE_OPTIONS: { value: RoundingMode; label: string }[] = [
+  { value: 'exact', label: 'Exact time' },
+  { value: 'nearest', label: 'Round to nearest' },
+  { value: 'up', label: 'Round up' },
+  { value: 'down', label: 'Round down' }
+];
+
+// Billing increments and their labels
+export const ROUNDING_INCREMENT_OPTIONS: { value: RoundingIncrement; label: string }[] = [
+  { value: 15, label: '¼ hour' },
+  { value: 30, label: '½ hour' },
+  { value: 60, label: '1 hour' }
+];
+
+/**
+ * Rounds raw worked minutes to billed minutes under a policy
+ * Only the increment is applied here; the daily minimum is for a whole day (see applyDailyMinimum)
+ */
+export function applyRoundingPolicy(rawMinutes: number, policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY): number {
+  if (rawMinutes <= 0) {
+    return 0;
+  }
+
+  const increment = policy.incrementMinutes;
+  let billedMinutes = rawMinutes;
+  switch (policy.mode) {
+    case 'nearest':
+      billedMinutes = Math.round(rawMinutes / increment) * increment;
+      break;
+    case 'up':
+      billedMinutes = Math.ceil(rawMinutes / increment) * increment;
+      break;
+    case 'down':
+      billedMinutes = Math.floor(rawMinutes / increment) * increment;
+      break;
+  }
+
+  return billedMinutes;
+}
+
+/**
+ * Applies the daily minimum of a policy to the billed minutes of entries, once per day
+ * Entries are grouped by their day; a day with time worked but short of the minimum has the shortfall added to its
+ * last entry with time, so the other entries keep their own rounded minutes
+ */
+export function applyDailyMinimum(days: string[], billedMinutes: number[], policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY): number[] {
+  const minimumMinutes = policy.dailyMinimumHours * 60;
+  if (minimumMinutes <= 0) {
+    return billedMinutes;
+  }
+
+  const minutesByDay = new Map<string, number>();
+  const lastIndexByDay = new Map<string, number>();
+  billedMinutes.forEach((minutes, index) => {
+    if (minutes <= 0) return;
+    minutesByDay.set(days[index], (minutesByDay.get(days[index]) || 0) + minutes);
+    lastIndexByDay.set(days[index], index);
+  });
+
+  const billed = [...billedMinutes];
+  lastIndexByDay.forEach((index, day) => {
+    billed[index] += Math.max(0, minimumMinutes - minutesByDay.get(day)!);
+  });
+  return billed;
+}
+
+/**
+ * Describes a policy for display (e.g. "Round up to ½ hour, 4 hr minimum")
+ */
+export function describeRoundingPolicy(policy: RoundingPolicy): string {
+  const parts: string[] = [];
+  const increment = ROUNDING_INCREMENT_OPTIONS.find(option => option.value === policy.incrementMinutes)?.label || `${policy.incrementMinutes} min`;
+  switch (policy.mode) {
+    case 'exact':
+      parts.push('Exact time');
+      break;
+    case 'nearest':
+      parts.push(`Round to nearest ${increment}`);
+      break;
+    default:
+      parts.push(`Round ${policy.mode} to ${increment}`);
+  }
+  if (policy.dailyMinimumHours > 0) {
+    parts.push(`${policy.dailyMinimumHours} hr minimum`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,63 @@
+// Crew Roster - matches personnel rows to roster members and totals each person's logged hours
+import type { CrewMember, FederalPersonnelEntry } from './engineTimeDB';
+import { getFederalPersonnelPeriods, getMinutesByDate } from './timePeriods';
+
+// Hours a person logged on one date (summed across tickets and rows)
+export interface CrewDayHours {
+  date: string;
+  hours: number;
+}
+
+// Hours a person logged across all dates
+export interface CrewHoursHistory {
+  name: string;
+  totalHours: number;
+  days: CrewDayHours[];
+}
+
+/**
+ * Normalizes a name for matching (trimmed, single spaces, case-insensitive)
+ */
+export function normalizeCrewName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Finds the roster member with the given name
+ */
+export function findCrewMemberByName(members: CrewMember[], name: string): CrewMember | undefined {
+  const normalized = normalizeCrewName(name);
+  if (!normalized) return undefined;
+  return members.find(member => normalizeCrewName(member.name) === normalized);
+}
+
+/**
+ * Sort key for an MM/DD/YY date (YYMMDD), so dates sort chronologically
+ */
+function getDateSortKey(date: string): string {
+  const [month = '', day = '', year = ''] = date.split('/');
+  return `${year.padStart(2, '0')}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+}
+
+/**
+ * Totals the hours a person logged on each date, from the personnel entries of every ticket
+ * Time worked after midnight is credited to the date it was worked on, not the date the shift started
+ */
+export function getCrewHoursHistory(entries: FederalPersonnelEntry[], name: string): CrewHoursHistory {
+  const normalized = normalizeCrewName(name);
+  const minutesByDate = getMinutesByDate(
+    entries
+      .filter(entry => entry.date && normalizeCrewName(entry.name) === normalized)
+      .flatMap(getFederalPersonnelPeriods)
+  );
+
+  const days = Array.from(minutesByDate.entries())
+    .map(([date, minutes]) => ({ date, hours: minutes / 60 }))
+    .sort((a, b) => getDateSortKey(a.date).localeCompare(getDateSortKey(b.date)));
+
+  return {
+    name,
+    totalHours: days.reduce((sum, day) => sum + day.hours, 0),
+    days
+  };
+}
@@ -1,7 +1,7 @@
 // EEST Database Debug Utility
 // Helps troubleshoot EEST data persistence issues
 
-import { engineTimeDB, type EESTFormData, type EESTTimeEntry } from './engineTimeDB';
+import { engineTimeDB, getActiveTicketId, FormType, type EESTFormData, type EESTTimeEntry } from './engineTimeDB';
 
 export interface EESTDBDebugInfo {
   formDataExists: boolean;
@@ -25,12 +25,13 @@ export async function debugEESTDatabase(): Promise<EESTDBDebugInfo> {
     
     console.log('🔍 EEST DB Debug: Database info:', { name: dbName, version: dbVersion });
     
-    // Check form data
-    const formData = await engineTimeDB.eestForm.get(1);
+    // Check form data of the active ticket
+    const ticketId = await getActiveTicketId(FormType.EEST);
+    const formData = await engineTimeDB.eestForm.get(ticketId);
     console.log('🔍 EEST DB Debug: Form data check:', formData);
     
     // Check time entries
-    const timeEntries = await engineTimeDB.eestTimeEntries.toArray();
+    const timeEntries = await engineTimeDB.eestTimeEntries.where('ticketId').equals(ticketId).toArray();
     console.log('🔍 EEST DB Debug: Time entries check:', timeEntries);
     
     // Check all tables
@@ -87,12 +88,12 @@ export async function testEESTDataPersistence(): Promise<boolean> {
     
     // Save test data
     console.log('🔍 EEST DB Debug: Saving test form data...');
-    testFormData.id = 1;
+    testFormData.id = await getActiveTicketId(FormType.EEST);
     await engineTimeDB.eestForm.put(testFormData);
     
     // Retrieve test data
     console.log('🔍 EEST DB Debug: Retrieving test form data...');
-    const retrievedData = await engineTimeDB.eestForm.get(1);
+    const retrievedData = await engineTimeDB.eestForm.get(testFormData.id);
     
     // Compare data
     const isMatch = JSON.stringify(testFormData) === JSON.stringify(retrievedData);
@@ -0,0 +1,50 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addFederalEquipmentEntry,
+  addFederalPersonnelEntry,
+  engineTimeDB,
+  FormType,
+  getActiveTicketId,
+  loadAllFederalEquipmentEntries,
+  loadAllFederalPersonnelEntries,
+  saveFederalEquipmentEntry,
+  saveFederalPersonnelEntry
+} from './engineTimeDB';
+import { handleFederalEquipmentEntryChange, handleFederalPersonnelEntryChange } from './entryPropagation';
+
+beforeEach(async () => {
+  await engineTimeDB.delete();
+  await engineTimeDB.open();
+});
+
+describe('added Federal entries', () => {
+  it('keep one stored equipment record however often the new row is edited', async () => {
+    let entries = [await addFederalEquipmentEntry('10/01/26')];
+    for (const [field, value] of [['start1', '0700'], ['stop1', '1200'], ['remarks', 'Staged']] as const) {
+      entries = handleFederalEquipmentEntryChange(entries, 0, field, value);
+      await saveFederalEquipmentEntry(entries[0]);
+    }
+
+    const stored = await loadAllFederalEquipmentEntries();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ id: entries[0].id, date: '10/01/26', start1: '0700', stop1: '1200', remarks: 'Staged' });
+  });
+
+  it('keep one stored personnel record however often the new row is edited', async () => {
+    let entries = [await addFederalPersonnelEntry('10/01/26')];
+    for (const [field, value] of [['name', 'Alex Doe'], ['start1', '0700'], ['stop1', '1900']] as const) {
+      entries = handleFederalPersonnelEntryChange(entries, 0, field, value);
+      await saveFederalPersonnelEntry(entries[0]);
+    }
+
+    const stored = await loadAllFederalPersonnelEntries();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ id: entries[0].id, name: 'Alex Doe', start1: '0700', stop1: '1900' });
+  });
+
+  it('are stored on the active ticket', async () => {
+    const entry = await addFederalEquipmentEntry('10/01/26');
+    expect((await engineTimeDB.federalEquipment.get(entry.id!))?.ticketId).toBe(await getActiveTicketId(FormType.FEDERAL));
+  });
+});
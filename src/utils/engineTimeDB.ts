@@ -6,18 +6,140 @@
 // It is used to list all the engine time data in IndexedDB
 // It is used to clear all the engine time data in IndexedDB
 import Dexie from 'dexie';
-import type { Table } from 'dexie';
+import type { Table, Transaction } from 'dexie';
 import type { PDFGenerationMetadata } from './types';
+import type { RoundingPolicy } from './billingRounding';
+import { DEFAULT_ROUNDING_POLICY } from './billingRounding';
+import type { RateSchedule } from './rateSchedule';
+import type { MeterType } from './equipmentMeter';
+import type { EntryPeriod } from './timePeriods';
+import type { IssuerAlgorithm } from './payloadSigning';
+import { getDeviceTimeZone } from './timeZones';
 
 // Form Type Enumeration for PDF Generation and Database Tracking
 export const FormType = {
   EEST: 'EEST',           // Emergency Equipment Shift Ticket
   FEDERAL: 'FEDERAL',     // Federal Equipment Time Sheet (OF297-24)
-  ODF: 'ODF'              // ODF Time Sheet (to be implemented)
+  ODF: 'ODF'              // ODF Equipment Shift Ticket (ODF-shift-ticket.pdf)
 } as const;
 
 export type FormType = typeof FormType[keyof typeof FormType];
 
+// Ticket - one shift ticket (a piece of equipment on an incident)
+// Form data, time entries and generated PDFs all belong to a ticket
+export interface Ticket {
+  // ID
+  id?: number;
+  // FORM TYPE
+  formType: FormType;
+  // INCIDENT NAME
+  incidentName: string;
+  // INCIDENT NUMBER
+  incidentNumber: string;
+  // EQUIPMENT (make/model or type, tells tickets on the same incident apart)
+  equipment: string;
+  // ROUNDING POLICY (billing increment and minimum of the agreement; exact time when not set)
+  roundingPolicy?: RoundingPolicy;
+  // RATE SCHEDULE (hourly, daily, mileage and special rates of the agreement, for cost estimates)
+  rateSchedule?: RateSchedule;
+  // SPLIT OVERNIGHT (write time after midnight on the next date's row instead of the shift's start date)
+  splitOvernight?: boolean;
+  // TIME ZONE (IANA name of the incident's time zone, shared by every ticket on the incident; this device's zone when not set)
+  timeZone?: string;
+  // CREATED AT
+  createdAt: number;
+  // UPDATED AT
+  updatedAt: number;
+}
+
+// Equipment Profile - reusable equipment details picked to fill the equipment section of a form
+export interface EquipmentProfile {
+  // ID
+  id?: number;
+  // PROFILE NAME (e.g. "Engine 12", "Tender 3")
+  name: string;
+  // EQUIPMENT MAKE
+  equipmentMake: string;
+  // EQUIPMENT MODEL
+  equipmentModel: string;
+  // EQUIPMENT TYPE
+  equipmentType: string;
+  // SERIAL/VIN NUMBER
+  serialNumber: string;
+  // LICENSE/ID NUMBER
+  licenseNumber: string;
+  // AGREEMENT NUMBER
+  agreementNumber: string;
+  // ARCHIVED AT (archived profiles are hidden from pickers but kept for reference)
+  archivedAt?: number;
+  // CREATED AT
+  createdAt: number;
+  // UPDATED AT
+  updatedAt: number;
+}
+
+// Crew Member - a person on the crew roster, offered when filling personnel rows
+export interface CrewMember {
+  // ID
+  id?: number;
+  // NAME
+  name: string;
+  // QUALIFICATION (e.g. ENGB, FFT1, FFT2)
+  qualification: string;
+  // DEFAULT ROLE (job title filled into a personnel row when the person is picked)
+  defaultRole: string;
+  // CREATED AT
+  createdAt: number;
+  // UPDATED AT
+  updatedAt: number;
+}
+
+// Meal/Lodging Day - the meals and lodging a ticket's crew went without on one date
+// Kept per date so the incident's meal/lodging ledger can be reconciled for reimbursement
+export interface MealLodgingDay {
+  // ID
+  id?: number;
+  // TICKET ID
+  ticketId: number;
+  // DATE (MM/DD/YY)
+  date: string;
+  // NO MEALS/LODGING (neither meals nor lodging were provided)
+  noMealsLodging: boolean;
+  // NO MEALS (none of the meals due were provided)
+  noMeals: boolean;
+  // NO LUNCH (lunch was not provided)
+  noLunch: boolean;
+  // UPDATED AT
+  updatedAt: number;
+}
+
+// Payload Issuer - a dispatch key that signs pre-fill links; links it signs are trusted and their issued fields locked
+export interface PayloadIssuer {
+  // ID
+  id?: number;
+  // KEY ID (short name carried in signed links)
+  keyId: string;
+  // NAME (shown as who issued a link, e.g. North Ops Dispatch)
+  name: string;
+  // ALGORITHM
+  algorithm: IssuerAlgorithm;
+  // KEY (HMAC shared secret, or Ed25519 public key; base64url)
+  key: string;
+  // PRIVATE KEY (Ed25519 private key, PKCS8 base64url; only on the device that issues links)
+  privateKey?: string;
+  // CREATED AT
+  createdAt: number;
+  // UPDATED AT
+  updatedAt: number;
+}
+
+// App Setting - key/value record for app-wide state such as the active ticket of each form type
+export interface AppSetting {
+  // KEY
+  key: string;
+  // VALUE
+  value: number | string;
+}
 
 // Engine Time Row
 export interface EngineTimeRow {
@@ -83,6 +205,8 @@ export interface EngineTimeForm {
 export interface FederalEquipmentEntry {
   // ID
   id?: number;
+  // TICKET ID
+  ticketId?: number;
   // DATE
   date: string;
   // START (legacy field for backward compatibility)
@@ -97,9 +221,23 @@ export interface FederalEquipmentEntry {
   start2: string;
   // STOP2
   stop2: string;
-  // TOTAL
+  // PERIODS (typed periods for days with more than two; the start/stop pairs then hold them collapsed)
+  periods?: EntryPeriod[];
+  // TOTAL (billed hours, after the ticket's rounding policy)
   total: string;
-  // QUANTITY
+  // RAW MINUTES (unrounded time behind the total, kept for audit)
+  rawMinutes?: number;
+  // ENTERED TIME ZONE (time zone of the device the times were entered on)
+  enteredTimeZone?: string;
+  // SHIFT DATE (on a row split off an overnight shift: the date the shift started, which its time is billed with)
+  shiftDate?: string;
+  // METER TYPE (odometer or hour meter; not set when the entry uses clock times)
+  meterType?: MeterType;
+  // METER BEGIN (reading at the start of the day)
+  meterBegin?: string;
+  // METER END (reading at the end of the day)
+  meterEnd?: string;
+  // QUANTITY (end minus begin reading on metered entries)
   quantity: string;
   // TYPE
   type: string;
@@ -111,6 +249,8 @@ export interface FederalEquipmentEntry {
 export interface FederalPersonnelEntry {
   // ID
   id?: number;
+  // TICKET ID
+  ticketId?: number;
   // DATE
   date: string;
   // NAME
@@ -123,15 +263,23 @@ export interface FederalPersonnelEntry {
   start2: string;
   // STOP2
   stop2: string;
-  // TOTAL
+  // PERIODS (typed periods for days with more than two; the start/stop pairs then hold them collapsed)
+  periods?: EntryPeriod[];
+  // TOTAL (billed hours, after the ticket's rounding policy)
   total: string;
+  // RAW MINUTES (unrounded time behind the total, kept for audit)
+  rawMinutes?: number;
+  // ENTERED TIME ZONE (time zone of the device the times were entered on)
+  enteredTimeZone?: string;
+  // SHIFT DATE (on a row split off an overnight shift: the date the shift started, which its time is billed with)
+  shiftDate?: string;
   // REMARKS
   remarks: string;
 }
 
 // Federal Form Data
 export interface FederalFormData {
-  // ID
+  // ID (the ID of the ticket the form belongs to)
   id?: number;
   // FORM TYPE (for database tracking) - optional for backward compatibility
   formType?: typeof FormType.FEDERAL;
@@ -175,11 +323,15 @@ export interface FederalFormData {
     noLunch: boolean;
     hotline: boolean;
   };
+  // ISSUED BY (name of the dispatch issuer whose signed link filled the issued fields)
+  issuedBy?: string;
+  // ISSUED FIELDS (fields filled by a signed link; read-only until another signed link is applied)
+  issuedFields?: string[];
 }
 
 // EEST Form Data
 export interface EESTFormData {
-  // ID
+  // ID (the ID of the ticket the form belongs to)
   id?: number;
   // FORM TYPE (for database tracking)
   formType: typeof FormType.EEST;
@@ -221,27 +373,39 @@ export interface EESTFormData {
   contractorSignature?: string;
   // GOVERNMENT SIGNATURE
   governmentSignature?: string;
+  // ISSUED BY (name of the dispatch issuer whose signed link filled the issued fields)
+  issuedBy?: string;
+  // ISSUED FIELDS (fields filled by a signed link; read-only until another signed link is applied)
+  issuedFields?: string[];
 }
 
 // EEST Time Entry
 export interface EESTTimeEntry {
   // ID
   id?: number;
+  // TICKET ID
+  ticketId?: number;
   // DATE
   date: string;
   // START
   start: string;
   // STOP
   stop: string;
-  // WORK
+  // WORK (billed hours, after the ticket's rounding policy)
   work: string;
+  // RAW MINUTES (unrounded time behind the total, kept for audit)
+  rawMinutes?: number;
+  // ENTERED TIME ZONE (time zone of the device the times were entered on)
+  enteredTimeZone?: string;
+  // SHIFT DATE (on a row split off an overnight shift: the date the shift started, which its time is billed with)
+  shiftDate?: string;
   // SPECIAL
   special: string;
 }
 
-// ODF Form Data (to be implemented)
+// ODF Form Data
 export interface ODFFormData {
-  // ID
+  // ID (the ID of the ticket the form belongs to)
   id?: number;
   // FORM TYPE (for database tracking)
   formType: typeof FormType.ODF;
@@ -255,9 +419,9 @@ export interface ODFFormData {
   contractNumber: string;
   // RESOURCE REQ NO
   resourceReqNo: string;
-  // RESOURCE TYPE
+  // RESOURCE TYPE (GOVERNMENT | CONTRACT | PRIVATE)
   resourceType: string;
-  // DOUBLE SHIFTED
+  // DOUBLE SHIFTED (YES | NO)
   doubleShifted: string;
   // AGREEMENT NUMBER
   agreementNumber: string;
@@ -277,22 +441,52 @@ export interface ODFFormData {
   ownerIdNumber: string;
   // LICENSE VIN OR SERIAL
   licenseVinSerial: string;
+  // EQUIPMENT USE (HOURS | MILES | DAYS)
+  equipmentUse: 'HOURS' | 'MILES' | 'DAYS';
+  // DIV SUP/ODF REP PRINTED NAME/RES ORDER
+  odfRepresentative: string;
+  // DATE SIGNED
+  dateSigned: string;
+  // POSTED BY
+  postedBy: string;
   // REMARKS
   remarks: string;
   // REMARKS OPTIONS
   remarksOptions: string[];
   // CUSTOM REMARKS
   customRemarks: string[];
+  // ISSUED BY (name of the dispatch issuer whose signed link filled the issued fields)
+  issuedBy?: string;
+  // ISSUED FIELDS (fields filled by a signed link; read-only until another signed link is applied)
+  issuedFields?: string[];
 }
 
-// ODF Time Entry (to be implemented)
+// ODF Time Entry
 export interface ODFTimeEntry {
   // ID
   id?: number;
+  // TICKET ID
+  ticketId?: number;
   // DATE
   date: string;
-  // Additional ODF-specific time entry fields will be added here
-  // when the ODF form is implemented
+  // EQUIPMENT BEGIN (hour meter / odometer reading or clock time)
+  equipBegin: string;
+  // EQUIPMENT END
+  equipEnd: string;
+  // OPERATOR NAME
+  name: string;
+  // JOB
+  job: string;
+  // TIME BEGIN
+  timeBegin: string;
+  // TIME END
+  timeEnd: string;
+  // TOTAL (calculated from time begin/end, after the ticket's rounding policy)
+  total: string;
+  // RAW MINUTES (unrounded time behind the total, kept for audit)
+  rawMinutes?: number;
+  // ENTERED TIME ZONE (time zone of the device the times were entered on)
+  enteredTimeZone?: string;
 }
 
 // Engine Time Change Log
@@ -325,12 +519,24 @@ class EngineTimeDB extends Dexie {
   eestForm!: Table<EESTFormData, number>;
   // EEST Time Entries
   eestTimeEntries!: Table<EESTTimeEntry, number>;
-  // ODF Form (to be implemented)
+  // ODF Form
   odfForm!: Table<ODFFormData, number>;
-  // ODF Time Entries (to be implemented)
+  // ODF Time Entries
   odfTimeEntries!: Table<ODFTimeEntry, number>;
   // PDF Generation Metadata
   pdfMetadata!: Table<PDFGenerationMetadata, number>;
+  // Tickets
+  tickets!: Table<Ticket, number>;
+  // App Settings
+  appSettings!: Table<AppSetting, string>;
+  // Equipment Profiles
+  equipmentProfiles!: Table<EquipmentProfile, number>;
+  // Crew Members
+  crewMembers!: Table<CrewMember, number>;
+  // Meal/Lodging Days
+  mealLodgingDays!: Table<MealLodgingDay, number>;
+  // Payload Issuers
+  payloadIssuers!: Table<PayloadIssuer, number>;
   // Change Log
   changeLog!: Table<EngineTimeChangeLog, number>;
 
@@ -355,9 +561,9 @@ class EngineTimeDB extends Dexie {
       eestForm: 'id',
       // EEST Time Entries
       eestTimeEntries: '++id, date',
-      // ODF Form (to be implemented)
+      // ODF Form
       odfForm: 'id',
-      // ODF Time Entries (to be implemented)
+      // ODF Time Entries
       odfTimeEntries: '++id, date',
       // PDF Generation Metadata
       pdfMetadata: '++id, formType, incidentName, incidentNumber, dateGenerated, createdAt',
@@ -372,12 +578,246 @@ class EngineTimeDB extends Dexie {
       // We just need to ensure the migration completes successfully
       return Promise.resolve();
     });
+
+    // Version 7: Tickets - form records are keyed by ticket ID and entries/metadata carry a ticketId
+    this.version(7).stores({
+      // Federal Equipment
+      federalEquipment: '++id, date, ticketId',
+      // Federal Personnel
+      federalPersonnel: '++id, date, ticketId',
+      // EEST Time Entries
+      eestTimeEntries: '++id, date, ticketId',
+      // ODF Time Entries
+      odfTimeEntries: '++id, date, ticketId',
+      // PDF Generation Metadata
+      pdfMetadata: '++id, ticketId, formType, incidentName, incidentNumber, dateGenerated, createdAt',
+      // Tickets
+      tickets: '++id, formType, incidentNumber, updatedAt',
+      // App Settings
+      appSettings: 'key'
+    }).upgrade(tx => migrateSingletonFormsToTickets(tx));
+
+    // Version 8: Equipment profile library
+    this.version(8).stores({
+      // Equipment Profiles
+      equipmentProfiles: '++id, name, updatedAt'
+    });
+
+    // Version 9: Crew roster
+    this.version(9).stores({
+      // Crew Members
+      crewMembers: '++id, name'
+    });
+
+    // Version 10: Meal/lodging ledger
+    this.version(10).stores({
+      // Meal/Lodging Days
+      mealLodgingDays: '++id, ticketId, date'
+    });
+
+    // Version 11: Keys of dispatch issuers that sign pre-fill links
+    this.version(11).stores({
+      // Payload Issuers
+      payloadIssuers: '++id, &keyId'
+    });
+  }
+}
+
+// Form table and entry tables of each form type, used to move data onto tickets
+const TICKET_TABLES: Record<FormType, { form: string; entries: string[] }> = {
+  [FormType.FEDERAL]: { form: 'federalForm', entries: ['federalEquipment', 'federalPersonnel'] },
+  [FormType.EEST]: { form: 'eestForm', entries: ['eestTimeEntries'] },
+  [FormType.ODF]: { form: 'odfForm', entries: ['odfTimeEntries'] }
+};
+
+// Settings key of the active ticket of a form type
+function activeTicketKey(formType: FormType): string {
+  return `activeTicket:${formType}`;
+}
+
+// Header fields of any form type that describe its ticket
+type TicketSourceForm = Partial<
+  Pick<FederalFormData, 'incidentName' | 'incidentNumber' | 'equipmentMakeModel' | 'equipmentType'>
+  & Pick<EESTFormData, 'equipmentMake' | 'equipmentModel'>
+>;
+
+// Ticket details taken from a form's header fields
+function getTicketDetails(
+  formType: FormType,
+  form?: TicketSourceForm
+): Pick<Ticket, 'incidentName' | 'incidentNumber' | 'equipment'> {
+  const equipment = formType === FormType.EEST
+    ? [form?.equipmentMake, form?.equipmentModel].filter(Boolean).join(' ')
+    : form?.equipmentMakeModel || form?.equipmentType || '';
+  return {
+    incidentName: form?.incidentName || '',
+    incidentNumber: form?.incidentNumber || '',
+    equipment
+  };
+}
+
+// Migration from version 6 to 7: each singleton form (id 1) and the entries and PDF metadata
+// of its form type become the first ticket of that form type
+async function migrateSingletonFormsToTickets(tx: Transaction): Promise<void> {
+  console.log('Migrating database from version 6 to 7: Moving singleton forms onto tickets');
+  const now = Date.now();
+
+  for (const formType of Object.values(FormType)) {
+    const tables = TICKET_TABLES[formType];
+    const form = await tx.table(tables.form).get(1);
+    const entryCounts = await Promise.all(tables.entries.map(table => tx.table(table).count()));
+    const metadataCount = await tx.table('pdfMetadata').where('formType').equals(formType).count();
+    if (!form && entryCounts.every(count => count === 0) && metadataCount === 0) {
+      continue;
+    }
+
+    const ticket: Ticket = { formType, ...getTicketDetails(formType, form), createdAt: now, updatedAt: now };
+    const ticketId = await tx.table('tickets').add(ticket) as number;
+
+    if (form) {
+      await tx.table(tables.form).delete(1);
+      await tx.table(tables.form).put({ ...form, id: ticketId });
+    }
+    for (const table of tables.entries) {
+      await tx.table(table).toCollection().modify({ ticketId });
+    }
+    await tx.table('pdfMetadata').where('formType').equals(formType).modify({ ticketId });
+    await tx.table('appSettings').put({ key: activeTicketKey(formType), value: ticketId });
+
+    console.log(`Migrated ${formType} form data onto ticket ${ticketId}`);
   }
 }
 
 // Export the Engine Time Database
 export const engineTimeDB = new EngineTimeDB();
 
+// Create a ticket, optionally pre-filled with incident details
+export async function createTicket(
+  formType: FormType,
+  details: Partial<Pick<Ticket, 'incidentName' | 'incidentNumber' | 'equipment'>> = {}
+): Promise<number> {
+  const now = Date.now();
+  return await engineTimeDB.tickets.add({
+    formType,
+    incidentName: details.incidentName || '',
+    incidentNumber: details.incidentNumber || '',
+    equipment: details.equipment || '',
+    createdAt: now,
+    updatedAt: now
+  });
+}
+
+// List the tickets of a form type, most recently updated first
+export async function listTickets(formType: FormType): Promise<Ticket[]> {
+  const tickets = await engineTimeDB.tickets.where('formType').equals(formType).sortBy('updatedAt');
+  return tickets.reverse();
+}
+
+// List the tickets of a form type on one incident
+export async function listIncidentTickets(formType: FormType, incidentNumber: string): Promise<Ticket[]> {
+  return engineTimeDB.tickets
+    .where('incidentNumber').equals(incidentNumber)
+    .filter(ticket => ticket.formType === formType)
+    .toArray();
+}
+
+// Load a ticket
+export async function loadTicket(ticketId: number): Promise<Ticket | undefined> {
+  return engineTimeDB.tickets.get(ticketId);
+}
+
+// Get the active ticket of a form type
+// Falls back to the most recently updated ticket, and creates a first ticket when there are none
+export async function getActiveTicketId(formType: FormType): Promise<number> {
+  return engineTimeDB.transaction('rw', engineTimeDB.tickets, engineTimeDB.appSettings, async () => {
+    const setting = await engineTimeDB.appSettings.get(activeTicketKey(formType));
+    if (typeof setting?.value === 'number' && await engineTimeDB.tickets.get(setting.value)) {
+      return setting.value;
+    }
+
+    const [latestTicket] = await listTickets(formType);
+    const ticketId = latestTicket?.id ?? await createTicket(formType);
+    await engineTimeDB.appSettings.put({ key: activeTicketKey(formType), value: ticketId });
+    return ticketId;
+  });
+}
+
+// Set the active ticket of a form type
+export async function setActiveTicket(formType: FormType, ticketId: number) {
+  await engineTimeDB.appSettings.put({ key: activeTicketKey(formType), value: ticketId });
+}
+
+// Get a ticket's rounding policy (exact time when none was chosen)
+export async function getTicketRoundingPolicy(ticketId: number): Promise<RoundingPolicy> {
+  const ticket = await engineTimeDB.tickets.get(ticketId);
+  return ticket?.roundingPolicy ?? DEFAULT_ROUNDING_POLICY;
+}
+
+// Set a ticket's rounding policy
+export async function setTicketRoundingPolicy(ticketId: number, roundingPolicy: RoundingPolicy) {
+  await engineTimeDB.tickets.update(ticketId, { roundingPolicy, updatedAt: Date.now() });
+}
+
+// Get a ticket's rate schedule (undefined until rates are entered)
+export async function getTicketRateSchedule(ticketId: number): Promise<RateSchedule | undefined> {
+  const ticket = await engineTimeDB.tickets.get(ticketId);
+  return ticket?.rateSchedule;
+}
+
+// Set a ticket's rate schedule
+export async function setTicketRateSchedule(ticketId: number, rateSchedule: RateSchedule) {
+  await engineTimeDB.tickets.update(ticketId, { rateSchedule, updatedAt: Date.now() });
+}
+
+// Get whether a ticket splits overnight time across dates (credited to the start date when not set)
+export async function getTicketSplitOvernight(ticketId: number): Promise<boolean> {
+  const ticket = await engineTimeDB.tickets.get(ticketId);
+  return ticket?.splitOvernight ?? false;
+}
+
+// Set whether a ticket splits overnight time across dates
+export async function setTicketSplitOvernight(ticketId: number, splitOvernight: boolean) {
+  await engineTimeDB.tickets.update(ticketId, { splitOvernight, updatedAt: Date.now() });
+}
+
+// Get the time zone of a ticket's incident
+// Falls back to the zone set on another ticket of the same incident, then to this device's zone
+export async function getIncidentTimeZone(ticketId: number): Promise<string> {
+  const ticket = await engineTimeDB.tickets.get(ticketId);
+  if (ticket?.timeZone) {
+    return ticket.timeZone;
+  }
+  if (ticket?.incidentNumber) {
+    const incidentTicket = await engineTimeDB.tickets
+      .where('incidentNumber').equals(ticket.incidentNumber)
+      .filter(other => !!other.timeZone)
+      .first();
+    if (incidentTicket?.timeZone) {
+      return incidentTicket.timeZone;
+    }
+  }
+  return getDeviceTimeZone();
+}
+
+// Set the time zone of a ticket's incident, on every ticket of the incident
+export async function setIncidentTimeZone(ticketId: number, timeZone: string) {
+  await engineTimeDB.transaction('rw', engineTimeDB.tickets, async () => {
+    const ticket = await engineTimeDB.tickets.get(ticketId);
+    const updatedAt = Date.now();
+    await engineTimeDB.tickets.update(ticketId, { timeZone, updatedAt });
+    if (ticket?.incidentNumber) {
+      await engineTimeDB.tickets
+        .where('incidentNumber').equals(ticket.incidentNumber)
+        .modify({ timeZone, updatedAt });
+    }
+  });
+}
+
+// Update a ticket's incident details from its form and mark it as updated
+async function touchTicket(ticketId: number, formType: FormType, form: TicketSourceForm) {
+  await engineTimeDB.tickets.update(ticketId, { ...getTicketDetails(formType, form), updatedAt: Date.now() });
+}
+
 // Function to clear corrupted data and reset database
 export async function clearCorruptedData(): Promise<void> {
   try {
@@ -440,14 +880,142 @@ export async function loadEngineTimeForm(): Promise<EngineTimeForm | undefined>
   return engineTimeDB.form.get(1);
 }
 
+// Save an Equipment Profile (creates it when it has no ID)
+export async function saveEquipmentProfile(
+  profile: Omit<EquipmentProfile, 'createdAt' | 'updatedAt'> & Partial<Pick<EquipmentProfile, 'createdAt'>>
+): Promise<number> {
+  const now = Date.now();
+  return await engineTimeDB.equipmentProfiles.put({ ...profile, createdAt: profile.createdAt ?? now, updatedAt: now });
+}
+
+// List Equipment Profiles by name, without archived profiles unless asked for
+export async function listEquipmentProfiles(includeArchived: boolean = false): Promise<EquipmentProfile[]> {
+  const profiles = await engineTimeDB.equipmentProfiles.orderBy('name').toArray();
+  return includeArchived ? profiles : profiles.filter(profile => !profile.archivedAt);
+}
+
+// Load an Equipment Profile
+export async function loadEquipmentProfile(id: number): Promise<EquipmentProfile | undefined> {
+  return engineTimeDB.equipmentProfiles.get(id);
+}
+
+// Find an active Equipment Profile by ID or by name (case-insensitive)
+export async function findEquipmentProfile(reference: string): Promise<EquipmentProfile | undefined> {
+  const profiles = await listEquipmentProfiles();
+  const id = /^\d+$/.test(reference) ? parseInt(reference, 10) : undefined;
+  return profiles.find(profile => profile.id === id)
+    ?? profiles.find(profile => profile.name.trim().toLowerCase() === reference.trim().toLowerCase());
+}
+
+// Archive an Equipment Profile
+export async function archiveEquipmentProfile(id: number) {
+  await engineTimeDB.equipmentProfiles.update(id, { archivedAt: Date.now(), updatedAt: Date.now() });
+}
+
+// Restore an archived Equipment Profile
+export async function restoreEquipmentProfile(id: number) {
+  await engineTimeDB.equipmentProfiles.update(id, { archivedAt: undefined, updatedAt: Date.now() });
+}
+
+// Save a Crew Member (creates it when it has no ID)
+export async function saveCrewMember(
+  member: Omit<CrewMember, 'createdAt' | 'updatedAt'> & Partial<Pick<CrewMember, 'createdAt'>>
+): Promise<number> {
+  const now = Date.now();
+  return await engineTimeDB.crewMembers.put({ ...member, createdAt: member.createdAt ?? now, updatedAt: now });
+}
+
+// List the Crew Members by name
+export async function listCrewMembers(): Promise<CrewMember[]> {
+  return engineTimeDB.crewMembers.orderBy('name').toArray();
+}
+
+// Delete a Crew Member (their logged hours stay on the personnel entries)
+export async function deleteCrewMember(id: number) {
+  await engineTimeDB.crewMembers.delete(id);
+}
+
+// Save a payload issuer key (created or updated)
+export async function savePayloadIssuer(issuer: Omit<PayloadIssuer, 'createdAt' | 'updatedAt'> & Partial<Pick<PayloadIssuer, 'createdAt'>>) {
+  const now = Date.now();
+  return await engineTimeDB.payloadIssuers.put({ ...issuer, createdAt: issuer.createdAt ?? now, updatedAt: now });
+}
+
+// List the payload issuer keys, by key ID
+export async function listPayloadIssuers(): Promise<PayloadIssuer[]> {
+  return engineTimeDB.payloadIssuers.orderBy('keyId').toArray();
+}
+
+// Find the payload issuer key with a key ID
+export async function findPayloadIssuer(keyId: string): Promise<PayloadIssuer | undefined> {
+  return engineTimeDB.payloadIssuers.where('keyId').equals(keyId).first();
+}
+
+// Delete a payload issuer key
+export async function deletePayloadIssuer(id: number) {
+  await engineTimeDB.payloadIssuers.delete(id);
+  const signingSetting = await engineTimeDB.appSettings.get(PAYLOAD_SIGNING_ISSUER_KEY);
+  if (signingSetting?.value === id) {
+    await engineTimeDB.appSettings.delete(PAYLOAD_SIGNING_ISSUER_KEY);
+  }
+}
+
+// Settings key of the issuer key share links are signed with
+const PAYLOAD_SIGNING_ISSUER_KEY = 'payloadSigningIssuer';
+
+// Get the issuer key share links are signed with (unsigned when none is chosen)
+export async function getPayloadSigningIssuer(): Promise<PayloadIssuer | undefined> {
+  const setting = await engineTimeDB.appSettings.get(PAYLOAD_SIGNING_ISSUER_KEY);
+  return typeof setting?.value === 'number' ? engineTimeDB.payloadIssuers.get(setting.value) : undefined;
+}
+
+// Set the issuer key share links are signed with (null to stop signing)
+export async function setPayloadSigningIssuer(id: number | null) {
+  if (id === null) {
+    await engineTimeDB.appSettings.delete(PAYLOAD_SIGNING_ISSUER_KEY);
+  } else {
+    await engineTimeDB.appSettings.put({ key: PAYLOAD_SIGNING_ISSUER_KEY, value: id });
+  }
+}
+
+// Load the meal/lodging days recorded on a ticket
+export async function loadMealLodgingDays(ticketId: number): Promise<MealLodgingDay[]> {
+  return engineTimeDB.mealLodgingDays.where('ticketId').equals(ticketId).toArray();
+}
+
+// Save what a ticket's crew went without on a date, replacing what was recorded for that date
+export async function saveMealLodgingDay(
+  ticketId: number,
+  date: string,
+  flags: Pick<MealLodgingDay, 'noMealsLodging' | 'noMeals' | 'noLunch'>
+) {
+  await engineTimeDB.transaction('rw', engineTimeDB.mealLodgingDays, async () => {
+    const existing = await engineTimeDB.mealLodgingDays
+      .where('ticketId').equals(ticketId)
+      .filter(day => day.date === date)
+      .first();
+    await engineTimeDB.mealLodgingDays.put({ id: existing?.id, ticketId, date, ...flags, updatedAt: Date.now() });
+  });
+}
+
 // Federal Equipment Entry functions
+// Entries without a ticketId are saved to the active ticket
 export async function saveFederalEquipmentEntry(entry: FederalEquipmentEntry) {
-  return await engineTimeDB.federalEquipment.put(entry);
+  const ticketId = entry.ticketId ?? await getActiveTicketId(FormType.FEDERAL);
+  return await engineTimeDB.federalEquipment.put({ ...entry, ticketId });
+}
+
+// Add a blank Federal Equipment Entry on a date; returns it with its ID, so later saves update the same record
+export async function addFederalEquipmentEntry(date: string): Promise<FederalEquipmentEntry> {
+  const entry: FederalEquipmentEntry = { date, start: '', stop: '', start1: '', stop1: '', start2: '', stop2: '', total: '', quantity: '', type: '', remarks: '' };
+  const id = await saveFederalEquipmentEntry(entry);
+  return { ...entry, id };
 }
 
-// Load all Federal Equipment Entries
-export async function loadAllFederalEquipmentEntries(): Promise<FederalEquipmentEntry[]> {
-  return engineTimeDB.federalEquipment.toArray();
+// Load all Federal Equipment Entries of a ticket (the active ticket by default)
+export async function loadAllFederalEquipmentEntries(ticketId?: number): Promise<FederalEquipmentEntry[]> {
+  const id = ticketId ?? await getActiveTicketId(FormType.FEDERAL);
+  return engineTimeDB.federalEquipment.where('ticketId').equals(id).toArray();
 }
 
 // Delete a Federal Equipment Entry
@@ -457,11 +1025,25 @@ export async function deleteFederalEquipmentEntry(id: number) {
 
 // Federal Personnel Entry functions
 export async function saveFederalPersonnelEntry(entry: FederalPersonnelEntry) {
-  return await engineTimeDB.federalPersonnel.put(entry);
+  const ticketId = entry.ticketId ?? await getActiveTicketId(FormType.FEDERAL);
+  return await engineTimeDB.federalPersonnel.put({ ...entry, ticketId });
+}
+
+// Add a blank Federal Personnel Entry on a date; returns it with its ID, so later saves update the same record
+export async function addFederalPersonnelEntry(date: string): Promise<FederalPersonnelEntry> {
+  const entry: FederalPersonnelEntry = { date, name: '', start1: '', stop1: '', start2: '', stop2: '', total: '', remarks: '' };
+  const id = await saveFederalPersonnelEntry(entry);
+  return { ...entry, id };
 }
 
-// Load all Federal Personnel Entries
-export async function loadAllFederalPersonnelEntries(): Promise<FederalPersonnelEntry[]> {
+// Load all Federal Personnel Entries of a ticket (the active ticket by default)
+export async function loadAllFederalPersonnelEntries(ticketId?: number): Promise<FederalPersonnelEntry[]> {
+  const id = ticketId ?? await getActiveTicketId(FormType.FEDERAL);
+  return engineTimeDB.federalPersonnel.where('ticketId').equals(id).toArray();
+}
+
+// Load the Federal Personnel Entries of every ticket, for per-person history
+export async function loadFederalPersonnelHistory(): Promise<FederalPersonnelEntry[]> {
   return engineTimeDB.federalPersonnel.toArray();
 }
 
@@ -470,50 +1052,55 @@ export async function deleteFederalPersonnelEntry(id: number) {
   return await engineTimeDB.federalPersonnel.delete(id);
 }
 
-// Federal Form Data functions
-export async function saveFederalFormData(form: FederalFormData) {
-  await engineTimeDB.federalForm.put({ ...form, id: 1 }); // singleton
+// Federal Form Data functions - one record per ticket (the active ticket by default)
+export async function saveFederalFormData(form: FederalFormData, ticketId?: number) {
+  const id = ticketId ?? await getActiveTicketId(FormType.FEDERAL);
+  await engineTimeDB.federalForm.put({ ...form, id });
+  await touchTicket(id, FormType.FEDERAL, form);
 }
 
 // Load a Federal Form Data
-export async function loadFederalFormData(): Promise<FederalFormData | undefined> {
-  return await engineTimeDB.federalForm.get(1);
+export async function loadFederalFormData(ticketId?: number): Promise<FederalFormData | undefined> {
+  return await engineTimeDB.federalForm.get(ticketId ?? await getActiveTicketId(FormType.FEDERAL));
 }
 
 // EEST Form Data functions
-export async function saveEESTFormData(form: EESTFormData) {
-  // Save the EEST Form Data
-  form.id = 1;
+export async function saveEESTFormData(form: EESTFormData, ticketId?: number) {
+  // Save the EEST Form Data on its ticket
+  form.id = ticketId ?? await getActiveTicketId(FormType.EEST);
   console.log('DB: Saving EEST form data:', form);
   await engineTimeDB.eestForm.put(form);
+  await touchTicket(form.id, FormType.EEST, form);
   console.log('DB: EEST form data saved successfully');
 }
 
 // Load an EEST Form Data
-export async function loadEESTFormData(): Promise<EESTFormData | undefined> {
+export async function loadEESTFormData(ticketId?: number): Promise<EESTFormData | undefined> {
   console.log('DB: Loading EEST form data...');
-  const result = await engineTimeDB.eestForm.get(1);
+  const result = await engineTimeDB.eestForm.get(ticketId ?? await getActiveTicketId(FormType.EEST));
   console.log('DB: EEST form data loaded:', result);
   return result;
 }
 
 // EEST Time Entry functions
 export async function saveEESTTimeEntry(entry: EESTTimeEntry): Promise<number> {
-  // Save the EEST Time Entry
-  if (entry.id) {
+  // Save the EEST Time Entry (to the active ticket unless it has one)
+  const record = { ...entry, ticketId: entry.ticketId ?? await getActiveTicketId(FormType.EEST) };
+  if (record.id) {
     // Update the EEST Time Entry
-    await engineTimeDB.eestTimeEntries.update(entry.id, entry);
-    return entry.id;
+    await engineTimeDB.eestTimeEntries.update(record.id, record);
+    return record.id;
   } else {
     // Add the EEST Time Entry
-    const id = await engineTimeDB.eestTimeEntries.add(entry);
+    const id = await engineTimeDB.eestTimeEntries.add(record);
     return id;
   }
 }
 
-// Load all EEST Time Entries
-export async function loadAllEESTTimeEntries(): Promise<EESTTimeEntry[]> {
-  return await engineTimeDB.eestTimeEntries.toArray();
+// Load all EEST Time Entries of a ticket (the active ticket by default)
+export async function loadAllEESTTimeEntries(ticketId?: number): Promise<EESTTimeEntry[]> {
+  const id = ticketId ?? await getActiveTicketId(FormType.EEST);
+  return await engineTimeDB.eestTimeEntries.where('ticketId').equals(id).toArray();
 }
 
 // Delete an EEST Time Entry
@@ -521,30 +1108,34 @@ export async function deleteEESTTimeEntry(id: number) {
   await engineTimeDB.eestTimeEntries.delete(id);
 }
 
-// ODF Form Data functions (to be implemented)
-export async function saveODFFormData(form: ODFFormData) {
-  await engineTimeDB.odfForm.put({ ...form, id: 1 }); // singleton
+// ODF Form Data functions
+export async function saveODFFormData(form: ODFFormData, ticketId?: number) {
+  const id = ticketId ?? await getActiveTicketId(FormType.ODF);
+  await engineTimeDB.odfForm.put({ ...form, id });
+  await touchTicket(id, FormType.ODF, form);
 }
 
 // Load an ODF Form Data
-export async function loadODFFormData(): Promise<ODFFormData | undefined> {
-  return await engineTimeDB.odfForm.get(1);
+export async function loadODFFormData(ticketId?: number): Promise<ODFFormData | undefined> {
+  return await engineTimeDB.odfForm.get(ticketId ?? await getActiveTicketId(FormType.ODF));
 }
 
-// ODF Time Entry functions (to be implemented)
+// ODF Time Entry functions
 export async function saveODFTimeEntry(entry: ODFTimeEntry): Promise<number> {
-  if (entry.id) {
-    await engineTimeDB.odfTimeEntries.update(entry.id, entry);
-    return entry.id;
+  const record = { ...entry, ticketId: entry.ticketId ?? await getActiveTicketId(FormType.ODF) };
+  if (record.id) {
+    await engineTimeDB.odfTimeEntries.update(record.id, record);
+    return record.id;
   } else {
-    const id = await engineTimeDB.odfTimeEntries.add(entry);
+    const id = await engineTimeDB.odfTimeEntries.add(record);
     return id;
   }
 }
 
-// Load all ODF Time Entries
-export async function loadAllODFTimeEntries(): Promise<ODFTimeEntry[]> {
-  return await engineTimeDB.odfTimeEntries.toArray();
+// Load all ODF Time Entries of a ticket (the active ticket by default)
+export async function loadAllODFTimeEntries(ticketId?: number): Promise<ODFTimeEntry[]> {
+  const id = ticketId ?? await getActiveTicketId(FormType.ODF);
+  return await engineTimeDB.odfTimeEntries.where('ticketId').equals(id).toArray();
 }
 
 // Delete an ODF Time Entry
@@ -553,8 +1144,10 @@ export async function deleteODFTimeEntry(id: number) {
 }
 
 // PDF Generation Metadata functions
+// Metadata without a ticketId is recorded against the active ticket of its form type
 export async function savePDFMetadata(metadata: PDFGenerationMetadata): Promise<number> {
-  return await engineTimeDB.pdfMetadata.add(metadata);
+  const ticketId = metadata.ticketId ?? await getActiveTicketId(metadata.formType);
+  return await engineTimeDB.pdfMetadata.add({ ...metadata, ticketId });
 }
 
 // Load all PDF Metadata
@@ -569,6 +1162,12 @@ export async function loadPDFMetadataByFormType(formType: FormType): Promise<PDF
   return results.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
+// Load PDF Metadata by ticket
+export async function loadPDFMetadataByTicket(ticketId: number): Promise<PDFGenerationMetadata[]> {
+  const results = await engineTimeDB.pdfMetadata.where('ticketId').equals(ticketId).toArray();
+  return results.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
 // Delete PDF Metadata
 export async function deletePDFMetadata(id: number) {
   await engineTimeDB.pdfMetadata.delete(id);
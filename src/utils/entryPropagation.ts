@@ -10,8 +10,16 @@ import {
   calculateFederalEquipmentTotal,
   calculateFederalPersonnelTotal,
   calculateEESTTimeTotal,
+  calculateDailyTotals,
+  getBillingDay,
   getCurrentDateFormatted
 } from './timeCalculations';
+import type { TimeCalculationResult } from './timeCalculations';
+import type { RoundingPolicy } from './billingRounding';
+import { getDeviceTimeZone } from './timeZones';
+import { applyMeterReadings, isMeterRateType } from './equipmentMeter';
+import type { EntryPeriod } from './timePeriods';
+import { withPeriodColumns } from './timePeriods';
 
 // Propagation configuration
 export interface PropagationConfig {
@@ -19,6 +27,10 @@ export interface PropagationConfig {
   autoPropagateDates: boolean;
   propagateFromFirst: boolean;
   validateDates: boolean;
+  // Billing rounding for calculated totals (exact time when not set)
+  roundingPolicy?: RoundingPolicy;
+  // Incident time zone, so calculated totals are correct across DST changes
+  timeZone?: string;
 }
 
 // Default propagation configuration
@@ -29,6 +41,37 @@ export const DEFAULT_PROPAGATION_CONFIG: PropagationConfig = {
   validateDates: true
 };
 
+// Start/stop fields of every entry type
+const TIME_FIELDS = ['start', 'stop', 'start1', 'stop1', 'start2', 'stop2'];
+
+// Odometer/hour-meter fields of equipment entries
+const METER_FIELDS = ['meterType', 'meterBegin', 'meterEnd'];
+
+/**
+ * Records the time zone of this device on an entry whose times were just entered
+ */
+function stampEnteredTimeZone<T extends { enteredTimeZone?: string }>(entry: T, field: string, value: string): T {
+  return TIME_FIELDS.includes(field) && value ? { ...entry, enteredTimeZone: getDeviceTimeZone() } : entry;
+}
+
+/**
+ * Re-totals the entries billed on the same day as a changed entry, so the day's minimum is billed once (on its last
+ * entry with time) rather than on every entry
+ */
+function retotalBillingDay<T extends { date: string; shiftDate?: string; name?: string }>(
+  entries: T[],
+  index: number,
+  calculateTotal: (entry: T) => TimeCalculationResult,
+  setTotal: (entry: T, calculation: TimeCalculationResult) => T,
+  config: PropagationConfig
+): T[] {
+  const day = getBillingDay(entries[index]);
+  const calculations = calculateDailyTotals(entries, calculateTotal, config.roundingPolicy);
+  return entries.map((entry, entryIndex) =>
+    calculations[entryIndex].isValid && getBillingDay(entry) === day ? setTotal(entry, calculations[entryIndex]) : entry
+  );
+}
+
 /**
  * Handles Federal equipment entry changes with propagation
  */
@@ -42,7 +85,7 @@ export function handleFederalEquipmentEntryChange(
   let updatedEntries = [...entries];
   
   // Update the specific entry
-  updatedEntries[index] = { ...updatedEntries[index], [field]: value };
+  updatedEntries[index] = stampEnteredTimeZone({ ...updatedEntries[index], [field]: value }, field, value);
   
   // Handle date propagation - only propagate if the entry being changed is the first entry
   // This prevents overwriting existing entries when creating retroactive entries
@@ -59,11 +102,22 @@ export function handleFederalEquipmentEntryChange(
   
   // Handle time calculation
   if ((field === 'start' || field === 'stop') && config.autoCalculateTotals) {
+    updatedEntries = retotalBillingDay(
+      updatedEntries,
+      index,
+      entry => calculateFederalEquipmentTotal(entry, config.roundingPolicy, config.timeZone),
+      (entry, calculation) => ({ ...entry, total: calculation.formattedTotal, rawMinutes: calculation.rawMinutes }),
+      config
+    );
+  }
+  
+  // Handle meter readings - metered entries take their quantity from the readings (and their type, unless they
+  // have a rate type of their own)
+  if (METER_FIELDS.includes(field)) {
     const entry = updatedEntries[index];
-    const calculation = calculateFederalEquipmentTotal(entry);
-    if (calculation.isValid) {
-      updatedEntries[index] = { ...entry, total: calculation.formattedTotal };
-    }
+    updatedEntries[index] = entry.meterType
+      ? applyMeterReadings(entry)
+      : { ...entry, meterType: undefined, meterBegin: '', meterEnd: '', quantity: '', type: isMeterRateType(entry.type) ? '' : entry.type };
   }
   
   return updatedEntries;
@@ -82,7 +136,7 @@ export function handleFederalPersonnelEntryChange(
   let updatedEntries = [...entries];
   
   // Update the specific entry
-  updatedEntries[index] = { ...updatedEntries[index], [field]: value };
+  updatedEntries[index] = stampEnteredTimeZone({ ...updatedEntries[index], [field]: value }, field, value);
   
   // Handle date propagation - only propagate if the entry being changed is the first entry
   // This prevents overwriting existing entries when creating retroactive entries
@@ -111,16 +165,93 @@ export function handleFederalPersonnelEntryChange(
   
   // Handle time calculation
   if ((field === 'start1' || field === 'stop1' || field === 'start2' || field === 'stop2') && config.autoCalculateTotals) {
-    const entry = updatedEntries[index];
-    const calculation = calculateFederalPersonnelTotal(entry);
-    if (calculation.isValid) {
-      updatedEntries[index] = { ...entry, total: calculation.formattedTotal };
-    }
+    updatedEntries = retotalBillingDay(
+      updatedEntries,
+      index,
+      entry => calculateFederalPersonnelTotal(entry, config.roundingPolicy, config.timeZone),
+      (entry, calculation) => ({ ...entry, total: calculation.formattedTotal, rawMinutes: calculation.rawMinutes }),
+      config
+    );
   }
   
   return updatedEntries;
 }
 
+/**
+ * Sets the typed period list of an entry, keeping its start/stop pairs and total in step
+ * An empty list goes back to the start/stop pairs, cleared
+ */
+function applyPeriodsChange<T extends FederalEquipmentEntry | FederalPersonnelEntry>(
+  entry: T,
+  periods: EntryPeriod[],
+  calculateTotal: (entry: T) => { isValid: boolean; formattedTotal: string; rawMinutes: number },
+  config: PropagationConfig
+): T {
+  if (periods.length === 0) {
+    return { ...entry, periods: undefined, start1: '', stop1: '', start2: '', stop2: '', total: '', rawMinutes: undefined };
+  }
+
+  let updated: T = withPeriodColumns<T>({ ...entry, periods }, config.timeZone);
+  if (periods.some(period => period.start || period.stop)) {
+    updated = { ...updated, enteredTimeZone: getDeviceTimeZone() };
+  }
+  if (config.autoCalculateTotals) {
+    const calculation = calculateTotal(updated);
+    updated = calculation.isValid
+      ? { ...updated, total: calculation.formattedTotal, rawMinutes: calculation.rawMinutes }
+      : { ...updated, total: '', rawMinutes: undefined };
+  }
+  return updated;
+}
+
+/**
+ * Handles Federal equipment typed period list changes
+ */
+export function handleFederalEquipmentPeriodsChange(
+  entries: FederalEquipmentEntry[],
+  index: number,
+  periods: EntryPeriod[],
+  config: PropagationConfig = DEFAULT_PROPAGATION_CONFIG
+): FederalEquipmentEntry[] {
+  const calculateTotal = (entry: FederalEquipmentEntry) => calculateFederalEquipmentTotal(entry, config.roundingPolicy, config.timeZone);
+  const updatedEntries = [...entries];
+  updatedEntries[index] = applyPeriodsChange(updatedEntries[index], periods, calculateTotal, config);
+  if (!config.autoCalculateTotals) {
+    return updatedEntries;
+  }
+  return retotalBillingDay(
+    updatedEntries,
+    index,
+    calculateTotal,
+    (entry, calculation) => ({ ...entry, total: calculation.formattedTotal, rawMinutes: calculation.rawMinutes }),
+    config
+  );
+}
+
+/**
+ * Handles Federal personnel typed period list changes
+ */
+export function handleFederalPersonnelPeriodsChange(
+  entries: FederalPersonnelEntry[],
+  index: number,
+  periods: EntryPeriod[],
+  config: PropagationConfig = DEFAULT_PROPAGATION_CONFIG
+): FederalPersonnelEntry[] {
+  const calculateTotal = (entry: FederalPersonnelEntry) => calculateFederalPersonnelTotal(entry, config.roundingPolicy, config.timeZone);
+  const updatedEntries = [...entries];
+  updatedEntries[index] = applyPeriodsChange(updatedEntries[index], periods, calculateTotal, config);
+  if (!config.autoCalculateTotals) {
+    return updatedEntries;
+  }
+  return retotalBillingDay(
+    updatedEntries,
+    index,
+    calculateTotal,
+    (entry, calculation) => ({ ...entry, total: calculation.formattedTotal, rawMinutes: calculation.rawMinutes }),
+    config
+  );
+}
+
 /**
  * Handles EEST time entry changes with propagation
  */
@@ -134,7 +265,7 @@ export function handleEESTTimeEntryChange(
   let updatedEntries = [...entries];
   
   // Update the specific entry
-  updatedEntries[index] = { ...updatedEntries[index], [field]: value };
+  updatedEntries[index] = stampEnteredTimeZone({ ...updatedEntries[index], [field]: value }, field, value);
   
   // Handle date propagation
   if (field === 'date' && config.autoPropagateDates) {
@@ -149,12 +280,14 @@ export function handleEESTTimeEntryChange(
   
   // Handle time calculation
   if ((field === 'start' || field === 'stop') && config.autoCalculateTotals) {
-    const entry = updatedEntries[index];
-    const calculation = calculateEESTTimeTotal(entry);
-    if (calculation.isValid) {
-      // Store calculated hours in work field
-      updatedEntries[index] = { ...entry, work: calculation.formattedTotal };
-    }
+    // Store calculated hours in work field
+    updatedEntries = retotalBillingDay(
+      updatedEntries,
+      index,
+      entry => calculateEESTTimeTotal(entry, config.roundingPolicy, config.timeZone),
+      (entry, calculation) => ({ ...entry, work: calculation.formattedTotal, rawMinutes: calculation.rawMinutes }),
+      config
+    );
   }
   
   return updatedEntries;
@@ -0,0 +1,137 @@
+// Equipment Meter - begin/end odometer or hour-meter readings on Federal equipment entries
+// Equipment billed on miles (water tenders, transports) or metered hours is recorded by readings
+// instead of clock times; the difference is the entry's Quantity, and the meter sets its Type unless the entry has a
+// rate type of its own (e.g. a special rate)
+import type { FederalEquipmentEntry } from './engineTimeDB';
+import { loadAllFederalEquipmentEntries } from './engineTimeDB';
+import { mergeEntryHistory } from './workRestCompliance';
+
+// Meter an entry is read from (entries without one use clock times)
+export type MeterType = 'MILES' | 'HOURS';
+
+// Problem with an entry's readings
+export interface MeterReadingIssue {
+  entry: FederalEquipmentEntry;
+  field: 'meterBegin' | 'meterEnd';
+  message: string;
+}
+
+// Meters offered on equipment entries and their labels
+export const METER_TYPE_OPTIONS: { value: MeterType; label: string; unit: string }[] = [
+  { value: 'MILES', label: 'Odometer', unit: 'miles' },
+  { value: 'HOURS', label: 'Hour meter', unit: 'hours' }
+];
+
+/**
+ * Sort key for an MM/DD/YY date (YYMMDD), so dates sort chronologically
+ */
+function getDateSortKey(date: string): string {
+  const [month = '', day = '', year = ''] = date.split('/');
+  return `${year.padStart(2, '0')}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+}
+
+/**
+ * Parses a meter reading (commas allowed); returns null for a blank or invalid reading
+ */
+export function parseMeterReading(value: string | undefined): number | null {
+  const clean = (value || '').replace(/[,\s]/g, '');
+  if (!/^\d+(\.\d+)?$/.test(clean)) return null;
+  return parseFloat(clean);
+}
+
+/**
+ * Formats a meter reading or quantity with at most one decimal (meters read to tenths)
+ */
+export function formatMeterQuantity(value: number): string {
+  return parseFloat(value.toFixed(1)).toString();
+}
+
+/**
+ * Calculates the quantity an entry's readings cover (end minus begin)
+ * Returns null when the entry has no meter, a reading is missing, or the end is below the begin
+ */
+export function calculateMeterQuantity(entry: FederalEquipmentEntry): number | null {
+  if (!entry.meterType) return null;
+  const begin = parseMeterReading(entry.meterBegin);
+  const end = parseMeterReading(entry.meterEnd);
+  if (begin === null || end === null || end < begin) return null;
+  return end - begin;
+}
+
+/**
+ * Checks whether an entry's Type is a meter's own type (set from the meter rather than picked as a rate)
+ */
+export function isMeterRateType(type: string | undefined): boolean {
+  return METER_TYPE_OPTIONS.some(option => option.value === (type || '').trim().toUpperCase());
+}
+
+/**
+ * Writes the quantity of a metered entry from its readings, and its type when it has no rate type of its own
+ * Entries without a meter are returned unchanged
+ */
+export function applyMeterReadings(entry: FederalEquipmentEntry): FederalEquipmentEntry {
+  if (!entry.meterType) return entry;
+  const quantity = calculateMeterQuantity(entry);
+  return {
+    ...entry,
+    quantity: quantity === null ? '' : formatMeterQuantity(quantity),
+    type: !entry.type || isMeterRateType(entry.type) ? entry.meterType : entry.type
+  };
+}
+
+/**
+ * Finds readings that go backward: an end below its begin, or a begin below the end reading
+ * of the previous day with readings on the same meter
+ */
+export function findMeterReadingIssues(entries: FederalEquipmentEntry[]): MeterReadingIssue[] {
+  const issues: MeterReadingIssue[] = [];
+  const metered = entries
+    .filter(entry => entry.date && entry.meterType)
+    .sort((a, b) => getDateSortKey(a.date).localeCompare(getDateSortKey(b.date)));
+
+  metered.forEach(entry => {
+    const begin = parseMeterReading(entry.meterBegin);
+    const end = parseMeterReading(entry.meterEnd);
+    if (begin !== null && end !== null && end < begin) {
+      issues.push({ entry, field: 'meterEnd', message: `End reading is below the begin reading (${formatMeterQuantity(begin)})` });
+    }
+    if (begin === null) return;
+
+    // Highest reading on the last earlier date the meter was read
+    const earlier = metered
+      .filter(other => other.meterType === entry.meterType && getDateSortKey(other.date) < getDateSortKey(entry.date))
+      .map(other => ({
+        date: other.date,
+        readings: [parseMeterReading(other.meterBegin), parseMeterReading(other.meterEnd)]
+          .filter((reading): reading is number => reading !== null)
+      }))
+      .filter(other => other.readings.length > 0);
+    const previousDate = earlier[earlier.length - 1]?.date;
+    if (!previousDate) return;
+    const previousReadings = earlier
+      .filter(other => other.date === previousDate)
+      .flatMap(other => other.readings);
+
+    const previousEnd = Math.max(...previousReadings);
+    if (begin < previousEnd) {
+      issues.push({
+        entry,
+        field: 'meterBegin',
+        message: `Begin reading is below the ${previousDate} reading of ${formatMeterQuantity(previousEnd)}`
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Checks the readings of the entries being edited against the stored entries of the ticket
+ */
+export async function evaluateMeterReadings(
+  equipmentEntries: FederalEquipmentEntry[],
+  ticketId: number
+): Promise<MeterReadingIssue[]> {
+  const storedEntries = await loadAllFederalEquipmentEntries(ticketId);
+  return findMeterReadingIssues(mergeEntryHistory(storedEntries, equipmentEntries, ticketId));
+}
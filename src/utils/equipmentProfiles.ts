@@ -0,0 +1,116 @@
+// Equipment Profiles - fills the equipment section of each form type from a stored profile
+import type { EquipmentProfile, FederalFormData, EESTFormData, ODFFormData } from './engineTimeDB';
+
+// Profile fields that can be edited (everything but the bookkeeping fields)
+export type EquipmentProfileDetails = Omit<EquipmentProfile, 'id' | 'archivedAt' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Creates empty profile details
+ */
+export function createEmptyEquipmentProfileDetails(): EquipmentProfileDetails {
+  return {
+    name: '',
+    equipmentMake: '',
+    equipmentModel: '',
+    equipmentType: '',
+    serialNumber: '',
+    licenseNumber: '',
+    agreementNumber: ''
+  };
+}
+
+/**
+ * Gets a profile's make and model as the single field the Federal and ODF forms use
+ */
+export function getProfileMakeModel(profile: EquipmentProfileDetails): string {
+  return [profile.equipmentMake, profile.equipmentModel].filter(Boolean).join(' ');
+}
+
+/**
+ * Fills the Federal equipment section from a profile
+ */
+export function applyProfileToFederalForm(form: FederalFormData, profile: EquipmentProfileDetails): FederalFormData {
+  return {
+    ...form,
+    equipmentMakeModel: getProfileMakeModel(profile),
+    equipmentType: profile.equipmentType,
+    serialVinNumber: profile.serialNumber,
+    licenseIdNumber: profile.licenseNumber,
+    agreementNumber: profile.agreementNumber
+  };
+}
+
+/**
+ * Fills the EEST equipment section from a profile
+ */
+export function applyProfileToEESTForm(form: EESTFormData, profile: EquipmentProfileDetails): EESTFormData {
+  return {
+    ...form,
+    equipmentMake: profile.equipmentMake,
+    equipmentModel: profile.equipmentModel,
+    serialNumber: profile.serialNumber,
+    licenseNumber: profile.licenseNumber,
+    agreementNumber: profile.agreementNumber
+  };
+}
+
+/**
+ * Fills the ODF equipment section from a profile
+ * The ODF has a single license/VIN/serial box, so the serial number is preferred
+ */
+export function applyProfileToODFForm(form: ODFFormData, profile: EquipmentProfileDetails): ODFFormData {
+  return {
+    ...form,
+    equipmentMakeModel: getProfileMakeModel(profile),
+    equipmentType: profile.equipmentType,
+    licenseVinSerial: profile.serialNumber || profile.licenseNumber,
+    contractNumber: profile.agreementNumber,
+    agreementNumber: profile.agreementNumber
+  };
+}
+
+/**
+ * Gets profile details from the Federal equipment section, for saving the current equipment as a profile
+ * The combined make/model is kept in the make field
+ */
+export function getProfileDetailsFromFederalForm(form: FederalFormData): EquipmentProfileDetails {
+  return {
+    name: form.equipmentMakeModel || form.equipmentType,
+    equipmentMake: form.equipmentMakeModel,
+    equipmentModel: '',
+    equipmentType: form.equipmentType,
+    serialNumber: form.serialVinNumber,
+    licenseNumber: form.licenseIdNumber,
+    agreementNumber: form.agreementNumber
+  };
+}
+
+/**
+ * Gets profile details from the EEST equipment section
+ */
+export function getProfileDetailsFromEESTForm(form: EESTFormData): EquipmentProfileDetails {
+  return {
+    name: [form.equipmentMake, form.equipmentModel].filter(Boolean).join(' '),
+    equipmentMake: form.equipmentMake,
+    equipmentModel: form.equipmentModel,
+    equipmentType: '',
+    serialNumber: form.serialNumber,
+    licenseNumber: form.licenseNumber,
+    agreementNumber: form.agreementNumber
+  };
+}
+
+/**
+ * Gets profile details from the ODF equipment section
+ */
+export function getProfileDetailsFromODFForm(form: ODFFormData): EquipmentProfileDetails {
+  return {
+    name: form.equipmentMakeModel || form.equipmentType,
+    equipmentMake: form.equipmentMakeModel,
+    equipmentModel: '',
+    equipmentType: form.equipmentType,
+    serialNumber: form.licenseVinSerial,
+    licenseNumber: '',
+    agreementNumber: form.agreementNumber || form.contractNumber
+  };
+}
@@ -3,7 +3,26 @@
 
 import type { FederalFormData, FederalEquipmentEntry, FederalPersonnelEntry } from '../engineTimeDB';
 import * as PDFLib from 'pdf-lib';
-import { autoCalculateFederalEquipmentTotals, autoCalculateFederalPersonnelTotals } from '../timeCalculations';
+import { autoCalculateFederalEquipmentTotals, autoCalculateFederalPersonnelTotals, calculatePeriodTypeTotals } from '../timeCalculations';
+import type { RoundingPolicy } from '../billingRounding';
+import { splitOvernightFederalEquipmentEntries, splitOvernightFederalPersonnelEntries, withPeriodColumns, PERIOD_TYPE_OPTIONS } from '../timePeriods';
+import type { PeriodType } from '../timePeriods';
+import { applyMeterReadings } from '../equipmentMeter';
+import { getMealLodgingFlags, getMealsDue, getShiftSpans, getSuggestedMealLodgingFlags } from '../mealLodging';
+import {
+  getSchemaFieldName,
+  getSchemaPageCount,
+  getSchemaRowEntries,
+  getSchemaRowFieldNames,
+  getSchemaRowGroup,
+  mapSchemaToFields,
+  mapSchemaToPages
+} from './mappingSchema';
+import type { MappingContext } from './mappingSchema';
+import { OF297_SCHEMA } from './schemas/of297Schema';
+import { checkTemplateTextFit } from '../PDF/textFit';
+import type { TextFitIssue } from '../PDF/textFit';
+import type { TemplateFieldInfo } from '../PDF/templateFieldInventory';
 
 // Federal Equipment Entry for PDF
 export interface FederalEquipmentEntryForPDF {
@@ -65,196 +84,219 @@ export interface FederalPDFFields {
   personnelEntries: FederalPersonnelEntryForPDF[];
 }
 
+// Number of equipment and personnel rows available on the OF297-24 template
+export const FEDERAL_EQUIPMENT_ROWS = getSchemaRowGroup(OF297_SCHEMA, 'equipment').rowCount;
+export const FEDERAL_PERSONNEL_ROWS = getSchemaRowGroup(OF297_SCHEMA, 'personnel').rowCount;
+
+type FederalCheckboxStates = {
+  noMealsLodging: boolean;
+  noMeals: boolean;
+  travel: boolean;
+  noLunch: boolean;
+  hotline: boolean;
+};
+
 /**
- * Maps Federal form data to PDF field names
+ * Gets the PDF field names for a given equipment row (0-based)
  */
-export function mapFederalToPDFFields(
-  formData: FederalFormData,
+export function getFederalEquipmentRowFieldNames(rowIndex: number): Record<'date' | 'start' | 'stop' | 'total' | 'quantity' | 'type' | 'remarks', string> {
+  return getSchemaRowFieldNames(OF297_SCHEMA, 'equipment', rowIndex) as Record<'date' | 'start' | 'stop' | 'total' | 'quantity' | 'type' | 'remarks', string>;
+}
+
+/**
+ * Gets the PDF field names for a given personnel row (0-based)
+ */
+export function getFederalPersonnelRowFieldNames(rowIndex: number): Record<keyof FederalPersonnelEntryForPDF, string> {
+  return getSchemaRowFieldNames(OF297_SCHEMA, 'personnel', rowIndex) as Record<keyof FederalPersonnelEntryForPDF, string>;
+}
+
+/**
+ * Gets the entries written as ticket rows
+ * When the ticket splits overnight time, time after midnight goes on its own row dated the next day
+ */
+export function getFederalTicketRows(
   equipmentEntries: FederalEquipmentEntry[],
   personnelEntries: FederalPersonnelEntry[],
-  checkboxStates?: {
-    noMealsLodging: boolean;
-    noMeals: boolean;
-    travel: boolean;
-    noLunch: boolean;
-    hotline: boolean;
+  splitOvernight: boolean = false,
+  timeZone?: string
+): { equipmentEntries: FederalEquipmentEntry[]; personnelEntries: FederalPersonnelEntry[] } {
+  if (!splitOvernight) {
+    return { equipmentEntries, personnelEntries };
   }
-): Record<string, string> {
-  const fields: Record<string, string> = {};
-  
-  // Auto-calculate totals for entries before mapping
-  const calculatedEquipmentEntries = autoCalculateFederalEquipmentTotals(equipmentEntries);
-  const calculatedPersonnelEntries = autoCalculateFederalPersonnelTotals(personnelEntries);
-  
-  // Debug: Log the incoming form data
-  console.log('Federal Field Mapper: Incoming form data:', formData);
-  console.log('Federal Field Mapper: Equipment entries (with calculated totals):', calculatedEquipmentEntries);
-  console.log('Federal Field Mapper: Personnel entries (with calculated totals):', calculatedPersonnelEntries);
-  console.log('Federal Field Mapper: Looking for Agency Representative and Incident Supervisor fields...');
-  
-  // Map form data to PDF fields using the field mapper
-  // Truncate text to fit better in the PDF fields (increased limits)
-  fields[getFederalPDFFieldName('agreementNumber')] = (formData.agreementNumber || '').substring(0, 50);
-  fields[getFederalPDFFieldName('contractorAgencyName')] = (formData.contractorAgencyName || '').substring(0, 50);
-  fields[getFederalPDFFieldName('resourceOrderNumber')] = (formData.resourceOrderNumber || '').substring(0, 30);
-  fields[getFederalPDFFieldName('incidentName')] = (formData.incidentName || '').substring(0, 50);
-  fields[getFederalPDFFieldName('incidentNumber')] = (formData.incidentNumber || '').substring(0, 30);
-  fields[getFederalPDFFieldName('financialCode')] = (formData.financialCode || '').substring(0, 30);
-  
-  // Equipment fields
-  fields[getFederalPDFFieldName('equipmentMakeModel')] = (formData.equipmentMakeModel || '').substring(0, 50);
-  fields[getFederalPDFFieldName('equipmentType')] = (formData.equipmentType || '').substring(0, 40);
-  fields[getFederalPDFFieldName('serialVinNumber')] = (formData.serialVinNumber || '').substring(0, 40);
-  fields[getFederalPDFFieldName('licenseIdNumber')] = (formData.licenseIdNumber || '').substring(0, 30);
-  fields[getFederalPDFFieldName('transportRetained')] = (formData.transportRetained || '').substring(0, 20);
-  fields[getFederalPDFFieldName('isFirstLastTicket')] = (formData.isFirstLastTicket || '').substring(0, 20);
-  fields[getFederalPDFFieldName('rateType')] = (formData.rateType || '').substring(0, 20);
-  
-  // Personnel fields
-  const agencyRepField = getFederalPDFFieldName('agencyRepresentative');
-  const incidentSupField = getFederalPDFFieldName('incidentSupervisor');
-  
-  // Auto-fill Agency Representative from first personnel name if not already set
-  const firstPersonnelName = calculatedPersonnelEntries.find(entry => entry.name && entry.name.trim() !== '')?.name || '';
-  const agencyRepValue = (formData.agencyRepresentative || firstPersonnelName).substring(0, 50);
-  const incidentSupValue = (formData.incidentSupervisor || '').substring(0, 50);
-  
-  fields[agencyRepField] = agencyRepValue;
-  fields[incidentSupField] = incidentSupValue;
-  
-  console.log('Federal Field Mapper: Agency Representative field:', agencyRepField, 'value:', agencyRepValue);
-  console.log('Federal Field Mapper: Incident Supervisor field:', incidentSupField, 'value:', incidentSupValue);
-  console.log('Federal Field Mapper: First personnel name found:', firstPersonnelName);
-  console.log('Federal Field Mapper: Form data agency rep:', formData.agencyRepresentative);
-  
-  // Remarks field - Combine checkbox remarks with manual remarks for PDF
-  const checkboxRemarks = [];
+  return {
+    equipmentEntries: splitOvernightFederalEquipmentEntries(equipmentEntries, timeZone),
+    personnelEntries: splitOvernightFederalPersonnelEntries(personnelEntries, timeZone)
+  };
+}
+
+// Period types noted in a row's remarks with their hours - work and meal periods need no notation
+const NOTED_PERIOD_TYPES: PeriodType[] = ['HOTLINE', 'TRAVEL', 'STANDBY'];
+
+/**
+ * Adds remark notations for the hotline, travel and standby periods of an entry's typed period list
+ * (e.g. "Travel 2.00, Standby 3.50") ahead of the row's own remarks
+ * Entries without a typed period list are returned unchanged
+ */
+function withPeriodRemarks<T extends FederalEquipmentEntry | FederalPersonnelEntry>(entry: T, timeZone?: string): T {
+  if (!entry.periods) return entry;
+  const totals = calculatePeriodTypeTotals(entry.date, entry.periods, timeZone);
+  const notations = PERIOD_TYPE_OPTIONS
+    .filter(option => NOTED_PERIOD_TYPES.includes(option.value) && totals[option.value] > 0)
+    .map(option => `${option.label} ${(totals[option.value] / 60).toFixed(2)}`);
+  if (notations.length === 0) return entry;
+
+  const remarks = [...notations, entry.remarks?.trim()].filter(Boolean).join(', ');
+  return { ...entry, remarks };
+}
+
+/**
+ * Builds the OF-297 mapping context, auto-calculating entry totals under the ticket's rounding policy
+ * in the incident's time zone, and the quantity of metered entries from their readings
+ * Typed period lists are collapsed to the template's start/stop columns (two pairs per personnel row; the
+ * equipment row shows the first start and last stop), and their hotline, travel and standby time is noted in the row's remarks
+ * Meal remarks are corrected to the meals the rows' shift times make due
+ */
+function buildFederalMappingContext(
+  formData: FederalFormData,
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[],
+  checkboxStates?: FederalCheckboxStates,
+  roundingPolicy?: RoundingPolicy,
+  splitOvernight?: boolean,
+  timeZone?: string
+): MappingContext {
+  const rows = getFederalTicketRows(equipmentEntries, personnelEntries, splitOvernight, timeZone);
+  const calculatedEquipmentEntries = autoCalculateFederalEquipmentTotals(rows.equipmentEntries, roundingPolicy, timeZone)
+    .map(entry => applyMeterReadings(withPeriodColumns(withPeriodRemarks(entry, timeZone), timeZone)));
+  const calculatedPersonnelEntries = autoCalculateFederalPersonnelTotals(rows.personnelEntries, roundingPolicy, timeZone)
+    .map(entry => withPeriodColumns(withPeriodRemarks(entry, timeZone), timeZone));
+
+  // Remarks checkboxes are written to the remarks field ahead of the manual remarks
+  // Once entries have typed period lists, travel and hotline time is noted per row instead of as all-day flags
+  const hasTypedPeriods = [...rows.equipmentEntries, ...rows.personnelEntries].some(entry => entry.periods);
+  const checkboxRemarks: string[] = [];
   if (checkboxStates) {
-    if (checkboxStates.noMealsLodging) checkboxRemarks.push('No Meals/Lodging');
-    if (checkboxStates.noMeals) checkboxRemarks.push('No Meals');
-    if (checkboxStates.travel) checkboxRemarks.push('Travel');
-    if (checkboxStates.noLunch) checkboxRemarks.push('No Lunch');
-    if (checkboxStates.hotline) checkboxRemarks.push('Hotline');
+    const mealsDue = Array.from(getShiftSpans(rows.equipmentEntries, rows.personnelEntries, timeZone).values()).flatMap(getMealsDue);
+    const mealFlags = getSuggestedMealLodgingFlags(mealsDue, getMealLodgingFlags(checkboxStates));
+    if (mealFlags.noMealsLodging) checkboxRemarks.push('No Meals/Lodging');
+    if (mealFlags.noMeals) checkboxRemarks.push('No Meals');
+    if (checkboxStates.travel && !hasTypedPeriods) checkboxRemarks.push('Travel');
+    if (mealFlags.noLunch) checkboxRemarks.push('No Lunch');
+    if (checkboxStates.hotline && !hasTypedPeriods) checkboxRemarks.push('Hotline');
   }
+
+  const context: MappingContext = {
+    form: formData,
+    rows: {
+      equipment: calculatedEquipmentEntries,
+      personnel: calculatedPersonnelEntries
+    }
+  };
+
+  // Personnel rows without a date inherit the first mapped equipment date
+  const mappedEquipmentRows = getSchemaRowEntries(OF297_SCHEMA, context, 'equipment')
+    .map(({ entry }) => entry as FederalEquipmentEntry);
+
+  context.derived = {
+    checkboxRemarks,
+    firstPersonnelName: calculatedPersonnelEntries.find(entry => entry.name && entry.name.trim() !== '')?.name || '',
+    defaultPersonnelDate: mappedEquipmentRows.find(entry => entry.date)?.date || ''
+  };
+
+  return context;
+}
+
+/**
+ * Gets warnings for entries that do not fit in the template's rows
+ * Returns an empty array when everything fits
+ */
+export function getFederalRowOverflowWarnings(
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[]
+): string[] {
+  const warnings: string[] = [];
+  const context: MappingContext = { rows: { equipment: equipmentEntries, personnel: personnelEntries } };
+  const equipmentCount = getSchemaRowEntries(OF297_SCHEMA, context, 'equipment').length;
+  const personnelCount = getSchemaRowEntries(OF297_SCHEMA, context, 'personnel').length;
   
-  // Combine checkbox remarks with manual remarks for PDF
-  const manualRemarks = formData.remarks || '';
-  const allRemarks = [...checkboxRemarks];
-  if (manualRemarks) {
-    allRemarks.push(manualRemarks);
+  if (equipmentCount > FEDERAL_EQUIPMENT_ROWS) {
+    warnings.push(`${equipmentCount} equipment entries but the OF-297 only has ${FEDERAL_EQUIPMENT_ROWS} equipment rows - ${equipmentCount - FEDERAL_EQUIPMENT_ROWS} will continue on additional pages`);
+  }
+  if (personnelCount > FEDERAL_PERSONNEL_ROWS) {
+    warnings.push(`${personnelCount} personnel entries but the OF-297 only has ${FEDERAL_PERSONNEL_ROWS} personnel rows - ${personnelCount - FEDERAL_PERSONNEL_ROWS} will continue on additional pages`);
   }
   
-  fields[getFederalPDFFieldName('remarks')] = allRemarks.join(', ').substring(0, 200);
+  return warnings;
+}
+
+/**
+ * Maps Federal form data to PDF field names
+ * Entries past the template's row capacity go on continuation pages (see mapFederalToPDFPages)
+ */
+export function mapFederalToPDFFields(
+  formData: FederalFormData,
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[],
+  checkboxStates?: FederalCheckboxStates,
+  roundingPolicy?: RoundingPolicy,
+  splitOvernight?: boolean,
+  timeZone?: string
+): Record<string, string> {
+  console.log('Federal Field Mapper: Incoming form data:', formData);
   
-  // General remarks field for equipment breakdown/operating issues
-  // Note: We need to find the correct field name for this from the debug output
-  // fields['topmostSubform[0].Page1[0]._30_Remarks__Provide_details_of_any_equipment_breakdown_or_operating_issues_Include_other_information_as_necessary[0]'] = (formData.remarks || '').substring(0, 200);
+  const context = buildFederalMappingContext(formData, equipmentEntries, personnelEntries, checkboxStates, roundingPolicy, splitOvernight, timeZone);
+  const rows = getFederalTicketRows(equipmentEntries, personnelEntries, splitOvernight, timeZone);
   
-  // Map equipment time entries to PDF fields (only first entry) - using calculated entries
-  if (calculatedEquipmentEntries.length > 0) {
-    const entry = calculatedEquipmentEntries[0]; // Only map the first equipment entry
-    const rowNum = 1; // Always use row 1
-    
-    console.log('🔍 Federal Field Mapper: Processing equipment entry:', entry);
-    
-    fields[`topmostSubform[0].Page1[0]._15_DateRow${rowNum}[0]`] = (entry.date || '').substring(0, 12);
-    
-    // Use start1/stop1 for the first time period (no fallback to legacy fields)
-    const startTime = entry.start1 || '';
-    const stopTime = entry.stop2 || ''; 
-    
-    console.log('🔍 Federal Field Mapper: Time values:', { startTime, stopTime, total: entry.total });
-    
-    fields[`topmostSubform[0].Page1[0]._16_StartRow${rowNum}[0]`] = startTime.substring(0, 8);
-    fields[`topmostSubform[0].Page1[0]._17_StopRow${rowNum}[0]`] = stopTime.substring(0, 8);
-    fields[`topmostSubform[0].Page1[0]._18_TotalRow${rowNum}[0]`] = (entry.total || '').substring(0, 15);
-    fields[`topmostSubform[0].Page1[0]._19_QuantityRow${rowNum}[0]`] = (entry.quantity || '').substring(0, 15);
-    fields[`topmostSubform[0].Page1[0]._20_TypeRow${rowNum}[0]`] = (entry.type || '').substring(0, 20);
-    fields[`topmostSubform[0].Page1[0]._21_Note_Travel_Other_remarksRow${rowNum}[0]`] = (entry.remarks || '').substring(0, 50);
-    
-    console.log('🔍 Federal Field Mapper: Equipment fields mapped:', {
-      date: fields[`topmostSubform[0].Page1[0]._15_DateRow${rowNum}[0]`],
-      start: fields[`topmostSubform[0].Page1[0]._16_StartRow${rowNum}[0]`],
-      stop: fields[`topmostSubform[0].Page1[0]._17_StopRow${rowNum}[0]`],
-      total: fields[`topmostSubform[0].Page1[0]._18_TotalRow${rowNum}[0]`]
-    });
-  }
+  getFederalRowOverflowWarnings(rows.equipmentEntries, rows.personnelEntries).forEach(warning => {
+    console.warn('Federal Field Mapper:', warning);
+  });
   
-  // Map personnel time entries to PDF fields (4 rows) - copy from equipment entries
-  if (calculatedEquipmentEntries.length > 0) {
-    const equipmentEntry = calculatedEquipmentEntries[0]; // Use first equipment entry
-    
-    console.log('🔍 Federal Field Mapper: Processing personnel entries, equipment entry:', equipmentEntry);
-    console.log('🔍 Federal Field Mapper: Personnel entries available:', calculatedPersonnelEntries);
-    
-    // Map to all 4 personnel rows (copying the same equipment data)
-    for (let index = 0; index < 3; index++) {
-      const rowNum = index + 1;
-      const personnelEntry = calculatedPersonnelEntries[index] || {}; // Get personnel entry for name/remarks
-      
-      console.log(`🔍 Federal Field Mapper: Mapping personnel row ${rowNum}, personnel entry:`, personnelEntry);
-      
-      fields[`topmostSubform[0].Page1[0]._22_DateRow${rowNum}[0]`] = (equipmentEntry.date || '').substring(0, 12);
-      fields[`topmostSubform[0].Page1[0]._23_Operator_Name_First__LastRow${rowNum}[0]`] = (personnelEntry.name || '').substring(0, 30);
-      fields[`topmostSubform[0].Page1[0]._24_StartRow${rowNum}[0]`] = (equipmentEntry.start1 || '').substring(0, 8);
-      fields[`topmostSubform[0].Page1[0]._25_StopRow${rowNum}[0]`] = (equipmentEntry.stop1 || '').substring(0, 8);
-      fields[`topmostSubform[0].Page1[0]._26_StartRow${rowNum}[0]`] = (equipmentEntry.start2 || '').substring(0, 8);
-      fields[`topmostSubform[0].Page1[0]._27_StopRow${rowNum}[0]`] = (equipmentEntry.stop2 || '').substring(0, 8);
-      fields[`topmostSubform[0].Page1[0]._28_TotalRow${rowNum}[0]`] = (equipmentEntry.total || '').substring(0, 15);
-      fields[`topmostSubform[0].Page1[0]._29_Note_Travel_Other_remarksRow${rowNum}[0]`] = (personnelEntry.remarks || '').substring(0, 50);
-      
-      console.log(`🔍 Federal Field Mapper: Personnel row ${rowNum} fields mapped:`, {
-        date: fields[`topmostSubform[0].Page1[0]._22_DateRow${rowNum}[0]`],
-        name: fields[`topmostSubform[0].Page1[0]._23_Operator_Name_First__LastRow${rowNum}[0]`],
-        start1: fields[`topmostSubform[0].Page1[0]._24_StartRow${rowNum}[0]`],
-        stop1: fields[`topmostSubform[0].Page1[0]._25_StopRow${rowNum}[0]`],
-        start2: fields[`topmostSubform[0].Page1[0]._26_StartRow${rowNum}[0]`],
-        stop2: fields[`topmostSubform[0].Page1[0]._27_StopRow${rowNum}[0]`],
-        total: fields[`topmostSubform[0].Page1[0]._28_TotalRow${rowNum}[0]`]
-      });
-    }
-  }
+  return mapSchemaToFields(OF297_SCHEMA, context);
+}
+
+/**
+ * Gets the number of OF-297 pages needed to fit every equipment and personnel entry
+ */
+export function getFederalPageCount(
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[]
+): number {
+  return getSchemaPageCount(OF297_SCHEMA, { rows: { equipment: equipmentEntries, personnel: personnelEntries } });
+}
+
+/**
+ * Maps Federal form data to one PDF field map per page
+ *
+ * The first page is the full ticket. Each continuation page repeats the identifying
+ * header fields (agreement number, E-number, incident) and carries the next chunk of
+ * equipment and personnel rows.
+ */
+export function mapFederalToPDFPages(
+  formData: FederalFormData,
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[],
+  checkboxStates?: FederalCheckboxStates,
+  roundingPolicy?: RoundingPolicy,
+  splitOvernight?: boolean,
+  timeZone?: string
+): Record<string, string>[] {
+  console.log('Federal Field Mapper: Incoming form data:', formData);
   
-  console.log('Federal Field Mapper: Final fields:', fields);
+  const context = buildFederalMappingContext(formData, equipmentEntries, personnelEntries, checkboxStates, roundingPolicy, splitOvernight, timeZone);
+  const rows = getFederalTicketRows(equipmentEntries, personnelEntries, splitOvernight, timeZone);
+  
+  getFederalRowOverflowWarnings(rows.equipmentEntries, rows.personnelEntries).forEach(warning => {
+    console.warn('Federal Field Mapper:', warning);
+  });
   
-  return fields;
+  return mapSchemaToPages(OF297_SCHEMA, context);
 }
 
 /**
  * Gets the PDF field name for a given Federal field
  */
 export function getFederalPDFFieldName(field: keyof FederalPDFFields): string {
-  const fieldMappings: Record<keyof FederalPDFFields, string> = {
-    // Form header fields
-    agreementNumber: 'topmostSubform[0].Page1[0]._1_Agreement_Number[0]',
-    contractorAgencyName: 'topmostSubform[0].Page1[0]._2_ContractorAgency_Name[0]',
-    resourceOrderNumber: 'topmostSubform[0].Page1[0]._3_Resource_Order_Number[0]',
-    incidentName: 'topmostSubform[0].Page1[0]._4_Incident_Name[0]',
-    incidentNumber: 'topmostSubform[0].Page1[0]._5_Incident_Number[0]',
-    financialCode: 'topmostSubform[0].Page1[0]._6_Financial_Code[0]',
-    
-    // Equipment fields
-    equipmentMakeModel: 'topmostSubform[0].Page1[0]._7_Equipment_MakeModel[0]',
-    equipmentType: 'topmostSubform[0].Page1[0]._8_Equipment_Type[0]',
-    serialVinNumber: 'topmostSubform[0].Page1[0]._9_SerialVIN_Number[0]',
-    licenseIdNumber: 'topmostSubform[0].Page1[0]._10_LicenseID_Number[0]',
-    transportRetained: 'topmostSubform[0].Page1[0]._12_Transport_Retained_Yes[0]',
-    isFirstLastTicket: 'topmostSubform[0].Page1[0]._13_Mobilization[0]',
-    rateType: 'topmostSubform[0].Page1[0]._14_Hours[0]',
-    
-    // Personnel fields - Verified with debug output
-    agencyRepresentative: 'topmostSubform[0].Page1[0]._31_ContractorAgency_Representative_Printed_Name[0]',
-    incidentSupervisor: 'topmostSubform[0].Page1[0]._33_Incident_Supervisor_Printed_Name__Resource_Order_number[0]',
-    
-    // Remarks field
-    remarks: 'topmostSubform[0].Page1[0]._30_Remarks__Provide_details_of_any_equipment_breakdown_or_operating_issues_Include_other_information_as_necessary[0]',
-    
-    // Time entry arrays - these are handled separately in the mapping function
-    equipmentEntries: 'equipment_entries',
-    personnelEntries: 'personnel_entries',
-  };
-  
-  return fieldMappings[field] || field;
+  return getSchemaFieldName(OF297_SCHEMA, field) || field;
 }
 
 /**
@@ -324,14 +366,24 @@ export async function debugFederalPDFFieldNames(pdfBlob: Blob): Promise<void> {
 
 /**
  * Validates Federal form data for PDF generation
+ *
+ * When the template's field inventory is given, mapped values are also measured against
+ * their fields; textFitIssues lists values that will not fit even at the minimum font size.
+ * These are warnings and do not make the form invalid.
  */
 export function validateFederalFormData(
   formData: FederalFormData, 
   equipmentEntries: FederalEquipmentEntry[], 
-  personnelEntries: FederalPersonnelEntry[]
+  personnelEntries: FederalPersonnelEntry[],
+  templateFields?: TemplateFieldInfo[],
+  checkboxStates?: FederalCheckboxStates,
+  roundingPolicy?: RoundingPolicy,
+  splitOvernight?: boolean,
+  timeZone?: string
 ): {
   isValid: boolean;
   errors: string[];
+  textFitIssues: TextFitIssue[];
 } {
   const errors: string[] = [];
   
@@ -348,7 +400,7 @@ export function validateFederalFormData(
   
   // Time entries validation
   const hasValidEquipmentEntries = equipmentEntries.some(entry => 
-    entry.date && (entry.start || entry.stop || entry.total)
+    entry.date && (entry.start || entry.stop || entry.total || entry.meterBegin || entry.meterEnd)
   );
   const hasValidPersonnelEntries = personnelEntries.some(entry => 
     entry.date && (entry.start1 || entry.stop1 || entry.name)
@@ -358,8 +410,15 @@ export function validateFederalFormData(
     errors.push('At least one time entry (equipment or personnel) with date and work information is required');
   }
   
+  // Text fit - every page uses the same template fields
+  const textFitIssues = templateFields
+    ? mapFederalToPDFPages(formData, equipmentEntries, personnelEntries, checkboxStates, roundingPolicy, splitOvernight, timeZone)
+      .flatMap(pageFields => checkTemplateTextFit(pageFields, templateFields))
+    : [];
+  
   return {
     isValid: errors.length === 0,
-    errors
+    errors,
+    textFitIssues
   };
 }
@@ -0,0 +1,316 @@
+// Mapping Schema Engine
+// Interprets declarative mapping schemas that describe how form data lands on a PDF template
+
+/**
+ * Named value transforms, applied in order before maxLength
+ */
+export type ValueTransform = 'trim' | 'uppercase' | 'lowercase';
+
+/**
+ * Where a value comes from
+ * - a dot path into the mapping context (e.g. 'form.incidentName', 'row.start1')
+ * - a join of several paths; array values are flattened and empty parts dropped
+ *
+ * Inside a row group, '{index}' in a path is replaced with the entry's index in its source array.
+ */
+export type ValueSource = string | { join: string[]; separator?: string };
+
+/**
+ * Condition on a context value
+ * With neither `equals` nor `includes` the condition holds when the value is not empty.
+ */
+export interface FieldCondition {
+  source: string;
+  equals?: string;       // Case-insensitive comparison
+  includes?: string;     // Array value contains this item
+  defaultValue?: string; // Used when the source value is empty
+}
+
+// A text (or dropdown) field
+export interface TextFieldMapping {
+  key: string;                           // Stable name used to look the field up from code
+  pdfField: string;                      // PDF field name; row columns may use the {row} placeholder
+  source?: ValueSource | ValueSource[];  // First non-empty source wins
+  value?: string;                        // Constant value, used instead of source
+  maxLength?: number;                    // Hard cut-off; only for fields the PDF itself limits, text is otherwise fitted at fill time
+  transforms?: ValueTransform[];
+  when?: FieldCondition;                 // Field is left out of the mapping when the condition fails
+}
+
+// A checkbox field - checked when `when` holds, or always when it is omitted
+export interface CheckboxFieldMapping {
+  key: string;
+  pdfField: string;
+  when?: FieldCondition;
+  checkedValue?: string;   // Defaults to 'Yes'
+  uncheckedValue?: string; // Defaults to 'Off'
+}
+
+// A column of a repeating row group
+export interface RowColumnMapping extends TextFieldMapping {
+  rowNumberBase?: number; // Overrides the group's rowNumberBase for oddly named columns
+}
+
+// A repeating group of rows, such as the time entry rows of a shift ticket
+export interface RowGroupMapping {
+  key: string;
+  source: string;            // Context path of the entry array
+  rowCount: number;          // Rows available on one page of the template
+  rowNumberBase?: number;    // Value of {row} for the first row, defaults to 1
+  includeRowWhen?: string[]; // Entries are skipped unless one of these row paths is non-empty
+  columns: RowColumnMapping[];
+}
+
+// Declarative description of a PDF template's fields
+export interface FormMappingSchema {
+  name: string;                   // Used as the log prefix
+  template: string;               // Template file the schema was written for
+  fields: TextFieldMapping[];
+  checkboxes?: CheckboxFieldMapping[];
+  rowGroups?: RowGroupMapping[];
+  continuationFields?: string[];  // Field keys repeated on continuation pages
+}
+
+export type MappingContext = Record<string, unknown>;
+
+/**
+ * Resolves a dot path against the context
+ */
+function resolvePath(context: MappingContext, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, segment) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[segment];
+  }, context);
+}
+
+/**
+ * Converts a resolved value to a string; arrays are joined
+ */
+function valueToString(value: unknown, separator: string = ', '): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.map(item => valueToString(item, separator)).filter(item => item !== '').join(separator);
+  }
+  return String(value);
+}
+
+/**
+ * Resolves a single value source to a string
+ */
+function resolveSource(context: MappingContext, source: ValueSource): string {
+  if (typeof source === 'string') {
+    return valueToString(resolvePath(context, source));
+  }
+  const separator = source.separator ?? ', ';
+  return source.join
+    .map(path => valueToString(resolvePath(context, path), separator))
+    .filter(part => part !== '')
+    .join(separator);
+}
+
+/**
+ * Evaluates a field condition against the context
+ */
+function evaluateCondition(context: MappingContext, condition: FieldCondition): boolean {
+  const rawValue = resolvePath(context, condition.source);
+
+  if (condition.includes !== undefined) {
+    return Array.isArray(rawValue) && rawValue.includes(condition.includes);
+  }
+
+  const value = valueToString(rawValue) || condition.defaultValue || '';
+  if (condition.equals !== undefined) {
+    return value.toUpperCase() === condition.equals.toUpperCase();
+  }
+  return value !== '';
+}
+
+/**
+ * Applies named transforms to a value
+ */
+function applyTransforms(value: string, transforms: ValueTransform[] = []): string {
+  return transforms.reduce((result, transform) => {
+    switch (transform) {
+      case 'trim':
+        return result.trim();
+      case 'uppercase':
+        return result.toUpperCase();
+      case 'lowercase':
+        return result.toLowerCase();
+      default:
+        return result;
+    }
+  }, value);
+}
+
+/**
+ * Resolves a text field mapping to its final value, or null when its condition fails
+ */
+function resolveTextField(context: MappingContext, mapping: TextFieldMapping): string | null {
+  if (mapping.when && !evaluateCondition(context, mapping.when)) {
+    return null;
+  }
+
+  let value = mapping.value ?? '';
+  if (mapping.value === undefined && mapping.source !== undefined) {
+    const sources = Array.isArray(mapping.source) ? mapping.source : [mapping.source];
+    value = sources.map(source => resolveSource(context, source)).find(candidate => candidate !== '') || '';
+  }
+
+  value = applyTransforms(value, mapping.transforms);
+  return mapping.maxLength !== undefined ? value.substring(0, mapping.maxLength) : value;
+}
+
+/**
+ * Replaces the {index} placeholder in a value source
+ */
+function withEntryIndex(source: ValueSource, index: number): ValueSource {
+  if (typeof source === 'string') {
+    return source.replace(/\{index\}/g, String(index));
+  }
+  return { ...source, join: source.join.map(path => path.replace(/\{index\}/g, String(index))) };
+}
+
+/**
+ * Gets a row group by key
+ */
+export function getSchemaRowGroup(schema: FormMappingSchema, groupKey: string): RowGroupMapping {
+  const group = schema.rowGroups?.find(candidate => candidate.key === groupKey);
+  if (!group) {
+    throw new Error(`${schema.name} mapping schema has no row group "${groupKey}"`);
+  }
+  return group;
+}
+
+/**
+ * Gets the PDF field name for a header field or checkbox key
+ */
+export function getSchemaFieldName(schema: FormMappingSchema, key: string): string | undefined {
+  return schema.fields.find(field => field.key === key)?.pdfField
+    ?? schema.checkboxes?.find(checkbox => checkbox.key === key)?.pdfField;
+}
+
+/**
+ * Gets the PDF field names of one row (0-based) of a row group, keyed by column key
+ */
+export function getSchemaRowFieldNames(schema: FormMappingSchema, groupKey: string, rowIndex: number): Record<string, string> {
+  const group = getSchemaRowGroup(schema, groupKey);
+  const rowFields: Record<string, string> = {};
+  group.columns.forEach(column => {
+    const rowNumber = rowIndex + (column.rowNumberBase ?? group.rowNumberBase ?? 1);
+    rowFields[column.key] = column.pdfField.replace(/\{row\}/g, String(rowNumber));
+  });
+  return rowFields;
+}
+
+/**
+ * Gets every PDF field name the schema can write to, across all rows
+ */
+export function getSchemaPDFFieldNames(schema: FormMappingSchema): string[] {
+  const names = [
+    ...schema.fields.map(field => field.pdfField),
+    ...(schema.checkboxes || []).map(checkbox => checkbox.pdfField)
+  ];
+  (schema.rowGroups || []).forEach(group => {
+    for (let rowIndex = 0; rowIndex < group.rowCount; rowIndex++) {
+      names.push(...Object.values(getSchemaRowFieldNames(schema, group.key, rowIndex)));
+    }
+  });
+  return names;
+}
+
+/**
+ * Gets the entries of a row group that will be mapped, with their index in the source array
+ */
+export function getSchemaRowEntries(
+  schema: FormMappingSchema,
+  context: MappingContext,
+  groupKey: string
+): { entry: unknown; index: number }[] {
+  const group = getSchemaRowGroup(schema, groupKey);
+  const entries = resolvePath(context, group.source);
+  if (!Array.isArray(entries)) return [];
+
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !group.includeRowWhen || group.includeRowWhen.some(path =>
+      valueToString(resolvePath({ row: entry }, path)) !== ''
+    ));
+}
+
+/**
+ * Gets the number of pages needed to fit every row group's entries
+ */
+export function getSchemaPageCount(schema: FormMappingSchema, context: MappingContext): number {
+  return Math.max(
+    1,
+    ...(schema.rowGroups || []).map(group =>
+      Math.ceil(getSchemaRowEntries(schema, context, group.key).length / group.rowCount)
+    )
+  );
+}
+
+/**
+ * Maps the context to PDF field values for one page of the template
+ *
+ * Page 0 gets every header field and checkbox; later pages only get the schema's
+ * continuationFields. Each page carries the next rowCount entries of every row group.
+ */
+export function mapSchemaToFields(
+  schema: FormMappingSchema,
+  context: MappingContext,
+  pageIndex: number = 0
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+
+  const headerFields = pageIndex === 0
+    ? schema.fields
+    : schema.fields.filter(field => schema.continuationFields?.includes(field.key));
+  headerFields.forEach(mapping => {
+    const value = resolveTextField(context, mapping);
+    if (value !== null) {
+      fields[mapping.pdfField] = value;
+    }
+  });
+
+  if (pageIndex === 0) {
+    (schema.checkboxes || []).forEach(mapping => {
+      const checked = !mapping.when || evaluateCondition(context, mapping.when);
+      fields[mapping.pdfField] = checked ? (mapping.checkedValue ?? 'Yes') : (mapping.uncheckedValue ?? 'Off');
+    });
+  }
+
+  (schema.rowGroups || []).forEach(group => {
+    const pageEntries = getSchemaRowEntries(schema, context, group.key)
+      .slice(pageIndex * group.rowCount, (pageIndex + 1) * group.rowCount);
+
+    pageEntries.forEach(({ entry, index }, rowIndex) => {
+      const rowFieldNames = getSchemaRowFieldNames(schema, group.key, rowIndex);
+      const rowContext = { ...context, row: entry };
+
+      group.columns.forEach(column => {
+        const value = resolveTextField(rowContext, {
+          ...column,
+          source: Array.isArray(column.source)
+            ? column.source.map(source => withEntryIndex(source, index))
+            : column.source !== undefined ? withEntryIndex(column.source, index) : undefined
+        });
+        if (value !== null) {
+          fields[rowFieldNames[column.key]] = value;
+        }
+      });
+    });
+  });
+
+  console.log(`${schema.name} Field Mapper: Page ${pageIndex + 1} fields:`, fields);
+
+  return fields;
+}
+
+/**
+ * Maps the context to one PDF field map per page needed to fit every row group entry
+ */
+export function mapSchemaToPages(schema: FormMappingSchema, context: MappingContext): Record<string, string>[] {
+  const pageCount = getSchemaPageCount(schema, context);
+  return Array.from({ length: pageCount }, (_, pageIndex) => mapSchemaToFields(schema, context, pageIndex));
+}
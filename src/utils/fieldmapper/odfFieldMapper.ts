@@ -0,0 +1,141 @@
+// ODF Field Mapper
+// Maps ODF form data to PDF field names for the ODF Equipment Shift Ticket (ODF-shift-ticket.pdf)
+
+import type { ODFFormData, ODFTimeEntry } from '../engineTimeDB';
+import { autoCalculateODFTimeTotals } from '../timeCalculations';
+import type { RoundingPolicy } from '../billingRounding';
+import { getSchemaFieldName, getSchemaRowFieldNames, getSchemaRowGroup, mapSchemaToFields } from './mappingSchema';
+import { ODF_SCHEMA } from './schemas/odfSchema';
+
+// Number of time entry rows available on the ODF template
+export const ODF_TIME_ENTRY_ROWS = getSchemaRowGroup(ODF_SCHEMA, 'time').rowCount;
+
+// ODF Time Entry for PDF
+export interface ODFTimeEntryForPDF {
+  date: string;       // Maps to 15 DATE MODAYYRRow
+  equipBegin: string; // Maps to 17 Beg.
+  equipEnd: string;   // Maps to 18 End.
+  name: string;       // Maps to 14 LICENSE VIN OR SERIAL Row (operator name column)
+  job: string;        // Maps to 19. Job.
+  timeBegin: string;  // Maps to 19. Begin.
+  timeEnd: string;    // Maps to 20. End.
+}
+
+// ODF PDF Field Names
+export interface ODFPDFFields {
+  // Form header fields
+  divUnit: string;
+  shift: string;
+  ownerContractor: string;
+  contractNumber: string;
+  resourceReqNo: string;
+  incidentName: string;
+  incidentNumber: string;
+
+  // Resource type checkboxes
+  resourceTypeGovernment: string;
+  resourceTypeContract: string;
+  resourceTypePrivate: string;
+
+  // Double shifted checkboxes
+  doubleShiftedYes: string;
+  doubleShiftedNo: string;
+
+  // Equipment fields
+  equipmentType: string;
+  equipmentMakeModel: string;
+  ownerIdNumber: string;
+  licenseVinSerial: string;
+
+  // Equipment use checkboxes
+  equipmentUseHours: string;
+  equipmentUseMiles: string;
+  equipmentUseDays: string;
+
+  // Remarks field
+  remarks: string;
+
+  // Approval fields
+  odfRepresentative: string;
+  dateSigned: string;
+  postedBy: string;
+
+  // Time entries (array of entries)
+  timeEntries: ODFTimeEntryForPDF[];
+}
+
+/**
+ * Gets the PDF field names for a given ODF time entry row (0-based)
+ */
+export function getODFRowFieldNames(rowIndex: number): Record<keyof ODFTimeEntryForPDF, string> {
+  return getSchemaRowFieldNames(ODF_SCHEMA, 'time', rowIndex) as Record<keyof ODFTimeEntryForPDF, string>;
+}
+
+/**
+ * Maps ODF form data to PDF field names
+ */
+export function mapODFToPDFFields(
+  formData: ODFFormData,
+  timeEntries: ODFTimeEntry[],
+  roundingPolicy?: RoundingPolicy,
+  timeZone?: string
+): Record<string, string> {
+  // Auto-calculate totals for entries before mapping (under the ticket's rounding policy, in the incident's time zone)
+  const calculatedTimeEntries = autoCalculateODFTimeTotals(timeEntries, roundingPolicy, timeZone);
+
+  console.log('ODF Field Mapper: Incoming form data:', formData);
+  console.log('ODF Field Mapper: Time entries (with calculated totals):', calculatedTimeEntries);
+
+  if (calculatedTimeEntries.length > ODF_TIME_ENTRY_ROWS) {
+    console.warn(`ODF Field Mapper: ${calculatedTimeEntries.length} time entries but the template only has ${ODF_TIME_ENTRY_ROWS} rows`);
+  }
+
+  return mapSchemaToFields(ODF_SCHEMA, {
+    form: formData,
+    rows: { time: calculatedTimeEntries }
+  });
+}
+
+/**
+ * Gets the PDF field name for a given ODF field
+ */
+export function getODFPDFFieldName(field: keyof ODFPDFFields): string {
+  return getSchemaFieldName(ODF_SCHEMA, field) || field;
+}
+
+/**
+ * Validates ODF form data for PDF generation
+ */
+export function validateODFFormData(
+  formData: ODFFormData,
+  timeEntries: ODFTimeEntry[]
+): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  // Required fields validation
+  if (!formData.ownerContractor && !formData.contractorAgencyName) errors.push('Owner/Contractor Name is required');
+  if (!formData.contractNumber && !formData.agreementNumber) errors.push('Contract/Agreement Number is required');
+  if (!formData.incidentName) errors.push('Incident Name is required');
+  if (!formData.incidentNumber) errors.push('Incident Number is required');
+
+  // Equipment validation
+  if (!formData.equipmentType && !formData.equipmentMakeModel) {
+    errors.push('Equipment Type or Make/Model is required');
+  }
+
+  // Time entries validation
+  const hasValidTimeEntries = timeEntries.some(entry =>
+    entry.date && (entry.timeBegin || entry.timeEnd || entry.equipBegin || entry.name)
+  );
+  if (!hasValidTimeEntries) {
+    errors.push('At least one time entry with date and work information is required');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
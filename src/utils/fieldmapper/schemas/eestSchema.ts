@@ -0,0 +1,68 @@
+// EEST (Emergency Equipment Shift Ticket) mapping schema for eest-fill.pdf
+//
+// Context: { form, rows: { time } }
+
+import type { FormMappingSchema } from '../mappingSchema';
+
+export const EEST_SCHEMA: FormMappingSchema = {
+  name: 'EEST',
+  template: 'eest-fill.pdf',
+  fields: [
+    // Form header fields
+    { key: 'agreementNumber', pdfField: '1 AGREEMENT NUMBER', source: 'form.agreementNumber' },
+    { key: 'resourceOrderNumber', pdfField: 'RESOURCE ORDER #', source: 'form.resourceOrderNumber' },
+    { key: 'contractorAgencyName', pdfField: '2 CONTRACTOR name', source: 'form.contractorAgencyName' },
+    { key: 'incidentName', pdfField: '3 INCIDENT OR PROJECT NAME', source: 'form.incidentName' },
+    { key: 'incidentNumber', pdfField: '4 INCIDENT NUMBER', source: 'form.incidentNumber' },
+    { key: 'operatorName', pdfField: '5 OPERATOR name', source: 'form.operatorName' },
+
+    // Equipment fields
+    { key: 'equipmentMake', pdfField: '6 EQUIPMENT MAKE', source: 'form.equipmentMake' },
+    { key: 'equipmentModel', pdfField: '7 EQUIPMENT MODEL', source: 'form.equipmentModel' },
+    { key: 'serialNumber', pdfField: '9 SERIAL NUMBER', source: 'form.serialNumber' },
+    { key: 'licenseNumber', pdfField: '10 LICENSE NUMBER', source: 'form.licenseNumber' },
+    // Equipment use dropdown - only hours are billed on the EEST
+    { key: 'equipmentUse', pdfField: 'Dropdown9', value: 'HRS', when: { source: 'form.equipmentUse' } },
+
+    // Remarks - manual remarks, otherwise the selected options and crew members
+    {
+      key: 'remarks',
+      pdfField: '14 REMARKS released down time and cause problems etc',
+      source: ['form.remarks', { join: ['form.remarksOptions', 'form.customRemarks'], separator: '\n' }]
+    },
+
+    // Remarks options without a checkbox on the template are written as text
+    { key: 'noMealsCheckbox', pdfField: 'Text2', value: 'Self Sufficient - No Lodging Provided', when: { source: 'form.remarksOptions', includes: 'Self Sufficient - No Lodging Provided' } },
+    { key: 'travelCheckbox', pdfField: 'Text3', value: 'Travel', when: { source: 'form.remarksOptions', includes: 'Travel' } },
+    { key: 'noLunchCheckbox', pdfField: 'Text4', value: 'No Lunch Taken due to Uncontrolled Fire', when: { source: 'form.remarksOptions', includes: 'No Lunch Taken due to Uncontrolled Fire' } },
+
+    // Signature and date fields
+    { key: 'invoicePostedBy', pdfField: '16 INVOICE POSTED BY Recorders Initials', source: 'form.invoicePostedBy' },
+    { key: 'dateSigned', pdfField: '19 DATE SIGNED', source: 'form.dateSigned' }
+  ],
+  checkboxes: [
+    // Operator and operating supplies are always furnished by the contractor
+    { key: 'contractorCheckbox1', pdfField: 'Check Box1' },
+    { key: 'contractorCheckbox3', pdfField: 'Check Box3' },
+    { key: 'inspectedUnderAgreementCheckbox', pdfField: 'a Inspected and under agreement' },
+
+    // Remarks checkboxes
+    { key: 'hotlineCheckbox', pdfField: 'Check Box2', when: { source: 'form.remarksOptions', includes: 'HOTLINE' } },
+    { key: 'noMealsLodgingCheckbox', pdfField: 'Check Box4', when: { source: 'form.remarksOptions', includes: 'Self Sufficient - No Meals Provided' } }
+  ],
+  rowGroups: [
+    {
+      key: 'time',
+      source: 'rows.time',
+      rowCount: 4,
+      columns: [
+        { key: 'date', pdfField: '12 DATE MODAYRRow{row}', source: 'row.date' },
+        { key: 'start', pdfField: 'STARTRow{row}', source: 'row.start' },
+        { key: 'stop', pdfField: 'STOPRow{row}', source: 'row.stop' },
+        { key: 'work', pdfField: 'WORKRow{row}', source: 'row.work' },
+        // Per-row special selections win over the entry's own special text
+        { key: 'special', pdfField: 'SPECIALRow{row}', source: ['form.specialSelections.{index}', 'row.special'] }
+      ]
+    }
+  ]
+};
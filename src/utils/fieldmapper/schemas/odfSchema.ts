@@ -0,0 +1,68 @@
+// ODF Equipment Shift Ticket mapping schema for ODF-shift-ticket.pdf
+//
+// Context: { form, rows: { time } }
+
+import type { FormMappingSchema } from '../mappingSchema';
+
+export const ODF_SCHEMA: FormMappingSchema = {
+  name: 'ODF',
+  template: 'ODF-shift-ticket.pdf',
+  fields: [
+    // Form header fields - fall back to the shared agreement/contractor fields when the ODF-specific ones are empty
+    { key: 'divUnit', pdfField: '1 DIVUNIT', source: 'form.divUnit' },
+    { key: 'shift', pdfField: '2 SHIFT', source: 'form.shift' },
+    { key: 'ownerContractor', pdfField: '3 OWNERCONTRACTOR name', source: ['form.ownerContractor', 'form.contractorAgencyName'] },
+    { key: 'contractNumber', pdfField: '4 CONTRACTAGREEMENT NUMBER', source: ['form.contractNumber', 'form.agreementNumber'] },
+    { key: 'resourceReqNo', pdfField: '5 RESOURCE REQ NO', source: ['form.resourceReqNo', 'form.resourceOrderNumber'] },
+    { key: 'incidentName', pdfField: '8 INCIDENT NAME', source: 'form.incidentName' },
+    { key: 'incidentNumber', pdfField: '9 INCIDENT NUMBER', source: 'form.incidentNumber' },
+
+    // Equipment fields - boxes 11, 13 and 14 were auto-named after neighbouring labels
+    { key: 'equipmentType', pdfField: '10 EQUIPMENT TYPE', source: 'form.equipmentType' },
+    { key: 'equipmentMakeModel', pdfField: '12 REMARKS released down time and cause problems etc', source: 'form.equipmentMakeModel' },
+    { key: 'ownerIdNumber', pdfField: '14 LICENSE VIN OR SERIAL', source: 'form.ownerIdNumber' },
+    { key: 'licenseVinSerial', pdfField: '14 LICENSE VIN OR SERIAL 16 EQUIPMENT USE check one', source: 'form.licenseVinSerial' },
+
+    // Remarks field (box 12) - selected remarks options, crew remarks and manual remarks
+    { key: 'remarks', pdfField: '12', source: { join: ['form.remarksOptions', 'form.customRemarks', 'form.remarks'], separator: ', ' } },
+
+    // Approval fields
+    { key: 'odfRepresentative', pdfField: '25 DIV SUPODF REP PRINTED NAMERES ORDER', source: 'form.odfRepresentative' },
+    { key: 'dateSigned', pdfField: '26 DATE SIGNED', source: 'form.dateSigned' },
+    { key: 'postedBy', pdfField: '27 POSTED BY', source: 'form.postedBy' }
+  ],
+  checkboxes: [
+    // Resource type checkboxes (box 6)
+    { key: 'resourceTypeGovernment', pdfField: 'GOVERNMENT', when: { source: 'form.resourceType', equals: 'GOVERNMENT' } },
+    { key: 'resourceTypeContract', pdfField: 'CONTRACT', when: { source: 'form.resourceType', equals: 'CONTRACT' } },
+    { key: 'resourceTypePrivate', pdfField: 'PRIVATE', when: { source: 'form.resourceType', equals: 'PRIVATE' } },
+
+    // Double shifted checkboxes (box 7)
+    { key: 'doubleShiftedYes', pdfField: '7y', when: { source: 'form.doubleShifted', equals: 'YES' } },
+    { key: 'doubleShiftedNo', pdfField: '7n', when: { source: 'form.doubleShifted', equals: 'NO' } },
+
+    // Equipment use checkboxes (box 16) - the DAYS box has no name in the template
+    { key: 'equipmentUseHours', pdfField: 'HOURS', when: { source: 'form.equipmentUse', equals: 'HOURS', defaultValue: 'HOURS' } },
+    { key: 'equipmentUseMiles', pdfField: 'MILES', when: { source: 'form.equipmentUse', equals: 'MILES', defaultValue: 'HOURS' } },
+    { key: 'equipmentUseDays', pdfField: 'undefined', when: { source: 'form.equipmentUse', equals: 'DAYS', defaultValue: 'HOURS' } }
+  ],
+  rowGroups: [
+    {
+      key: 'time',
+      source: 'rows.time',
+      rowCount: 6,
+      // Most row fields are numbered from 0; the operator name column was auto-named after
+      // the header label above it, so row 1 is "14 LICENSE VIN OR SERIAL Row3"
+      rowNumberBase: 0,
+      columns: [
+        { key: 'date', pdfField: '15 DATE MODAYYRRow{row}', source: 'row.date', rowNumberBase: 1 },
+        { key: 'equipBegin', pdfField: '17 Beg.{row}', source: 'row.equipBegin' },
+        { key: 'equipEnd', pdfField: '18 End.{row}', source: 'row.equipEnd' },
+        { key: 'name', pdfField: '14 LICENSE VIN OR SERIAL Row{row}', source: 'row.name', rowNumberBase: 3 },
+        { key: 'job', pdfField: '19. Job.{row}', source: 'row.job' },
+        { key: 'timeBegin', pdfField: '19. Begin.{row}', source: 'row.timeBegin' },
+        { key: 'timeEnd', pdfField: '20. End.{row}', source: 'row.timeEnd' }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,82 @@
+// OF-297 (Emergency Equipment Shift Ticket, federal) mapping schema for OF297-24.pdf
+//
+// Context: { form, rows: { equipment, personnel }, derived: { checkboxRemarks, firstPersonnelName, defaultPersonnelDate } }
+
+import type { FormMappingSchema } from '../mappingSchema';
+
+const PAGE = 'topmostSubform[0].Page1[0]';
+
+export const OF297_SCHEMA: FormMappingSchema = {
+  name: 'Federal',
+  template: 'OF297-24.pdf',
+  fields: [
+    // Form header fields
+    { key: 'agreementNumber', pdfField: `${PAGE}._1_Agreement_Number[0]`, source: 'form.agreementNumber' },
+    { key: 'contractorAgencyName', pdfField: `${PAGE}._2_ContractorAgency_Name[0]`, source: 'form.contractorAgencyName' },
+    { key: 'resourceOrderNumber', pdfField: `${PAGE}._3_Resource_Order_Number[0]`, source: 'form.resourceOrderNumber' },
+    { key: 'incidentName', pdfField: `${PAGE}._4_Incident_Name[0]`, source: 'form.incidentName' },
+    { key: 'incidentNumber', pdfField: `${PAGE}._5_Incident_Number[0]`, source: 'form.incidentNumber' },
+    { key: 'financialCode', pdfField: `${PAGE}._6_Financial_Code[0]`, source: 'form.financialCode' },
+
+    // Equipment fields
+    { key: 'equipmentMakeModel', pdfField: `${PAGE}._7_Equipment_MakeModel[0]`, source: 'form.equipmentMakeModel' },
+    { key: 'equipmentType', pdfField: `${PAGE}._8_Equipment_Type[0]`, source: 'form.equipmentType' },
+    { key: 'serialVinNumber', pdfField: `${PAGE}._9_SerialVIN_Number[0]`, source: 'form.serialVinNumber' },
+    { key: 'licenseIdNumber', pdfField: `${PAGE}._10_LicenseID_Number[0]`, source: 'form.licenseIdNumber' },
+    // Boxes 12-14 are checkboxes on the template; the filler checks them for 'Yes'/'HOURS'
+    { key: 'transportRetained', pdfField: `${PAGE}._12_Transport_Retained_Yes[0]`, source: 'form.transportRetained' },
+    { key: 'isFirstLastTicket', pdfField: `${PAGE}._13_Mobilization[0]`, source: 'form.isFirstLastTicket' },
+    { key: 'rateType', pdfField: `${PAGE}._14_Hours[0]`, source: 'form.rateType' },
+
+    // Personnel fields - Agency Representative falls back to the first personnel name
+    {
+      key: 'agencyRepresentative',
+      pdfField: `${PAGE}._31_ContractorAgency_Representative_Printed_Name[0]`,
+      source: ['form.agencyRepresentative', 'derived.firstPersonnelName']
+    },
+    { key: 'incidentSupervisor', pdfField: `${PAGE}._33_Incident_Supervisor_Printed_Name__Resource_Order_number[0]`, source: 'form.incidentSupervisor' },
+
+    // Remarks - checkbox remarks followed by manual remarks
+    {
+      key: 'remarks',
+      pdfField: `${PAGE}._30_Remarks__Provide_details_of_any_equipment_breakdown_or_operating_issues_Include_other_information_as_necessary[0]`,
+      source: { join: ['derived.checkboxRemarks', 'form.remarks'], separator: ', ' }
+    }
+  ],
+  rowGroups: [
+    {
+      key: 'equipment',
+      source: 'rows.equipment',
+      rowCount: 4,
+      includeRowWhen: ['row.start1', 'row.stop1', 'row.start2', 'row.stop2', 'row.start', 'row.stop', 'row.quantity', 'row.type', 'row.remarks'],
+      columns: [
+        { key: 'date', pdfField: `${PAGE}._15_DateRow{row}[0]`, source: 'row.date' },
+        // The equipment row covers the whole shift: first period start to last period stop
+        { key: 'start', pdfField: `${PAGE}._16_StartRow{row}[0]`, source: ['row.start1', 'row.start'] },
+        { key: 'stop', pdfField: `${PAGE}._17_StopRow{row}[0]`, source: ['row.stop2', 'row.stop1', 'row.stop'] },
+        { key: 'total', pdfField: `${PAGE}._18_TotalRow{row}[0]`, source: 'row.total' },
+        { key: 'quantity', pdfField: `${PAGE}._19_QuantityRow{row}[0]`, source: 'row.quantity' },
+        { key: 'type', pdfField: `${PAGE}._20_TypeRow{row}[0]`, source: 'row.type' },
+        { key: 'remarks', pdfField: `${PAGE}._21_Note_Travel_Other_remarksRow{row}[0]`, source: 'row.remarks' }
+      ]
+    },
+    {
+      key: 'personnel',
+      source: 'rows.personnel',
+      rowCount: 4,
+      includeRowWhen: ['row.name', 'row.start1', 'row.stop1', 'row.start2', 'row.stop2', 'row.remarks'],
+      columns: [
+        { key: 'date', pdfField: `${PAGE}._22_DateRow{row}[0]`, source: ['row.date', 'derived.defaultPersonnelDate'] },
+        { key: 'operatorName', pdfField: `${PAGE}._23_Operator_Name_First__LastRow{row}[0]`, source: 'row.name' },
+        { key: 'start1', pdfField: `${PAGE}._24_StartRow{row}[0]`, source: 'row.start1' },
+        { key: 'stop1', pdfField: `${PAGE}._25_StopRow{row}[0]`, source: 'row.stop1' },
+        { key: 'start2', pdfField: `${PAGE}._26_StartRow{row}[0]`, source: 'row.start2' },
+        { key: 'stop2', pdfField: `${PAGE}._27_StopRow{row}[0]`, source: 'row.stop2' },
+        { key: 'total', pdfField: `${PAGE}._28_TotalRow{row}[0]`, source: 'row.total' },
+        { key: 'remarks', pdfField: `${PAGE}._29_Note_Travel_Other_remarksRow{row}[0]`, source: 'row.remarks' }
+      ]
+    }
+  ],
+  // Repeated on continuation pages so each page can be matched to its ticket
+  continuationFields: ['agreementNumber', 'resourceOrderNumber', 'incidentName', 'incidentNumber']
+};
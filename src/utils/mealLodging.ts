@@ -0,0 +1,260 @@
+// Meal & Lodging - meal periods derived from shift times, and the per-incident meal/lodging ledger
+// A meal is due on a date when the crew is on shift through its whole meal window; the No Meals/Lodging,
+// No Meals and No Lunch remarks are recorded per date and checked against the meals actually due
+import type { FederalEquipmentEntry, FederalPersonnelEntry, MealLodgingDay } from './engineTimeDB';
+import {
+  loadTicket,
+  listIncidentTickets,
+  loadFederalFormData,
+  loadAllFederalEquipmentEntries,
+  loadAllFederalPersonnelEntries,
+  loadMealLodgingDays,
+  getIncidentTimeZone,
+  FormType
+} from './engineTimeDB';
+import { getDatedPeriods, getEntryPeriodList, parseTimeOfDay, resolveTimePeriod, splitTimePeriodByDate } from './timePeriods';
+import { mergeEntryHistory } from './workRestCompliance';
+
+// Meal of the day
+export type MealType = 'BREAKFAST' | 'LUNCH' | 'DINNER';
+
+// Meal/lodging remarks of a date
+export type MealLodgingFlags = Pick<MealLodgingDay, 'noMealsLodging' | 'noMeals' | 'noLunch'>;
+
+// Meal windows - a meal is due when the shift covers the whole window
+export const MEAL_WINDOWS: { meal: MealType; label: string; start: string; stop: string }[] = [
+  { meal: 'BREAKFAST', label: 'Breakfast', start: '05:00', stop: '06:00' },
+  { meal: 'LUNCH', label: 'Lunch', start: '11:30', stop: '12:30' },
+  { meal: 'DINNER', label: 'Dinner', start: '17:30', stop: '18:30' }
+];
+
+// Flags of a date nothing was recorded for
+export const NO_MEAL_LODGING_FLAGS: MealLodgingFlags = { noMealsLodging: false, noMeals: false, noLunch: false };
+
+// Time on shift on one date, in minutes since midnight
+export interface ShiftSpan {
+  start: number;
+  stop: number;
+}
+
+// One date of one ticket in the meal/lodging ledger
+export interface MealLodgingLedgerRow {
+  ticketId: number;
+  // Equipment of the ticket, to tell tickets on the same incident apart
+  equipment: string;
+  date: string;
+  // Time on shift, e.g. 07:00-19:00 (blank when no time was entered)
+  shift: string;
+  mealsDue: MealType[];
+  mealsNotProvided: MealType[];
+  lodgingNotProvided: boolean;
+  remarks: string[];
+}
+
+// Meal/lodging ledger of an incident
+export interface MealLodgingLedger {
+  incidentName: string;
+  incidentNumber: string;
+  rows: MealLodgingLedgerRow[];
+}
+
+/**
+ * Sort key for an MM/DD/YY date (YYMMDD), so dates sort chronologically
+ */
+function getDateSortKey(date: string): string {
+  const [month = '', day = '', year = ''] = date.split('/');
+  return `${year.padStart(2, '0')}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+}
+
+/**
+ * Formats minutes since midnight as HH:MM
+ */
+function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Gets the meal/lodging remarks of a ticket's checkbox states
+ */
+export function getMealLodgingFlags(states: MealLodgingFlags): MealLodgingFlags {
+  return { noMealsLodging: states.noMealsLodging, noMeals: states.noMeals, noLunch: states.noLunch };
+}
+
+/**
+ * Gets the time on shift on each date, from the first start to the last stop of every equipment and personnel
+ * period (meal breaks included), with overnight time on the date it was worked
+ */
+export function getShiftSpans(
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[],
+  timeZone?: string
+): Map<string, ShiftSpan> {
+  const spans = new Map<string, ShiftSpan>();
+  [...equipmentEntries, ...personnelEntries].forEach(entry => {
+    getDatedPeriods(entry.date, getEntryPeriodList(entry)).forEach(({ date, start, stop }) => {
+      const period = resolveTimePeriod(date, start, stop, timeZone);
+      if (!period) return;
+      splitTimePeriodByDate(period, timeZone).forEach(segment => {
+        const segmentStart = parseTimeOfDay(segment.start);
+        const segmentStop = parseTimeOfDay(segment.stop);
+        if (segmentStart === null || segmentStop === null) return;
+        const span = spans.get(segment.date);
+        spans.set(segment.date, {
+          start: Math.min(span?.start ?? segmentStart, segmentStart),
+          stop: Math.max(span?.stop ?? segmentStop, segmentStop)
+        });
+      });
+    });
+  });
+  return spans;
+}
+
+/**
+ * Gets the meals due during a shift, in the order of the day
+ */
+export function getMealsDue(span: ShiftSpan | undefined): MealType[] {
+  if (!span) return [];
+  return MEAL_WINDOWS
+    .filter(window => span.start <= parseTimeOfDay(window.start)! && span.stop >= parseTimeOfDay(window.stop)!)
+    .map(window => window.meal);
+}
+
+/**
+ * Gets the label of a meal
+ */
+export function getMealLabel(meal: MealType): string {
+  return MEAL_WINDOWS.find(window => window.meal === meal)?.label || meal;
+}
+
+/**
+ * Corrects a date's meal/lodging remarks to the meals due: No Meals needs a meal due and No Lunch needs lunch due
+ * (and is left out under No Meals or No Meals/Lodging, which already cover it)
+ * Lodging does not depend on shift times, so No Meals/Lodging is kept as entered
+ */
+export function getSuggestedMealLodgingFlags(mealsDue: MealType[], flags: MealLodgingFlags): MealLodgingFlags {
+  const noMeals = flags.noMeals && !flags.noMealsLodging && mealsDue.length > 0;
+  return {
+    noMealsLodging: flags.noMealsLodging,
+    noMeals,
+    noLunch: flags.noLunch && !flags.noMealsLodging && !noMeals && mealsDue.includes('LUNCH')
+  };
+}
+
+/**
+ * Gets the remarks of a date's meal/lodging flags, as written to the ticket
+ */
+export function getMealLodgingRemarks(flags: MealLodgingFlags): string[] {
+  const remarks: string[] = [];
+  if (flags.noMealsLodging) remarks.push('No Meals/Lodging');
+  if (flags.noMeals) remarks.push('No Meals');
+  if (flags.noLunch) remarks.push('No Lunch');
+  return remarks;
+}
+
+/**
+ * Builds the ledger rows of one ticket: every date with time or recorded remarks
+ * Dates without recorded remarks use the ticket's checkbox states, which applied to every date before remarks were kept per date
+ */
+export function buildMealLodgingLedgerRows(
+  ticketId: number,
+  equipment: string,
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[],
+  days: MealLodgingDay[],
+  defaultFlags: MealLodgingFlags,
+  timeZone?: string
+): MealLodgingLedgerRow[] {
+  const spans = getShiftSpans(equipmentEntries, personnelEntries, timeZone);
+  const dates = new Set([...spans.keys(), ...days.map(day => day.date)]);
+
+  return Array.from(dates)
+    .sort((a, b) => getDateSortKey(a).localeCompare(getDateSortKey(b)))
+    .map(date => {
+      const span = spans.get(date);
+      const mealsDue = getMealsDue(span);
+      const day = days.find(other => other.date === date);
+      const flags = getSuggestedMealLodgingFlags(mealsDue, day ? getMealLodgingFlags(day) : defaultFlags);
+      const mealsNotProvided = flags.noMealsLodging || flags.noMeals
+        ? mealsDue
+        : mealsDue.filter(meal => flags.noLunch && meal === 'LUNCH');
+      return {
+        ticketId,
+        equipment,
+        date,
+        shift: span ? `${formatMinutes(span.start)}-${formatMinutes(span.stop)}` : '',
+        mealsDue,
+        mealsNotProvided,
+        lodgingNotProvided: flags.noMealsLodging,
+        remarks: getMealLodgingRemarks(flags)
+      };
+    });
+}
+
+/**
+ * Loads the meal/lodging ledger of a ticket's incident: the ticket (with the entries being edited) and every other
+ * Federal ticket on the incident, each in its incident's time zone
+ */
+export async function loadIncidentMealLodgingLedger(
+  ticketId: number,
+  currentEquipmentEntries: FederalEquipmentEntry[],
+  currentPersonnelEntries: FederalPersonnelEntry[]
+): Promise<MealLodgingLedger> {
+  const ticket = await loadTicket(ticketId);
+  const incidentTickets = ticket?.incidentNumber
+    ? await listIncidentTickets(FormType.FEDERAL, ticket.incidentNumber)
+    : [];
+  const ticketIds = [ticketId, ...incidentTickets.map(other => other.id!).filter(id => id !== ticketId)];
+
+  const rows = await Promise.all(ticketIds.map(async id => {
+    const [idTicket, formData, storedEquipment, storedPersonnel, days, timeZone] = await Promise.all([
+      id === ticketId ? ticket : loadTicket(id),
+      loadFederalFormData(id),
+      loadAllFederalEquipmentEntries(id),
+      loadAllFederalPersonnelEntries(id),
+      loadMealLodgingDays(id),
+      getIncidentTimeZone(id)
+    ]);
+    const isCurrent = id === ticketId;
+    return buildMealLodgingLedgerRows(
+      id,
+      idTicket?.equipment || `Ticket ${id}`,
+      isCurrent ? mergeEntryHistory(storedEquipment, currentEquipmentEntries, id) : storedEquipment,
+      isCurrent ? mergeEntryHistory(storedPersonnel, currentPersonnelEntries, id) : storedPersonnel,
+      days,
+      formData?.checkboxStates ? getMealLodgingFlags(formData.checkboxStates) : NO_MEAL_LODGING_FLAGS,
+      timeZone
+    );
+  }));
+
+  return {
+    incidentName: ticket?.incidentName || '',
+    incidentNumber: ticket?.incidentNumber || '',
+    rows: rows.flat().sort((a, b) => getDateSortKey(a.date).localeCompare(getDateSortKey(b.date)))
+  };
+}
+
+/**
+ * Quotes a CSV value when it holds a comma, quote or line break
+ */
+function toCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats a meal/lodging ledger as CSV, one line per ticket and date, for reimbursement reconciliation
+ */
+export function formatMealLodgingLedgerCsv(ledger: MealLodgingLedger): string {
+  const header = ['Incident Name', 'Incident Number', 'Equipment', 'Date', 'Shift', 'Meals Due', 'Meals Not Provided', 'Lodging Not Provided', 'Remarks'];
+  const lines = ledger.rows.map(row => [
+    ledger.incidentName,
+    ledger.incidentNumber,
+    row.equipment,
+    row.date,
+    row.shift,
+    row.mealsDue.map(getMealLabel).join('; '),
+    row.mealsNotProvided.map(getMealLabel).join('; '),
+    row.lodgingNotProvided ? 'Yes' : 'No',
+    row.remarks.join('; ')
+  ]);
+  return [header, ...lines].map(line => line.map(toCsvValue).join(',')).join('\r\n');
+}
@@ -0,0 +1,95 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createDefaultCheckboxStates, createEmptyFederalFormData } from '../hooks/useFederalFormState';
+import type { FederalEquipmentEntry } from './engineTimeDB';
+import {
+  engineTimeDB,
+  loadAllFederalEquipmentEntries,
+  loadFederalFormData,
+  saveFederalEquipmentEntry,
+  saveFederalFormData
+} from './engineTimeDB';
+import { applyPayloadMerge, buildPayloadPreview, getDefaultMergeChoices, undoPayloadMerge } from './payloadMerge';
+import type { PayloadMergeState } from './payloadMerge';
+
+const EDITED_STATE: PayloadMergeState = {
+  formData: createEmptyFederalFormData(),
+  checkboxStates: createDefaultCheckboxStates(),
+  selectedDate: '07/01/26'
+};
+
+const SIGNATURE = { status: 'VALID' as const, keyId: 'north-ops', issuerName: 'North Ops' };
+
+/**
+ * Builds a blank equipment entry on a date
+ */
+function equipmentEntry(date: string, values: Partial<FederalEquipmentEntry> = {}): FederalEquipmentEntry {
+  return { date, start: '', stop: '', start1: '', stop1: '', start2: '', stop2: '', total: '', quantity: '', type: '', remarks: '', ...values };
+}
+
+beforeEach(async () => {
+  await engineTimeDB.delete();
+  await engineTimeDB.open();
+  await saveFederalFormData({ ...createEmptyFederalFormData(), incidentName: 'Old Fire' });
+  await saveFederalEquipmentEntry(equipmentEntry('07/01/26', { start1: '0700' }));
+});
+
+describe('Federal payload merge', () => {
+  const payload = {
+    incidentName: 'Cedar Creek',
+    agreementNumber: 'AG-1',
+    equipmentEntries: [
+      { date: '07/01/26', start1: '0600', stop1: '1900' },
+      { date: '07/02/26', start1: '0600', stop1: '1800' }
+    ]
+  };
+
+  it('fills blanks and adds new entries by default, keeping what was entered', async () => {
+    const preview = await buildPayloadPreview(payload, EDITED_STATE);
+    expect(getDefaultMergeChoices(preview)).toEqual({
+      'form:agreementNumber': 'ACCEPT',
+      'form:incidentName': 'SKIP',
+      'equipment:0': 'MERGE',
+      'equipment:1': 'ACCEPT'
+    });
+
+    await applyPayloadMerge(preview, getDefaultMergeChoices(preview), '07/01/26');
+
+    expect(await loadFederalFormData()).toMatchObject({ incidentName: 'Old Fire', agreementNumber: 'AG-1' });
+    expect((await loadAllFederalEquipmentEntries()).map(entry => [entry.date, entry.start1, entry.stop1])).toEqual([
+      ['07/01/26', '0700', '1900'],
+      ['07/02/26', '0600', '1800']
+    ]);
+  });
+
+  it('is undone: entries it changed are restored and entries it added removed', async () => {
+    const preview = await buildPayloadPreview(payload, EDITED_STATE);
+    const result = await applyPayloadMerge(preview, { 'form:incidentName': 'ACCEPT', 'equipment:0': 'ACCEPT' }, '07/01/26');
+    await undoPayloadMerge(result.undo);
+
+    expect(await loadFederalFormData()).toMatchObject({ incidentName: 'Old Fire', agreementNumber: '' });
+    expect((await loadAllFederalEquipmentEntries()).map(entry => [entry.date, entry.start1, entry.stop1])).toEqual([
+      ['07/01/26', '0700', '']
+    ]);
+  });
+});
+
+describe('signed payload merge', () => {
+  it('takes the issued fields of a validly signed link and locks them', async () => {
+    const preview = await buildPayloadPreview({ incidentName: 'Cedar Creek', remarks: 'Staged', signature: SIGNATURE }, EDITED_STATE);
+    const result = await applyPayloadMerge(preview, getDefaultMergeChoices(preview), '07/01/26');
+
+    expect(result.formData).toMatchObject({ incidentName: 'Cedar Creek', remarks: 'Staged', issuedBy: 'North Ops', issuedFields: ['incidentName'] });
+  });
+
+  it('keeps locked fields from an unsigned link, even when picked', async () => {
+    const signed = await buildPayloadPreview({ incidentName: 'Cedar Creek', signature: SIGNATURE }, EDITED_STATE);
+    await applyPayloadMerge(signed, getDefaultMergeChoices(signed), '07/01/26');
+
+    const unsigned = await buildPayloadPreview({ incidentName: 'Other Fire' }, EDITED_STATE);
+    expect(unsigned.changes).toEqual([expect.objectContaining({ key: 'form:incidentName', locked: true, defaultChoice: 'SKIP' })]);
+
+    const result = await applyPayloadMerge(unsigned, { 'form:incidentName': 'ACCEPT' }, '07/01/26');
+    expect(result.formData.incidentName).toBe('Cedar Creek');
+  });
+});
@@ -0,0 +1,855 @@
+// Payload Merge - a preview of what a payload would change on a Federal, EEST or ODF ticket, applying only the
+// changes picked, and undoing them
+// Header fields, checkbox states and the date are taken from the link or kept one by one (remarks can also be
+// appended). A payload entry is matched to the stored entry it would overwrite: the link's values can replace the
+// stored ones, only fill its blank fields, or be skipped. Blank values in the link never clear stored values.
+import type {
+  EESTFormData,
+  EESTTimeEntry,
+  FederalEquipmentEntry,
+  FederalFormData,
+  FederalPersonnelEntry,
+  ODFFormData
+} from './engineTimeDB';
+import {
+  findEquipmentProfile,
+  getActiveTicketId,
+  loadAllFederalEquipmentEntries,
+  loadAllFederalPersonnelEntries,
+  loadFederalFormData,
+  saveFederalEquipmentEntry,
+  saveFederalPersonnelEntry,
+  deleteFederalEquipmentEntry,
+  deleteFederalPersonnelEntry,
+  saveFederalFormData,
+  loadEESTFormData,
+  saveEESTFormData,
+  loadAllEESTTimeEntries,
+  saveEESTTimeEntry,
+  deleteEESTTimeEntry,
+  loadODFFormData,
+  saveODFFormData,
+  FormType
+} from './engineTimeDB';
+import type { EESTPayload, FederalPayload, ODFPayload, TicketPayload } from './payloadSystem';
+import { getPayloadForm } from './payloadSystem';
+import { applyProfileToEESTForm, applyProfileToFederalForm, applyProfileToODFForm } from './equipmentProfiles';
+import { METER_TYPE_OPTIONS } from './equipmentMeter';
+import type { EntryPeriod } from './timePeriods';
+import { PERIOD_TYPE_OPTIONS } from './timePeriods';
+import type { IssuedFormData } from './payloadSigning';
+import { getIssuedFields, isIssuedField } from './payloadSigning';
+import { EEST_TIME_ENTRY_ROWS } from './fieldmapper/eestFieldMapper';
+
+// What to do with one change: take the link's value, keep the current one, or combine them
+export type PayloadMergeChoice = 'ACCEPT' | 'SKIP' | 'MERGE';
+
+// Choices picked in the preview, keyed by change
+export type PayloadMergeChoices = Record<string, PayloadMergeChoice>;
+
+// Part of the ticket a change is in
+export type PayloadChangeSection = 'FORM' | 'CHECKBOX' | 'DATE' | 'EQUIPMENT' | 'PERSONNEL' | 'TIME';
+
+export type FederalCheckboxStates = NonNullable<FederalFormData['checkboxStates']>;
+
+// A value the payload would change
+export interface PayloadChange {
+  key: string;
+  section: PayloadChangeSection;
+  label: string;
+  // Values that differ - one for a field, one per differing field of an entry
+  differences: { label: string; current: string; incoming: string }[];
+  // Field filled by a signed link, which an unsigned link cannot change
+  locked: boolean;
+  options: { value: PayloadMergeChoice; label: string }[];
+  defaultChoice: PayloadMergeChoice;
+}
+
+// Payload entry and the stored entry it would overwrite (none for a new entry)
+interface PayloadEntryMatch<T> {
+  key: string;
+  current?: T;
+  incoming: T;
+}
+
+// Changes a payload would make, as the preview lists them (whatever the ticket form)
+export interface PayloadChangeList {
+  payload: TicketPayload;
+  changes: PayloadChange[];
+  // Payload values that are the same as the current ones
+  unchangedCount: number;
+}
+
+// What a payload would change on the current Federal ticket
+export interface PayloadPreview extends PayloadChangeList {
+  payload: FederalPayload;
+  ticketId: number;
+  // Ticket the changes are compared with
+  base: PayloadMergeState;
+  incomingForm: FederalFormData;
+  equipment: PayloadEntryMatch<FederalEquipmentEntry>[];
+  personnel: PayloadEntryMatch<FederalPersonnelEntry>[];
+}
+
+// State of the ticket when the preview was made
+export interface PayloadMergeState {
+  formData: FederalFormData;
+  checkboxStates: FederalCheckboxStates;
+  selectedDate: string;
+}
+
+// Everything needed to put the ticket back as it was before a merge
+export interface PayloadMergeUndo extends PayloadMergeState {
+  ticketId: number;
+  // Stored entries the merge changed, as they were
+  equipmentBefore: FederalEquipmentEntry[];
+  personnelBefore: FederalPersonnelEntry[];
+  // Entries the merge added
+  addedEquipmentIds: number[];
+  addedPersonnelIds: number[];
+}
+
+// Ticket state after a merge, with its undo
+export interface PayloadMergeResult extends PayloadMergeState {
+  undo: PayloadMergeUndo;
+}
+
+// What an EEST payload would change on the current EEST ticket
+export interface EESTPayloadPreview extends PayloadChangeList {
+  payload: EESTPayload;
+  ticketId: number;
+  // Header data the changes are compared with
+  base: EESTFormData;
+  incomingForm: EESTFormData;
+  timeEntries: PayloadEntryMatch<EESTTimeEntry>[];
+  // Stored rows left blank, filled by new time entries before rows are added
+  blankTimeEntries: EESTTimeEntry[];
+}
+
+// Everything needed to put an EEST ticket back as it was before a merge
+export interface EESTPayloadMergeUndo {
+  ticketId: number;
+  formData: EESTFormData;
+  // Stored time entries the merge changed, as they were
+  timeEntriesBefore: EESTTimeEntry[];
+  // Time entries the merge added
+  addedTimeEntryIds: number[];
+}
+
+// What an ODF payload would change on the current ODF ticket (header data only; ODF links carry no time entries)
+export interface ODFPayloadPreview extends PayloadChangeList {
+  payload: ODFPayload;
+  ticketId: number;
+  base: ODFFormData;
+  incomingForm: ODFFormData;
+}
+
+// Everything needed to put an ODF ticket back as it was before a merge
+export interface ODFPayloadMergeUndo {
+  ticketId: number;
+  formData: ODFFormData;
+}
+
+// EEST or ODF header data after a merge, with its undo
+export interface FormPayloadMergeResult<F, U> {
+  formData: F;
+  undo: U;
+}
+
+// Header fields a payload can fill, with their labels
+const FORM_FIELD_LABELS: { field: keyof FederalFormData; label: string }[] = [
+  { field: 'agreementNumber', label: 'Agreement Number' },
+  { field: 'contractorAgencyName', label: 'Contractor/Agency Name' },
+  { field: 'resourceOrderNumber', label: 'E-Number' },
+  { field: 'incidentName', label: 'Incident Name' },
+  { field: 'incidentNumber', label: 'Incident Number' },
+  { field: 'financialCode', label: 'Financial Code' },
+  { field: 'equipmentMakeModel', label: 'Equipment Model' },
+  { field: 'equipmentType', label: 'Equipment Type' },
+  { field: 'serialVinNumber', label: 'VIN Number' },
+  { field: 'licenseIdNumber', label: 'License Plate' },
+  { field: 'transportRetained', label: 'Transport Retained?' },
+  { field: 'isFirstLastTicket', label: 'First/Last Ticket?' },
+  { field: 'rateType', label: 'Rate Type' },
+  { field: 'agencyRepresentative', label: 'Contractor/Agency Representative' },
+  { field: 'incidentSupervisor', label: 'Incident Supervisor' },
+  { field: 'remarks', label: 'Remarks' }
+];
+
+const EEST_FORM_FIELD_LABELS: { field: keyof EESTFormData; label: string }[] = [
+  { field: 'agreementNumber', label: 'Agreement Number' },
+  { field: 'contractorAgencyName', label: 'Contractor Name' },
+  { field: 'resourceOrderNumber', label: 'Resource Order #' },
+  { field: 'incidentName', label: 'Incident or Project Name' },
+  { field: 'incidentNumber', label: 'Incident Number' },
+  { field: 'operatorName', label: 'Operator Name' },
+  { field: 'equipmentMake', label: 'Equipment Make' },
+  { field: 'equipmentModel', label: 'Equipment Model' },
+  { field: 'serialNumber', label: 'Serial Number' },
+  { field: 'licenseNumber', label: 'License Number' },
+  { field: 'equipmentStatus', label: 'Equipment Status' },
+  { field: 'invoicePostedBy', label: 'Invoice Posted By' },
+  { field: 'remarks', label: 'Remarks' }
+];
+
+const ODF_FORM_FIELD_LABELS: { field: keyof ODFFormData; label: string }[] = [
+  { field: 'divUnit', label: 'Div/Unit' },
+  { field: 'shift', label: 'Shift' },
+  { field: 'ownerContractor', label: 'Owner/Contractor Name' },
+  { field: 'contractNumber', label: 'Contract/Agreement Number' },
+  { field: 'resourceReqNo', label: 'Resource Req No.' },
+  { field: 'resourceType', label: 'Resource Type' },
+  { field: 'doubleShifted', label: 'Double Shifted' },
+  { field: 'agreementNumber', label: 'Agreement Number' },
+  { field: 'contractorAgencyName', label: 'Contractor/Agency Name' },
+  { field: 'resourceOrderNumber', label: 'Resource Order Number' },
+  { field: 'incidentName', label: 'Incident Name' },
+  { field: 'incidentNumber', label: 'Incident Number' },
+  { field: 'equipmentType', label: 'Equipment Type' },
+  { field: 'equipmentMakeModel', label: 'Make/Model' },
+  { field: 'ownerIdNumber', label: 'Owner ID Number' },
+  { field: 'licenseVinSerial', label: 'License/VIN or Serial' },
+  { field: 'equipmentUse', label: 'Equipment Use' },
+  { field: 'odfRepresentative', label: 'Div Sup/ODF Rep' },
+  { field: 'postedBy', label: 'Posted By' },
+  { field: 'remarks', label: 'Remarks' }
+];
+
+// Equipment use values of the ODF form
+const ODF_EQUIPMENT_USES = ['HOURS', 'MILES', 'DAYS'];
+
+const CHECKBOX_LABELS: { field: keyof FederalCheckboxStates; label: string }[] = [
+  { field: 'noMealsLodging', label: 'No Meals/Lodging' },
+  { field: 'noMeals', label: 'No Meals' },
+  { field: 'travel', label: 'Travel' },
+  { field: 'noLunch', label: 'No Lunch' },
+  { field: 'hotline', label: 'Hotline' }
+];
+
+// Entry fields a payload carries, with their labels
+const EQUIPMENT_FIELD_LABELS: { field: keyof FederalEquipmentEntry; label: string }[] = [
+  { field: 'start', label: 'Start' },
+  { field: 'stop', label: 'Stop' },
+  { field: 'start1', label: 'Start 1' },
+  { field: 'stop1', label: 'Stop 1' },
+  { field: 'start2', label: 'Start 2' },
+  { field: 'stop2', label: 'Stop 2' },
+  { field: 'periods', label: 'Periods' },
+  { field: 'total', label: 'Total' },
+  { field: 'meterType', label: 'Meter' },
+  { field: 'meterBegin', label: 'Meter Begin' },
+  { field: 'meterEnd', label: 'Meter End' },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'type', label: 'Type' },
+  { field: 'remarks', label: 'Remarks' }
+];
+
+const PERSONNEL_FIELD_LABELS: { field: keyof FederalPersonnelEntry; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'start1', label: 'Start 1' },
+  { field: 'stop1', label: 'Stop 1' },
+  { field: 'start2', label: 'Start 2' },
+  { field: 'stop2', label: 'Stop 2' },
+  { field: 'periods', label: 'Periods' },
+  { field: 'total', label: 'Total' },
+  { field: 'remarks', label: 'Remarks' }
+];
+
+const EEST_TIME_ENTRY_FIELD_LABELS: { field: keyof EESTTimeEntry; label: string }[] = [
+  { field: 'start', label: 'Start' },
+  { field: 'stop', label: 'Stop' },
+  { field: 'work', label: 'Work' },
+  { field: 'special', label: 'Special' }
+];
+
+/**
+ * Maps the typed periods of a payload entry, dropping periods of an unknown type
+ */
+function mapPayloadPeriods(periods?: Array<{ type?: string; start?: string; stop?: string }>): EntryPeriod[] | undefined {
+  if (!periods) return undefined;
+  return periods
+    .filter(period => PERIOD_TYPE_OPTIONS.some(option => option.value === period.type))
+    .map(period => ({ type: period.type as EntryPeriod['type'], start: period.start || '', stop: period.stop || '' }));
+}
+
+/**
+ * Maps a payload equipment entry to an equipment entry
+ */
+export function mapPayloadEquipmentEntry(entry: NonNullable<FederalPayload['equipmentEntries']>[number]): FederalEquipmentEntry {
+  return {
+    date: entry.date || '',
+    start: entry.start || '',
+    stop: entry.stop || '',
+    start1: entry.start1 || '',
+    stop1: entry.stop1 || '',
+    start2: entry.start2 || '',
+    stop2: entry.stop2 || '',
+    total: entry.total || '',
+    meterType: METER_TYPE_OPTIONS.find(option => option.value === entry.meterType)?.value,
+    meterBegin: entry.meterBegin || '',
+    meterEnd: entry.meterEnd || '',
+    quantity: entry.quantity || '',
+    type: entry.type || '',
+    remarks: entry.remarks || '',
+    periods: mapPayloadPeriods(entry.periods)
+  };
+}
+
+/**
+ * Maps a payload personnel entry to a personnel entry
+ */
+export function mapPayloadPersonnelEntry(entry: NonNullable<FederalPayload['personnelEntries']>[number]): FederalPersonnelEntry {
+  return {
+    date: entry.date || '',
+    name: entry.name || '',
+    start1: entry.start1 || '',
+    stop1: entry.stop1 || '',
+    start2: entry.start2 || '',
+    stop2: entry.stop2 || '',
+    total: entry.total || '',
+    remarks: entry.remarks || '',
+    periods: mapPayloadPeriods(entry.periods)
+  };
+}
+
+/**
+ * Maps a payload EEST time entry to a time entry
+ */
+export function mapPayloadEESTTimeEntry(entry: NonNullable<EESTPayload['timeEntries']>[number]): EESTTimeEntry {
+  return {
+    date: entry.date || '',
+    start: entry.start || '',
+    stop: entry.stop || '',
+    work: entry.work || '',
+    special: entry.special || ''
+  };
+}
+
+/**
+ * Checks whether an EEST time row was left blank
+ */
+function isBlankEESTTimeEntry(entry: EESTTimeEntry): boolean {
+  return !entry.date && EEST_TIME_ENTRY_FIELD_LABELS.every(({ field }) => !entry[field]);
+}
+
+/**
+ * Checks whether a value was left blank
+ */
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Formats a field value for the preview
+ */
+function formatValue(value: unknown): string {
+  if (isBlank(value)) return '';
+  if (typeof value === 'boolean') return value ? 'Checked' : 'Unchecked';
+  if (Array.isArray(value)) {
+    return (value as EntryPeriod[])
+      .map(period => `${PERIOD_TYPE_OPTIONS.find(option => option.value === period.type)?.label || period.type} ${period.start}-${period.stop}`)
+      .join(', ');
+  }
+  return String(value);
+}
+
+/**
+ * Gets the fields of a payload entry that differ from the entry it would overwrite (blank payload values are ignored)
+ */
+function getEntryDifferences<T extends object>(
+  current: T | undefined,
+  incoming: T,
+  fields: { field: keyof T; label: string }[]
+): PayloadChange['differences'] {
+  return fields
+    .filter(({ field }) => !isBlank(incoming[field]) && formatValue(incoming[field]) !== formatValue(current?.[field]))
+    .map(({ field, label }) => ({ label, current: formatValue(current?.[field]), incoming: formatValue(incoming[field]) }));
+}
+
+/**
+ * Combines a stored entry with a payload entry: the payload's values replace the stored ones (ACCEPT) or only fill
+ * its blank fields (MERGE); blank payload values are left out either way
+ */
+function mergeEntry<T extends object>(current: T, incoming: T, choice: PayloadMergeChoice): T {
+  const merged = { ...current } as Record<string, unknown>;
+  Object.entries(incoming).forEach(([field, value]) => {
+    if (isBlank(value)) return;
+    if (choice === 'ACCEPT' || isBlank(merged[field])) {
+      merged[field] = value;
+    }
+  });
+  return merged as T;
+}
+
+/**
+ * Sort key for an MM/DD/YY date (YYMMDD), so dates sort chronologically
+ */
+function getDateSortKey(date: string): string {
+  const [month = '', day = '', year = ''] = date.split('/');
+  return `${year.padStart(2, '0')}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+}
+
+/**
+ * Matches payload entries to the stored entries of their dates
+ * Personnel are matched by name on the date; equipment (and unnamed personnel) by their order on the date
+ */
+function matchPayloadEntries<T extends { date: string; name?: string }>(
+  section: 'equipment' | 'personnel' | 'time',
+  stored: T[],
+  incoming: T[]
+): PayloadEntryMatch<T>[] {
+  const used = new Set<T>();
+  return incoming.map((entry, index) => {
+    const name = entry.name?.trim().toLowerCase();
+    const current = stored.find(candidate =>
+      candidate.date === entry.date &&
+      !used.has(candidate) &&
+      (!name || candidate.name?.trim().toLowerCase() === name)
+    );
+    if (!current) {
+      return { key: `${section}:${index}`, incoming: entry };
+    }
+    used.add(current);
+    // A person matched by name keeps the spelling already entered
+    return { key: `${section}:${index}`, current, incoming: name ? { ...entry, name: current.name } : entry };
+  });
+}
+
+/**
+ * Gets the header field changes of a payload: the fields whose value from the link differs from the current one
+ * Fields locked by a signed link can only be changed by another validly signed link; remarks can be appended to
+ */
+function getFormFieldChanges<F extends IssuedFormData>(
+  current: F,
+  incoming: F,
+  fields: { field: keyof F; label: string }[],
+  isIssued: boolean
+): { changes: PayloadChange[]; unchangedCount: number } {
+  const changes: PayloadChange[] = [];
+  let unchangedCount = 0;
+  fields.forEach(({ field, label }) => {
+    const currentValue = formatValue(current[field]);
+    const incomingValue = formatValue(incoming[field]);
+    if (!incomingValue) return;
+    if (incomingValue === currentValue) {
+      unchangedCount++;
+      return;
+    }
+    const locked = !isIssued && isIssuedField(current, String(field));
+    const canMerge = field === 'remarks' && !!currentValue;
+    changes.push({
+      key: `form:${String(field)}`,
+      section: 'FORM',
+      label,
+      differences: [{ label, current: currentValue, incoming: incomingValue }],
+      locked,
+      options: locked
+        ? [{ value: 'SKIP', label: 'Keep (locked)' }]
+        : [
+          { value: 'ACCEPT', label: 'Use link' },
+          ...(canMerge ? [{ value: 'MERGE' as const, label: 'Append' }] : []),
+          { value: 'SKIP', label: 'Keep current' }
+        ],
+      defaultChoice: locked ? 'SKIP' : canMerge ? 'MERGE' : !currentValue || isIssued ? 'ACCEPT' : 'SKIP'
+    });
+  });
+  return { changes, unchangedCount };
+}
+
+/**
+ * Gets the entry changes of a payload, in date order
+ * New entries are only offered while the ticket has free rows (unlimited unless given)
+ */
+function getEntryChanges<T extends { date: string }>(
+  section: PayloadChangeSection,
+  matches: PayloadEntryMatch<T>[],
+  fields: { field: keyof T; label: string }[],
+  getLabel: (entry: T, index: number) => string,
+  freeRows = Infinity
+): { changes: PayloadChange[]; unchangedCount: number } {
+  const changes: PayloadChange[] = [];
+  let unchangedCount = 0;
+  let rowsLeft = freeRows;
+  matches
+    .map((match, index) => ({ match, label: getLabel(match.incoming, index) }))
+    .sort((a, b) => getDateSortKey(a.match.incoming.date).localeCompare(getDateSortKey(b.match.incoming.date)))
+    .forEach(({ match, label }) => {
+      const differences = getEntryDifferences(match.current, match.incoming, fields);
+      if (differences.length === 0) {
+        unchangedCount++;
+        return;
+      }
+      if (match.current) {
+        changes.push({
+          key: match.key,
+          section,
+          label,
+          differences,
+          locked: false,
+          options: [
+            { value: 'ACCEPT', label: 'Use link' },
+            { value: 'MERGE', label: 'Fill blanks only' },
+            { value: 'SKIP', label: 'Keep current' }
+          ],
+          defaultChoice: 'MERGE'
+        });
+        return;
+      }
+      const fits = rowsLeft > 0;
+      if (fits) rowsLeft--;
+      changes.push({
+        key: match.key,
+        section,
+        label: fits ? `${label} (new)` : `${label} (no free row)`,
+        differences,
+        locked: false,
+        options: fits ? [{ value: 'ACCEPT', label: 'Add' }, { value: 'SKIP', label: 'Skip' }] : [{ value: 'SKIP', label: 'Skip' }],
+        defaultChoice: fits ? 'ACCEPT' : 'SKIP'
+      });
+    });
+  return { changes, unchangedCount };
+}
+
+/**
+ * Gets the header values a payload would give a form: its equipment profile first, then the fields it carries
+ */
+async function getIncomingForm<F extends object>(
+  current: F,
+  payload: TicketPayload,
+  fields: { field: keyof F; label: string }[],
+  applyProfile: (form: F, profile: NonNullable<Awaited<ReturnType<typeof findEquipmentProfile>>>) => F
+): Promise<F> {
+  let incoming: F = { ...current };
+  if (payload.equipmentProfile) {
+    const profile = await findEquipmentProfile(payload.equipmentProfile);
+    if (profile) {
+      incoming = applyProfile(incoming, profile);
+    } else {
+      console.warn('Equipment profile from payload not found:', payload.equipmentProfile);
+    }
+  }
+  const values = payload as unknown as Record<string, unknown>;
+  fields.forEach(({ field }) => {
+    if (values[field as string]) {
+      (incoming as Record<string, unknown>)[field as string] = values[field as string];
+    }
+  });
+  return incoming;
+}
+
+/**
+ * Gets the choice picked for a change (locked changes and changes not in the preview are skipped)
+ */
+function getMergeChoice(preview: PayloadChangeList, choices: PayloadMergeChoices, key: string): PayloadMergeChoice {
+  const change = preview.changes.find(candidate => candidate.key === key);
+  if (!change || change.locked) return 'SKIP';
+  return choices[key] ?? change.defaultChoice;
+}
+
+/**
+ * Applies the picked header field changes of a preview to the current header data
+ * A validly signed link locks the issued fields that were taken, in addition to the fields already locked
+ */
+function mergeFormFields<F extends IssuedFormData>(
+  preview: PayloadChangeList,
+  choices: PayloadMergeChoices,
+  current: F,
+  incoming: F,
+  fields: { field: keyof F; label: string }[]
+): F {
+  const formData: F = { ...current };
+  const acceptedFields: string[] = [];
+  fields.forEach(({ field }) => {
+    const choice = getMergeChoice(preview, choices, `form:${String(field)}`);
+    if (choice === 'SKIP') return;
+    const incomingValue = String(incoming[field] ?? '');
+    const currentValue = String(current[field] ?? '');
+    (formData as Record<string, unknown>)[field as string] = choice === 'MERGE' ? `${currentValue}, ${incomingValue}` : incomingValue;
+    acceptedFields.push(String(field));
+  });
+
+  const issuedFields = preview.payload.signature?.status === 'VALID'
+    ? getIssuedFields(getPayloadForm(preview.payload), preview.payload).filter(field => acceptedFields.includes(field))
+    : [];
+  if (issuedFields.length > 0) {
+    formData.issuedBy = preview.payload.signature!.issuerName;
+    formData.issuedFields = Array.from(new Set([...(current.issuedFields || []), ...issuedFields]));
+  }
+  return formData;
+}
+
+/**
+ * Builds the preview of what a payload would change on the active Federal ticket
+ * The stored ticket is compared, so unsaved edits are saved first; the state being edited stands in for a ticket
+ * with nothing stored yet
+ */
+export async function buildPayloadPreview(payload: FederalPayload, editedState: PayloadMergeState): Promise<PayloadPreview> {
+  const ticketId = await getActiveTicketId(FormType.FEDERAL);
+  const storedForm = await loadFederalFormData(ticketId);
+  const state: PayloadMergeState = {
+    formData: storedForm ?? editedState.formData,
+    checkboxStates: storedForm?.checkboxStates ?? editedState.checkboxStates,
+    selectedDate: editedState.selectedDate
+  };
+  const isIssued = payload.signature?.status === 'VALID';
+
+  const incomingForm = await getIncomingForm(state.formData, payload, FORM_FIELD_LABELS, applyProfileToFederalForm);
+  const formChanges = getFormFieldChanges(state.formData, incomingForm, FORM_FIELD_LABELS, isIssued);
+  const changes = formChanges.changes;
+  let unchangedCount = formChanges.unchangedCount;
+
+  CHECKBOX_LABELS.forEach(({ field, label }) => {
+    const value = payload[field];
+    if (value === undefined) return;
+    if (value === state.checkboxStates[field]) {
+      unchangedCount++;
+      return;
+    }
+    changes.push({
+      key: `checkbox:${field}`,
+      section: 'CHECKBOX',
+      label,
+      differences: [{ label, current: formatValue(state.checkboxStates[field]), incoming: formatValue(value) }],
+      locked: false,
+      options: [{ value: 'ACCEPT', label: 'Use link' }, { value: 'SKIP', label: 'Keep current' }],
+      defaultChoice: isIssued ? 'ACCEPT' : 'SKIP'
+    });
+  });
+
+  if (payload.date) {
+    if (payload.date === state.selectedDate) {
+      unchangedCount++;
+    } else {
+      changes.push({
+        key: 'date',
+        section: 'DATE',
+        label: 'Selected Date',
+        differences: [{ label: 'Date', current: state.selectedDate, incoming: payload.date }],
+        locked: false,
+        options: [{ value: 'ACCEPT', label: 'Go to date' }, { value: 'SKIP', label: 'Stay' }],
+        defaultChoice: 'ACCEPT'
+      });
+    }
+  }
+
+  const [storedEquipment, storedPersonnel] = await Promise.all([
+    loadAllFederalEquipmentEntries(ticketId),
+    loadAllFederalPersonnelEntries(ticketId)
+  ]);
+  const equipment = matchPayloadEntries('equipment', storedEquipment, (payload.equipmentEntries || []).map(mapPayloadEquipmentEntry));
+  const personnel = matchPayloadEntries('personnel', storedPersonnel, (payload.personnelEntries || []).map(mapPayloadPersonnelEntry));
+
+  [
+    getEntryChanges('EQUIPMENT', equipment, EQUIPMENT_FIELD_LABELS, (entry, index) => `Equipment ${entry.date || 'no date'} · row ${index + 1}`),
+    getEntryChanges('PERSONNEL', personnel, PERSONNEL_FIELD_LABELS, (entry, index) => `Personnel ${entry.date || 'no date'} · ${entry.name || `row ${index + 1}`}`)
+  ].forEach(entryChanges => {
+    changes.push(...entryChanges.changes);
+    unchangedCount += entryChanges.unchangedCount;
+  });
+
+  return { payload, ticketId, base: state, changes, unchangedCount, incomingForm, equipment, personnel };
+}
+
+/**
+ * Gets the choice of each change that is picked before the user changes any
+ * New values and entries are taken, values that conflict with what was entered are kept (or, for entries, only fill
+ * blanks), and a validly signed link is taken as issued
+ */
+export function getDefaultMergeChoices(preview: PayloadChangeList): PayloadMergeChoices {
+  return Object.fromEntries(preview.changes.map(change => [change.key, change.defaultChoice]));
+}
+
+/**
+ * Applies the picked changes of a preview to the ticket and stores them; returns the new state with its undo
+ */
+export async function applyPayloadMerge(
+  preview: PayloadPreview,
+  choices: PayloadMergeChoices,
+  currentDate: string
+): Promise<PayloadMergeResult> {
+  const state: PayloadMergeState = { ...preview.base, selectedDate: currentDate };
+  const getChoice = (key: string) => getMergeChoice(preview, choices, key);
+
+  // Header fields
+  const formData = mergeFormFields(preview, choices, state.formData, preview.incomingForm, FORM_FIELD_LABELS);
+
+  const checkboxStates = { ...state.checkboxStates };
+  CHECKBOX_LABELS.forEach(({ field }) => {
+    if (getChoice(`checkbox:${field}`) === 'ACCEPT') {
+      checkboxStates[field] = preview.payload[field]!;
+    }
+  });
+  formData.checkboxStates = checkboxStates;
+
+  const selectedDate = getChoice('date') === 'ACCEPT' ? preview.payload.date! : state.selectedDate;
+
+  const undo: PayloadMergeUndo = {
+    ...state,
+    ticketId: preview.ticketId,
+    equipmentBefore: [],
+    personnelBefore: [],
+    addedEquipmentIds: [],
+    addedPersonnelIds: []
+  };
+
+  await saveFederalFormData(formData, preview.ticketId);
+
+  for (const match of preview.equipment) {
+    const choice = getChoice(match.key);
+    if (choice === 'SKIP') continue;
+    if (match.current) {
+      undo.equipmentBefore.push({ ...match.current });
+      await saveFederalEquipmentEntry(mergeEntry(match.current, match.incoming, choice));
+    } else {
+      undo.addedEquipmentIds.push(await saveFederalEquipmentEntry({ ...match.incoming, ticketId: preview.ticketId }));
+    }
+  }
+  for (const match of preview.personnel) {
+    const choice = getChoice(match.key);
+    if (choice === 'SKIP') continue;
+    if (match.current) {
+      undo.personnelBefore.push({ ...match.current });
+      await saveFederalPersonnelEntry(mergeEntry(match.current, match.incoming, choice));
+    } else {
+      undo.addedPersonnelIds.push(await saveFederalPersonnelEntry({ ...match.incoming, ticketId: preview.ticketId }));
+    }
+  }
+
+  console.log('Payload merged:', choices);
+  return { formData, checkboxStates, selectedDate, undo };
+}
+
+/**
+ * Puts the ticket back as it was before a merge
+ */
+export async function undoPayloadMerge(undo: PayloadMergeUndo): Promise<void> {
+  await saveFederalFormData({ ...undo.formData, checkboxStates: undo.checkboxStates }, undo.ticketId);
+  await Promise.all([
+    ...undo.addedEquipmentIds.map(id => deleteFederalEquipmentEntry(id)),
+    ...undo.addedPersonnelIds.map(id => deleteFederalPersonnelEntry(id))
+  ]);
+  for (const entry of undo.equipmentBefore) {
+    await saveFederalEquipmentEntry(entry);
+  }
+  for (const entry of undo.personnelBefore) {
+    await saveFederalPersonnelEntry(entry);
+  }
+  console.log('Payload merge undone');
+}
+
+/**
+ * Builds the preview of what a payload would change on the active EEST ticket
+ * New time entries are only offered for the rows the EEST has free
+ */
+export async function buildEESTPayloadPreview(payload: EESTPayload, editedForm: EESTFormData): Promise<EESTPayloadPreview> {
+  const ticketId = await getActiveTicketId(FormType.EEST);
+  const base = (await loadEESTFormData(ticketId)) ?? editedForm;
+  const isIssued = payload.signature?.status === 'VALID';
+
+  const incomingForm = await getIncomingForm(base, payload, EEST_FORM_FIELD_LABELS, applyProfileToEESTForm);
+  const { changes, unchangedCount: formUnchangedCount } = getFormFieldChanges(base, incomingForm, EEST_FORM_FIELD_LABELS, isIssued);
+
+  const storedEntries = await loadAllEESTTimeEntries(ticketId);
+  const blankTimeEntries = storedEntries.filter(isBlankEESTTimeEntry);
+  const filledEntries = storedEntries.filter(entry => !isBlankEESTTimeEntry(entry));
+  const timeEntries = matchPayloadEntries('time', filledEntries, (payload.timeEntries || []).map(mapPayloadEESTTimeEntry));
+  const timeChanges = getEntryChanges(
+    'TIME',
+    timeEntries,
+    EEST_TIME_ENTRY_FIELD_LABELS,
+    (entry, index) => `Time ${entry.date || 'no date'} · row ${index + 1}`,
+    Math.max(0, EEST_TIME_ENTRY_ROWS - filledEntries.length)
+  );
+
+  return {
+    payload,
+    ticketId,
+    base,
+    changes: [...changes, ...timeChanges.changes],
+    unchangedCount: formUnchangedCount + timeChanges.unchangedCount,
+    incomingForm,
+    timeEntries,
+    blankTimeEntries
+  };
+}
+
+/**
+ * Applies the picked changes of an EEST preview to the ticket and stores them; returns the new header data with its undo
+ * Totals of the merged time entries are recalculated by the page, under the ticket's rounding policy
+ */
+export async function applyEESTPayloadMerge(
+  preview: EESTPayloadPreview,
+  choices: PayloadMergeChoices
+): Promise<FormPayloadMergeResult<EESTFormData, EESTPayloadMergeUndo>> {
+  const formData = mergeFormFields(preview, choices, preview.base, preview.incomingForm, EEST_FORM_FIELD_LABELS);
+  const undo: EESTPayloadMergeUndo = { ticketId: preview.ticketId, formData: preview.base, timeEntriesBefore: [], addedTimeEntryIds: [] };
+
+  await saveEESTFormData(formData, preview.ticketId);
+
+  const blankEntries = [...preview.blankTimeEntries];
+  for (const match of preview.timeEntries) {
+    const choice = getMergeChoice(preview, choices, match.key);
+    if (choice === 'SKIP') continue;
+    const current = match.current ?? blankEntries.shift();
+    if (current) {
+      undo.timeEntriesBefore.push({ ...current });
+      await saveEESTTimeEntry(match.current ? mergeEntry(current, match.incoming, choice) : { ...current, ...match.incoming });
+    } else {
+      undo.addedTimeEntryIds.push(await saveEESTTimeEntry({ ...match.incoming, ticketId: preview.ticketId }));
+    }
+  }
+
+  console.log('EEST payload merged:', choices);
+  return { formData, undo };
+}
+
+/**
+ * Puts an EEST ticket back as it was before a merge
+ */
+export async function undoEESTPayloadMerge(undo: EESTPayloadMergeUndo): Promise<void> {
+  await saveEESTFormData(undo.formData, undo.ticketId);
+  await Promise.all(undo.addedTimeEntryIds.map(id => deleteEESTTimeEntry(id)));
+  for (const entry of undo.timeEntriesBefore) {
+    await saveEESTTimeEntry(entry);
+  }
+  console.log('EEST payload merge undone');
+}
+
+/**
+ * Builds the preview of what a payload would change on the active ODF ticket
+ * An equipment use the ODF does not have is left out
+ */
+export async function buildODFPayloadPreview(payload: ODFPayload, editedForm: ODFFormData): Promise<ODFPayloadPreview> {
+  const ticketId = await getActiveTicketId(FormType.ODF);
+  const base = (await loadODFFormData(ticketId)) ?? editedForm;
+  const isIssued = payload.signature?.status === 'VALID';
+
+  const validPayload = payload.equipmentUse && !ODF_EQUIPMENT_USES.includes(payload.equipmentUse)
+    ? { ...payload, equipmentUse: undefined }
+    : payload;
+  const incomingForm = await getIncomingForm(base, validPayload, ODF_FORM_FIELD_LABELS, applyProfileToODFForm);
+  const { changes, unchangedCount } = getFormFieldChanges(base, incomingForm, ODF_FORM_FIELD_LABELS, isIssued);
+
+  return { payload, ticketId, base, changes, unchangedCount, incomingForm };
+}
+
+/**
+ * Applies the picked changes of an ODF preview to the ticket and stores them; returns the new header data with its undo
+ */
+export async function applyODFPayloadMerge(
+  preview: ODFPayloadPreview,
+  choices: PayloadMergeChoices
+): Promise<FormPayloadMergeResult<ODFFormData, ODFPayloadMergeUndo>> {
+  const formData = mergeFormFields(preview, choices, preview.base, preview.incomingForm, ODF_FORM_FIELD_LABELS);
+  await saveODFFormData(formData, preview.ticketId);
+  console.log('ODF payload merged:', choices);
+  return { formData, undo: { ticketId: preview.ticketId, formData: preview.base } };
+}
+
+/**
+ * Puts an ODF ticket back as it was before a merge
+ */
+export async function undoODFPayloadMerge(undo: ODFPayloadMergeUndo): Promise<void> {
+  await saveODFFormData(undo.formData, undo.ticketId);
+  console.log('ODF payload merge undone');
+}
@@ -0,0 +1,124 @@
+// Payload QR - ticket payloads passed between phones side by side as QR codes, with no connectivity needed
+// A share link that fits is one QR code of the link itself, so any camera app can open it; a longer link is split
+// into a numbered sequence of QR codes that are imported together
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+
+// Most characters in one QR code - well under the format's limit, so codes stay readable off a phone screen
+export const QR_MAX_CHARS = 1000;
+
+// Part of a QR sequence: "SHIFTQR:<sequence id>:<part>/<count>:<chunk of the link>"
+const QR_PART_PATTERN = /^SHIFTQR:([0-9a-f]{8}):(\d+)\/(\d+):([\s\S]*)$/;
+
+// Longest side an image is scaled to before it is scanned (phone photos are far larger than needed)
+const MAX_SCAN_SIZE = 1600;
+
+/**
+ * Gets an ID for a link, so parts of different QR sequences are not joined together (FNV-1a hash)
+ */
+function getSequenceId(link: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < link.length; i++) {
+    hash ^= link.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Splits a share link into the texts of its QR codes: the link itself when it fits, otherwise numbered parts
+ */
+export function splitLinkForQR(link: string): string[] {
+  if (link.length <= QR_MAX_CHARS) return [link];
+  const sequenceId = getSequenceId(link);
+  // Room for the part header
+  const chunkSize = QR_MAX_CHARS - 32;
+  const count = Math.ceil(link.length / chunkSize);
+  return Array.from({ length: count }, (_, index) =>
+    `SHIFTQR:${sequenceId}:${index + 1}/${count}:${link.slice(index * chunkSize, (index + 1) * chunkSize)}`
+  );
+}
+
+/**
+ * Joins the texts read from QR codes back into a share link
+ * Throws when parts of a sequence are missing or come from different sequences
+ */
+export function joinQRTexts(texts: string[]): string {
+  // The same code may have been photographed more than once
+  const uniqueTexts = Array.from(new Set(texts));
+  const parts = uniqueTexts.map(text => text.match(QR_PART_PATTERN));
+  if (parts.every(part => part === null)) {
+    if (uniqueTexts.length > 1) {
+      throw new Error('The images hold more than one ticket - import one ticket at a time');
+    }
+    return uniqueTexts[0];
+  }
+  if (parts.some(part => part === null)) {
+    throw new Error('The images mix a QR sequence with other QR codes');
+  }
+
+  const [, sequenceId, , countText] = parts[0]!;
+  const count = parseInt(countText, 10);
+  const chunks = new Map<number, string>();
+  parts.forEach(part => {
+    const [, partSequenceId, partText, partCountText, chunk] = part!;
+    if (partSequenceId !== sequenceId || parseInt(partCountText, 10) !== count) {
+      throw new Error('The QR codes come from different tickets');
+    }
+    chunks.set(parseInt(partText, 10), chunk);
+  });
+
+  const missing = Array.from({ length: count }, (_, index) => index + 1).filter(part => !chunks.has(part));
+  if (missing.length > 0) {
+    throw new Error(`Missing QR code ${missing.join(', ')} of ${count}`);
+  }
+  const link = Array.from({ length: count }, (_, index) => chunks.get(index + 1)).join('');
+  if (getSequenceId(link) !== sequenceId) {
+    throw new Error('The QR codes did not read correctly - scan them again');
+  }
+  return link;
+}
+
+/**
+ * Renders a share link as QR code images (PNG data URLs), one per code of the sequence
+ */
+export async function createPayloadQRCodes(link: string): Promise<string[]> {
+  return Promise.all(splitLinkForQR(link).map(text =>
+    QRCode.toDataURL(text, { errorCorrectionLevel: 'L', margin: 2, width: 360 })
+  ));
+}
+
+/**
+ * Reads the QR code in an image file (a photo or screenshot); returns null when no code is found
+ */
+export async function readQRCodeFromImage(file: File): Promise<string | null> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SCAN_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not read the image');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(data, width, height, { inversionAttempts: 'attemptBoth' })?.data ?? null;
+}
+
+/**
+ * Reads the share link of a ticket from images of its QR code or of every code of its QR sequence
+ */
+export async function readLinkFromQRImages(files: File[]): Promise<string> {
+  const texts = (await Promise.all(files.map(readQRCodeFromImage)))
+    .filter((text): text is string => text !== null);
+  if (texts.length === 0) {
+    throw new Error('No QR code was found in the selected images');
+  }
+  if (texts.length < files.length) {
+    console.warn(`No QR code was found in ${files.length - texts.length} of the selected images`);
+  }
+  return joinQRTexts(texts);
+}
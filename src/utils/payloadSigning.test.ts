@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { engineTimeDB, FormType, savePayloadIssuer } from './engineTimeDB';
+import type { PayloadIssuer } from './engineTimeDB';
+import {
+  generateIssuerKey,
+  getIssuedFields,
+  isIssuedField,
+  keepIssuedFields,
+  signCompactPayload,
+  verifyCompactPayload
+} from './payloadSigning';
+import type { IssuedFormData } from './payloadSigning';
+
+// Header data of a form, as far as the issued field tests need it
+type HeaderForm = IssuedFormData & { incidentName: string; remarks: string };
+
+beforeEach(async () => {
+  await engineTimeDB.delete();
+  await engineTimeDB.open();
+});
+
+describe('issued fields', () => {
+  it('are the filled header fields a signed link locks', () => {
+    const payload = { incidentName: 'Cedar Creek', agreementNumber: '', remarks: 'Staged at camp', date: '07/01/26' };
+    expect(getIssuedFields(FormType.FEDERAL, payload)).toEqual(['incidentName']);
+  });
+
+  it('are read-only on the form they were issued to', () => {
+    const form = { issuedBy: 'North Ops', issuedFields: ['incidentName'] };
+    expect(isIssuedField(form, 'incidentName')).toBe(true);
+    expect(isIssuedField(form, 'remarks')).toBe(false);
+    expect(isIssuedField({}, 'incidentName')).toBe(false);
+  });
+
+  it('keep their values through a change of the form', () => {
+    const previous: HeaderForm = { incidentName: 'Cedar Creek', remarks: '', issuedBy: 'North Ops', issuedFields: ['incidentName'] };
+    const updated: HeaderForm = { incidentName: 'Typed over', remarks: 'Staged at camp' };
+    expect(keepIssuedFields(previous, updated)).toEqual({
+      incidentName: 'Cedar Creek', remarks: 'Staged at camp', issuedBy: 'North Ops', issuedFields: ['incidentName']
+    });
+  });
+});
+
+describe('signed links', () => {
+  const compactPayload = 'incidentName=Cedar%20Creek';
+
+  /**
+   * Stores an HMAC issuer with a new key and returns it
+   */
+  async function addIssuer(): Promise<PayloadIssuer> {
+    const issuer: PayloadIssuer = { keyId: 'north-ops', name: 'North Ops', algorithm: 'HMAC', ...(await generateIssuerKey('HMAC')), createdAt: 0, updatedAt: 0 };
+    await savePayloadIssuer(issuer);
+    return issuer;
+  }
+
+  it('verify against the issuer key they were signed with', async () => {
+    const signature = await signCompactPayload(compactPayload, await addIssuer());
+    expect(await verifyCompactPayload(compactPayload, signature)).toEqual({ status: 'VALID', keyId: 'north-ops', issuerName: 'North Ops' });
+  });
+
+  it('are invalid once the payload is altered', async () => {
+    const signature = await signCompactPayload(compactPayload, await addIssuer());
+    expect((await verifyCompactPayload('incidentName=Other', signature)).status).toBe('INVALID');
+  });
+
+  it('name an issuer that is not set up on this device', async () => {
+    const signature = await signCompactPayload(compactPayload, { ...(await addIssuer()), keyId: 'south-ops' });
+    expect(await verifyCompactPayload(compactPayload, signature)).toEqual({ status: 'UNKNOWN_ISSUER', keyId: 'south-ops' });
+  });
+});
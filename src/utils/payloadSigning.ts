@@ -0,0 +1,207 @@
+// Payload Signing - pre-fill links signed by a dispatch issuer key, so the fields they fill can be trusted
+// The signature covers the key ID and the exact compact payload; HMAC keys are shared secrets, Ed25519 keys are
+// public keys with the private key kept only on the issuing device. Keys are configured locally on each device.
+import type { PayloadIssuer } from './engineTimeDB';
+import { findPayloadIssuer, FormType } from './engineTimeDB';
+
+// Signature algorithm of an issuer key
+export type IssuerAlgorithm = 'HMAC' | 'ED25519';
+
+// Result of checking a link's signature
+// VALID - signed by a configured issuer; INVALID - the payload or signature was altered;
+// UNKNOWN_ISSUER - no key is configured for the key ID; UNSUPPORTED - the browser cannot check the algorithm
+export type PayloadSignatureStatus = 'VALID' | 'INVALID' | 'UNKNOWN_ISSUER' | 'UNSUPPORTED';
+
+export interface PayloadSignature {
+  status: PayloadSignatureStatus;
+  keyId: string;
+  // Name of the issuer (known issuers only)
+  issuerName?: string;
+}
+
+// Issuer algorithm options
+export const ISSUER_ALGORITHM_OPTIONS: { value: IssuerAlgorithm; label: string }[] = [
+  { value: 'ED25519', label: 'Ed25519 (public key)' },
+  { value: 'HMAC', label: 'HMAC (shared secret)' }
+];
+
+// Form data that records the fields a signed link filled
+export interface IssuedFormData {
+  issuedBy?: string;
+  issuedFields?: string[];
+}
+
+// Header fields a signed link locks on each ticket form; remarks, the date and the recorder's initials stay editable
+// with the time entries
+export const ISSUED_FIELDS: Record<FormType, string[]> = {
+  [FormType.FEDERAL]: [
+    'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber',
+    'incidentName', 'incidentNumber', 'financialCode', 'equipmentMakeModel',
+    'equipmentType', 'serialVinNumber', 'licenseIdNumber', 'transportRetained',
+    'isFirstLastTicket', 'rateType', 'agencyRepresentative', 'incidentSupervisor'
+  ],
+  [FormType.EEST]: [
+    'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber',
+    'incidentName', 'incidentNumber', 'operatorName', 'equipmentMake', 'equipmentModel',
+    'serialNumber', 'licenseNumber', 'equipmentStatus'
+  ],
+  [FormType.ODF]: [
+    'divUnit', 'shift', 'ownerContractor', 'contractNumber', 'resourceReqNo', 'resourceType', 'doubleShifted',
+    'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber', 'incidentName', 'incidentNumber',
+    'equipmentType', 'equipmentMakeModel', 'ownerIdNumber', 'licenseVinSerial', 'equipmentUse', 'odfRepresentative'
+  ]
+};
+
+// Key IDs are carried in links ahead of the signature, so they are kept to URL-safe characters
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Encodes bytes as URL-safe base64 without padding
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes URL-safe base64 (with or without padding) to bytes
+ */
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Gets the bytes that are signed: the key ID and the compact payload
+ */
+function getSignedBytes(keyId: string, compactPayload: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${keyId}.${compactPayload}`);
+}
+
+/**
+ * Checks that a key ID can be carried in a link
+ */
+export function isValidIssuerKeyId(keyId: string): boolean {
+  return KEY_ID_PATTERN.test(keyId);
+}
+
+/**
+ * Checks whether share links can be signed with an issuer key on this device
+ * (an Ed25519 key needs its private key, which only the issuing device holds)
+ */
+export function canSignWithIssuer(issuer: PayloadIssuer): boolean {
+  return issuer.algorithm === 'HMAC' || !!issuer.privateKey;
+}
+
+/**
+ * Generates a new issuer key: a random HMAC secret, or an Ed25519 key pair
+ */
+export async function generateIssuerKey(algorithm: IssuerAlgorithm): Promise<Pick<PayloadIssuer, 'key' | 'privateKey'>> {
+  if (algorithm === 'HMAC') {
+    return { key: toBase64Url(crypto.getRandomValues(new Uint8Array(32))) };
+  }
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  return {
+    key: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))),
+    privateKey: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)))
+  };
+}
+
+/**
+ * Signs a compact payload with an issuer key; returns the signature fragment value "<key ID>.<signature>"
+ */
+export async function signCompactPayload(compactPayload: string, issuer: PayloadIssuer): Promise<string> {
+  const data = getSignedBytes(issuer.keyId, compactPayload);
+  let signature: ArrayBuffer;
+  if (issuer.algorithm === 'HMAC') {
+    const key = await crypto.subtle.importKey('raw', fromBase64Url(issuer.key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    signature = await crypto.subtle.sign('HMAC', key, data);
+  } else {
+    if (!issuer.privateKey) {
+      throw new Error(`Issuer ${issuer.name} has only a public key on this device and cannot sign links`);
+    }
+    const key = await crypto.subtle.importKey('pkcs8', fromBase64Url(issuer.privateKey), { name: 'Ed25519' }, false, ['sign']);
+    signature = await crypto.subtle.sign('Ed25519', key, data);
+  }
+  return `${issuer.keyId}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Checks the signature of a compact payload against the issuer keys configured on this device
+ */
+export async function verifyCompactPayload(compactPayload: string, signatureParam: string): Promise<PayloadSignature> {
+  const [keyId, signatureText = ''] = signatureParam.split('.');
+  const issuer = await findPayloadIssuer(keyId);
+  if (!issuer) {
+    return { status: 'UNKNOWN_ISSUER', keyId };
+  }
+
+  const result = { keyId, issuerName: issuer.name };
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = fromBase64Url(signatureText);
+  } catch {
+    return { ...result, status: 'INVALID' };
+  }
+
+  const data = getSignedBytes(keyId, compactPayload);
+  try {
+    let isValid: boolean;
+    if (issuer.algorithm === 'HMAC') {
+      const key = await crypto.subtle.importKey('raw', fromBase64Url(issuer.key), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+      isValid = await crypto.subtle.verify('HMAC', key, signature, data);
+    } else {
+      const key = await crypto.subtle.importKey('raw', fromBase64Url(issuer.key), { name: 'Ed25519' }, false, ['verify']);
+      isValid = await crypto.subtle.verify('Ed25519', key, signature, data);
+    }
+    return { ...result, status: isValid ? 'VALID' : 'INVALID' };
+  } catch (error) {
+    console.error(`Could not check the signature of issuer ${keyId}:`, error);
+    return { ...result, status: 'UNSUPPORTED' };
+  }
+}
+
+/**
+ * Describes a signature that could not be trusted, for the prompt before applying the link
+ */
+export function describeSignatureProblem(signature: PayloadSignature): string {
+  switch (signature.status) {
+    case 'INVALID':
+      return `The link claims to be issued by ${signature.issuerName || signature.keyId}, but its signature does not match - it may have been altered.`;
+    case 'UNKNOWN_ISSUER':
+      return `The link is signed by issuer "${signature.keyId}", which is not set up on this device.`;
+    case 'UNSUPPORTED':
+      return `This browser cannot check the signature of issuer ${signature.issuerName || signature.keyId}.`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Gets the issued fields of a ticket form that a signed payload fills
+ */
+export function getIssuedFields(form: FormType, payload: object): string[] {
+  const values = payload as Record<string, unknown>;
+  return ISSUED_FIELDS[form].filter(field => !!values[field]);
+}
+
+/**
+ * Checks whether a form field was filled by a signed link and is read-only
+ */
+export function isIssuedField(formData: IssuedFormData, field: string): boolean {
+  return !!formData.issuedFields?.includes(field);
+}
+
+/**
+ * Restores the issued fields of a form after a change, so only time entry and unlocked fields change
+ */
+export function keepIssuedFields<T extends IssuedFormData>(previous: T, updated: T): T {
+  const kept: T = { ...updated, issuedBy: previous.issuedBy, issuedFields: previous.issuedFields };
+  previous.issuedFields?.forEach(field => {
+    (kept as unknown as Record<string, unknown>)[field] = (previous as unknown as Record<string, unknown>)[field];
+  });
+  return kept;
+}
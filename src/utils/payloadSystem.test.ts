@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FormType } from './engineTimeDB';
+import type { EESTPayload, FederalPayload, ODFPayload } from './payloadSystem';
+import {
+  PAYLOAD_FORMAT_VERSION,
+  decodeCompactPayload,
+  encodeCompactPayload,
+  parseLegacyPayloadParams,
+  parsePayloadFromLink
+} from './payloadSystem';
+
+// Federal payload using every section of the compact format
+const FEDERAL_PAYLOAD: FederalPayload = {
+  form: FormType.FEDERAL,
+  agreementNumber: 'AG-1234',
+  incidentName: 'Cedar Creek',
+  incidentNumber: 'OR-WIF-000123',
+  remarks: 'Crew of 3, "quoted" & ünïcode',
+  equipmentProfile: 'Engine 42',
+  noMeals: true,
+  hotline: false,
+  equipmentEntries: [
+    { date: '10/01/26', start1: '08:00', stop1: '12:00', start2: '13:00', stop2: '18:00', type: 'OP' },
+    { date: '10/02/26', meterType: 'MILES', meterBegin: '1200', meterEnd: '1250', periods: [{ type: 'WORK', start: '06:00', stop: '10:00' }] }
+  ],
+  personnelEntries: [
+    { date: '10/01/26', name: 'Alex Doe', start1: '08:00', stop1: '18:00', remarks: 'ENGB' }
+  ]
+};
+
+const EEST_PAYLOAD: EESTPayload = {
+  form: FormType.EEST,
+  agreementNumber: 'AG-1234',
+  operatorName: 'Sam Roe',
+  timeEntries: [{ date: '10/01/26', start: '07:00', stop: '19:00', special: 'Hotline' }]
+};
+
+const ODF_PAYLOAD: ODFPayload = {
+  form: FormType.ODF,
+  divUnit: 'DIV A',
+  equipmentUse: 'MILES',
+  incidentName: 'Cedar Creek'
+};
+
+/**
+ * Encodes JSON as URL-safe base64 without padding, the way the compact format stores it
+ */
+function toBase64Url(json: unknown): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(json)))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('compact payload', () => {
+  it('round-trips every form with the deflate codec', async () => {
+    for (const payload of [FEDERAL_PAYLOAD, EEST_PAYLOAD, ODF_PAYLOAD]) {
+      const encoded = await encodeCompactPayload(payload);
+      expect(encoded.startsWith(`${PAYLOAD_FORMAT_VERSION}.z.`)).toBe(true);
+      expect(await decodeCompactPayload(encoded)).toEqual(payload);
+    }
+  });
+
+  it('round-trips every form with the plain JSON codec where the browser cannot compress', async () => {
+    vi.stubGlobal('CompressionStream', undefined);
+    for (const payload of [FEDERAL_PAYLOAD, EEST_PAYLOAD, ODF_PAYLOAD]) {
+      const encoded = await encodeCompactPayload(payload);
+      expect(encoded.startsWith(`${PAYLOAD_FORMAT_VERSION}.j.`)).toBe(true);
+      expect(await decodeCompactPayload(encoded)).toEqual(payload);
+    }
+  });
+
+  it('reads a payload without a form as a Federal payload', async () => {
+    const { form, ...payload } = FEDERAL_PAYLOAD;
+    expect(form).toBe(FormType.FEDERAL);
+    expect(await decodeCompactPayload(await encodeCompactPayload(payload))).toEqual(FEDERAL_PAYLOAD);
+  });
+
+  it('reads version 1 payloads, which carry the Federal sections without a form code', async () => {
+    const encoded = `1.j.${toBase64Url([['AG-1', null, null, 'Cedar Creek'], [null, true], [['10/01/26', '08:00', '17:00']], []])}`;
+    expect(await decodeCompactPayload(encoded)).toEqual({
+      form: FormType.FEDERAL,
+      agreementNumber: 'AG-1',
+      incidentName: 'Cedar Creek',
+      noMeals: true,
+      equipmentEntries: [{ date: '10/01/26', start: '08:00', stop: '17:00' }]
+    });
+  });
+
+  it('ignores values appended to the field lists by a newer app', async () => {
+    const encoded = `${PAYLOAD_FORMAT_VERSION}.j.${toBase64Url(['O', ['DIV A', ...new Array(19).fill(null), 'Engine 42', 'future value']])}`;
+    expect(await decodeCompactPayload(encoded)).toEqual({ form: FormType.ODF, divUnit: 'DIV A', equipmentProfile: 'Engine 42' });
+  });
+
+  it('rejects payloads of a newer format version', async () => {
+    const encoded = await encodeCompactPayload(FEDERAL_PAYLOAD);
+    const newer = encoded.replace(/^\d+\./, `${PAYLOAD_FORMAT_VERSION + 1}.`);
+    await expect(decodeCompactPayload(newer)).rejects.toThrow(`payload format ${PAYLOAD_FORMAT_VERSION + 1}`);
+  });
+
+  it('rejects damaged payloads and unknown codecs or forms', async () => {
+    await expect(decodeCompactPayload('not a payload')).rejects.toThrow('does not contain a readable payload');
+    await expect(decodeCompactPayload(`${PAYLOAD_FORMAT_VERSION}.x.e30`)).rejects.toThrow('Unknown payload encoding "x"');
+    await expect(decodeCompactPayload(`${PAYLOAD_FORMAT_VERSION}.j.${toBase64Url(['Q', []])}`)).rejects.toThrow('does not know ("Q")');
+  });
+});
+
+describe('legacy payload links', () => {
+  it('reads form fields, checkboxes and numbered entries from query parameters', () => {
+    const params = new URLSearchParams({
+      incidentName: 'Cedar%20Creek',
+      rateType: 'HOURS',
+      noMeals: 'true',
+      travel: 'false',
+      equipmentCount: '2',
+      equipment_0_date: '10/01/26',
+      equipment_0_start: '08:00',
+      equipment_0_stop: '17:00',
+      equipment_1_quantity: '50',
+      personnelCount: '1',
+      personnel_0_name: 'Alex Doe',
+      personnel_0_start1: '08:00',
+      // Typed periods are not carried by legacy links
+      personnel_0_periods: 'ignored'
+    });
+
+    expect(parseLegacyPayloadParams(params)).toEqual({
+      incidentName: 'Cedar Creek',
+      rateType: 'HOURS',
+      noMeals: true,
+      travel: false,
+      equipmentEntries: [{ date: '10/01/26', start: '08:00', stop: '17:00' }, { quantity: '50' }],
+      personnelEntries: [{ name: 'Alex Doe', start1: '08:00' }]
+    });
+  });
+
+  it('skips numbered entries that have no fields', () => {
+    const params = new URLSearchParams({ equipmentCount: '2', equipment_1_type: 'OP' });
+    expect(parseLegacyPayloadParams(params)).toEqual({ equipmentEntries: [{ type: 'OP' }] });
+  });
+
+  it('is read from links without a compact payload, which do not name their form', async () => {
+    const payload = await parsePayloadFromLink('https://example.com/eest?incidentName=Cedar%20Creek#top');
+    expect(payload).toEqual({ incidentName: 'Cedar Creek' });
+    expect(payload.form).toBeUndefined();
+  });
+
+  it('gives way to a compact payload in the fragment', async () => {
+    const encoded = await encodeCompactPayload(ODF_PAYLOAD);
+    const payload = await parsePayloadFromLink(`https://example.com/?incidentName=Other#p=${encoded}`);
+    expect(payload).toEqual(ODF_PAYLOAD);
+  });
+});
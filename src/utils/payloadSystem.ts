@@ -1,7 +1,15 @@
 // Payload System for URL-based form pre-filling
 // This system allows URLs to automatically fill form fields
+// A payload names the ticket form it fills, so one dispatch link can pre-fill a Federal, EEST or ODF ticket
+import type { PayloadIssuer, EESTFormData, EESTTimeEntry, ODFFormData } from './engineTimeDB';
+import { FormType } from './engineTimeDB';
+import type { PayloadSignature } from './payloadSigning';
+import { signCompactPayload, verifyCompactPayload } from './payloadSigning';
 
 export interface FederalPayload {
+  // Ticket form (payloads that do not name a form are Federal payloads)
+  form?: typeof FormType.FEDERAL;
+
   // Form fields
   agreementNumber?: string;
   contractorAgencyName?: string;
@@ -20,6 +28,9 @@ export interface FederalPayload {
   incidentSupervisor?: string;
   remarks?: string;
   
+  // Equipment profile (ID or name) whose details fill the equipment section
+  equipmentProfile?: string;
+  
   // Checkbox states
   noMealsLodging?: boolean;
   noMeals?: boolean;
@@ -40,9 +51,13 @@ export interface FederalPayload {
     start2?: string;
     stop2?: string;
     total?: string;
+    meterType?: string;
+    meterBegin?: string;
+    meterEnd?: string;
     quantity?: string;
     type?: string;
     remarks?: string;
+    periods?: Array<{ type?: string; start?: string; stop?: string }>;
   }>;
   
   // Personnel entries (simplified for URL)
@@ -55,29 +70,314 @@ export interface FederalPayload {
     stop2?: string;
     total?: string;
     remarks?: string;
+    periods?: Array<{ type?: string; start?: string; stop?: string }>;
   }>;
+  
+  // Signature check of a signed link (set when the link is parsed, never encoded)
+  signature?: PayloadSignature;
+}
+
+// Header fields an EEST payload can fill
+type EESTPayloadField =
+  'agreementNumber' | 'contractorAgencyName' | 'resourceOrderNumber' | 'incidentName' | 'incidentNumber' |
+  'operatorName' | 'equipmentMake' | 'equipmentModel' | 'serialNumber' | 'licenseNumber' | 'equipmentStatus' |
+  'invoicePostedBy' | 'remarks';
+
+export interface EESTPayload extends Partial<Pick<EESTFormData, EESTPayloadField>> {
+  // Ticket form
+  form: typeof FormType.EEST;
+
+  // Equipment profile (ID or name) whose details fill the equipment section
+  equipmentProfile?: string;
+
+  // Time entries (simplified for URL)
+  timeEntries?: Array<Partial<Pick<EESTTimeEntry, 'date' | 'start' | 'stop' | 'work' | 'special'>>>;
+
+  // Signature check of a signed link (set when the link is parsed, never encoded)
+  signature?: PayloadSignature;
+}
+
+// Header fields an ODF payload can fill
+type ODFPayloadField =
+  'divUnit' | 'shift' | 'ownerContractor' | 'contractNumber' | 'resourceReqNo' | 'resourceType' | 'doubleShifted' |
+  'agreementNumber' | 'contractorAgencyName' | 'resourceOrderNumber' | 'incidentName' | 'incidentNumber' |
+  'equipmentType' | 'equipmentMakeModel' | 'ownerIdNumber' | 'licenseVinSerial' | 'equipmentUse' |
+  'odfRepresentative' | 'postedBy' | 'remarks';
+
+export interface ODFPayload extends Partial<Pick<ODFFormData, ODFPayloadField>> {
+  // Ticket form
+  form: typeof FormType.ODF;
+
+  // Equipment profile (ID or name) whose details fill the equipment section
+  equipmentProfile?: string;
+
+  // Signature check of a signed link (set when the link is parsed, never encoded)
+  signature?: PayloadSignature;
+}
+
+// Payload of any ticket form
+export type TicketPayload = FederalPayload | EESTPayload | ODFPayload;
+
+// Page of each ticket form, where its payloads are applied
+export const PAYLOAD_FORM_PATHS: Record<FormType, string> = {
+  [FormType.FEDERAL]: '/',
+  [FormType.EEST]: '/eest',
+  [FormType.ODF]: '/odf'
+};
+
+// Version of the compact payload format written by generatePayloadURL
+// Values are packed by position, so fields are only ever appended to the field lists below; a new version is
+// needed only when a field is removed or changes meaning
+// Version 2 leads with the form code; version 1 payloads carry no form code and are Federal payloads
+export const PAYLOAD_FORMAT_VERSION = 2;
+
+// URL fragment parameter that carries a compact payload (the fragment is never sent to the server)
+const PAYLOAD_FRAGMENT_PARAM = 'p';
+
+// URL fragment parameter that carries the issuer signature of the compact payload: "<key ID>.<signature>"
+const PAYLOAD_SIGNATURE_PARAM = 's';
+
+// Codecs of the compact payload: deflate-compressed JSON, or plain JSON where the browser cannot compress
+type PayloadCodec = 'z' | 'j';
+
+const FORM_FIELDS = [
+  'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber',
+  'incidentName', 'incidentNumber', 'financialCode', 'equipmentMakeModel',
+  'equipmentType', 'serialVinNumber', 'licenseIdNumber', 'transportRetained',
+  'isFirstLastTicket', 'rateType', 'agencyRepresentative', 'incidentSupervisor',
+  'remarks', 'date', 'equipmentProfile'
+];
+
+const CHECKBOX_FIELDS = ['noMealsLodging', 'noMeals', 'travel', 'noLunch', 'hotline'];
+
+const EQUIPMENT_FIELDS = ['date', 'start', 'stop', 'start1', 'stop1', 'start2', 'stop2', 'total', 'meterType', 'meterBegin', 'meterEnd', 'quantity', 'type', 'remarks', 'periods'];
+
+const PERSONNEL_FIELDS = ['date', 'name', 'start1', 'stop1', 'start2', 'stop2', 'total', 'remarks', 'periods'];
+
+const EEST_FORM_FIELDS = [
+  'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber',
+  'incidentName', 'incidentNumber', 'operatorName', 'equipmentMake', 'equipmentModel',
+  'serialNumber', 'licenseNumber', 'equipmentStatus', 'invoicePostedBy',
+  'remarks', 'equipmentProfile'
+];
+
+const EEST_TIME_ENTRY_FIELDS = ['date', 'start', 'stop', 'work', 'special'];
+
+const ODF_FORM_FIELDS = [
+  'divUnit', 'shift', 'ownerContractor', 'contractNumber', 'resourceReqNo', 'resourceType', 'doubleShifted',
+  'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber', 'incidentName', 'incidentNumber',
+  'equipmentType', 'equipmentMakeModel', 'ownerIdNumber', 'licenseVinSerial', 'equipmentUse',
+  'odfRepresentative', 'postedBy', 'remarks', 'equipmentProfile'
+];
+
+// Code of each ticket form in the compact payload
+const FORM_CODES: Record<FormType, string> = {
+  [FormType.FEDERAL]: 'F',
+  [FormType.EEST]: 'E',
+  [FormType.ODF]: 'O'
+};
+
+// Typed periods are not carried by legacy links
+const LEGACY_EQUIPMENT_FIELDS = EQUIPMENT_FIELDS.filter(field => field !== 'periods');
+const LEGACY_PERSONNEL_FIELDS = PERSONNEL_FIELDS.filter(field => field !== 'periods');
+
+// Period packed as [type, start, stop]
+type PackedPeriod = [string, string, string];
+
+// Field value packed by position (null for a missing value)
+type PackedValue = string | boolean | null | PackedPeriod[];
+
+// Compact payload: [form code, ...sections of the form]
+// Federal: [form fields, checkbox states, equipment entries, personnel entries]
+// EEST: [form fields, time entries]
+// ODF: [form fields]
+type PackedPayload = [string, ...(PackedValue[] | PackedValue[][])[]];
+
+/**
+ * Packs the fields of an object into an array by position, dropping trailing missing values
+ */
+function packFields(source: Record<string, unknown>, fields: string[]): PackedValue[] {
+  const packed: PackedValue[] = fields.map(field => {
+    const value = source[field];
+    if (field === 'periods') {
+      return Array.isArray(value) && value.length > 0
+        ? value.map(period => [period.type || '', period.start || '', period.stop || ''] as PackedPeriod)
+        : null;
+    }
+    if (typeof value === 'boolean') return value;
+    return value === undefined || value === null || value === '' ? null : String(value);
+  });
+  while (packed.length > 0 && packed[packed.length - 1] === null) {
+    packed.pop();
+  }
+  return packed;
+}
+
+/**
+ * Unpacks an array packed by packFields; values past the end of the field list (from a newer app) are ignored
+ */
+function unpackFields(packed: PackedValue[] | undefined, fields: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  fields.forEach((field, index) => {
+    const value = packed?.[index];
+    if (value === null || value === undefined) return;
+    if (field === 'periods') {
+      if (Array.isArray(value)) {
+        result.periods = value.map(([type, start, stop]) => ({ type, start, stop }));
+      }
+      return;
+    }
+    result[field] = value;
+  });
+  return result;
+}
+
+/**
+ * Encodes bytes as URL-safe base64 without padding
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes URL-safe base64 (with or without padding) to bytes
+ */
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Runs bytes through a compression or decompression stream
+ */
+async function transformBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Gets the ticket form a payload fills
+ */
+export function getPayloadForm(payload: TicketPayload): FormType {
+  return payload.form ?? FormType.FEDERAL;
+}
+
+/**
+ * Checks whether a payload fills a Federal ticket
+ */
+export function isFederalPayload(payload: TicketPayload): payload is FederalPayload {
+  return getPayloadForm(payload) === FormType.FEDERAL;
 }
 
 /**
- * Parses URL parameters and returns a payload object
+ * Packs the sections of a payload, in the order of its form
  */
-export function parsePayloadFromURL(): FederalPayload {
-  const urlParams = new URLSearchParams(window.location.search);
+function packPayloadSections(payload: TicketPayload): (PackedValue[] | PackedValue[][])[] {
+  const source = payload as Record<string, unknown>;
+  if (payload.form === FormType.EEST) {
+    return [
+      packFields(source, EEST_FORM_FIELDS),
+      (payload.timeEntries || []).map(entry => packFields(entry, EEST_TIME_ENTRY_FIELDS))
+    ];
+  }
+  if (payload.form === FormType.ODF) {
+    return [packFields(source, ODF_FORM_FIELDS)];
+  }
+  return [
+    packFields(source, FORM_FIELDS),
+    packFields(source, CHECKBOX_FIELDS),
+    (payload.equipmentEntries || []).map(entry => packFields(entry, EQUIPMENT_FIELDS)),
+    (payload.personnelEntries || []).map(entry => packFields(entry, PERSONNEL_FIELDS))
+  ];
+}
+
+/**
+ * Unpacks the sections of a payload packed by packPayloadSections
+ */
+function unpackPayloadSections(formCode: string, sections: unknown[]): TicketPayload {
+  switch (formCode) {
+    case FORM_CODES.EEST: {
+      const [form, timeEntries] = sections as [PackedValue[], PackedValue[][]];
+      const payload: EESTPayload = { ...unpackFields(form, EEST_FORM_FIELDS), form: FormType.EEST };
+      if (timeEntries && timeEntries.length > 0) {
+        payload.timeEntries = timeEntries.map(entry => unpackFields(entry, EEST_TIME_ENTRY_FIELDS));
+      }
+      return payload;
+    }
+    case FORM_CODES.ODF: {
+      const [form] = sections as [PackedValue[]];
+      return { ...unpackFields(form, ODF_FORM_FIELDS), form: FormType.ODF };
+    }
+    case FORM_CODES.FEDERAL: {
+      const [form, checkboxes, equipment, personnel] = sections as [PackedValue[], PackedValue[], PackedValue[][], PackedValue[][]];
+      const payload: FederalPayload = {
+        ...unpackFields(form, FORM_FIELDS),
+        ...unpackFields(checkboxes, CHECKBOX_FIELDS),
+        form: FormType.FEDERAL
+      };
+      if (equipment && equipment.length > 0) {
+        payload.equipmentEntries = equipment.map(entry => unpackFields(entry, EQUIPMENT_FIELDS));
+      }
+      if (personnel && personnel.length > 0) {
+        payload.personnelEntries = personnel.map(entry => unpackFields(entry, PERSONNEL_FIELDS));
+      }
+      return payload;
+    }
+    default:
+      throw new Error(`The link is for a ticket form this app does not know ("${formCode}")`);
+  }
+}
+
+/**
+ * Encodes a payload in the compact format: "<version>.<codec>.<data>"
+ */
+export async function encodeCompactPayload(payload: TicketPayload): Promise<string> {
+  const packed: PackedPayload = [FORM_CODES[getPayloadForm(payload)], ...packPayloadSections(payload)];
+  const json = new TextEncoder().encode(JSON.stringify(packed));
+
+  const codec: PayloadCodec = typeof CompressionStream === 'undefined' ? 'j' : 'z';
+  const data = codec === 'z' ? await transformBytes(json, new CompressionStream('deflate-raw')) : json;
+  return `${PAYLOAD_FORMAT_VERSION}.${codec}.${toBase64Url(data)}`;
+}
+
+/**
+ * Decodes a payload encoded by encodeCompactPayload
+ * Throws when the payload is damaged or was written by a newer format version
+ */
+export async function decodeCompactPayload(value: string): Promise<TicketPayload> {
+  const [versionText, codec, data] = value.split('.');
+  const version = parseInt(versionText, 10);
+  if (!version || data === undefined) {
+    throw new Error('The link does not contain a readable payload');
+  }
+  if (version > PAYLOAD_FORMAT_VERSION) {
+    throw new Error(`The link was made by a newer version of the app (payload format ${version})`);
+  }
+  if (codec !== 'z' && codec !== 'j') {
+    throw new Error(`Unknown payload encoding "${codec}"`);
+  }
+
+  const bytes = fromBase64Url(data);
+  const json = codec === 'z' ? await transformBytes(bytes, new DecompressionStream('deflate-raw')) : bytes;
+  const packed = JSON.parse(new TextDecoder().decode(json)) as unknown[];
+  // Version 1 payloads are the Federal sections without a form code
+  const [formCode, ...sections] = version === 1 ? [FORM_CODES.FEDERAL, ...packed] : packed;
+  return unpackPayloadSections(String(formCode), sections);
+}
+
+/**
+ * Parses the legacy payload format: one query parameter per field and per entry field
+ * (equipment_0_start1, ...), with values encoded twice
+ */
+export function parseLegacyPayloadParams(urlParams: URLSearchParams): FederalPayload {
   const payload: FederalPayload = {};
   
-  console.log('Parsing URL parameters:', window.location.search);
-  console.log('URL params object:', Object.fromEntries(urlParams.entries()));
-  
   // Parse form fields
-  const formFields = [
-    'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber',
-    'incidentName', 'incidentNumber', 'financialCode', 'equipmentMakeModel',
-    'equipmentType', 'serialVinNumber', 'licenseIdNumber', 'transportRetained',
-    'isFirstLastTicket', 'rateType', 'agencyRepresentative', 'incidentSupervisor',
-    'remarks', 'date'
-  ];
-  
-  formFields.forEach(field => {
+  FORM_FIELDS.forEach(field => {
     const value = urlParams.get(field);
     if (value !== null) {
       (payload as any)[field] = decodeURIComponent(value);
@@ -85,8 +385,7 @@ export function parsePayloadFromURL(): FederalPayload {
   });
   
   // Parse checkbox states
-  const checkboxFields = ['noMealsLodging', 'noMeals', 'travel', 'noLunch', 'hotline'];
-  checkboxFields.forEach(field => {
+  CHECKBOX_FIELDS.forEach(field => {
     const value = urlParams.get(field);
     if (value !== null) {
       (payload as any)[field] = value === 'true';
@@ -99,8 +398,7 @@ export function parsePayloadFromURL(): FederalPayload {
     payload.equipmentEntries = [];
     for (let i = 0; i < equipmentCount; i++) {
       const entry: any = {};
-      const equipmentFields = ['date', 'start', 'stop', 'start1', 'stop1', 'start2', 'stop2', 'total', 'quantity', 'type', 'remarks'];
-      equipmentFields.forEach(field => {
+      LEGACY_EQUIPMENT_FIELDS.forEach(field => {
         const value = urlParams.get(`equipment_${i}_${field}`);
         if (value !== null) {
           entry[field] = decodeURIComponent(value);
@@ -118,8 +416,7 @@ export function parsePayloadFromURL(): FederalPayload {
     payload.personnelEntries = [];
     for (let i = 0; i < personnelCount; i++) {
       const entry: any = {};
-      const personnelFields = ['date', 'name', 'start1', 'stop1', 'start2', 'stop2', 'total', 'remarks'];
-      personnelFields.forEach(field => {
+      LEGACY_PERSONNEL_FIELDS.forEach(field => {
         const value = urlParams.get(`personnel_${i}_${field}`);
         if (value !== null) {
           entry[field] = decodeURIComponent(value);
@@ -131,98 +428,94 @@ export function parsePayloadFromURL(): FederalPayload {
     }
   }
   
-  console.log('Final payload object:', payload);
   return payload;
 }
 
 /**
- * Generates a URL with payload parameters
+ * Parses the payload of a link: the compact payload in its fragment, or legacy query parameters
+ * A signed compact payload has its signature checked against the issuer keys on this device
+ * Throws when the compact payload is damaged or unreadable
  */
-export function generatePayloadURL(baseURL: string, payload: FederalPayload): string {
-  const url = new URL(baseURL);
-  const params = new URLSearchParams();
-  
-  // Add form fields
-  const formFields = [
-    'agreementNumber', 'contractorAgencyName', 'resourceOrderNumber',
-    'incidentName', 'incidentNumber', 'financialCode', 'equipmentMakeModel',
-    'equipmentType', 'serialVinNumber', 'licenseIdNumber', 'transportRetained',
-    'isFirstLastTicket', 'rateType', 'agencyRepresentative', 'incidentSupervisor',
-    'remarks', 'date'
-  ];
-  
-  formFields.forEach(field => {
-    const value = (payload as any)[field];
-    if (value !== undefined && value !== null && value !== '') {
-      params.set(field, encodeURIComponent(value));
+export async function parsePayloadFromLink(link: string): Promise<TicketPayload> {
+  const url = new URL(link);
+  const fragmentParams = new URLSearchParams(url.hash.slice(1));
+  const compactPayload = fragmentParams.get(PAYLOAD_FRAGMENT_PARAM);
+  if (compactPayload) {
+    const payload = await decodeCompactPayload(compactPayload);
+    const signatureParam = fragmentParams.get(PAYLOAD_SIGNATURE_PARAM);
+    if (signatureParam) {
+      payload.signature = await verifyCompactPayload(compactPayload, signatureParam);
+      console.log('Payload signature:', payload.signature);
     }
-  });
-  
-  // Add checkbox states
-  const checkboxFields = ['noMealsLodging', 'noMeals', 'travel', 'noLunch', 'hotline'];
-  checkboxFields.forEach(field => {
-    const value = (payload as any)[field];
-    if (value !== undefined && value !== null) {
-      params.set(field, value.toString());
-    }
-  });
-  
-  // Add equipment entries
-  if (payload.equipmentEntries && payload.equipmentEntries.length > 0) {
-    params.set('equipmentCount', payload.equipmentEntries.length.toString());
-    payload.equipmentEntries.forEach((entry, index) => {
-      const equipmentFields = ['date', 'start', 'stop', 'start1', 'stop1', 'start2', 'stop2', 'total', 'quantity', 'type', 'remarks'];
-      equipmentFields.forEach(field => {
-        const value = (entry as any)[field];
-        if (value !== undefined && value !== null && value !== '') {
-          params.set(`equipment_${index}_${field}`, encodeURIComponent(value));
-        }
-      });
-    });
+    return payload;
   }
-  
-  // Add personnel entries
-  if (payload.personnelEntries && payload.personnelEntries.length > 0) {
-    params.set('personnelCount', payload.personnelEntries.length.toString());
-    payload.personnelEntries.forEach((entry, index) => {
-      const personnelFields = ['date', 'name', 'start1', 'stop1', 'start2', 'stop2', 'total', 'remarks'];
-      personnelFields.forEach(field => {
-        const value = (entry as any)[field];
-        if (value !== undefined && value !== null && value !== '') {
-          params.set(`personnel_${index}_${field}`, encodeURIComponent(value));
-        }
-      });
-    });
+  return parseLegacyPayloadParams(url.searchParams);
+}
+
+/**
+ * Parses the payload of the current URL
+ * A damaged or unreadable compact payload is logged and treated as no payload
+ */
+export async function parsePayloadFromURL(): Promise<TicketPayload> {
+  console.log('Parsing URL payload:', window.location.search, window.location.hash);
+  try {
+    const payload = await parsePayloadFromLink(window.location.href);
+    console.log('Final payload object:', payload);
+    return payload;
+  } catch (error) {
+    console.error('Error reading payload from URL:', error);
+    return {};
+  }
+}
+
+/**
+ * Gets the path of the form page a payload belongs on when it was opened on another form's page (null when it
+ * belongs on this page). The link's query and fragment are kept, so the form page reads the same payload.
+ * Legacy links do not name their form and are applied on the page they were opened on.
+ */
+export function getPayloadRedirect(payload: TicketPayload, pageForm: FormType, link: string = window.location.href): string | null {
+  if (!payload.form || payload.form === pageForm) {
+    return null;
+  }
+  const url = new URL(link);
+  return `${PAYLOAD_FORM_PATHS[payload.form]}${url.search}${url.hash}`;
+}
+
+/**
+ * Generates a URL carrying the payload as one compact fragment parameter, signed when an issuer key is given
+ */
+export async function generatePayloadURL(baseURL: string, payload: TicketPayload, issuer?: PayloadIssuer): Promise<string> {
+  const url = new URL(baseURL);
+  const compactPayload = await encodeCompactPayload(payload);
+  url.hash = `${PAYLOAD_FRAGMENT_PARAM}=${compactPayload}`;
+  if (issuer) {
+    url.hash += `&${PAYLOAD_SIGNATURE_PARAM}=${await signCompactPayload(compactPayload, issuer)}`;
   }
-  
-  // Add parameters to URL
-  params.forEach((value, key) => {
-    url.searchParams.set(key, value);
-  });
-  
   return url.toString();
 }
 
 /**
  * Creates a shareable link with current form data
  */
-export function createShareableLink(
+export async function createShareableLink(
   baseURL: string,
   formData: any,
   checkboxStates: any,
   equipmentEntries: any[],
   personnelEntries: any[],
-  selectedDate?: string
-): string {
+  selectedDate?: string,
+  issuer?: PayloadIssuer
+): Promise<string> {
   const payload: FederalPayload = {
     ...formData,
     ...checkboxStates,
+    form: FormType.FEDERAL,
     date: selectedDate,
     equipmentEntries: equipmentEntries.length > 0 ? equipmentEntries : undefined,
     personnelEntries: personnelEntries.length > 0 ? personnelEntries : undefined
   };
   
-  return generatePayloadURL(baseURL, payload);
+  return generatePayloadURL(baseURL, payload, issuer);
 }
 
 /**
@@ -256,10 +549,11 @@ export function validatePayload(payload: FederalPayload): { isValid: boolean; er
 }
 
 /**
- * Clears URL parameters (useful after applying payload)
+ * Clears URL parameters and the payload fragment (useful after applying payload)
  */
 export function clearURLParameters(): void {
   const url = new URL(window.location.href);
   url.search = '';
+  url.hash = '';
   window.history.replaceState({}, document.title, url.toString());
 }
@@ -5,7 +5,7 @@
  * ensuring consistent date-to-ID conversion across the application.
  */
 
-export type FormType = 'federal' | 'eest';
+export type FormType = 'federal' | 'eest' | 'odf';
 
 /**
  * Normalizes a date string to MM/DD/YY format
@@ -42,17 +42,26 @@ export function dateToIdFormat(date: string): string {
   return normalized.replace(/\//g, '-');
 }
 
+/**
+ * Gets the ticket suffix of a PDF ID, so tickets filled on the same date don't overwrite each other
+ * PDFs stored before tickets existed have no suffix
+ */
+function ticketSuffix(ticketId?: number): string {
+  return ticketId !== undefined ? `-t${ticketId}` : '';
+}
+
 /**
  * Derives a PDF ID from a date and form type
  * 
  * @param date - Date in MM/DD/YY format (will be normalized)
- * @param formType - Type of form ('federal' or 'eest')
- * @returns PDF ID like 'federal-form-12-25-24'
+ * @param formType - Type of form ('federal', 'eest' or 'odf')
+ * @param ticketId - Ticket the PDF belongs to
+ * @returns PDF ID like 'federal-form-12-25-24' or 'federal-form-12-25-24-t3'
  */
-export function derivePdfIdFromDate(date: string | Date, formType: FormType = 'federal'): string {
+export function derivePdfIdFromDate(date: string | Date, formType: FormType = 'federal', ticketId?: number): string {
   const normalizedDate = normalizeDate(date);
   const idFormat = dateToIdFormat(normalizedDate);
-  const pdfId = `${formType}-form-${idFormat}`;
+  const pdfId = `${formType}-form-${idFormat}${ticketSuffix(ticketId)}`;
   console.log('🔍 derivePdfIdFromDate: Input:', date, '→ Normalized:', normalizedDate, '→ ID Format:', idFormat, '→ PDF ID:', pdfId);
   return pdfId;
 }
@@ -71,6 +80,7 @@ export function resolvePdfId(options: {
   date?: string | Date;
   pdfId?: string;
   formType?: FormType;
+  ticketId?: number;
 }): string {
   // If explicit PDF ID is provided, use it (backward compatibility)
   if (options.pdfId) {
@@ -79,22 +89,49 @@ export function resolvePdfId(options: {
   
   // If date is provided, derive ID from it
   if (options.date) {
-    return derivePdfIdFromDate(options.date, options.formType || 'federal');
+    return derivePdfIdFromDate(options.date, options.formType || 'federal', options.ticketId);
   }
   
   // Fallback: use today's date
-  return derivePdfIdFromDate(new Date(), options.formType || 'federal');
+  return derivePdfIdFromDate(new Date(), options.formType || 'federal', options.ticketId);
 }
 
 /**
  * Gets PDF ID for a signed PDF (used when saving)
  * 
  * @param date - Date in MM/DD/YY format
- * @returns PDF ID like 'federal-signed-12-25-24'
+ * @param formType - Type of form ('federal', 'eest' or 'odf')
+ * @param ticketId - Ticket the PDF belongs to
+ * @returns PDF ID like 'federal-signed-12-25-24' or 'federal-signed-12-25-24-t3'
  */
-export function getSignedPdfId(date: string | Date): string {
+export function getSignedPdfId(date: string | Date, formType: FormType = 'federal', ticketId?: number): string {
   const normalizedDate = normalizeDate(date);
   const idFormat = dateToIdFormat(normalizedDate);
-  return `federal-signed-${idFormat}`;
+  return `${formType}-signed-${idFormat}${ticketSuffix(ticketId)}`;
+}
+
+/**
+ * Gets the PDF ID of the blank template for a form type
+ * 
+ * @param formType - Type of form ('federal', 'eest' or 'odf')
+ * @returns PDF ID like 'federal-form'
+ */
+export function getTemplatePdfId(formType: FormType = 'federal'): string {
+  return `${formType}-form`;
+}
+
+/**
+ * Parses a ticket ID from a URL parameter
+ */
+export function parseTicketId(value: string | null | undefined): number | undefined {
+  const ticketId = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(ticketId) ? undefined : ticketId;
+}
+
+/**
+ * Parses a form type from a URL parameter, defaulting to 'federal'
+ */
+export function parseFormType(value: string | null | undefined): FormType {
+  return value === 'eest' || value === 'odf' ? value : 'federal';
 }
 
@@ -168,6 +168,7 @@ export interface PDFData {
     crewNumber: string;
     fireName: string;
     fireNumber: string;
+    ticketId?: number;  // Ticket the PDF belongs to (missing on PDFs stored before tickets existed)
   };
   timestamp: string;
   
@@ -288,6 +289,7 @@ export async function storePDFWithId(
     crewNumber: string;
     fireName: string;
     fireNumber: string;
+    ticketId?: number;
   },
   options?: {
     formData?: FormFieldMetadata;
@@ -325,6 +327,14 @@ export async function storePDFWithId(
   await pdfStorageDB.pdfs.put(pdfData);
 }
 
+/**
+ * Checks whether a stored PDF belongs to a ticket
+ * PDFs stored before tickets existed have no ticket and are listed under every ticket
+ */
+export function isPDFForTicket(pdfData: PDFData, ticketId: number | null): boolean {
+  return pdfData.metadata.ticketId === undefined || ticketId === null || pdfData.metadata.ticketId === ticketId;
+}
+
 /**
  * Get PDF with all metadata
  */
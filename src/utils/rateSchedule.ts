@@ -0,0 +1,280 @@
+// Rate Schedule - turns equipment time into cost estimates using the rates of the agreement
+// Estimates are for invoice reconciliation only; nothing here is written to the PDF
+import type { FederalEquipmentEntry } from './engineTimeDB';
+import {
+  FormType,
+  loadTicket,
+  listIncidentTickets,
+  loadAllFederalEquipmentEntries,
+  loadFederalFormData,
+  getIncidentTimeZone
+} from './engineTimeDB';
+import type { RoundingPolicy } from './billingRounding';
+import { DEFAULT_ROUNDING_POLICY, applyDailyMinimum } from './billingRounding';
+import { calculateFederalEquipmentTotal, getBillingDay } from './timeCalculations';
+import { mergeEntryHistory } from './workRestCompliance';
+import { calculateMeterQuantity } from './equipmentMeter';
+
+// Unit a rate is charged per
+export type RateUnit = 'HOURS' | 'DAYS' | 'MILES';
+
+// Special rate - a rate picked by the entry's Type code (e.g. operated, non-operated, standby)
+export interface SpecialRate {
+  // Code entered in the entry's Type column (matched case-insensitively)
+  code: string;
+  label: string;
+  unit: RateUnit;
+  rate: number;
+}
+
+// Rate schedule interface
+export interface RateSchedule {
+  hourlyRate: number;
+  dailyRate: number;
+  mileageRate: number;
+  specialRates: SpecialRate[];
+}
+
+// Cost of one equipment entry
+export interface EntryCost {
+  date: string;
+  // Rate that applied ("Hourly", "Daily", "Mileage" or the special rate's label)
+  rateLabel: string;
+  unit: RateUnit;
+  quantity: number;
+  rate: number;
+  amount: number;
+  // Why the entry could not be priced, if it could not
+  issue?: string;
+}
+
+// Cost of one day
+export interface DayCost {
+  date: string;
+  amount: number;
+}
+
+// Cost summary of a ticket's equipment entries
+export interface TicketCostSummary {
+  entries: EntryCost[];
+  days: DayCost[];
+  total: number;
+}
+
+// Cost estimate of a ticket and the incident it is on
+export interface IncidentCostEstimate {
+  ticket: TicketCostSummary;
+  // Total of every Federal ticket on the incident (just this ticket when it has no incident number)
+  incidentTotal: number;
+  incidentTicketCount: number;
+}
+
+// Empty schedule - no rates entered yet
+export const EMPTY_RATE_SCHEDULE: RateSchedule = {
+  hourlyRate: 0,
+  dailyRate: 0,
+  mileageRate: 0,
+  specialRates: []
+};
+
+// Type codes accepted for the standard rates
+const UNIT_CODES: Record<RateUnit, string[]> = {
+  HOURS: ['HOURS', 'HOUR', 'HRS', 'HR', 'H'],
+  DAYS: ['DAYS', 'DAY', 'D'],
+  MILES: ['MILES', 'MILE', 'MI', 'M']
+};
+
+const UNIT_LABELS: Record<RateUnit, string> = {
+  HOURS: 'Hourly',
+  DAYS: 'Daily',
+  MILES: 'Mileage'
+};
+
+/**
+ * Gets the standard rate unit for a Type code, if it is one
+ */
+function getStandardUnit(code: string): RateUnit | undefined {
+  const normalized = code.trim().toUpperCase();
+  return (Object.keys(UNIT_CODES) as RateUnit[]).find(unit => UNIT_CODES[unit].includes(normalized));
+}
+
+/**
+ * Parses a number typed into the form (empty or invalid is null)
+ */
+function parseAmount(value: string): number | null {
+  const parsed = parseFloat((value || '').replace(/[^\d.]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Works out how many units of a rate an entry used
+ * Metered entries use their readings when the rate is priced in the meter's unit; otherwise hours come from the
+ * entry's times (rounded under the rounding policy, in the incident's time zone), falling back to Quantity, then Total
+ * The daily minimum is for the whole day, so it is added by summarizeTicketCost
+ * Days default to one; miles must be entered in Quantity
+ */
+function getEntryQuantity(
+  entry: FederalEquipmentEntry,
+  unit: RateUnit,
+  roundingPolicy?: RoundingPolicy,
+  timeZone?: string
+): number | null {
+  if (entry.meterType === unit) {
+    return calculateMeterQuantity(entry);
+  }
+
+  // The Quantity of a metered entry holds its readings, which are not in this rate's unit
+  const quantity = entry.meterType ? null : parseAmount(entry.quantity);
+  switch (unit) {
+    case 'HOURS': {
+      const calculation = calculateFederalEquipmentTotal(entry, roundingPolicy, timeZone);
+      if (calculation.isValid) return calculation.totalHours;
+      return quantity ?? parseAmount(entry.total);
+    }
+    case 'DAYS':
+      return quantity ?? 1;
+    case 'MILES':
+      return quantity;
+  }
+}
+
+/**
+ * Calculates the cost of one equipment entry
+ * The entry's Type picks the rate; an empty Type uses the entry's meter, then the form's rate type (hours when not set)
+ */
+export function calculateEquipmentEntryCost(
+  entry: FederalEquipmentEntry,
+  schedule: RateSchedule,
+  roundingPolicy?: RoundingPolicy,
+  defaultRateType = 'HOURS',
+  timeZone?: string
+): EntryCost {
+  const code = (entry.type || entry.meterType || defaultRateType || 'HOURS').trim();
+  const specialRate = schedule.specialRates.find(special => special.code.trim().toUpperCase() === code.toUpperCase());
+  const standardUnit = getStandardUnit(code);
+
+  if (!specialRate && !standardUnit) {
+    return { date: entry.date, rateLabel: code, unit: 'HOURS', quantity: 0, rate: 0, amount: 0, issue: `No rate for type "${code}"` };
+  }
+
+  const unit = specialRate ? specialRate.unit : standardUnit!;
+  const rateLabel = specialRate ? specialRate.label || specialRate.code : UNIT_LABELS[unit];
+  const rate = specialRate
+    ? specialRate.rate
+    : unit === 'HOURS' ? schedule.hourlyRate : unit === 'DAYS' ? schedule.dailyRate : schedule.mileageRate;
+  const quantity = getEntryQuantity(entry, unit, roundingPolicy, timeZone);
+
+  if (quantity === null) {
+    return { date: entry.date, rateLabel, unit, quantity: 0, rate, amount: 0, issue: entry.meterType === unit ? 'Enter the begin and end readings' : unit === 'MILES' ? 'Enter the miles in Quantity' : 'No time entered' };
+  }
+
+  return {
+    date: entry.date,
+    rateLabel,
+    unit,
+    quantity,
+    rate,
+    amount: Math.round(quantity * rate * 100) / 100,
+    issue: rate > 0 ? undefined : `${rateLabel} rate not set`
+  };
+}
+
+/**
+ * Checks whether an entry's cost was priced from the hours of its times
+ */
+function isPricedFromTimes(entry: FederalEquipmentEntry, cost: EntryCost, roundingPolicy?: RoundingPolicy, timeZone?: string): boolean {
+  return cost.unit === 'HOURS' && entry.meterType !== 'HOURS' &&
+    calculateFederalEquipmentTotal(entry, roundingPolicy, timeZone).isValid;
+}
+
+/**
+ * Summarizes the cost of a ticket's equipment entries, per entry and per day
+ */
+export function summarizeTicketCost(
+  entries: FederalEquipmentEntry[],
+  schedule: RateSchedule,
+  roundingPolicy?: RoundingPolicy,
+  defaultRateType?: string,
+  timeZone?: string
+): TicketCostSummary {
+  const datedEntries = entries.filter(entry => entry.date);
+  const pricedCosts = datedEntries.map(entry => calculateEquipmentEntryCost(entry, schedule, roundingPolicy, defaultRateType, timeZone));
+
+  // Hours priced from the entries' times are topped up to the daily minimum once per day, on the day's last entry
+  const fromTimes = datedEntries.map((entry, index) => isPricedFromTimes(entry, pricedCosts[index], roundingPolicy, timeZone));
+  const billedMinutes = applyDailyMinimum(
+    datedEntries.map(getBillingDay),
+    pricedCosts.map((cost, index) => fromTimes[index] ? Math.round(cost.quantity * 60) : 0),
+    roundingPolicy
+  );
+  const entryCosts = pricedCosts.map((cost, index) => {
+    if (!fromTimes[index]) return cost;
+    const quantity = billedMinutes[index] / 60;
+    return { ...cost, quantity, amount: Math.round(quantity * cost.rate * 100) / 100 };
+  });
+
+  const amountByDate = new Map<string, number>();
+  entryCosts.forEach(cost => {
+    amountByDate.set(cost.date, (amountByDate.get(cost.date) || 0) + cost.amount);
+  });
+
+  const days = Array.from(amountByDate.entries())
+    .map(([date, amount]) => ({ date, amount: Math.round(amount * 100) / 100 }))
+    .sort((a, b) => {
+      const [am, ad, ay] = a.date.split('/');
+      const [bm, bd, by] = b.date.split('/');
+      return `${ay}${am}${ad}`.localeCompare(`${by}${bm}${bd}`);
+    });
+
+  return {
+    entries: entryCosts,
+    days,
+    total: Math.round(days.reduce((sum, day) => sum + day.amount, 0) * 100) / 100
+  };
+}
+
+/**
+ * Formats an amount as dollars
+ */
+export function formatCurrency(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+/**
+ * Estimates the cost of a ticket (with the entries being edited) and of every Federal ticket on its incident
+ * Each ticket is priced with its own rate schedule, rounding policy, rate type and time zone; the rounding policy
+ * being edited can be passed in for the current ticket
+ */
+export async function estimateIncidentCost(
+  ticketId: number,
+  currentEntries: FederalEquipmentEntry[],
+  roundingPolicy?: RoundingPolicy
+): Promise<IncidentCostEstimate> {
+  const summarizeStoredTicket = async (id: number, entries: FederalEquipmentEntry[], policy?: RoundingPolicy) => {
+    const [ticket, formData, timeZone] = await Promise.all([loadTicket(id), loadFederalFormData(id), getIncidentTimeZone(id)]);
+    return summarizeTicketCost(
+      entries,
+      ticket?.rateSchedule ?? EMPTY_RATE_SCHEDULE,
+      policy ?? ticket?.roundingPolicy ?? DEFAULT_ROUNDING_POLICY,
+      formData?.rateType,
+      timeZone
+    );
+  };
+
+  const storedEntries = await loadAllFederalEquipmentEntries(ticketId);
+  const ticketSummary = await summarizeStoredTicket(ticketId, mergeEntryHistory(storedEntries, currentEntries, ticketId), roundingPolicy);
+
+  const ticket = await loadTicket(ticketId);
+  const otherTickets = ticket?.incidentNumber
+    ? (await listIncidentTickets(FormType.FEDERAL, ticket.incidentNumber)).filter(other => other.id !== ticketId)
+    : [];
+  const otherSummaries = await Promise.all(otherTickets.map(async other =>
+    summarizeStoredTicket(other.id!, await loadAllFederalEquipmentEntries(other.id!))
+  ));
+
+  return {
+    ticket: ticketSummary,
+    incidentTotal: Math.round((ticketSummary.total + otherSummaries.reduce((sum, summary) => sum + summary.total, 0)) * 100) / 100,
+    incidentTicketCount: otherTickets.length + 1
+  };
+}
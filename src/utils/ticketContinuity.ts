@@ -0,0 +1,221 @@
+// Ticket Continuity - checks a ticket's saved dates against each other, so problems are fixed before the ticket goes to finance
+// Flags missing days in the assignment, overlapping or duplicate entries, totals over 24 hours and meter readings that go backward
+import type { FederalEquipmentEntry, FederalPersonnelEntry } from './engineTimeDB';
+import { getFederalEquipmentPeriods, getFederalPersonnelPeriods, getMinutesByDate, resolveTimePeriod } from './timePeriods';
+import { normalizeCrewName } from './crewRoster';
+import { EQUIPMENT_SUBJECT } from './workRestCompliance';
+import { findMeterReadingIssues } from './equipmentMeter';
+
+// Kind of continuity problem
+export type ContinuityIssueKind = 'MISSING_DAY' | 'OVERLAP' | 'DUPLICATE' | 'EXCESS_TOTAL' | 'METER_READING';
+
+// Continuity issue interface
+export interface ContinuityIssue {
+  kind: ContinuityIssueKind;
+  // Errors are wrong data; warnings may be correct (e.g. a day off) but are worth a look
+  severity: 'error' | 'warning';
+  // Date (MM/DD/YY) the issue shows on
+  date: string;
+  // Person name, or 'Equipment'; not set for issues about the whole ticket
+  subject?: string;
+  message: string;
+}
+
+// Longest time an entry can cover, in minutes
+const MAX_ENTRY_MINUTES = 24 * 60;
+
+// Start/stop pair of an entry, with its subject
+interface SubjectPeriod {
+  subject: string;
+  // Subject matched regardless of case and spacing
+  subjectKey: string;
+  date: string;
+  start: string;
+  stop: string;
+}
+
+/**
+ * Converts an MM/DD/YY date to days since the epoch
+ */
+function toDayNumber(date: string): number | null {
+  const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
+  if (!match) return null;
+  const [, month, day, year] = match;
+  return Date.UTC(2000 + parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10)) / 86400000;
+}
+
+/**
+ * Converts days since the epoch to an MM/DD/YY date
+ */
+function fromDayNumber(dayNumber: number): string {
+  const date = new Date(dayNumber * 86400000);
+  const month = (date.getUTCMonth() + 1).toString().padStart(2, '0');
+  const day = date.getUTCDate().toString().padStart(2, '0');
+  return `${month}/${day}/${date.getUTCFullYear().toString().slice(-2)}`;
+}
+
+/**
+ * Finds days with no entries between the first and last day the ticket has time or meter readings on
+ * Days that only have time carried over from an overnight shift count as covered
+ */
+function findMissingDays(workedDates: string[], periods: SubjectPeriod[], timeZone?: string): ContinuityIssue[] {
+  const coveredDays = new Set<number>();
+  workedDates.forEach(date => {
+    const dayNumber = toDayNumber(date);
+    if (dayNumber !== null) coveredDays.add(dayNumber);
+  });
+  getMinutesByDate(periods, timeZone).forEach((minutes, date) => {
+    const dayNumber = toDayNumber(date);
+    if (minutes > 0 && dayNumber !== null) coveredDays.add(dayNumber);
+  });
+  if (coveredDays.size === 0) return [];
+
+  const firstDay = Math.min(...coveredDays);
+  const lastDay = Math.max(...coveredDays);
+  const issues: ContinuityIssue[] = [];
+  for (let dayNumber = firstDay + 1; dayNumber < lastDay; dayNumber++) {
+    if (!coveredDays.has(dayNumber)) {
+      issues.push({
+        kind: 'MISSING_DAY',
+        severity: 'warning',
+        date: fromDayNumber(dayNumber),
+        message: `No entries, but the assignment runs ${fromDayNumber(firstDay)} to ${fromDayNumber(lastDay)}`
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Finds periods of the same subject that overlap in real time, including overnight periods running into the next date
+ */
+function findOverlaps(periods: SubjectPeriod[], timeZone?: string): ContinuityIssue[] {
+  const resolved = periods
+    .map(period => ({ ...period, resolved: resolveTimePeriod(period.date, period.start, period.stop, timeZone) }))
+    .filter(period => period.resolved !== null)
+    .sort((a, b) => a.resolved!.start.getTime() - b.resolved!.start.getTime());
+
+  const issues: ContinuityIssue[] = [];
+  resolved.forEach((period, index) => {
+    const earlier = resolved
+      .slice(0, index)
+      .find(other => other.subjectKey === period.subjectKey && other.resolved!.end.getTime() > period.resolved!.start.getTime());
+    if (!earlier) return;
+
+    const earlierLabel = earlier.date === period.date ? '' : ` on ${earlier.date}`;
+    issues.push({
+      kind: 'OVERLAP',
+      severity: 'error',
+      date: period.date,
+      subject: period.subject,
+      message: `${period.subject}: ${period.start}-${period.stop} overlaps ${earlier.start}-${earlier.stop}${earlierLabel}`
+    });
+  });
+  return issues;
+}
+
+/**
+ * Gets the time an entry covers from its start/stop pairs, in minutes
+ */
+function getEntryMinutes(periods: { date: string; start: string; stop: string }[], timeZone?: string): number {
+  return periods.reduce((total, { date, start, stop }) => {
+    const period = resolveTimePeriod(date, start, stop, timeZone);
+    return period ? total + Math.round((period.end.getTime() - period.start.getTime()) / 60000) : total;
+  }, 0);
+}
+
+/**
+ * Checks one subject's entries for duplicates and totals over 24 hours
+ * Returns the issues and the periods of the distinct entries, for the overlap check
+ */
+function checkEntries<T extends { date: string; total: string }>(
+  entries: T[],
+  getSubject: (entry: T) => string,
+  getPeriods: (entry: T) => { date: string; start: string; stop: string }[],
+  timeZone?: string
+): { issues: ContinuityIssue[]; periods: SubjectPeriod[] } {
+  const issues: ContinuityIssue[] = [];
+  const periods: SubjectPeriod[] = [];
+  const signatures = new Set<string>();
+
+  entries.forEach(entry => {
+    const entryPeriods = getPeriods(entry).filter(period => period.start && period.stop);
+    if (!entry.date || entryPeriods.length === 0) return;
+    const name = getSubject(entry);
+
+    // The same times entered twice would be billed twice
+    const subjectKey = normalizeCrewName(name);
+    const signature = [subjectKey, entry.date, ...entryPeriods.flatMap(period => [period.start, period.stop])].join('|');
+    if (signatures.has(signature)) {
+      issues.push({
+        kind: 'DUPLICATE',
+        severity: 'error',
+        date: entry.date,
+        subject: name,
+        message: `${name}: ${entryPeriods.map(period => `${period.start}-${period.stop}`).join(', ')} is entered more than once`
+      });
+      return;
+    }
+    signatures.add(signature);
+
+    const minutes = Math.max(getEntryMinutes(entryPeriods, timeZone), (parseFloat(entry.total) || 0) * 60);
+    if (minutes > MAX_ENTRY_MINUTES) {
+      issues.push({
+        kind: 'EXCESS_TOTAL',
+        severity: 'error',
+        date: entry.date,
+        subject: name,
+        message: `${name}: ${(minutes / 60).toFixed(2)} hrs in one entry is more than 24 hours`
+      });
+    }
+
+    entryPeriods.forEach(period => periods.push({ subject: name, subjectKey, ...period }));
+  });
+
+  return { issues, periods };
+}
+
+/**
+ * Checks every saved date of a ticket against the others
+ * Times are resolved in the incident's time zone
+ */
+export function findContinuityIssues(
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[],
+  timeZone?: string
+): ContinuityIssue[] {
+  const equipment = checkEntries(equipmentEntries, () => EQUIPMENT_SUBJECT, getFederalEquipmentPeriods, timeZone);
+  const personnel = checkEntries(
+    personnelEntries.filter(entry => entry.name && entry.name.trim() !== ''),
+    entry => entry.name.trim(),
+    getFederalPersonnelPeriods,
+    timeZone
+  );
+
+  const meterIssues: ContinuityIssue[] = findMeterReadingIssues(equipmentEntries).map(issue => ({
+    kind: 'METER_READING',
+    severity: 'error',
+    date: issue.entry.date,
+    subject: EQUIPMENT_SUBJECT,
+    message: `${EQUIPMENT_SUBJECT}: ${issue.message}`
+  }));
+
+  const periods = [...equipment.periods, ...personnel.periods];
+  const meteredDates = equipmentEntries.filter(entry => entry.meterBegin || entry.meterEnd).map(entry => entry.date);
+
+  return [
+    ...findMissingDays([...periods.map(period => period.date), ...meteredDates], periods, timeZone),
+    ...equipment.issues,
+    ...findOverlaps(equipment.periods, timeZone),
+    ...personnel.issues,
+    ...findOverlaps(personnel.periods, timeZone),
+    ...meterIssues
+  ];
+}
+
+/**
+ * Gets the issues that show on a date
+ */
+export function getContinuityIssuesFor(issues: ContinuityIssue[], date: string): ContinuityIssue[] {
+  return issues.filter(issue => issue.date === date);
+}
@@ -2,16 +2,29 @@
 // Handles calculation of total hours and date propagation for equipment and personnel entries
 
 import type { FederalEquipmentEntry, FederalPersonnelEntry } from './engineTimeDB';
-import type { EESTTimeEntry } from './engineTimeDB';
+import type { EESTTimeEntry, ODFTimeEntry } from './engineTimeDB';
+import type { RoundingPolicy } from './billingRounding';
+import { applyRoundingPolicy, applyDailyMinimum, DEFAULT_ROUNDING_POLICY } from './billingRounding';
+import { parseTimeOfDay, resolveTimePeriod, getDatedPeriods, getEntryPeriodList, getFederalEquipmentPeriods, getFederalPersonnelPeriods, UNPAID_PERIOD_TYPES, PERIOD_TIME_CLASSES } from './timePeriods';
+import type { EntryPeriod, PeriodType, TimeClass } from './timePeriods';
 
 // Time calculation result interface
 export interface TimeCalculationResult {
+  // Billed hours (after the rounding increment; the daily minimum is added by calculateDailyTotals)
   totalHours: number;
   formattedTotal: string;
+  // Unrounded minutes worked, kept for audit
+  rawMinutes: number;
   isValid: boolean;
   error?: string;
 }
 
+// Minutes of each period type in an entry
+export type PeriodTypeTotals = Record<PeriodType, number>;
+
+// Minutes of each billing class
+export type TimeClassTotals = Record<TimeClass, number>;
+
 // Date propagation result interface
 export interface DatePropagationResult {
   propagatedDate: string;
@@ -90,35 +103,47 @@ export function minutesToTimeString(minutes: number): string {
   return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Converts a start/stop time to minutes since midnight, or null when it is blank or invalid
+ * Midnight can be entered as 0000 (start of the day) or 2400 (end of the day)
+ */
+function parsePeriodTime(timeStr: string): number | null {
+  return parseTimeOfDay(timeStr) ?? (timeStringToMinutes(timeStr) || null);
+}
+
 /**
  * Calculates total hours between start and stop times
+ * With the date and the incident's time zone, the duration is the real time elapsed (correct across DST changes)
  */
-export function calculateTimeDifference(startTime: string, stopTime: string): TimeCalculationResult {
-  const startMinutes = timeStringToMinutes(startTime);
-  const stopMinutes = timeStringToMinutes(stopTime);
+export function calculateTimeDifference(startTime: string, stopTime: string, date?: string, timeZone?: string): TimeCalculationResult {
+  const startMinutes = parsePeriodTime(startTime);
+  const stopMinutes = parsePeriodTime(stopTime);
 
-  if (startMinutes === 0 && stopMinutes === 0) {
+  if (startMinutes === null && stopMinutes === null) {
     return {
       totalHours: 0,
       formattedTotal: '0.00',
+      rawMinutes: 0,
       isValid: false,
       error: 'Both start and stop times are required'
     };
   }
 
-  if (startMinutes === 0) {
+  if (startMinutes === null) {
     return {
       totalHours: 0,
       formattedTotal: '0.00',
+      rawMinutes: 0,
       isValid: false,
       error: 'Start time is required'
     };
   }
 
-  if (stopMinutes === 0) {
+  if (stopMinutes === null) {
     return {
       totalHours: 0,
       formattedTotal: '0.00',
+      rawMinutes: 0,
       isValid: false,
       error: 'Stop time is required'
     };
@@ -131,108 +156,263 @@ export function calculateTimeDifference(startTime: string, stopTime: string): Ti
     totalMinutes += 1440;
   }
 
+  // Real elapsed time in the incident's time zone
+  const period = date && timeZone ? resolveTimePeriod(date, startTime, stopTime, timeZone) : null;
+  if (period) {
+    totalMinutes = Math.round((period.end.getTime() - period.start.getTime()) / 60000);
+  }
+
   const totalHours = totalMinutes / 60;
   const formattedTotal = totalHours.toFixed(2);
 
   return {
     totalHours,
     formattedTotal,
+    rawMinutes: totalMinutes,
     isValid: true
   };
 }
 
 /**
- * Calculates total hours for Federal equipment entry (handles two time periods)
+ * Totals the minutes of each period type in a typed period list (exact time, in the incident's time zone)
  */
-export function calculateFederalEquipmentTotal(entry: FederalEquipmentEntry): TimeCalculationResult {
-  // Try to use start1/stop1 and start2/stop2 first, fallback to legacy start/stop
-  const period1 = calculateTimeDifference(entry.start1 || entry.start, entry.stop1 || entry.stop);
-  const period2 = calculateTimeDifference(entry.start2, entry.stop2);
+export function calculatePeriodTypeTotals(date: string, periods: EntryPeriod[], timeZone?: string): PeriodTypeTotals {
+  const totals: PeriodTypeTotals = { WORK: 0, HOTLINE: 0, TRAVEL: 0, STANDBY: 0, MEAL: 0 };
+  getDatedPeriods(date, periods).forEach(period => {
+    const result = calculateTimeDifference(period.start, period.stop, period.date, timeZone);
+    if (result.isValid) {
+      totals[period.type] += result.rawMinutes;
+    }
+  });
+  return totals;
+}
+
+/**
+ * Totals the minutes of each billing class across Federal entries (exact time, in the incident's time zone)
+ * Entries without a typed period list count as worked time
+ */
+export function calculateTimeClassTotals(
+  entries: (FederalEquipmentEntry | FederalPersonnelEntry)[],
+  timeZone?: string
+): TimeClassTotals {
+  const totals: TimeClassTotals = { WORKED: 0, STANDBY: 0, TRAVEL: 0 };
+  entries.forEach(entry => {
+    const typeTotals = calculatePeriodTypeTotals(entry.date, getEntryPeriodList(entry), timeZone);
+    (Object.keys(typeTotals) as PeriodType[]).forEach(type => {
+      const timeClass = PERIOD_TIME_CLASSES[type];
+      if (timeClass) {
+        totals[timeClass] += typeTotals[type];
+      }
+    });
+  });
+  return totals;
+}
+
+/**
+ * Calculates the total hours of a typed period list - every paid period, rounded as one day's time
+ */
+function calculatePeriodListTotal(
+  date: string,
+  periods: EntryPeriod[],
+  roundingPolicy: RoundingPolicy,
+  timeZone?: string
+): TimeCalculationResult {
+  let rawMinutes = 0;
+  const errors: string[] = [];
+
+  getDatedPeriods(date, periods).forEach((period, index) => {
+    if (UNPAID_PERIOD_TYPES.includes(period.type)) return;
+    const result = calculateTimeDifference(period.start, period.stop, period.date, timeZone);
+    if (result.isValid) {
+      rawMinutes += result.rawMinutes;
+    } else if (period.start || period.stop) {
+      errors.push(`Period ${index + 1}: ` + (result.error || 'Invalid time'));
+    }
+  });
+
+  const totalHours = applyRoundingPolicy(rawMinutes, roundingPolicy) / 60;
+  return {
+    totalHours,
+    formattedTotal: totalHours.toFixed(2),
+    rawMinutes,
+    isValid: rawMinutes > 0,
+    error: errors.length > 0 ? errors.join('; ') : undefined
+  };
+}
+
+/**
+ * Calculates total hours for Federal equipment entry (handles two time periods, or a typed period list)
+ */
+export function calculateFederalEquipmentTotal(
+  entry: FederalEquipmentEntry,
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): TimeCalculationResult {
+  if (entry.periods) {
+    return calculatePeriodListTotal(entry.date, entry.periods, roundingPolicy, timeZone);
+  }
+
+  // Try to use start1/stop1 and start2/stop2 first, fallback to legacy start/stop (a second period that starts
+  // before the first ended is on the next day)
+  const [pair1, pair2] = getFederalEquipmentPeriods(entry);
+  const period1 = calculateTimeDifference(pair1.start, pair1.stop, pair1.date, timeZone);
+  const period2 = calculateTimeDifference(pair2.start, pair2.stop, pair2.date, timeZone);
 
   // If both periods are invalid, return error
   if (!period1.isValid && !period2.isValid) {
     return {
       totalHours: 0,
       formattedTotal: '0.00',
+      rawMinutes: 0,
       isValid: false,
       error: 'At least one valid time period is required'
     };
   }
 
-  // Calculate total from valid periods
-  let totalHours = 0;
+  // Calculate total from valid periods, then round the day's time under the billing policy
+  let rawMinutes = 0;
   let errors: string[] = [];
 
   if (period1.isValid) {
-    totalHours += period1.totalHours;
+    rawMinutes += period1.rawMinutes;
   } else if (entry.start1 || entry.stop1 || entry.start || entry.stop) {
     errors.push('Period 1: ' + (period1.error || 'Invalid time'));
   }
 
   if (period2.isValid) {
-    totalHours += period2.totalHours;
+    rawMinutes += period2.rawMinutes;
   } else if (entry.start2 || entry.stop2) {
     errors.push('Period 2: ' + (period2.error || 'Invalid time'));
   }
 
+  const totalHours = applyRoundingPolicy(rawMinutes, roundingPolicy) / 60;
   const formattedTotal = totalHours.toFixed(2);
 
   return {
     totalHours,
     formattedTotal,
-    isValid: totalHours > 0,
+    rawMinutes,
+    isValid: rawMinutes > 0,
     error: errors.length > 0 ? errors.join('; ') : undefined
   };
 }
 
 /**
- * Calculates total hours for Federal personnel entry (handles two time periods)
+ * Calculates total hours for Federal personnel entry (handles two time periods, or a typed period list)
  */
-export function calculateFederalPersonnelTotal(entry: FederalPersonnelEntry): TimeCalculationResult {
-  const period1 = calculateTimeDifference(entry.start1, entry.stop1);
-  const period2 = calculateTimeDifference(entry.start2, entry.stop2);
+export function calculateFederalPersonnelTotal(
+  entry: FederalPersonnelEntry,
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): TimeCalculationResult {
+  if (entry.periods) {
+    return calculatePeriodListTotal(entry.date, entry.periods, roundingPolicy, timeZone);
+  }
+
+  const [pair1, pair2] = getFederalPersonnelPeriods(entry);
+  const period1 = calculateTimeDifference(pair1.start, pair1.stop, pair1.date, timeZone);
+  const period2 = calculateTimeDifference(pair2.start, pair2.stop, pair2.date, timeZone);
 
   // If both periods are invalid, return error
   if (!period1.isValid && !period2.isValid) {
     return {
       totalHours: 0,
       formattedTotal: '0.00',
+      rawMinutes: 0,
       isValid: false,
       error: 'At least one valid time period is required'
     };
   }
 
-  // Calculate total from valid periods
-  let totalHours = 0;
+  // Calculate total from valid periods, then round the day's time under the billing policy
+  let rawMinutes = 0;
   let errors: string[] = [];
 
   if (period1.isValid) {
-    totalHours += period1.totalHours;
+    rawMinutes += period1.rawMinutes;
   } else if (entry.start1 || entry.stop1) {
     errors.push('Period 1: ' + (period1.error || 'Invalid time'));
   }
 
   if (period2.isValid) {
-    totalHours += period2.totalHours;
+    rawMinutes += period2.rawMinutes;
   } else if (entry.start2 || entry.stop2) {
     errors.push('Period 2: ' + (period2.error || 'Invalid time'));
   }
 
+  const totalHours = applyRoundingPolicy(rawMinutes, roundingPolicy) / 60;
   const formattedTotal = totalHours.toFixed(2);
 
   return {
     totalHours,
     formattedTotal,
-    isValid: totalHours > 0,
+    rawMinutes,
+    isValid: rawMinutes > 0,
     error: errors.length > 0 ? errors.join('; ') : undefined
   };
 }
 
+/**
+ * Applies a rounding policy to a single-period result
+ */
+function applyRoundingToResult(result: TimeCalculationResult, roundingPolicy: RoundingPolicy): TimeCalculationResult {
+  if (!result.isValid) {
+    return result;
+  }
+  const totalHours = applyRoundingPolicy(result.rawMinutes, roundingPolicy) / 60;
+  return { ...result, totalHours, formattedTotal: totalHours.toFixed(2) };
+}
+
 /**
  * Calculates total hours for EEST time entry
  */
-export function calculateEESTTimeTotal(entry: EESTTimeEntry): TimeCalculationResult {
-  return calculateTimeDifference(entry.start, entry.stop);
+export function calculateEESTTimeTotal(
+  entry: EESTTimeEntry,
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): TimeCalculationResult {
+  return applyRoundingToResult(calculateTimeDifference(entry.start, entry.stop, entry.date, timeZone), roundingPolicy);
+}
+
+/**
+ * Calculates total hours for ODF time entry (operator time begin/end)
+ */
+export function calculateODFTimeTotal(
+  entry: ODFTimeEntry,
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): TimeCalculationResult {
+  return applyRoundingToResult(calculateTimeDifference(entry.timeBegin, entry.timeEnd, entry.date, timeZone), roundingPolicy);
+}
+
+/**
+ * Gets the day an entry's time is billed on: the date of its shift, per person on rows with a name
+ */
+export function getBillingDay(entry: { date: string; shiftDate?: string; name?: string }): string {
+  const date = entry.shiftDate || entry.date;
+  return entry.name ? `${entry.name.trim().toUpperCase()} ${date}` : date;
+}
+
+/**
+ * Calculates the totals of a ticket's entries, applying the daily minimum of the rounding policy once per day
+ * Rows split off an overnight shift count toward the day of their shift; raw minutes stay per entry
+ */
+export function calculateDailyTotals<T extends { date: string; shiftDate?: string; name?: string }>(
+  entries: T[],
+  calculateTotal: (entry: T) => TimeCalculationResult,
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+): TimeCalculationResult[] {
+  const calculations = entries.map(calculateTotal);
+  const billedMinutes = applyDailyMinimum(
+    entries.map(getBillingDay),
+    calculations.map(calculation => calculation.isValid ? Math.round(calculation.totalHours * 60) : 0),
+    roundingPolicy
+  );
+  return calculations.map((calculation, index) => {
+    if (!calculation.isValid) return calculation;
+    const totalHours = billedMinutes[index] / 60;
+    return { ...calculation, totalHours, formattedTotal: totalHours.toFixed(2) };
+  });
 }
 
 /**
@@ -352,12 +532,18 @@ export function propagateDateToEntries<T extends { date: string }>(
 /**
  * Auto-calculates totals for Federal equipment entries
  */
-export function autoCalculateFederalEquipmentTotals(entries: FederalEquipmentEntry[]): FederalEquipmentEntry[] {
-  return entries.map(entry => {
-    const calculation = calculateFederalEquipmentTotal(entry);
+export function autoCalculateFederalEquipmentTotals(
+  entries: FederalEquipmentEntry[],
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): FederalEquipmentEntry[] {
+  const calculations = calculateDailyTotals(entries, entry => calculateFederalEquipmentTotal(entry, roundingPolicy, timeZone), roundingPolicy);
+  return entries.map((entry, index) => {
+    const calculation = calculations[index];
     return {
       ...entry,
-      total: calculation.isValid ? calculation.formattedTotal : entry.total
+      total: calculation.isValid ? calculation.formattedTotal : entry.total,
+      rawMinutes: calculation.rawMinutes
     };
   });
 }
@@ -365,12 +551,18 @@ export function autoCalculateFederalEquipmentTotals(entries: FederalEquipmentEnt
 /**
  * Auto-calculates totals for Federal personnel entries
  */
-export function autoCalculateFederalPersonnelTotals(entries: FederalPersonnelEntry[]): FederalPersonnelEntry[] {
-  return entries.map(entry => {
-    const calculation = calculateFederalPersonnelTotal(entry);
+export function autoCalculateFederalPersonnelTotals(
+  entries: FederalPersonnelEntry[],
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): FederalPersonnelEntry[] {
+  const calculations = calculateDailyTotals(entries, entry => calculateFederalPersonnelTotal(entry, roundingPolicy, timeZone), roundingPolicy);
+  return entries.map((entry, index) => {
+    const calculation = calculations[index];
     return {
       ...entry,
-      total: calculation.isValid ? calculation.formattedTotal : entry.total
+      total: calculation.isValid ? calculation.formattedTotal : entry.total,
+      rawMinutes: calculation.rawMinutes
     };
   });
 }
@@ -378,14 +570,39 @@ export function autoCalculateFederalPersonnelTotals(entries: FederalPersonnelEnt
 /**
  * Auto-calculates totals for EEST time entries
  */
-export function autoCalculateEESTTimeTotals(entries: EESTTimeEntry[]): EESTTimeEntry[] {
-  return entries.map(entry => {
-    const calculation = calculateEESTTimeTotal(entry);
+export function autoCalculateEESTTimeTotals(
+  entries: EESTTimeEntry[],
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): EESTTimeEntry[] {
+  const calculations = calculateDailyTotals(entries, entry => calculateEESTTimeTotal(entry, roundingPolicy, timeZone), roundingPolicy);
+  return entries.map((entry, index) => {
+    const calculation = calculations[index];
     // EEST doesn't have a total field, but we can add work hours calculation
     const workHours = calculation.isValid ? calculation.formattedTotal : '0.00';
     return {
       ...entry,
-      work: workHours // Store calculated hours in work field
+      work: workHours, // Store calculated hours in work field
+      rawMinutes: calculation.rawMinutes
+    };
+  });
+}
+
+/**
+ * Auto-calculates totals for ODF time entries
+ */
+export function autoCalculateODFTimeTotals(
+  entries: ODFTimeEntry[],
+  roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  timeZone?: string
+): ODFTimeEntry[] {
+  const calculations = calculateDailyTotals(entries, entry => calculateODFTimeTotal(entry, roundingPolicy, timeZone), roundingPolicy);
+  return entries.map((entry, index) => {
+    const calculation = calculations[index];
+    return {
+      ...entry,
+      total: calculation.isValid ? calculation.formattedTotal : entry.total,
+      rawMinutes: calculation.rawMinutes
     };
   });
 }
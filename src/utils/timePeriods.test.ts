@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { FederalEquipmentEntry, FederalPersonnelEntry } from './engineTimeDB';
+import type { EntryPeriod } from './timePeriods';
+import {
+  collapsePeriodsToColumns,
+  getDatedPeriods,
+  getDayTimeTotals,
+  getFederalEquipmentPeriods,
+  getFederalPersonnelPeriods,
+  getMinutesByDate,
+  resolveTimePeriod,
+  splitOvernightFederalEquipmentEntries,
+  splitTimePeriodByDate
+} from './timePeriods';
+
+// Work to just before midnight, then standby after midnight, on one shift
+const OVERNIGHT_PERIODS: EntryPeriod[] = [
+  { type: 'WORK', start: '1800', stop: '2359' },
+  { type: 'STANDBY', start: '0100', stop: '0500' }
+];
+
+const EQUIPMENT_ENTRY: FederalEquipmentEntry = {
+  date: '07/01/26', start: '', stop: '', start1: '', stop1: '', start2: '', stop2: '', total: '', quantity: '', type: '', remarks: ''
+};
+
+const PERSONNEL_ENTRY: FederalPersonnelEntry = {
+  date: '07/01/26', name: 'Alex Doe', start1: '', stop1: '', start2: '', stop2: '', total: '', remarks: ''
+};
+
+describe('shift period dates', () => {
+  it('moves a period that starts before the previous one ended to the next day', () => {
+    expect(getDatedPeriods('07/01/26', OVERNIGHT_PERIODS).map(period => period.date)).toEqual(['07/01/26', '07/02/26']);
+  });
+
+  it('follows periods on past a period that itself runs over midnight', () => {
+    const periods = [{ start: '2200', stop: '0200' }, { start: '0300', stop: '0500' }];
+    expect(getDatedPeriods('12/31/26', periods).map(period => period.date)).toEqual(['12/31/26', '01/01/27']);
+  });
+
+  it('keeps periods in time order on the shift date', () => {
+    const periods = [{ start: '0700', stop: '1200' }, { start: '1200', stop: '1900' }, { start: '', stop: '' }];
+    expect(getDatedPeriods('07/01/26', periods).map(period => period.date)).toEqual(['07/01/26', '07/01/26', '07/01/26']);
+  });
+
+  it('dates the typed periods and legacy pairs of Federal entries', () => {
+    expect(getFederalEquipmentPeriods({ ...EQUIPMENT_ENTRY, periods: OVERNIGHT_PERIODS })).toEqual([
+      { date: '07/01/26', start: '1800', stop: '2359' },
+      { date: '07/02/26', start: '0100', stop: '0500' }
+    ]);
+    expect(getFederalPersonnelPeriods({ ...PERSONNEL_ENTRY, start1: '1800', stop1: '2359', start2: '0100', stop2: '0500' })).toEqual([
+      { date: '07/01/26', start: '1800', stop: '2359' },
+      { date: '07/02/26', start: '0100', stop: '0500' }
+    ]);
+  });
+});
+
+describe('time after midnight', () => {
+  const entry = { ...EQUIPMENT_ENTRY, periods: OVERNIGHT_PERIODS };
+
+  it('is credited to the date it was worked', () => {
+    const minutesByDate = getMinutesByDate(getFederalEquipmentPeriods(entry), 'UTC');
+    expect(Object.fromEntries(minutesByDate)).toEqual({ '07/01/26': 359, '07/02/26': 240 });
+  });
+
+  it('is carried in to the next day', () => {
+    expect(getDayTimeTotals('07/02/26', [entry], [], 'UTC')).toMatchObject({ equipmentMinutes: 240, equipmentCarriedInMinutes: 240 });
+    expect(getDayTimeTotals('07/01/26', [entry], [], 'UTC')).toMatchObject({ equipmentMinutes: 359, equipmentCarriedInMinutes: 0 });
+  });
+
+  it('is split onto a row of its own, billed with the shift date', () => {
+    const rows = splitOvernightFederalEquipmentEntries([entry], 'UTC');
+    expect(rows.map(row => ({ date: row.date, shiftDate: row.shiftDate, periods: row.periods }))).toEqual([
+      { date: '07/01/26', shiftDate: undefined, periods: [{ type: 'WORK', start: '1800', stop: '2359' }] },
+      { date: '07/02/26', shiftDate: '07/01/26', periods: [{ type: 'STANDBY', start: '0100', stop: '0500' }] }
+    ]);
+  });
+});
+
+describe('periods across a DST change', () => {
+  const PACIFIC = 'America/Los_Angeles';
+
+  /**
+   * Gets the real length of a period in minutes
+   */
+  function getPeriodMinutes(date: string, start: string, stop: string, timeZone: string): number {
+    const period = resolveTimePeriod(date, start, stop, timeZone)!;
+    return (period.end.getTime() - period.start.getTime()) / 60000;
+  }
+
+  it('are an hour shorter when the clocks spring forward and an hour longer when they fall back', () => {
+    expect(getPeriodMinutes('03/08/26', '0000', '0600', PACIFIC)).toBe(300);
+    expect(getPeriodMinutes('11/01/26', '0000', '0600', PACIFIC)).toBe(420);
+    expect(getPeriodMinutes('11/01/26', '0000', '0600', 'America/Phoenix')).toBe(360);
+  });
+
+  it('are split at midnight with the minutes really worked on each date', () => {
+    expect(splitTimePeriodByDate(resolveTimePeriod('10/31/26', '2200', '0600', PACIFIC)!, PACIFIC)).toEqual([
+      { date: '10/31/26', start: '2200', stop: '2400', minutes: 120 },
+      { date: '11/01/26', start: '0000', stop: '0600', minutes: 420 }
+    ]);
+  });
+});
+
+describe('period columns', () => {
+  const periods: EntryPeriod[] = [
+    { type: 'WORK', start: '0600', stop: '1000' },
+    { type: 'MEAL', start: '1000', stop: '1030' },
+    { type: 'WORK', start: '1030', stop: '1400' },
+    { type: 'TRAVEL', start: '1500', stop: '1800' }
+  ];
+
+  it('keep paid periods only, merging the two either side of the shortest gap', () => {
+    expect(collapsePeriodsToColumns('07/01/26', periods, 2, 'UTC')).toEqual([
+      { start: '0600', stop: '1400' },
+      { start: '1500', stop: '1800' }
+    ]);
+  });
+
+  it('fit a whole shift into one column', () => {
+    expect(collapsePeriodsToColumns('07/01/26', periods, 1, 'UTC')).toEqual([{ start: '0600', stop: '1800' }]);
+  });
+
+  it('keep periods after midnight after the ones before it', () => {
+    expect(collapsePeriodsToColumns('07/01/26', [...OVERNIGHT_PERIODS, { type: 'WORK', start: '0600', stop: '0700' }], 2, 'UTC')).toEqual([
+      { start: '1800', stop: '2359' },
+      { start: '0100', stop: '0700' }
+    ]);
+  });
+});
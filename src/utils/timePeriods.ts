@@ -0,0 +1,456 @@
+// Time Periods - start/stop times resolved to real datetimes, and split at midnight across calendar dates
+// An entry is keyed by the date its shift started; a stop earlier than the start is on a later day
+// Wall-clock times are in the incident's time zone (this device's zone when none is given)
+import type { FederalEquipmentEntry, FederalPersonnelEntry, EESTTimeEntry } from './engineTimeDB';
+import { getDeviceTimeZone, getZonedParts, zonedTimeToInstant } from './timeZones';
+
+// Time period with real start and end datetimes
+export interface TimePeriod {
+  start: Date;
+  end: Date;
+}
+
+// Part of a time period that falls on one calendar date
+export interface DateSegment {
+  // Date (MM/DD/YY)
+  date: string;
+  // Start/stop times on that date (HHMM; a segment running to midnight stops at 2400)
+  start: string;
+  stop: string;
+  minutes: number;
+}
+
+// Kind of time a period is (meal periods are unpaid breaks; hotline is work on the fireline)
+export type PeriodType = 'WORK' | 'HOTLINE' | 'TRAVEL' | 'STANDBY' | 'MEAL';
+
+// Billing class of paid time - worked, standby and travel hours are billed differently
+export type TimeClass = 'WORKED' | 'STANDBY' | 'TRAVEL';
+
+// Typed time period of an entry, for days with more segments than the two start/stop pairs hold
+export interface EntryPeriod {
+  type: PeriodType;
+  // Start/stop times (HHMM or HH:MM); a stop before the start is on the next day
+  start: string;
+  stop: string;
+}
+
+// Period types offered on entries and their labels
+export const PERIOD_TYPE_OPTIONS: { value: PeriodType; label: string }[] = [
+  { value: 'WORK', label: 'Work' },
+  { value: 'HOTLINE', label: 'Hotline' },
+  { value: 'TRAVEL', label: 'Travel' },
+  { value: 'STANDBY', label: 'Standby' },
+  { value: 'MEAL', label: 'Meal' }
+];
+
+// Period types that are not time on the clock - left out of totals and time worked
+export const UNPAID_PERIOD_TYPES: PeriodType[] = ['MEAL'];
+
+// Billing class of each period type (null for unpaid periods)
+export const PERIOD_TIME_CLASSES: Record<PeriodType, TimeClass | null> = {
+  WORK: 'WORKED',
+  HOTLINE: 'WORKED',
+  TRAVEL: 'TRAVEL',
+  STANDBY: 'STANDBY',
+  MEAL: null
+};
+
+// Billing classes and their labels
+export const TIME_CLASS_OPTIONS: { value: TimeClass; label: string }[] = [
+  { value: 'WORKED', label: 'Worked' },
+  { value: 'STANDBY', label: 'Standby' },
+  { value: 'TRAVEL', label: 'Travel' }
+];
+
+// Time worked on one calendar date
+export interface DayTimeTotals {
+  date: string;
+  equipmentMinutes: number;
+  equipmentCarriedInMinutes: number;
+  // Summed across every person
+  personnelMinutes: number;
+  personnelCarriedInMinutes: number;
+}
+
+/**
+ * Parses a time of day (HH:MM, HHMM or HMM) to minutes since midnight
+ * Returns null for a blank or invalid time; 2400 is the end of the day
+ */
+export function parseTimeOfDay(timeStr: string): number | null {
+  const clean = (timeStr || '').replace(/[\s:]/g, '');
+  if (!/^\d{3,4}$/.test(clean)) return null;
+
+  const hours = parseInt(clean.slice(0, -2), 10);
+  const minutes = parseInt(clean.slice(-2), 10);
+  if (hours === 24 && minutes === 0) return 1440;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parses an MM/DD/YY date to its year, month index and day
+ */
+function parseMMDDYY(dateStr: string): { year: number; monthIndex: number; day: number } | null {
+  const match = (dateStr || '').match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
+  if (!match) return null;
+  const [, month, day, year] = match;
+  return { year: 2000 + parseInt(year, 10), monthIndex: parseInt(month, 10) - 1, day: parseInt(day, 10) };
+}
+
+/**
+ * Formats a year, month index and day as MM/DD/YY
+ */
+function formatToMMDDYY(year: number, monthIndex: number, day: number): string {
+  const month = (monthIndex + 1).toString().padStart(2, '0');
+  return `${month}/${day.toString().padStart(2, '0')}/${year.toString().slice(-2)}`;
+}
+
+/**
+ * Moves an MM/DD/YY date by a number of days
+ */
+function addDaysToDate(date: string, days: number): string {
+  const day = parseMMDDYY(date);
+  if (!day || days === 0) return date;
+  const moved = new Date(Date.UTC(day.year, day.monthIndex, day.day + days));
+  return formatToMMDDYY(moved.getUTCFullYear(), moved.getUTCMonth(), moved.getUTCDate());
+}
+
+/**
+ * Formats minutes since midnight as HHMM
+ */
+function formatHHMM(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Resolves a start/stop pair on a date to real datetimes
+ * A stop before the start is taken to be on the next day; across a DST change the period is
+ * an hour longer or shorter than the wall-clock difference
+ */
+export function resolveTimePeriod(date: string, start: string, stop: string, timeZone?: string): TimePeriod | null {
+  const day = parseMMDDYY(date);
+  const startMinutes = parseTimeOfDay(start);
+  const stopMinutes = parseTimeOfDay(stop);
+  if (!day || startMinutes === null || stopMinutes === null) return null;
+
+  const zone = timeZone ?? getDeviceTimeZone();
+  const endMinutes = stopMinutes < startMinutes ? stopMinutes + 1440 : stopMinutes;
+  return {
+    start: new Date(zonedTimeToInstant(day.year, day.monthIndex, day.day, startMinutes, zone)),
+    end: new Date(zonedTimeToInstant(day.year, day.monthIndex, day.day, endMinutes, zone))
+  };
+}
+
+/**
+ * Splits a time period at midnight into the parts that fall on each date
+ */
+export function splitTimePeriodByDate(period: TimePeriod, timeZone?: string): DateSegment[] {
+  const zone = timeZone ?? getDeviceTimeZone();
+  const end = period.end.getTime();
+  const segments: DateSegment[] = [];
+  let segmentStart = period.start.getTime();
+
+  while (segmentStart < end) {
+    const wall = getZonedParts(segmentStart, zone);
+    const nextMidnight = zonedTimeToInstant(wall.year, wall.monthIndex, wall.day + 1, 0, zone);
+    const segmentEnd = Math.min(end, nextMidnight);
+
+    segments.push({
+      date: formatToMMDDYY(wall.year, wall.monthIndex, wall.day),
+      start: formatHHMM(wall.minutes),
+      stop: formatHHMM(segmentEnd === nextMidnight ? 1440 : getZonedParts(segmentEnd, zone).minutes),
+      minutes: Math.round((segmentEnd - segmentStart) / 60000)
+    });
+    segmentStart = segmentEnd;
+  }
+
+  return segments;
+}
+
+/**
+ * Dates the periods of a shift in the order they were entered: a period that starts before the previous one ended
+ * is on the next day, so the later periods of a shift can run past midnight
+ */
+export function getDatedPeriods<T extends { start: string; stop: string }>(date: string, periods: T[]): (T & { date: string })[] {
+  let dayOffset = 0;
+  let previousEnd: number | null = null;
+  return periods.map(period => {
+    const startMinutes = parseTimeOfDay(period.start);
+    const stopMinutes = parseTimeOfDay(period.stop);
+    if (startMinutes !== null) {
+      if (previousEnd !== null && dayOffset * 1440 + startMinutes < previousEnd) {
+        dayOffset++;
+      }
+      if (stopMinutes !== null) {
+        previousEnd = dayOffset * 1440 + (stopMinutes < startMinutes ? stopMinutes + 1440 : stopMinutes);
+      }
+    }
+    return { ...period, date: addDaysToDate(date, dayOffset) };
+  });
+}
+
+/**
+ * Splits the dated start/stop pairs of an entry and groups the parts by date, in date order
+ */
+function splitPeriodsByDate(periods: { date: string; start: string; stop: string }[], timeZone?: string): Map<string, DateSegment[]> {
+  const segmentsByDate = new Map<string, DateSegment[]>();
+  periods.forEach(({ date, start, stop }) => {
+    const period = resolveTimePeriod(date, start, stop, timeZone);
+    if (!period) return;
+    splitTimePeriodByDate(period, timeZone).forEach(segment => {
+      segmentsByDate.set(segment.date, [...(segmentsByDate.get(segment.date) || []), segment]);
+    });
+  });
+  return segmentsByDate;
+}
+
+/**
+ * Splits the typed periods of an entry at midnight and groups the parts by date, keeping each part's type
+ */
+function splitEntryPeriodsByDate(date: string, periods: EntryPeriod[], timeZone?: string): Map<string, EntryPeriod[]> {
+  const periodsByDate = new Map<string, EntryPeriod[]>();
+  getDatedPeriods(date, periods)
+    .map(period => ({ type: period.type, resolved: resolveTimePeriod(period.date, period.start, period.stop, timeZone) }))
+    .filter((period): period is { type: PeriodType; resolved: TimePeriod } => period.resolved !== null)
+    .sort((a, b) => a.resolved.start.getTime() - b.resolved.start.getTime())
+    .forEach(({ type, resolved }) => {
+      splitTimePeriodByDate(resolved, timeZone).forEach(segment => {
+        periodsByDate.set(segment.date, [...(periodsByDate.get(segment.date) || []), { type, start: segment.start, stop: segment.stop }]);
+      });
+    });
+  return periodsByDate;
+}
+
+/**
+ * Gets the typed period list of an entry; an entry without one has its start/stop pairs as work periods
+ */
+export function getEntryPeriodList(entry: FederalEquipmentEntry | FederalPersonnelEntry): EntryPeriod[] {
+  if (entry.periods) return entry.periods;
+  const pairs = 'start' in entry ? getFederalEquipmentPeriods(entry) : getFederalPersonnelPeriods(entry);
+  return pairs
+    .filter(pair => pair.start || pair.stop)
+    .map(({ start, stop }) => ({ type: 'WORK', start, stop }));
+}
+
+/**
+ * Collapses a typed period list to the start/stop columns a template has
+ * Paid periods are kept in time order; while there are more than the columns, the two either side of the shortest
+ * gap are merged (totals still come from the periods themselves)
+ */
+export function collapsePeriodsToColumns(
+  date: string,
+  periods: EntryPeriod[],
+  columns: number,
+  timeZone?: string
+): { start: string; stop: string }[] {
+  const collapsed = getPaidPeriods(date, periods)
+    .map(period => ({ start: period.start, stop: period.stop, resolved: resolveTimePeriod(period.date, period.start, period.stop, timeZone) }))
+    .filter((period): period is { start: string; stop: string; resolved: TimePeriod } => period.resolved !== null)
+    .sort((a, b) => a.resolved.start.getTime() - b.resolved.start.getTime())
+    .map(({ start, stop, resolved }) => ({ start, stop, startTime: resolved.start.getTime(), endTime: resolved.end.getTime() }));
+
+  while (collapsed.length > Math.max(1, columns)) {
+    const gapAfter = (index: number) => collapsed[index + 1].startTime - collapsed[index].endTime;
+    let shortest = 0;
+    for (let index = 1; index < collapsed.length - 1; index++) {
+      if (gapAfter(index) < gapAfter(shortest)) shortest = index;
+    }
+    const [first, second] = collapsed.slice(shortest, shortest + 2);
+    const last = second.endTime >= first.endTime ? second : first;
+    collapsed.splice(shortest, 2, { start: first.start, stop: last.stop, startTime: first.startTime, endTime: last.endTime });
+  }
+
+  return collapsed.map(({ start, stop }) => ({ start, stop }));
+}
+
+/**
+ * Writes the two start/stop pairs of an entry from its typed period list, so code and templates that read the
+ * pairs see the whole day; entries without a period list are returned unchanged
+ */
+export function withPeriodColumns<T extends FederalEquipmentEntry | FederalPersonnelEntry>(entry: T, timeZone?: string): T {
+  if (!entry.periods) return entry;
+  const [first, second] = collapsePeriodsToColumns(entry.date, entry.periods, 2, timeZone);
+  const updated: T = {
+    ...entry,
+    start1: first?.start || '',
+    stop1: first?.stop || '',
+    start2: second?.start || '',
+    stop2: second?.stop || ''
+  };
+  // The legacy equipment start/stop would be read when the first pair is empty
+  return 'start' in updated ? { ...updated, start: '', stop: '' } : updated;
+}
+
+/**
+ * Gets the minutes worked on each date from start/stop pairs keyed by their shift date
+ */
+export function getMinutesByDate(
+  periods: { date: string; start: string; stop: string }[],
+  timeZone?: string
+): Map<string, number> {
+  const minutesByDate = new Map<string, number>();
+  periods.forEach(({ date, start, stop }) => {
+    const period = resolveTimePeriod(date, start, stop, timeZone);
+    if (!period) return;
+    splitTimePeriodByDate(period, timeZone).forEach(segment => {
+      minutesByDate.set(segment.date, (minutesByDate.get(segment.date) || 0) + segment.minutes);
+    });
+  });
+  return minutesByDate;
+}
+
+/**
+ * Gets the paid periods of an entry's typed period list as start/stop pairs, each on the date it starts
+ */
+function getPaidPeriods(date: string, periods: EntryPeriod[]): { date: string; start: string; stop: string }[] {
+  return getDatedPeriods(date, periods)
+    .filter(period => !UNPAID_PERIOD_TYPES.includes(period.type))
+    .map(period => ({ date: period.date, start: period.start, stop: period.stop }));
+}
+
+/**
+ * Gets the start/stop pairs of a Federal equipment entry (falling back to the legacy start/stop), each on the date it starts
+ * An entry with a typed period list uses its paid periods
+ */
+export function getFederalEquipmentPeriods(entry: FederalEquipmentEntry): { date: string; start: string; stop: string }[] {
+  if (entry.periods) return getPaidPeriods(entry.date, entry.periods);
+  return getDatedPeriods(entry.date, [
+    { start: entry.start1 || entry.start, stop: entry.stop1 || entry.stop },
+    { start: entry.start2, stop: entry.stop2 }
+  ]);
+}
+
+/**
+ * Gets the start/stop pairs of a Federal personnel entry, each on the date it starts
+ * An entry with a typed period list uses its paid periods
+ */
+export function getFederalPersonnelPeriods(entry: FederalPersonnelEntry): { date: string; start: string; stop: string }[] {
+  if (entry.periods) return getPaidPeriods(entry.date, entry.periods);
+  return getDatedPeriods(entry.date, [
+    { start: entry.start1, stop: entry.stop1 },
+    { start: entry.start2, stop: entry.stop2 }
+  ]);
+}
+
+/**
+ * Gets the time worked on a date by the equipment and personnel, crediting time after midnight to the date it was worked
+ * Carried-in minutes are the part that came from shifts started on an earlier date
+ */
+export function getDayTimeTotals(
+  date: string,
+  equipmentEntries: FederalEquipmentEntry[],
+  personnelEntries: FederalPersonnelEntry[],
+  timeZone?: string
+): DayTimeTotals {
+  // Periods keep the date of the shift they belong to, as a period after midnight starts on the next date
+  const equipmentPeriods = equipmentEntries.flatMap(entry => getFederalEquipmentPeriods(entry).map(period => ({ ...period, shiftDate: entry.date })));
+  const personnelPeriods = personnelEntries.flatMap(entry => getFederalPersonnelPeriods(entry).map(period => ({ ...period, shiftDate: entry.date })));
+  const minutesOn = (periods: { date: string; start: string; stop: string }[]) => getMinutesByDate(periods, timeZone).get(date) || 0;
+
+  return {
+    date,
+    equipmentMinutes: minutesOn(equipmentPeriods),
+    equipmentCarriedInMinutes: minutesOn(equipmentPeriods.filter(period => period.shiftDate !== date)),
+    personnelMinutes: minutesOn(personnelPeriods),
+    personnelCarriedInMinutes: minutesOn(personnelPeriods.filter(period => period.shiftDate !== date))
+  };
+}
+
+/**
+ * Splits overnight Federal equipment entries into one entry per date
+ * The part after midnight becomes a new entry (no ID) on the next date, billed with the shift's date; the total is
+ * recalculated when mapped
+ */
+export function splitOvernightFederalEquipmentEntries(entries: FederalEquipmentEntry[], timeZone?: string): FederalEquipmentEntry[] {
+  return entries.flatMap(entry => {
+    if (entry.periods) {
+      const periodsByDate = splitEntryPeriodsByDate(entry.date, entry.periods, timeZone);
+      if (periodsByDate.size <= 1) return [entry];
+
+      return Array.from(periodsByDate.entries()).map(([date, periods], index) => withPeriodColumns({
+        ...entry,
+        id: index === 0 ? entry.id : undefined,
+        date,
+        shiftDate: index === 0 ? undefined : entry.date,
+        periods,
+        total: '',
+        ...(index === 0 ? {} : { meterType: undefined, meterBegin: '', meterEnd: '', quantity: '', type: '' })
+      }, timeZone));
+    }
+
+    const segmentsByDate = splitPeriodsByDate(getFederalEquipmentPeriods(entry), timeZone);
+    if (segmentsByDate.size <= 1) return [entry];
+
+    return Array.from(segmentsByDate.entries()).map(([date, segments], index) => ({
+      ...entry,
+      id: index === 0 ? entry.id : undefined,
+      date,
+      shiftDate: index === 0 ? undefined : entry.date,
+      start: '',
+      stop: '',
+      start1: segments[0]?.start || '',
+      stop1: segments[0]?.stop || '',
+      start2: segments[1]?.start || '',
+      stop2: segments[1]?.stop || '',
+      total: '',
+      // Meter readings cover the whole shift, so they stay on the first row
+      ...(index === 0 ? {} : { meterType: undefined, meterBegin: '', meterEnd: '', quantity: '', type: '' })
+    }));
+  });
+}
+
+/**
+ * Splits overnight Federal personnel entries into one entry per date
+ */
+export function splitOvernightFederalPersonnelEntries(entries: FederalPersonnelEntry[], timeZone?: string): FederalPersonnelEntry[] {
+  return entries.flatMap(entry => {
+    if (entry.periods) {
+      const periodsByDate = splitEntryPeriodsByDate(entry.date, entry.periods, timeZone);
+      if (periodsByDate.size <= 1) return [entry];
+
+      return Array.from(periodsByDate.entries()).map(([date, periods], index) => withPeriodColumns({
+        ...entry,
+        id: index === 0 ? entry.id : undefined,
+        date,
+        shiftDate: index === 0 ? undefined : entry.date,
+        periods,
+        total: ''
+      }, timeZone));
+    }
+
+    const segmentsByDate = splitPeriodsByDate(getFederalPersonnelPeriods(entry), timeZone);
+    if (segmentsByDate.size <= 1) return [entry];
+
+    return Array.from(segmentsByDate.entries()).map(([date, segments], index) => ({
+      ...entry,
+      id: index === 0 ? entry.id : undefined,
+      date,
+      shiftDate: index === 0 ? undefined : entry.date,
+      start1: segments[0]?.start || '',
+      stop1: segments[0]?.stop || '',
+      start2: segments[1]?.start || '',
+      stop2: segments[1]?.stop || '',
+      total: ''
+    }));
+  });
+}
+
+/**
+ * Splits overnight EEST time entries into one entry per date
+ */
+export function splitOvernightEESTTimeEntries(entries: EESTTimeEntry[], timeZone?: string): EESTTimeEntry[] {
+  return entries.flatMap(entry => {
+    const segmentsByDate = splitPeriodsByDate([{ date: entry.date, start: entry.start, stop: entry.stop }], timeZone);
+    if (segmentsByDate.size <= 1) return [entry];
+
+    return Array.from(segmentsByDate.entries()).map(([date, segments], index) => ({
+      ...entry,
+      id: index === 0 ? entry.id : undefined,
+      date,
+      shiftDate: index === 0 ? undefined : entry.date,
+      start: segments[0].start,
+      stop: segments[0].stop,
+      work: ''
+    }));
+  });
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getTimeZoneOffsetMinutes, getZonedParts, zonedTimeToInstant } from './timeZones';
+
+const PACIFIC = 'America/Los_Angeles';
+
+describe('wall-clock times in a time zone', () => {
+  it('use the offset in force on their date', () => {
+    expect(zonedTimeToInstant(2026, 0, 15, 12 * 60, PACIFIC)).toBe(Date.UTC(2026, 0, 15, 20, 0));
+    expect(zonedTimeToInstant(2026, 6, 1, 12 * 60, PACIFIC)).toBe(Date.UTC(2026, 6, 1, 19, 0));
+    expect(zonedTimeToInstant(2026, 6, 1, 12 * 60, 'America/Phoenix')).toBe(Date.UTC(2026, 6, 1, 19, 0));
+  });
+
+  it('move a time skipped by spring forward on by the gap', () => {
+    // 0230 does not happen on 03/08/26; it is taken as 0330 PDT
+    expect(zonedTimeToInstant(2026, 2, 8, 2 * 60 + 30, PACIFIC)).toBe(Date.UTC(2026, 2, 8, 10, 30));
+  });
+
+  it('take the first of a time repeated by fall back', () => {
+    // 0130 happens twice on 11/01/26; the first is 0130 PDT
+    expect(zonedTimeToInstant(2026, 10, 1, 60 + 30, PACIFIC)).toBe(Date.UTC(2026, 10, 1, 8, 30));
+  });
+
+  it('roll past the end of a month', () => {
+    expect(zonedTimeToInstant(2026, 11, 31, 1440, PACIFIC)).toBe(zonedTimeToInstant(2027, 0, 1, 0, PACIFIC));
+  });
+});
+
+describe('instants in a time zone', () => {
+  it('have the wall-clock date and time of the zone', () => {
+    expect(getZonedParts(Date.UTC(2026, 6, 2, 3, 0), PACIFIC)).toEqual({ year: 2026, monthIndex: 6, day: 1, minutes: 20 * 60 });
+  });
+
+  it('have the offset of the zone at that instant', () => {
+    expect(getTimeZoneOffsetMinutes(Date.UTC(2026, 6, 1, 12, 0), PACIFIC)).toBe(-420);
+    expect(getTimeZoneOffsetMinutes(Date.UTC(2026, 0, 15, 12, 0), PACIFIC)).toBe(-480);
+  });
+});
@@ -0,0 +1,139 @@
+// Time Zones - converts wall-clock times in an incident's time zone to real instants
+// Durations worked out from instants stay correct across DST changes (e.g. the fall-back night is 25 hours long)
+
+// Wall-clock date and time in a time zone
+interface ZonedParts {
+  year: number;
+  // 0-based, like Date
+  monthIndex: number;
+  day: number;
+  // Minutes since midnight
+  minutes: number;
+}
+
+// Time zones offered for incidents and their labels
+export const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'America/Los_Angeles', label: 'Pacific (Los Angeles)' },
+  { value: 'America/Boise', label: 'Mountain (Boise)' },
+  { value: 'America/Denver', label: 'Mountain (Denver)' },
+  { value: 'America/Phoenix', label: 'Mountain - no DST (Phoenix)' },
+  { value: 'America/Chicago', label: 'Central (Chicago)' },
+  { value: 'America/New_York', label: 'Eastern (New York)' },
+  { value: 'America/Anchorage', label: 'Alaska (Anchorage)' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii (Honolulu)' }
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Formatters are costly to create, so one is kept per time zone
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Gets the time zone of this device (e.g. "America/Boise")
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Checks that a time zone name is known to this browser
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(instant: number, timeZone: string): ZonedParts {
+  const parts = getPartsFormatter(timeZone).formatToParts(new Date(instant));
+  const value = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+  return {
+    year: value('year'),
+    monthIndex: value('month') - 1,
+    day: value('day'),
+    minutes: value('hour') * 60 + value('minute')
+  };
+}
+
+/**
+ * Gets the offset of a time zone from UTC at an instant, in minutes (e.g. -420 for PDT)
+ */
+export function getTimeZoneOffsetMinutes(instant: number, timeZone: string): number {
+  const wall = getZonedParts(instant, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.monthIndex, wall.day, 0, wall.minutes);
+  return Math.round((wallAsUtc - Math.floor(instant / 60000) * 60000) / 60000);
+}
+
+/**
+ * Converts a wall-clock time in a time zone to an instant
+ * A time that happens twice (fall back) is the first one; a time skipped (spring forward) moves forward by the gap
+ */
+export function zonedTimeToInstant(year: number, monthIndex: number, day: number, minutes: number, timeZone: string): number {
+  const wallAsUtc = Date.UTC(year, monthIndex, day, 0, minutes);
+  const offsetBefore = getTimeZoneOffsetMinutes(wallAsUtc - 12 * HOUR_MS, timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(wallAsUtc + 12 * HOUR_MS, timeZone);
+
+  const candidates = Array.from(new Set([offsetBefore, offsetAfter]))
+    .map(offset => wallAsUtc - offset * 60000)
+    .filter(instant => instant + getTimeZoneOffsetMinutes(instant, timeZone) * 60000 === wallAsUtc);
+
+  return candidates.length > 0 ? Math.min(...candidates) : wallAsUtc - offsetBefore * 60000;
+}
+
+/**
+ * Gets the short name of a time zone at an instant (e.g. "PDT", "MST")
+ */
+export function getTimeZoneAbbreviation(timeZone: string, instant: number = Date.now()): string {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(instant));
+    return parts.find(part => part.type === 'timeZoneName')?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+}
+
+/**
+ * Gets the label of a time zone for display
+ */
+export function getTimeZoneLabel(timeZone: string): string {
+  return TIME_ZONE_OPTIONS.find(option => option.value === timeZone)?.label || timeZone.replace(/_/g, ' ');
+}
+
+/**
+ * Describes a time entered in a zone other than the incident's (e.g. "Entered in MDT; incident time is PDT")
+ * Zones with the same offset on the date (e.g. Boise and Denver) count as the same; returns null when there is nothing to flag
+ */
+export function describeEnteredTimeZone(enteredTimeZone: string | undefined, incidentTimeZone: string, date?: string): string | null {
+  if (!enteredTimeZone || !isValidTimeZone(enteredTimeZone) || !isValidTimeZone(incidentTimeZone)) return null;
+
+  const match = (date || '').match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
+  const instant = match
+    ? Date.UTC(2000 + parseInt(match[3], 10), parseInt(match[1], 10) - 1, parseInt(match[2], 10), 12)
+    : Date.now();
+  if (getTimeZoneOffsetMinutes(instant, enteredTimeZone) === getTimeZoneOffsetMinutes(instant, incidentTimeZone)) return null;
+
+  return `Entered in ${getTimeZoneAbbreviation(enteredTimeZone, instant)}; incident time is ${getTimeZoneAbbreviation(incidentTimeZone, instant)}`;
+}
@@ -1,6 +1,8 @@
 // Time Validation Utility
 // Validates and formats 24-hour time input for equipment and personnel entries
 
+import { resolveTimePeriod } from './timePeriods';
+
 export interface TimeValidationResult {
   isValid: boolean;
   formattedTime: string;
@@ -62,12 +64,13 @@ export function validate24HourTime(timeString: string): TimeValidationResult {
     }
   }
   
-  // Validate hours (0-23)
-  if (isNaN(hours) || hours < 0 || hours > 23) {
+  // Validate hours (0-23, or 24:00 for the end of the day)
+  const isEndOfDay = hours === 24 && minutes === 0;
+  if (isNaN(hours) || hours < 0 || (hours > 23 && !isEndOfDay)) {
     return {
       isValid: false,
       formattedTime: '',
-      error: 'Hours must be between 00 and 23'
+      error: 'Hours must be between 00 and 23 (or 24:00 for midnight at the end of the day)'
     };
   }
   
@@ -94,7 +97,7 @@ export function validate24HourTime(timeString: string): TimeValidationResult {
  * Validates time input character by character as user types
  * Simplified validation rules:
  * - 1st digit: 0-2
- * - 2nd digit: 0-9 if 1st is 0-1, else 0-3
+ * - 2nd digit: 0-9 if 1st is 0-1, else 0-4 (24 only as 24:00)
  * - 3rd digit: 0-5
  * - 4th digit: 0-9
  * @param currentValue - Current input value
@@ -162,18 +165,25 @@ export function validateTimeInput(
         };
       }
     } else if (firstDigit === 2) {
-      // If first digit is 2, second digit can only be 0-3
-      if (secondDigit > 3) {
+      // If first digit is 2, second digit can only be 0-4 (24 only as 24:00)
+      if (secondDigit > 4) {
         return { 
           isValid: false, 
           newValue: currentValue, 
-          error: 'Second digit must be 0-3 when first digit is 2' 
+          error: 'Second digit must be 0-4 when first digit is 2' 
         };
       }
     }
   } else if (newValue.length === 3) {
-    // Third digit: 0-5
+    // Third digit: 0-5 (only 0 after 24)
     const thirdDigit = parseInt(newValue[2], 10);
+    if (newValue.startsWith('24') && thirdDigit !== 0) {
+      return { 
+        isValid: false, 
+        newValue: currentValue, 
+        error: 'Only 24:00 is allowed after hour 23' 
+      };
+    }
     if (thirdDigit > 5) {
       return { 
         isValid: false, 
@@ -182,8 +192,15 @@ export function validateTimeInput(
       };
     }
   } else if (newValue.length === 4) {
-    // Fourth digit: 0-9
+    // Fourth digit: 0-9 (only 0 after 24)
     const fourthDigit = parseInt(newValue[3], 10);
+    if (newValue.startsWith('24') && fourthDigit !== 0) {
+      return { 
+        isValid: false, 
+        newValue: currentValue, 
+        error: 'Only 24:00 is allowed after hour 23' 
+      };
+    }
     if (fourthDigit > 9) {
       return { 
         isValid: false, 
@@ -219,9 +236,11 @@ export function formatTime(timeString: string): string {
  * Calculates the difference between two times in minutes
  * @param startTime - Start time in HH:MM format
  * @param endTime - End time in HH:MM format
+ * @param date - Date of the start time (MM/DD/YY), for time zone aware calculation
+ * @param timeZone - Incident time zone; with the date, the difference is correct across DST changes
  * @returns Difference in minutes, or null if invalid
  */
-export function calculateTimeDifference(startTime: string, endTime: string): number | null {
+export function calculateTimeDifference(startTime: string, endTime: string, date?: string, timeZone?: string): number | null {
   const startValidation = validate24HourTime(startTime);
   const endValidation = validate24HourTime(endTime);
   
@@ -235,6 +254,14 @@ export function calculateTimeDifference(startTime: string, endTime: string): num
   const startTotalMinutes = startHours * 60 + startMinutes;
   const endTotalMinutes = endHours * 60 + endMinutes;
   
+  // Real elapsed time in the incident's time zone
+  const period = date && timeZone
+    ? resolveTimePeriod(date, startValidation.formattedTime, endValidation.formattedTime, timeZone)
+    : null;
+  if (period) {
+    return Math.round((period.end.getTime() - period.start.getTime()) / 60000);
+  }
+  
   // Handle overnight shifts (end time is next day)
   if (endTotalMinutes < startTotalMinutes) {
     return (24 * 60) - startTotalMinutes + endTotalMinutes;
@@ -258,10 +285,12 @@ export function minutesToTime(minutes: number): string {
  * Auto-calculates total time when start and stop times are provided
  * @param startTime - Start time
  * @param stopTime - Stop time
+ * @param date - Date of the start time (MM/DD/YY), for time zone aware calculation
+ * @param timeZone - Incident time zone
  * @returns Total time in HH:MM format, or empty string if invalid
  */
-export function autoCalculateTotal(startTime: string, stopTime: string): string {
-  const difference = calculateTimeDifference(startTime, stopTime);
+export function autoCalculateTotal(startTime: string, stopTime: string, date?: string, timeZone?: string): string {
+  const difference = calculateTimeDifference(startTime, stopTime, date, timeZone);
   if (difference === null) {
     return '';
   }
@@ -4,6 +4,7 @@ import { FormType } from './engineTimeDB';
 // PDF Generation Metadata
 export interface PDFGenerationMetadata {
   id?: number;
+  ticketId?: number; // Ticket the PDF was generated for (stamped with the active ticket when omitted)
   formType: FormType;
   incidentName: string;
   incidentNumber: string;
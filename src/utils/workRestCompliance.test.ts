@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { FederalEquipmentEntry, FederalPersonnelEntry } from './engineTimeDB';
+import type { EntryPeriod } from './timePeriods';
+import { evaluateEquipmentCompliance, evaluatePersonnelCompliance } from './workRestCompliance';
+
+const TIME_ZONES = new Map([[1, 'UTC']]);
+
+/**
+ * Builds a personnel entry of ticket 1 with a typed period list
+ */
+function personnelEntry(date: string, periods: EntryPeriod[]): FederalPersonnelEntry {
+  return { ticketId: 1, date, name: 'Alex Doe', start1: '', stop1: '', start2: '', stop2: '', total: '', remarks: '', periods };
+}
+
+/**
+ * Builds an equipment entry with one start/stop pair
+ */
+function equipmentEntry(date: string, start: string, stop: string): FederalEquipmentEntry {
+  return { date, start: '', stop: '', start1: start, stop1: stop, start2: '', stop2: '', total: '', quantity: '', type: '', remarks: '' };
+}
+
+describe('shift length', () => {
+  it('counts meal breaks toward the 16-hour limit', () => {
+    const violations = evaluatePersonnelCompliance([
+      personnelEntry('07/01/26', [
+        { type: 'WORK', start: '0500', stop: '1200' },
+        { type: 'MEAL', start: '1200', stop: '1300' },
+        { type: 'WORK', start: '1300', stop: '2200' }
+      ])
+    ], TIME_ZONES);
+
+    expect(violations).toEqual([expect.objectContaining({ rule: 'SHIFT_LENGTH', subject: 'Alex Doe', date: '07/01/26' })]);
+    expect(violations[0].message).toContain('17.00 hr shift');
+  });
+
+  it('allows a 16-hour shift with a meal break', () => {
+    const violations = evaluatePersonnelCompliance([
+      personnelEntry('07/01/26', [
+        { type: 'WORK', start: '0600', stop: '1200' },
+        { type: 'MEAL', start: '1200', stop: '1230' },
+        { type: 'WORK', start: '1230', stop: '2200' }
+      ])
+    ], TIME_ZONES);
+
+    expect(violations).toEqual([]);
+  });
+
+  it('measures an overnight shift from its first start to its last stop', () => {
+    const violations = evaluateEquipmentCompliance([equipmentEntry('07/01/26', '1400', '0700')], 'UTC');
+    expect(violations.map(violation => violation.rule)).toEqual(['SHIFT_LENGTH']);
+  });
+
+  it('measures a shift in the time zone of its ticket, across a DST change', () => {
+    // 1800-0930 is 15.5 hours on the clock, but 16.5 hours on the night the clocks fall back
+    const entries = [personnelEntry('10/31/26', [{ type: 'WORK', start: '1800', stop: '0930' }])];
+    expect(evaluatePersonnelCompliance(entries, new Map([[1, 'America/Los_Angeles']])).map(violation => violation.rule)).toEqual(['SHIFT_LENGTH']);
+    expect(evaluatePersonnelCompliance(entries, TIME_ZONES)).toEqual([]);
+  });
+});
+
+describe('work/rest', () => {
+  it('needs half the paid hours as rest before the next shift', () => {
+    const violations = evaluatePersonnelCompliance([
+      personnelEntry('07/01/26', [
+        { type: 'WORK', start: '0600', stop: '1200' },
+        { type: 'MEAL', start: '1200', stop: '1300' },
+        { type: 'WORK', start: '1300', stop: '2100' }
+      ]),
+      personnelEntry('07/02/26', [{ type: 'WORK', start: '0300', stop: '0900' }])
+    ], TIME_ZONES);
+
+    expect(violations).toEqual([expect.objectContaining({ rule: 'WORK_REST', date: '07/01/26', nextShiftDate: '07/02/26' })]);
+    expect(violations[0].message).toContain('14.00 hrs worked needs 7.00 hrs rest');
+    expect(violations[0].message).toContain('only 6.00 hrs');
+  });
+});
+
+describe('assignment length', () => {
+  it('flags each day worked in a row past the 14-day limit', () => {
+    const entries = Array.from({ length: 16 }, (_, index) => equipmentEntry(`07/${String(index + 1).padStart(2, '0')}/26`, '0800', '1600'));
+    const violations = evaluateEquipmentCompliance(entries, 'UTC');
+
+    expect(violations.map(violation => violation.date)).toEqual(['07/15/26', '07/16/26']);
+    expect(violations[0]).toMatchObject({ rule: 'ASSIGNMENT_LENGTH', subject: 'Equipment', message: expect.stringContaining('Day 15 in a row') });
+  });
+
+  it('starts counting again after a day off', () => {
+    const entries = Array.from({ length: 16 }, (_, index) => equipmentEntry(`07/${String(index + 1).padStart(2, '0')}/26`, '0800', '1600'))
+      .filter(entry => entry.date !== '07/08/26');
+    expect(evaluateEquipmentCompliance(entries, 'UTC')).toEqual([]);
+  });
+
+  it('is counted per person', () => {
+    const entries = Array.from({ length: 15 }, (_, index) => ({
+      ...personnelEntry(`07/${String(index + 1).padStart(2, '0')}/26`, [{ type: 'WORK', start: '0800', stop: '1600' }]),
+      name: index % 2 === 0 ? 'Alex Doe' : 'Sam Roe'
+    }));
+    expect(evaluatePersonnelCompliance(entries, TIME_ZONES)).toEqual([]);
+  });
+});
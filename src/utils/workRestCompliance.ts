@@ -0,0 +1,272 @@
+// Work/Rest Compliance - checks personnel and equipment time histories against firefighting work/rest rules
+// Rules are evaluated per person (or per piece of equipment) across consecutive dates
+import type { FederalEquipmentEntry, FederalPersonnelEntry } from './engineTimeDB';
+import { loadAllFederalEquipmentEntries, loadFederalPersonnelHistory, getIncidentTimeZone } from './engineTimeDB';
+import type { TimePeriod } from './timePeriods';
+import { resolveTimePeriod, getDatedPeriods, getEntryPeriodList, UNPAID_PERIOD_TYPES } from './timePeriods';
+import { normalizeCrewName } from './crewRoster';
+
+// Work/rest limits
+export const COMPLIANCE_LIMITS = {
+  // Longest shift, in hours
+  MAX_SHIFT_HOURS: 16,
+  // Hours of work allowed per hour of rest (2:1 work-to-rest)
+  WORK_REST_RATIO: 2,
+  // Longest run of consecutive working days on an assignment
+  MAX_ASSIGNMENT_DAYS: 14
+} as const;
+
+// Rule that a violation breaks
+export type ComplianceRule = 'SHIFT_LENGTH' | 'WORK_REST' | 'ASSIGNMENT_LENGTH';
+
+// Compliance violation interface
+export interface ComplianceViolation {
+  rule: ComplianceRule;
+  // Person name, or 'Equipment'
+  subject: string;
+  // Date (MM/DD/YY) of the shift that breaks the rule
+  date: string;
+  // Date of the next shift, for a work/rest violation (the shift that started too soon)
+  nextShiftDate?: string;
+  message: string;
+}
+
+// Subject used for equipment violations
+export const EQUIPMENT_SUBJECT = 'Equipment';
+
+// Incident time zone of each ticket, by ticket ID (entries of tickets not listed use the device's zone)
+export type TicketTimeZones = Map<number, string>;
+
+// A resolved time period of a shift, and whether it is paid (meals are on shift but unpaid)
+interface ShiftPeriod extends TimePeriod {
+  paid: boolean;
+}
+
+// One working day of a subject, with its time periods combined
+interface WorkDay {
+  date: string;
+  // Days since the epoch, for spotting consecutive dates
+  dayNumber: number;
+  // Paid hours, the work side of work/rest
+  hours: number;
+  // Hours on shift, first start to last stop (unpaid periods included)
+  shiftHours: number;
+  // First start and last stop, as epoch milliseconds
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Converts an MM/DD/YY date to days since the epoch
+ */
+function toDayNumber(date: string): number | null {
+  const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
+  if (!match) return null;
+  const [, month, day, year] = match;
+  return Date.UTC(2000 + parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10)) / 86400000;
+}
+
+/**
+ * Adds the periods of an entry to its shift date, each resolved on the date it starts in the incident's time zone
+ * Periods with a missing start or stop are ignored
+ */
+function addResolvedPeriods(
+  periodsByDate: Map<string, ShiftPeriod[]>,
+  entry: FederalEquipmentEntry | FederalPersonnelEntry,
+  timeZone?: string
+): void {
+  const resolved = getDatedPeriods(entry.date, getEntryPeriodList(entry)).flatMap(period => {
+    const time = resolveTimePeriod(period.date, period.start, period.stop, timeZone);
+    return time ? [{ ...time, paid: !UNPAID_PERIOD_TYPES.includes(period.type) }] : [];
+  });
+  periodsByDate.set(entry.date, [...(periodsByDate.get(entry.date) || []), ...resolved]);
+}
+
+/**
+ * Builds the working days of one subject from its resolved periods
+ * Lengths are measured between real instants, so a shift or rest across a DST change is an hour longer or shorter
+ * than the wall-clock difference
+ */
+function buildWorkDays(periodsByDate: Map<string, ShiftPeriod[]>): WorkDay[] {
+  const days: WorkDay[] = [];
+
+  periodsByDate.forEach((periods, date) => {
+    const dayNumber = toDayNumber(date);
+    if (dayNumber === null) return;
+
+    let millisecondsWorked = 0;
+    let startTime = Infinity;
+    let endTime = -Infinity;
+
+    periods.forEach(({ start, end, paid }) => {
+      if (paid) {
+        millisecondsWorked += end.getTime() - start.getTime();
+      }
+      startTime = Math.min(startTime, start.getTime());
+      endTime = Math.max(endTime, end.getTime());
+    });
+
+    if (millisecondsWorked > 0) {
+      days.push({ date, dayNumber, hours: millisecondsWorked / 3600000, shiftHours: (endTime - startTime) / 3600000, startTime, endTime });
+    }
+  });
+
+  return days.sort((a, b) => a.dayNumber - b.dayNumber);
+}
+
+/**
+ * Checks the working days of one subject against every rule
+ */
+function evaluateWorkDays(subject: string, days: WorkDay[]): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  let consecutiveDays = 0;
+
+  days.forEach((day, index) => {
+    // 16-hour shift limit, on the whole shift (meal breaks count toward it)
+    if (day.shiftHours > COMPLIANCE_LIMITS.MAX_SHIFT_HOURS) {
+      violations.push({
+        rule: 'SHIFT_LENGTH',
+        subject,
+        date: day.date,
+        message: `${day.shiftHours.toFixed(2)} hr shift exceeds the ${COMPLIANCE_LIMITS.MAX_SHIFT_HOURS}-hour shift limit`
+      });
+    }
+
+    // 2:1 work/rest - the rest before the next shift must be at least half the hours worked
+    const next = days[index + 1];
+    if (next && next.dayNumber === day.dayNumber + 1) {
+      const restHours = (next.startTime - day.endTime) / 3600000;
+      const requiredRest = day.hours / COMPLIANCE_LIMITS.WORK_REST_RATIO;
+      if (restHours < requiredRest) {
+        violations.push({
+          rule: 'WORK_REST',
+          subject,
+          date: day.date,
+          nextShiftDate: next.date,
+          message: `${day.hours.toFixed(2)} hrs worked needs ${requiredRest.toFixed(2)} hrs rest (2:1 work/rest), but only ${Math.max(0, restHours).toFixed(2)} hrs before the ${next.date} shift`
+        });
+      }
+    }
+
+    // 14-day assignment limit
+    const previous = days[index - 1];
+    consecutiveDays = previous && previous.dayNumber === day.dayNumber - 1 ? consecutiveDays + 1 : 1;
+    if (consecutiveDays > COMPLIANCE_LIMITS.MAX_ASSIGNMENT_DAYS) {
+      violations.push({
+        rule: 'ASSIGNMENT_LENGTH',
+        subject,
+        date: day.date,
+        message: `Day ${consecutiveDays} in a row exceeds the ${COMPLIANCE_LIMITS.MAX_ASSIGNMENT_DAYS}-day assignment limit`
+      });
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * Evaluates personnel entries across dates, per person
+ * Each entry's times are in the incident time zone of its ticket
+ */
+export function evaluatePersonnelCompliance(
+  entries: FederalPersonnelEntry[],
+  timeZones: TicketTimeZones = new Map()
+): ComplianceViolation[] {
+  const people = new Map<string, { name: string; periodsByDate: Map<string, ShiftPeriod[]> }>();
+
+  entries.forEach(entry => {
+    const key = normalizeCrewName(entry.name || '');
+    if (!key || !entry.date) return;
+    if (!people.has(key)) {
+      people.set(key, { name: entry.name.trim(), periodsByDate: new Map() });
+    }
+    const timeZone = entry.ticketId !== undefined ? timeZones.get(entry.ticketId) : undefined;
+    addResolvedPeriods(people.get(key)!.periodsByDate, entry, timeZone);
+  });
+
+  return Array.from(people.values()).flatMap(({ name, periodsByDate }) =>
+    evaluateWorkDays(name, buildWorkDays(periodsByDate))
+  );
+}
+
+/**
+ * Evaluates equipment entries across dates (one piece of equipment per ticket), in the incident's time zone
+ */
+export function evaluateEquipmentCompliance(entries: FederalEquipmentEntry[], timeZone?: string): ComplianceViolation[] {
+  const periodsByDate = new Map<string, ShiftPeriod[]>();
+
+  entries.forEach(entry => {
+    if (!entry.date) return;
+    // Falls back to the legacy start/stop fields
+    addResolvedPeriods(periodsByDate, entry, timeZone);
+  });
+
+  return evaluateWorkDays(EQUIPMENT_SUBJECT, buildWorkDays(periodsByDate));
+}
+
+/**
+ * Replaces the stored entries of the dates being edited with the in-memory entries, so unsaved edits are evaluated
+ * Only the stored entries of the given ticket are replaced (personnel history spans every ticket)
+ */
+export function mergeEntryHistory<T extends { date: string; ticketId?: number }>(
+  stored: T[],
+  current: T[],
+  ticketId: number | null
+): T[] {
+  const currentDates = new Set(current.map(entry => entry.date));
+  return [
+    ...stored.filter(entry => entry.ticketId !== ticketId || !currentDates.has(entry.date)),
+    ...current
+  ];
+}
+
+/**
+ * Evaluates the stored history of the ticket together with the entries being edited
+ * Personnel are checked across every ticket, since a person can work on more than one; times are resolved in the
+ * incident time zone of each entry's ticket
+ */
+export async function evaluateFederalCompliance(
+  personnelEntries: FederalPersonnelEntry[],
+  equipmentEntries: FederalEquipmentEntry[],
+  ticketId: number
+): Promise<ComplianceViolation[]> {
+  const [personnelHistory, equipmentHistory] = await Promise.all([
+    loadFederalPersonnelHistory(),
+    loadAllFederalEquipmentEntries(ticketId)
+  ]);
+  // Entries being edited belong to this ticket even before they are saved
+  const currentPersonnel = personnelEntries.map(entry => ({ ...entry, ticketId: entry.ticketId ?? ticketId }));
+  const personnel = mergeEntryHistory(personnelHistory, currentPersonnel, ticketId);
+
+  const ticketIds = new Set([ticketId, ...personnel.map(entry => entry.ticketId).filter((id): id is number => id !== undefined)]);
+  const timeZones: TicketTimeZones = new Map(
+    await Promise.all(Array.from(ticketIds).map(async (id): Promise<[number, string]> => [id, await getIncidentTimeZone(id)]))
+  );
+
+  return [
+    ...evaluatePersonnelCompliance(personnel, timeZones),
+    ...evaluateEquipmentCompliance(mergeEntryHistory(equipmentHistory, equipmentEntries, ticketId), timeZones.get(ticketId))
+  ];
+}
+
+/**
+ * Checks whether a violation involves a date (its own shift, or the next shift of a work/rest violation)
+ */
+export function violationInvolvesDate(violation: ComplianceViolation, date: string): boolean {
+  return violation.date === date || violation.nextShiftDate === date;
+}
+
+/**
+ * Gets the violations of one subject that involve one date
+ */
+export function getViolationsFor(violations: ComplianceViolation[], subject: string, date: string): ComplianceViolation[] {
+  const key = normalizeCrewName(subject);
+  return violations.filter(violation => violationInvolvesDate(violation, date) && normalizeCrewName(violation.subject) === key);
+}
+
+/**
+ * Formats a violation for a list ("Name (MM/DD/YY): message")
+ */
+export function formatComplianceViolation(violation: ComplianceViolation): string {
+  return `${violation.subject} (${violation.date}): ${violation.message}`;
+}